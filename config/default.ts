@@ -0,0 +1,25 @@
+/**
+ * Default configuration, the base every environment builds on
+ */
+
+import { LucentIQConfigLayer } from '../src/core/types';
+
+const config: LucentIQConfigLayer = {
+  flareNetworkEndpoint: 'https://flare-api.flare.network/ext/C/rpc',
+  apiKey: '',
+  dataSourceConfigurations: [],
+  governanceSettings: {
+    incentiveParameters: {
+      baseRewardAmount: 100,
+      earlyPredictionBonus: 0.5,
+      difficultyMultiplier: 2.0,
+      baseSlashingAmount: 50,
+      maxPredictionTimespan: 30 * 24 * 60 * 60 * 1000
+    }
+  },
+  historyWindow: 6 * 60 * 60 * 1000,
+  protocolCheckInterval: 60 * 1000,
+  logLevel: 'info'
+};
+
+export default config;
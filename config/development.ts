@@ -0,0 +1,12 @@
+/**
+ * Development: the Coston2 testnet with verbose logging
+ */
+
+import { LucentIQConfigLayer } from '../src/core/types';
+
+const config: LucentIQConfigLayer = {
+  flareNetworkEndpoint: 'https://coston2-api.flare.network/ext/C/rpc',
+  logLevel: 'debug'
+};
+
+export default config;
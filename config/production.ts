@@ -0,0 +1,18 @@
+/**
+ * Production: Flare mainnet behind an API key, failing fast without FTSO
+ */
+
+import { LucentIQConfigLayer } from '../src/core/types';
+
+const config: LucentIQConfigLayer = {
+  apiKey: '${env:FLARE_API_KEY}',
+  flareConfig: {
+    healthConfig: {
+      requiredServices: ['ftso']
+    },
+    drainTimeout: 30 * 1000
+  },
+  logLevel: 'info'
+};
+
+export default config;
@@ -0,0 +1,23 @@
+/**
+ * Test: the seeded baseline simulation scenario, without background protocol checks
+ */
+
+import { LucentIQConfigLayer } from '../src/core/types';
+
+const config: LucentIQConfigLayer = {
+  flareNetworkEndpoint: 'http://127.0.0.1:9650/ext/C/rpc',
+  flareConfig: {
+    backend: {
+      mode: 'simulation',
+      scenario: 'tests/e2e/scenarios/baseline.json'
+    },
+    ftsoConfig: {
+      feeds: ['BTC', 'ETH', 'XRP', 'FLR']
+    }
+  },
+  historyWindow: 30 * 60 * 1000,
+  protocolCheckInterval: 0,
+  logLevel: 'warn'
+};
+
+export default config;
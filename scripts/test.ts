@@ -0,0 +1,46 @@
+/**
+ * Run the test suite
+ *
+ * Finds every *.test.ts file under tests/ (or under the directories and files
+ * given as arguments) and runs them once with the Node test runner, compiling
+ * TypeScript on the fly. Type errors are left to `npm run typecheck`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+const ROOT = path.resolve(__dirname, '..');
+const TEST_FILE = /\.test\.ts$/;
+
+function findTestFiles(target: string): string[] {
+  if (!fs.statSync(target).isDirectory()) {
+    return TEST_FILE.test(target) ? [target] : [];
+  }
+  return fs.readdirSync(target)
+    .sort()
+    .map(name => findTestFiles(path.join(target, name)))
+    .reduce((files, found) => files.concat(found), [] as string[]);
+}
+
+const targets = process.argv.slice(2);
+const files = (targets.length > 0 ? targets : ['tests'])
+  .map(target => findTestFiles(path.resolve(ROOT, target)))
+  .reduce((all, found) => all.concat(found), [] as string[]);
+
+if (files.length === 0) {
+  console.error('No test files found');
+  process.exit(1);
+}
+
+const result = spawnSync(process.execPath, ['--test', '--require', 'ts-node/register', ...files], {
+  cwd: ROOT,
+  stdio: 'inherit',
+  env: {
+    ...process.env,
+    TS_NODE_PROJECT: path.join(ROOT, 'tsconfig.json'),
+    TS_NODE_TRANSPILE_ONLY: 'true'
+  }
+});
+
+process.exit(result.status === null ? 1 : result.status);
@@ -0,0 +1,684 @@
+/**
+ * Layered configuration loading
+ *
+ * The configuration is built from, in increasing precedence:
+ *   1. config/default.ts
+ *   2. config/<environment>.ts, the environment being NODE_ENV (development by default)
+ *   3. environment variables (ENV_VARIABLES)
+ *   4. overrides passed to loadConfig()
+ *
+ * Objects are merged key by key; arrays and other values replace what lower
+ * layers set. String values may be secret references, `${env:NAME}` or
+ * `${file:/path/to/secret}`, resolved after merging so secrets need not be
+ * written into configuration files. The result is validated as a whole and
+ * every problem is reported with the path of the offending setting.
+ */
+
+import * as fs from 'fs';
+import {
+  ValidationIssue,
+  DataSourceType,
+  LucentIQConfig,
+  LucentIQConfigLayer
+} from './types';
+import { FlareConnectionConfig, SignerConfig } from '../flare-connect/types';
+import { isSigner } from '../flare-connect/signers';
+import { ValidationError } from '../utils/errors';
+import defaultConfig from '../../config/default';
+import developmentConfig from '../../config/development';
+import productionConfig from '../../config/production';
+import testConfig from '../../config/test';
+
+export interface LoadConfigOptions {
+  // Environment whose layer is applied; NODE_ENV or development by default
+  environment?: string;
+  // Variables read for the environment layer and secret references; process.env by default
+  env?: Record<string, string | undefined>;
+  overrides?: LucentIQConfigLayer;
+}
+
+type EnvValueType = 'string' | 'number' | 'list';
+
+/**
+ * Environment variables and the settings they set
+ */
+export const ENV_VARIABLES: Record<string, { path: string; type: EnvValueType }> = {
+  FLARE_NETWORK_ENDPOINT: { path: 'flareNetworkEndpoint', type: 'string' },
+  FLARE_API_KEY: { path: 'apiKey', type: 'string' },
+  FLARE_RPC_ENDPOINTS: { path: 'flareConfig.endpoints', type: 'list' },
+  FLARE_BACKEND: { path: 'flareConfig.backend.mode', type: 'string' },
+  FLARE_SIMULATION_SCENARIO: { path: 'flareConfig.backend.scenario', type: 'string' },
+  FLARE_RECORDING_FILE: { path: 'flareConfig.backend.recordingFile', type: 'string' },
+  FTSO_FEEDS: { path: 'flareConfig.ftsoConfig.feeds', type: 'list' },
+  FTSO_PRICE_STORE_DIRECTORY: { path: 'flareConfig.ftsoConfig.priceStoreDirectory', type: 'string' },
+  FDC_VERIFIER_NODES: { path: 'flareConfig.fdcConfig.verifierNodes', type: 'list' },
+  FDC_DA_LAYER_URL: { path: 'flareConfig.fdcConfig.daLayerUrl', type: 'string' },
+  STATE_CONNECTOR_CALLBACK_SECRET: { path: 'flareConfig.stateConnectorConfig.callbackSecret', type: 'string' },
+  LUCENTIQ_HISTORY_WINDOW: { path: 'historyWindow', type: 'number' },
+  LUCENTIQ_PROTOCOL_CHECK_INTERVAL: { path: 'protocolCheckInterval', type: 'number' },
+  LOG_LEVEL: { path: 'logLevel', type: 'string' }
+};
+
+const ENVIRONMENT_LAYERS: Record<string, LucentIQConfigLayer> = {
+  development: developmentConfig,
+  production: productionConfig,
+  test: testConfig
+};
+
+const DEFAULT_ENVIRONMENT = 'development';
+
+const SECRET_REFERENCE = /^\$\{(env|file):([^}]+)\}$/;
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+const BACKEND_MODES = ['network', 'simulation', 'record', 'replay'];
+const FLARE_SERVICES = ['ftso', 'fdc', 'stateConnector'];
+
+const TOP_LEVEL_KEYS = [
+  'flareNetworkEndpoint',
+  'apiKey',
+  'flareConfig',
+  'dataSourceConfigurations',
+  'governanceSettings',
+  'historyWindow',
+  'protocolCheckInterval',
+  'logLevel'
+];
+
+// Set from flareNetworkEndpoint, apiKey and logLevel instead
+const DERIVED_FLARE_KEYS = ['endpoint', 'apiKey', 'logLevel'];
+
+const FLARE_KEYS = [
+  'endpoints',
+  'quorum',
+  'ftsoConfig',
+  'fdcConfig',
+  'stateConnectorConfig',
+  'epochConfig',
+  'healthConfig',
+  'backend',
+  'drainTimeout'
+];
+
+// Known settings of each flareConfig section
+const FLARE_SECTION_KEYS: Record<string, string[]> = {
+  quorum: ['enabled', 'size', 'threshold', 'blockLag'],
+  ftsoConfig: [
+    'dataProviderMode',
+    'providerIdentity',
+    'signer',
+    'votePower',
+    'minSubmissionInterval',
+    'ftsoV2Address',
+    'contractRegistryAddress',
+    'feeds',
+    'requestTimeout',
+    'providerNames',
+    'providerVotePower',
+    'providerScoring',
+    'blockPollInterval',
+    'priceStoreDirectory',
+    'rewards'
+  ],
+  fdcConfig: [
+    'maxConcurrentRequests',
+    'defaultTimeout',
+    'verifierNodes',
+    'signer',
+    'daLayerUrl',
+    'contractRegistryAddress',
+    'pollInterval'
+  ],
+  stateConnectorConfig: [
+    'attestationThreshold',
+    'maxQuerySize',
+    'maxConcurrentRequests',
+    'responseTimeout',
+    'trustedSigners',
+    'chainEndpoints',
+    'spvEndpoints',
+    'spvCheckpoints',
+    'minConfirmations',
+    'queryPollInterval',
+    'queryTimeout',
+    'callbackSecret',
+    'callbackMaxAttempts',
+    'callbackRetryDelay'
+  ],
+  epochConfig: ['firstEpochStartTimestamp', 'epochDuration', 'revealDeadlineOffset'],
+  healthConfig: ['checkInterval', 'reconnectBaseDelay', 'reconnectMaxDelay', 'failureThreshold', 'circuitResetTimeout', 'requiredServices'],
+  backend: ['mode', 'scenario', 'seed', 'recordingFile']
+};
+
+const INCENTIVE_PARAMETERS = [
+  'baseRewardAmount',
+  'earlyPredictionBonus',
+  'difficultyMultiplier',
+  'baseSlashingAmount',
+  'maxPredictionTimespan'
+];
+
+type NumberRule = 'milliseconds' | 'delay' | 'positive' | 'nonNegative' | 'count' | 'nonNegativeCount' | 'fraction';
+
+const NUMBER_RULES: Record<NumberRule, { test: (value: unknown) => boolean; message: string }> = {
+  milliseconds: { test: isPositive, message: 'must be a positive number of milliseconds' },
+  delay: { test: isNonNegative, message: 'must be a non-negative number of milliseconds' },
+  positive: { test: isPositive, message: 'must be a positive number' },
+  nonNegative: { test: isNonNegative, message: 'must be a non-negative number' },
+  count: { test: value => isPositive(value) && Number.isInteger(value), message: 'must be a positive integer' },
+  nonNegativeCount: { test: value => isNonNegative(value) && Number.isInteger(value), message: 'must be a non-negative integer' },
+  fraction: { test: value => isPositive(value) && (value as number) <= 1, message: 'must be a number above 0 and at most 1' }
+};
+
+// Numeric settings of flareConfig, keyed by the path of the object holding them
+const FLARE_NUMBER_SETTINGS: Record<string, Record<string, NumberRule>> = {
+  flareConfig: { drainTimeout: 'delay' },
+  'flareConfig.quorum': { size: 'count', threshold: 'count', blockLag: 'nonNegativeCount' },
+  'flareConfig.ftsoConfig': {
+    votePower: 'nonNegative',
+    minSubmissionInterval: 'milliseconds',
+    requestTimeout: 'milliseconds',
+    blockPollInterval: 'milliseconds'
+  },
+  'flareConfig.ftsoConfig.providerScoring': { windowSize: 'count', halfLife: 'positive', backfillEpochs: 'nonNegativeCount' },
+  'flareConfig.ftsoConfig.providerScoring.weights': { reveal: 'nonNegative', primaryBand: 'nonNegative', accuracy: 'nonNegative' },
+  'flareConfig.ftsoConfig.rewards': {
+    primaryBandShare: 'fraction',
+    secondaryBandWidth: 'positive',
+    votingRoundsPerRewardEpoch: 'count',
+    firstRewardEpochVotingRound: 'nonNegativeCount',
+    claimTimeout: 'milliseconds'
+  },
+  'flareConfig.fdcConfig': { maxConcurrentRequests: 'count', defaultTimeout: 'milliseconds', pollInterval: 'milliseconds' },
+  'flareConfig.stateConnectorConfig': {
+    attestationThreshold: 'positive',
+    maxQuerySize: 'count',
+    maxConcurrentRequests: 'count',
+    responseTimeout: 'milliseconds',
+    minConfirmations: 'count',
+    queryPollInterval: 'milliseconds',
+    queryTimeout: 'milliseconds',
+    callbackMaxAttempts: 'count',
+    callbackRetryDelay: 'delay'
+  },
+  'flareConfig.epochConfig': { firstEpochStartTimestamp: 'nonNegative', epochDuration: 'milliseconds', revealDeadlineOffset: 'delay' },
+  'flareConfig.healthConfig': {
+    checkInterval: 'milliseconds',
+    reconnectBaseDelay: 'milliseconds',
+    reconnectMaxDelay: 'milliseconds',
+    failureThreshold: 'count',
+    circuitResetTimeout: 'milliseconds'
+  }
+};
+
+/**
+ * Load, merge, resolve and validate the configuration
+ * @throws ValidationError listing every invalid setting
+ */
+export function loadConfig(options: LoadConfigOptions = {}): LucentIQConfig {
+  const env = options.env || process.env;
+  const environment = options.environment || env.NODE_ENV || DEFAULT_ENVIRONMENT;
+  const environmentLayer = ENVIRONMENT_LAYERS[environment];
+  if (!environmentLayer) {
+    throw new ValidationError(
+      `Unknown environment ${environment}; expected one of ${Object.keys(ENVIRONMENT_LAYERS).join(', ')}`,
+      { context: { field: 'environment' } }
+    );
+  }
+
+  const merged = mergeConfig(defaultConfig, environmentLayer, getEnvironmentLayer(env), options.overrides || {});
+  return validateConfig(resolveSecrets(merged, env));
+}
+
+/**
+ * Merge configuration layers, later layers taking precedence; undefined values do not override
+ */
+export function mergeConfig(...layers: LucentIQConfigLayer[]): LucentIQConfigLayer {
+  return layers.reduce((merged, layer) => mergeValues(merged, layer), {} as LucentIQConfigLayer);
+}
+
+/**
+ * Build the configuration layer set by environment variables
+ * @throws ValidationError naming the variable if a value cannot be parsed
+ */
+export function getEnvironmentLayer(env: Record<string, string | undefined>): LucentIQConfigLayer {
+  const layer: Record<string, unknown> = {};
+
+  Object.keys(ENV_VARIABLES).forEach(name => {
+    const raw = env[name];
+    if (raw === undefined || raw.trim() === '') {
+      return;
+    }
+
+    const { path, type } = ENV_VARIABLES[name];
+    let value: unknown = raw.trim();
+    if (type === 'number') {
+      value = Number(raw);
+      if (!isFinite(value as number)) {
+        throw new ValidationError(`Environment variable ${name} must be a number, got "${raw}"`, { context: { field: name } });
+      }
+    } else if (type === 'list') {
+      const items = raw.split(',').map(item => item.trim()).filter(item => item.length > 0);
+      value = path === 'flareConfig.endpoints' ? items.map(url => ({ url })) : items;
+    }
+    setPath(layer, path, value);
+  });
+
+  return layer as LucentIQConfigLayer;
+}
+
+/**
+ * Replace `${env:NAME}` and `${file:PATH}` references with the values they point to
+ * @throws ValidationError listing every reference that cannot be resolved
+ */
+export function resolveSecrets<T>(config: T, env: Record<string, string | undefined> = process.env): T {
+  const issues: ValidationIssue[] = [];
+
+  const resolve = (value: unknown, path: string): unknown => {
+    if (typeof value === 'string') {
+      const match = SECRET_REFERENCE.exec(value);
+      if (!match) {
+        return value;
+      }
+      const [, kind, target] = match;
+      if (kind === 'env') {
+        if (env[target] === undefined) {
+          issues.push({ path, message: `environment variable ${target} is not set` });
+        }
+        return env[target];
+      }
+      try {
+        return fs.readFileSync(target, 'utf8').trim();
+      } catch (error:any) {
+        issues.push({ path, message: `secret file ${target} cannot be read (${error.code || error.message})` });
+        return undefined;
+      }
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => resolve(item, `${path}[${index}]`));
+    }
+    if (isPlainObject(value)) {
+      const resolved: Record<string, unknown> = {};
+      Object.keys(value).forEach(key => {
+        resolved[key] = resolve(value[key], joinPath(path, key));
+      });
+      return resolved;
+    }
+    return value;
+  };
+
+  const resolved = resolve(config, '') as T;
+  if (issues.length > 0) {
+    throw configError('Unresolved secret references', issues);
+  }
+  return resolved;
+}
+
+/**
+ * Check a merged configuration
+ * @throws ValidationError listing every invalid setting; `context.field` is the first one
+ */
+export function validateConfig(config: unknown): LucentIQConfig {
+  const issues: ValidationIssue[] = [];
+  const check = (condition: boolean, path: string, message: string) => {
+    if (!condition) {
+      issues.push({ path, message });
+    }
+  };
+
+  if (!isPlainObject(config)) {
+    throw configError('Invalid configuration', [{ path: '', message: 'must be an object' }]);
+  }
+
+  checkKnownKeys(config, TOP_LEVEL_KEYS, '', issues);
+  check(isUrl(config.flareNetworkEndpoint), 'flareNetworkEndpoint', 'must be an http(s) URL');
+  check(typeof config.apiKey === 'string', 'apiKey', 'must be a string (empty for endpoints without a key)');
+  check(config.logLevel === undefined || LOG_LEVELS.includes(config.logLevel as string), 'logLevel',
+    `must be one of ${LOG_LEVELS.join(', ')}`);
+  check(config.historyWindow === undefined || isPositive(config.historyWindow), 'historyWindow', 'must be a positive number of milliseconds');
+  check(config.protocolCheckInterval === undefined || isNonNegative(config.protocolCheckInterval), 'protocolCheckInterval',
+    'must be a non-negative number of milliseconds');
+
+  validateDataSources(config.dataSourceConfigurations, issues);
+  validateGovernance(config.governanceSettings, issues);
+  if (config.flareConfig !== undefined) {
+    validateFlareConfig(config.flareConfig, issues);
+  }
+
+  if (issues.length > 0) {
+    throw configError('Invalid configuration', issues);
+  }
+  return config as unknown as LucentIQConfig;
+}
+
+/**
+ * Get the Flare Network connector configuration of a LucentIQ configuration
+ */
+export function getFlareConnectionConfig(config: LucentIQConfig): FlareConnectionConfig {
+  return {
+    ...config.flareConfig,
+    endpoint: config.flareNetworkEndpoint,
+    apiKey: config.apiKey,
+    logLevel: config.logLevel || 'info'
+  };
+}
+
+function validateDataSources(sources: unknown, issues: ValidationIssue[]): void {
+  if (sources === undefined) {
+    return;
+  }
+  if (!Array.isArray(sources)) {
+    issues.push({ path: 'dataSourceConfigurations', message: 'must be an array' });
+    return;
+  }
+
+  const types = Object.keys(DataSourceType).map(key => (DataSourceType as Record<string, string>)[key]);
+  const ids = new Set<string>();
+  sources.forEach((source, index) => {
+    const path = `dataSourceConfigurations[${index}]`;
+    if (!isPlainObject(source)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (typeof source.id !== 'string' || source.id === '') {
+      issues.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+    } else if (ids.has(source.id)) {
+      issues.push({ path: `${path}.id`, message: `duplicates data source ${source.id}` });
+    } else {
+      ids.add(source.id);
+    }
+    if (!types.includes(source.type as string)) {
+      issues.push({ path: `${path}.type`, message: `must be one of ${types.join(', ')}` });
+    }
+    if (source.endpoint !== undefined && !isUrl(source.endpoint)) {
+      issues.push({ path: `${path}.endpoint`, message: 'must be an http(s) URL' });
+    }
+    if (source.apiKey !== undefined && typeof source.apiKey !== 'string') {
+      issues.push({ path: `${path}.apiKey`, message: 'must be a string' });
+    }
+    if (source.refreshInterval !== undefined && !isPositive(source.refreshInterval)) {
+      issues.push({ path: `${path}.refreshInterval`, message: 'must be a positive number of milliseconds' });
+    }
+    if (source.weight !== undefined && !isPositive(source.weight)) {
+      issues.push({ path: `${path}.weight`, message: 'must be a positive number' });
+    }
+  });
+}
+
+function validateGovernance(settings: unknown, issues: ValidationIssue[]): void {
+  if (settings === undefined) {
+    return;
+  }
+  if (!isPlainObject(settings) || !isPlainObject(settings.incentiveParameters)) {
+    issues.push({ path: 'governanceSettings.incentiveParameters', message: 'must be an object' });
+    return;
+  }
+
+  const parameters = settings.incentiveParameters;
+  INCENTIVE_PARAMETERS.forEach(name => {
+    if (name === 'maxPredictionTimespan' ? !isPositive(parameters[name]) : !isNonNegative(parameters[name])) {
+      issues.push({
+        path: `governanceSettings.incentiveParameters.${name}`,
+        message: name === 'maxPredictionTimespan' ? 'must be a positive number of milliseconds' : 'must be a non-negative number'
+      });
+    }
+  });
+}
+
+function validateFlareConfig(flare: unknown, issues: ValidationIssue[]): void {
+  if (!isPlainObject(flare)) {
+    issues.push({ path: 'flareConfig', message: 'must be an object' });
+    return;
+  }
+
+  DERIVED_FLARE_KEYS.filter(key => flare[key] !== undefined).forEach(key => issues.push({
+    path: `flareConfig.${key}`,
+    message: 'is set from the top-level settings; remove it here'
+  }));
+  checkKnownKeys(flare, FLARE_KEYS.concat(DERIVED_FLARE_KEYS), 'flareConfig', issues);
+  Object.keys(FLARE_SECTION_KEYS)
+    .filter(section => isPlainObject(flare[section]))
+    .forEach(section => checkKnownKeys(flare[section], FLARE_SECTION_KEYS[section], `flareConfig.${section}`, issues));
+  Object.keys(FLARE_NUMBER_SETTINGS).forEach(path => {
+    const settings = getPath(flare, path.split('.').slice(1));
+    const rules = FLARE_NUMBER_SETTINGS[path];
+    Object.keys(rules)
+      .filter(name => settings[name] !== undefined && !NUMBER_RULES[rules[name]].test(settings[name]))
+      .forEach(name => issues.push({ path: `${path}.${name}`, message: NUMBER_RULES[rules[name]].message }));
+  });
+
+  if (isPlainObject(flare.quorum)) {
+    const { enabled, size, threshold } = flare.quorum;
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      issues.push({ path: 'flareConfig.quorum.enabled', message: 'must be a boolean' });
+    }
+    if (isPositive(size) && size < 2) {
+      issues.push({ path: 'flareConfig.quorum.size', message: 'must be at least 2 endpoints' });
+    }
+    if (isPositive(threshold) && (threshold < 2 || (isPositive(size) && threshold <= size / 2))) {
+      issues.push({ path: 'flareConfig.quorum.threshold', message: 'must be at least 2 and more than half of the quorum size' });
+    } else if (isPositive(threshold) && isPositive(size) && threshold > size) {
+      issues.push({ path: 'flareConfig.quorum.threshold', message: 'must not exceed the quorum size' });
+    }
+  } else if (flare.quorum !== undefined) {
+    issues.push({ path: 'flareConfig.quorum', message: 'must be an object' });
+  }
+
+  if (isPlainObject(flare.epochConfig)) {
+    const { epochDuration, revealDeadlineOffset } = flare.epochConfig;
+    if (isPositive(epochDuration) && isNonNegative(revealDeadlineOffset) && revealDeadlineOffset > epochDuration) {
+      issues.push({ path: 'flareConfig.epochConfig.revealDeadlineOffset', message: 'must lie within an epoch' });
+    }
+  }
+
+  if (flare.endpoints !== undefined) {
+    if (!Array.isArray(flare.endpoints)) {
+      issues.push({ path: 'flareConfig.endpoints', message: 'must be an array' });
+    } else {
+      flare.endpoints.forEach((endpoint, index) => {
+        if (!isPlainObject(endpoint) || !isUrl(endpoint.url)) {
+          issues.push({ path: `flareConfig.endpoints[${index}].url`, message: 'must be an http(s) URL' });
+        } else if (endpoint.priority !== undefined && !(typeof endpoint.priority === 'number' && isFinite(endpoint.priority))) {
+          issues.push({ path: `flareConfig.endpoints[${index}].priority`, message: 'must be a number' });
+        }
+      });
+    }
+  }
+
+  if (isPlainObject(flare.backend)) {
+    const mode = flare.backend.mode;
+    if (!BACKEND_MODES.includes(mode as string)) {
+      issues.push({ path: 'flareConfig.backend.mode', message: `must be one of ${BACKEND_MODES.join(', ')}` });
+    } else if ((mode === 'record' || mode === 'replay') && typeof flare.backend.recordingFile !== 'string') {
+      issues.push({ path: 'flareConfig.backend.recordingFile', message: `is required in ${mode} mode` });
+    }
+  } else if (flare.backend !== undefined) {
+    issues.push({ path: 'flareConfig.backend', message: 'must be an object' });
+  }
+
+  if (isPlainObject(flare.healthConfig) && flare.healthConfig.requiredServices !== undefined) {
+    const required = flare.healthConfig.requiredServices;
+    if (!Array.isArray(required) || required.some(service => !FLARE_SERVICES.includes(service))) {
+      issues.push({ path: 'flareConfig.healthConfig.requiredServices', message: `must list services of ${FLARE_SERVICES.join(', ')}` });
+    }
+  }
+
+  if (isPlainObject(flare.ftsoConfig)) {
+    const ftso = flare.ftsoConfig;
+    if (ftso.feeds !== undefined && !isStringArray(ftso.feeds)) {
+      issues.push({ path: 'flareConfig.ftsoConfig.feeds', message: 'must be an array of feed names' });
+    }
+    if (ftso.signer !== undefined) {
+      validateSignerConfig(ftso.signer, 'flareConfig.ftsoConfig.signer', issues);
+    }
+    if (isPlainObject(ftso.providerVotePower)) {
+      Object.keys(ftso.providerVotePower)
+        .filter(provider => !isNonNegative(ftso.providerVotePower[provider]))
+        .forEach(provider => issues.push({ path: `flareConfig.ftsoConfig.providerVotePower.${provider}`, message: 'must be a non-negative number' }));
+    }
+    if (isPlainObject(ftso.rewards) && ftso.rewards.rewardPerFeedRound !== undefined &&
+      !/^[0-9]+$/.test(String(ftso.rewards.rewardPerFeedRound))) {
+      issues.push({ path: 'flareConfig.ftsoConfig.rewards.rewardPerFeedRound', message: 'must be a non-negative integer amount in wei' });
+    }
+  }
+
+  if (isPlainObject(flare.fdcConfig)) {
+    const fdc = flare.fdcConfig;
+    if (fdc.verifierNodes !== undefined && (!Array.isArray(fdc.verifierNodes) || !fdc.verifierNodes.every(isUrl))) {
+      issues.push({ path: 'flareConfig.fdcConfig.verifierNodes', message: 'must be an array of URLs' });
+    }
+    if (fdc.daLayerUrl !== undefined && !isUrl(fdc.daLayerUrl)) {
+      issues.push({ path: 'flareConfig.fdcConfig.daLayerUrl', message: 'must be an http(s) URL' });
+    }
+    if (fdc.signer !== undefined) {
+      validateSignerConfig(fdc.signer, 'flareConfig.fdcConfig.signer', issues);
+    }
+  }
+
+  if (isPlainObject(flare.stateConnectorConfig)) {
+    const stateConnector = flare.stateConnectorConfig;
+    if (stateConnector.trustedSigners !== undefined && (!Array.isArray(stateConnector.trustedSigners) ||
+      stateConnector.trustedSigners.some(signer => !isPlainObject(signer) || !isAddress(signer.address)))) {
+      issues.push({ path: 'flareConfig.stateConnectorConfig.trustedSigners', message: 'must be an array of signers with 0x addresses' });
+    }
+    if (stateConnector.callbackSecret !== undefined && typeof stateConnector.callbackSecret !== 'string') {
+      issues.push({ path: 'flareConfig.stateConnectorConfig.callbackSecret', message: 'must be a string' });
+    }
+    if (isPlainObject(stateConnector.spvEndpoints)) {
+      Object.keys(stateConnector.spvEndpoints)
+        .filter(chainId => !isUrl(stateConnector.spvEndpoints[chainId]))
+        .forEach(chainId => issues.push({ path: `flareConfig.stateConnectorConfig.spvEndpoints.${chainId}`, message: 'must be an http(s) URL' }));
+    }
+    if (isPlainObject(stateConnector.spvCheckpoints)) {
+      Object.keys(stateConnector.spvCheckpoints).forEach(chainId => {
+        const checkpoint = stateConnector.spvCheckpoints[chainId];
+        const path = `flareConfig.stateConnectorConfig.spvCheckpoints.${chainId}`;
+        if (!isPlainObject(checkpoint)) {
+          issues.push({ path, message: 'must be an object' });
+          return;
+        }
+        if (!NUMBER_RULES.nonNegativeCount.test(checkpoint.height)) {
+          issues.push({ path: `${path}.height`, message: NUMBER_RULES.nonNegativeCount.message });
+        }
+        if (typeof checkpoint.header !== 'string' || !/^(0x)?[0-9a-fA-F]{160}$/.test(checkpoint.header)) {
+          issues.push({ path: `${path}.header`, message: 'must be a raw 80-byte block header in hex' });
+        }
+        if (checkpoint.periodStartTimestamp !== undefined && !NUMBER_RULES.nonNegativeCount.test(checkpoint.periodStartTimestamp)) {
+          issues.push({ path: `${path}.periodStartTimestamp`, message: 'must be a block timestamp in seconds' });
+        }
+        if (checkpoint.minChainWork !== undefined && !/^([0-9]+|0x[0-9a-fA-F]+)$/.test(String(checkpoint.minChainWork))) {
+          issues.push({ path: `${path}.minChainWork`, message: 'must be a decimal or 0x-prefixed hex string' });
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Check a signer configuration; signer objects are passed programmatically and not checked here
+ */
+function validateSignerConfig(signer: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!isPlainObject(signer)) {
+    if (!isSigner(signer)) {
+      issues.push({ path, message: 'must be a signer configuration or a Signer' });
+    }
+    return;
+  }
+
+  const config = signer as unknown as SignerConfig;
+  switch (config.type) {
+    case 'keystore':
+      if (typeof config.path !== 'string' || config.path === '') {
+        issues.push({ path: `${path}.path`, message: 'must be the keystore file path' });
+      }
+      break;
+    case 'env':
+      if (config.variable !== undefined && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(config.variable)) {
+        issues.push({ path: `${path}.variable`, message: 'must be an environment variable name' });
+      }
+      break;
+    case 'remote':
+      if (!isUrl(config.url)) {
+        issues.push({ path: `${path}.url`, message: 'must be an http(s) URL' });
+      }
+      if (config.address !== undefined && !isAddress(config.address)) {
+        issues.push({ path: `${path}.address`, message: 'must be a 0x address' });
+      }
+      break;
+    default:
+      issues.push({ path: `${path}.type`, message: 'must be keystore, env or remote' });
+  }
+}
+
+function checkKnownKeys(value: Record<string, unknown>, known: string[], path: string, issues: ValidationIssue[]): void {
+  Object.keys(value)
+    .filter(key => !known.includes(key))
+    .forEach(key => issues.push({ path: joinPath(path, key), message: 'is not a known setting' }));
+}
+
+function configError(message: string, issues: ValidationIssue[]): ValidationError {
+  const details = issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+  return new ValidationError(`${message}:\n${details}`, {
+    context: { field: issues[0].path, issues }
+  });
+}
+
+function mergeValues(base: any, override: any): any {
+  if (override === undefined) {
+    return base;
+  }
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  Object.keys(override).forEach(key => {
+    merged[key] = mergeValues(base[key], override[key]);
+  });
+  return merged;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = target;
+  keys.slice(0, -1).forEach(key => {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  });
+  current[keys[keys.length - 1]] = value;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function getPath(value: Record<string, unknown>, keys: string[]): Record<string, any> {
+  return keys.reduce<Record<string, any>>((current, key) => isPlainObject(current[key]) ? current[key] : {}, value);
+}
+
+// Every transport speaks HTTP, so WebSocket URLs are rejected
+function isUrl(value: unknown): boolean {
+  return typeof value === 'string' && /^https?:\/\/[^\s/]+/.test(value);
+}
+
+function isAddress(value: unknown): boolean {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
@@ -0,0 +1,445 @@
+/**
+ * LucentIQ facade
+ *
+ * Wires the Flare Network connector, the data fusion layer, the prediction
+ * models and the risk protocol engine together. A prediction collects the
+ * factors its model needs (FTSO price history for price predictions, plus the
+ * requested factors) from all data sources, runs the model and is stored in
+ * the prediction registry; risk protocols on a prediction are evaluated when
+ * it is created or refreshed and, while the instance runs, on a timer.
+ *
+ * Every component can be passed in through LucentIQDependencies, e.g. to run
+ * against a simulated connector or fake data sources in tests.
+ *
+ * Requests run under the caller's correlation ID, or a new one when there is
+ * none, so their log entries and Flare calls can be traced back to them.
+ *
+ * Events: `prediction` (Prediction) when a prediction is created or refreshed,
+ * `protocolAction` (ProtocolActionExecution) when a protocol trigger fires.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import {
+  ActionHandler,
+  DataSource,
+  FlareConnector,
+  FusedDataSet,
+  LucentIQConfig,
+  LucentIQDependencies,
+  ModelOutput,
+  Prediction,
+  PredictionInsights,
+  PredictionModel,
+  PredictionParams,
+  PredictionType,
+  RiskProtocol,
+  RiskProtocolSpec,
+  SensitivityFactor,
+  Timeframe
+} from './types';
+import { getFlareConnectionConfig, loadConfig } from './config';
+import { DOMAIN_SCHEMA_VERSION, assertValid } from './schema';
+import { FlareNetworkConnector } from '../flare-connect/network-connector';
+import { DataFusionEngine } from '../data-sources/data-fusion-engine';
+import { FlareFTSOSource } from '../data-sources/sources/blockchain/flare';
+import { PredictionRegistry } from '../prediction/prediction-registry';
+import { TimeSeriesModel, DirectionalModel, BayesianModel } from '../prediction/models';
+import { getAlternativeScenarios } from '../prediction/confidence-interval-engine';
+import { RiskProtocolEngine } from '../protocol/programmable-risk-protocols';
+import { NotConnectedError, ValidationError, wrapError } from '../utils/errors';
+import { Logger, createCorrelationId, getCorrelationId, withCorrelationId } from '../utils/logger';
+
+const DEFAULT_HISTORY_WINDOW = 6 * 60 * 60 * 1000;
+const DEFAULT_PROTOCOL_CHECK_INTERVAL = 60 * 1000;
+
+const ASSET_PREDICTION_TYPES = [PredictionType.ASSET_PRICE, PredictionType.PRICE_DIRECTION];
+
+export class LucentIQ extends EventEmitter {
+  private config: LucentIQConfig;
+  private connector: FlareConnector;
+  private fusionEngine: DataFusionEngine;
+  private predictionRegistry: PredictionRegistry;
+  private protocolEngine: RiskProtocolEngine;
+  private logger: Logger;
+  private initialized: boolean = false;
+  private protocolTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Create a new LucentIQ instance; nothing connects until initialize()
+   * @param config Platform configuration, loaded with loadConfig() by default
+   * @param dependencies Components to use instead of the default ones
+   */
+  constructor(config: LucentIQConfig = loadConfig(), dependencies: LucentIQDependencies = {}) {
+    super();
+    this.config = config;
+    const logLevel = config.logLevel || 'info';
+    this.logger = new Logger({
+      serviceName: 'LucentIQ',
+      logLevel
+    });
+
+    this.connector = dependencies.connector || new FlareNetworkConnector(getFlareConnectionConfig(config));
+    this.fusionEngine = dependencies.fusionEngine || new DataFusionEngine({ logLevel });
+    this.predictionRegistry = dependencies.predictionRegistry || new PredictionRegistry();
+    this.protocolEngine = dependencies.protocolEngine || new RiskProtocolEngine({ logLevel });
+
+    if (!dependencies.fusionEngine) {
+      this.fusionEngine.addSource(new FlareFTSOSource(() => this.connector.getFTSOConnection()));
+    }
+    (dependencies.dataSources || []).forEach(source => this.fusionEngine.addSource(source));
+    (dependencies.models || [new TimeSeriesModel(), new DirectionalModel(), new BayesianModel()])
+      .forEach(model => this.predictionRegistry.registerModel(model));
+  }
+
+  /**
+   * Connect to the Flare Network and start evaluating risk protocols
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    this.logger.info('Initializing LucentIQ');
+    try {
+      await this.connector.initialize();
+    } catch (error:any) {
+      this.logger.error('Failed to initialize LucentIQ', { error });
+      throw wrapError(error, 'Failed to initialize LucentIQ');
+    }
+
+    const registered = new Set(this.fusionEngine.getSources().map(source => source.id));
+    (this.config.dataSourceConfigurations || [])
+      .filter(configuration => !registered.has(configuration.id))
+      .forEach(configuration => this.logger.warn(`No data source registered for configured source ${configuration.id}`, {
+        type: configuration.type
+      }));
+
+    this.initialized = true;
+    this.scheduleProtocolCheck();
+    this.logger.info('LucentIQ initialized', {
+      sources: Array.from(registered),
+      predictionTypes: this.predictionRegistry.getSupportedTypes()
+    });
+  }
+
+  /**
+   * Stop evaluating risk protocols and disconnect from the Flare Network
+   */
+  async shutdown(): Promise<void> {
+    if (!this.initialized) {
+      return;
+    }
+
+    this.logger.info('Shutting down LucentIQ');
+    this.initialized = false;
+    if (this.protocolTimer) {
+      clearTimeout(this.protocolTimer);
+      this.protocolTimer = null;
+    }
+
+    try {
+      await this.connector.disconnect();
+    } catch (error:any) {
+      this.logger.error('Error during LucentIQ shutdown', { error });
+      throw wrapError(error, 'Error during LucentIQ shutdown');
+    }
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Create a prediction for the end of a timeframe
+   * @throws ValidationError if the request is invalid or no model supports the type
+   */
+  async createPrediction(type: PredictionType, params: PredictionParams, timeframe: Timeframe): Promise<Prediction> {
+    return correlated(async () => {
+      this.checkInitialized();
+      this.validatePredictionRequest(type, params, timeframe);
+
+      try {
+        const model = this.predictionRegistry.getModel(type);
+        const data = await this.collectData(model, type, params);
+        const output = model.predict({ type, params, timeframe, data });
+        const now = Date.now();
+
+        const prediction: Prediction = {
+          id: `pred-${randomUUID()}`,
+          schemaVersion: DOMAIN_SCHEMA_VERSION,
+          type,
+          params: { ...params },
+          timeframe: { ...timeframe },
+          ...output,
+          sources: getContributingSources(data),
+          model: model.name,
+          status: now >= timeframe.endTime ? 'EXPIRED' : 'ACTIVE',
+          createdAt: now,
+          updatedAt: now
+        };
+        this.predictionRegistry.save(prediction);
+
+        this.logger.info(`Created ${type} prediction ${prediction.id}`, {
+          asset: params.asset,
+          event: params.event,
+          model: model.name,
+          confidence: prediction.confidence.overall
+        });
+        this.emit('prediction', prediction);
+        return prediction;
+      } catch (error:any) {
+        this.logger.error(`Error creating ${type} prediction`, { error });
+        throw wrapError(error, `Failed to create ${type} prediction`);
+      }
+    });
+  }
+
+  /**
+   * Re-run a prediction on fresh data and evaluate its risk protocols
+   */
+  async refreshPrediction(predictionId: string): Promise<Prediction> {
+    return correlated(async () => {
+      this.checkInitialized();
+      const current = this.getPredictionOrThrow(predictionId);
+
+      try {
+        const model = this.predictionRegistry.getModel(current.type);
+        const data = await this.collectData(model, current.type, current.params);
+        const output = model.predict({ type: current.type, params: current.params, timeframe: current.timeframe, data });
+        const now = Date.now();
+
+        const prediction: Prediction = {
+          ...current,
+          ...output,
+          sources: getContributingSources(data),
+          model: model.name,
+          status: now >= current.timeframe.endTime ? 'EXPIRED' : 'ACTIVE',
+          updatedAt: now
+        };
+        this.predictionRegistry.save(prediction);
+        this.emit('prediction', prediction);
+
+        await this.evaluateProtocols(prediction);
+        return prediction;
+      } catch (error:any) {
+        this.logger.error(`Error refreshing prediction ${predictionId}`, { error });
+        throw wrapError(error, `Failed to refresh prediction ${predictionId}`);
+      }
+    });
+  }
+
+  /**
+   * Get a stored prediction
+   */
+  getPrediction(predictionId: string): Prediction | undefined {
+    return this.predictionRegistry.get(predictionId);
+  }
+
+  /**
+   * List the stored predictions, newest first
+   */
+  listPredictions(type?: PredictionType): Prediction[] {
+    return this.predictionRegistry.list({ type });
+  }
+
+  /**
+   * Attach a risk protocol to a prediction; triggers whose condition already
+   * holds fire right away
+   * @throws ValidationError if the prediction does not exist or a trigger does not apply to it
+   */
+  async createRiskProtocol(predictionId: string, spec: RiskProtocolSpec): Promise<RiskProtocol> {
+    return correlated(async () => {
+      this.checkInitialized();
+      const prediction = this.getPredictionOrThrow(predictionId);
+
+      const protocol = this.protocolEngine.createProtocol(prediction, spec);
+      await this.evaluateProtocols(prediction);
+      return this.protocolEngine.getProtocol(protocol.id);
+    });
+  }
+
+  /**
+   * Stop a risk protocol
+   */
+  cancelRiskProtocol(protocolId: string): RiskProtocol {
+    return this.protocolEngine.cancelProtocol(protocolId);
+  }
+
+  /**
+   * List risk protocols, optionally of one prediction
+   */
+  listRiskProtocols(predictionId?: string): RiskProtocol[] {
+    return this.protocolEngine.listProtocols(predictionId);
+  }
+
+  /**
+   * Get how sensitive a prediction is to each of its factors and which other outcomes it leaves open
+   *
+   * Sensitivities are measured on fresh data by re-running the model with each
+   * supporting factor left out in turn.
+   */
+  async getPredictionInsights(predictionId: string): Promise<PredictionInsights> {
+    return correlated(async () => {
+      this.checkInitialized();
+      const prediction = this.getPredictionOrThrow(predictionId);
+
+      try {
+        const model = this.predictionRegistry.getModel(prediction.type);
+        const data = await this.collectData(model, prediction.type, prediction.params);
+        const predict = (includeFactors: string[]): ModelOutput => model.predict({
+          type: prediction.type,
+          params: { ...prediction.params, includeFactors },
+          timeframe: prediction.timeframe,
+          data
+        });
+
+        const factors = prediction.params.includeFactors || [];
+        const baseline = predict(factors);
+        const sensitivityFactors: SensitivityFactor[] = baseline.supportingFactors.map(({ factor }) => {
+          const without = predict(factors.filter(included => included !== factor)).value;
+          return {
+            factor,
+            sensitivity: without !== 0 ? (baseline.value - without) / Math.abs(without) : baseline.value - without
+          };
+        });
+
+        return {
+          predictionId,
+          sensitivityFactors: sensitivityFactors.sort((a, b) => Math.abs(b.sensitivity) - Math.abs(a.sensitivity)),
+          alternativeScenarios: getAlternativeScenarios(prediction),
+          generatedAt: Date.now()
+        };
+      } catch (error:any) {
+        this.logger.error(`Error getting insights for prediction ${predictionId}`, { error });
+        throw wrapError(error, `Failed to get insights for prediction ${predictionId}`);
+      }
+    });
+  }
+
+  /**
+   * Add a data source to the fusion layer
+   */
+  registerDataSource(source: DataSource): void {
+    this.fusionEngine.addSource(source);
+  }
+
+  /**
+   * Serve the model's prediction types with it, replacing the current model for them
+   */
+  registerModel(model: PredictionModel): void {
+    this.predictionRegistry.registerModel(model);
+  }
+
+  /**
+   * Set the handler that executes a risk protocol action
+   */
+  registerActionHandler(action: string, handler: ActionHandler): void {
+    this.protocolEngine.getActionEngine().registerHandler(action, handler);
+  }
+
+  getConnector(): FlareConnector {
+    return this.connector;
+  }
+
+  private async collectData(model: PredictionModel, type: PredictionType, params: PredictionParams): Promise<FusedDataSet> {
+    const now = Date.now();
+    const factors = Array.from(new Set(model.requiredFactors(type).concat(params.includeFactors || [])));
+    return this.fusionEngine.collect({
+      asset: params.asset,
+      factors,
+      from: now - (this.config.historyWindow || DEFAULT_HISTORY_WINDOW),
+      to: now
+    });
+  }
+
+  private async evaluateProtocols(prediction: Prediction): Promise<void> {
+    const executions = await this.protocolEngine.evaluate(prediction);
+    executions.forEach(execution => this.emit('protocolAction', execution));
+  }
+
+  private scheduleProtocolCheck(): void {
+    const interval = this.config.protocolCheckInterval !== undefined
+      ? this.config.protocolCheckInterval
+      : DEFAULT_PROTOCOL_CHECK_INTERVAL;
+    if (!this.initialized || this.protocolTimer || interval <= 0) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      await this.checkProtocols();
+      // After a shutdown (and a new initialize) during the check, the timer is no longer ours
+      if (this.protocolTimer === timer) {
+        this.protocolTimer = null;
+        this.scheduleProtocolCheck();
+      }
+    }, interval);
+    this.protocolTimer = timer;
+  }
+
+  /**
+   * Refresh every active prediction with active risk protocols
+   */
+  private async checkProtocols(): Promise<void> {
+    const predictions = this.predictionRegistry.list({ status: 'ACTIVE' })
+      .filter(prediction => this.protocolEngine.hasActiveProtocols(prediction.id));
+
+    for (const prediction of predictions) {
+      if (!this.initialized) {
+        return;
+      }
+      try {
+        // Every check is a request of its own, not part of the one that started the instance
+        await withCorrelationId(createCorrelationId(), () => this.refreshPrediction(prediction.id));
+      } catch (error:any) {
+        this.logger.warn(`Risk protocol check failed for prediction ${prediction.id}`, { error });
+      }
+    }
+  }
+
+  private validatePredictionRequest(type: PredictionType, params: PredictionParams, timeframe: Timeframe): void {
+    assertValid('PredictionType', type, 'type');
+    assertValid('PredictionParams', params, 'params');
+    assertValid('Timeframe', timeframe, 'timeframe');
+
+    if (ASSET_PREDICTION_TYPES.includes(type) && !params.asset) {
+      throw new ValidationError(`An asset is required for ${type} predictions`, { context: { field: 'params.asset' } });
+    }
+    if (type === PredictionType.EVENT_PROBABILITY && !params.event) {
+      throw new ValidationError('An event is required for EVENT_PROBABILITY predictions', { context: { field: 'params.event' } });
+    }
+    if (timeframe.endTime <= timeframe.startTime) {
+      throw new ValidationError('Timeframe must end after it starts', { context: { field: 'timeframe.endTime' } });
+    }
+  }
+
+  private getPredictionOrThrow(predictionId: string): Prediction {
+    const prediction = this.predictionRegistry.get(predictionId);
+    if (!prediction) {
+      throw new ValidationError(`Unknown prediction ${predictionId}`, { context: { field: 'predictionId' } });
+    }
+    return prediction;
+  }
+
+  private checkInitialized(): void {
+    if (!this.initialized) {
+      throw new NotConnectedError('LucentIQ is not initialized; call initialize() first');
+    }
+  }
+}
+
+/**
+ * Run a request under the caller's correlation ID, or under a new one when it has none
+ */
+function correlated<T>(fn: () => Promise<T>): Promise<T> {
+  return withCorrelationId(getCorrelationId() || createCorrelationId(), fn);
+}
+
+/**
+ * Sources that answered with observations for a prediction
+ */
+function getContributingSources(data: FusedDataSet): string[] {
+  const sources = new Set<string>();
+  Object.keys(data.series).forEach(factor => data.series[factor].forEach(observation => sources.add(observation.sourceId)));
+  return Array.from(sources);
+}
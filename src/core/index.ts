@@ -0,0 +1,48 @@
+/**
+ * Core Module
+ *
+ * The LucentIQ facade, configuration loading and the versioned domain model
+ * shared by all layers.
+ */
+
+import { LucentIQ } from './decentra-predict';
+import {
+  loadConfig,
+  mergeConfig,
+  validateConfig,
+  resolveSecrets,
+  getEnvironmentLayer,
+  getFlareConnectionConfig,
+  ENV_VARIABLES
+} from './config';
+import {
+  DOMAIN_SCHEMA_VERSION,
+  getDomainTypeNames,
+  getJsonSchema,
+  getValidationIssues,
+  assertValid,
+  migrateRecord,
+  migratePrediction,
+  migrateRiskProtocol
+} from './schema';
+
+export {
+  LucentIQ,
+  loadConfig,
+  mergeConfig,
+  validateConfig,
+  resolveSecrets,
+  getEnvironmentLayer,
+  getFlareConnectionConfig,
+  ENV_VARIABLES,
+  DOMAIN_SCHEMA_VERSION,
+  getDomainTypeNames,
+  getJsonSchema,
+  getValidationIssues,
+  assertValid,
+  migrateRecord,
+  migratePrediction,
+  migrateRiskProtocol
+};
+
+export * from './types';
@@ -0,0 +1,465 @@
+/**
+ * Versioned domain model: JSON Schemas, runtime validation and migrations
+ *
+ * The JSON Schemas below are the single description of the public domain
+ * types: runtime validation interprets them, and getJsonSchema() exports them
+ * for API clients and storage. Stored records (predictions and risk protocols)
+ * carry the schema version they were written with; migrateRecord() brings a
+ * record of any earlier version up to DOMAIN_SCHEMA_VERSION step by step.
+ *
+ * Versions:
+ *   1. Records written before versioning; no `schemaVersion` field.
+ *   2. Records carry `schemaVersion`; predictions list their contributing
+ *      `sources`; stored threshold triggers always have a `direction`.
+ */
+
+import {
+  DataSourceType,
+  DomainTypeName,
+  JsonSchema,
+  Prediction,
+  PredictionType,
+  RiskProtocol,
+  ValidationIssue,
+  VersionedTypeName
+} from './types';
+import { ValidationError } from '../utils/errors';
+
+export const DOMAIN_SCHEMA_VERSION = 2;
+
+const JSON_SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+type Migration = (record: Record<string, any>) => Record<string, any>;
+
+const ref = (name: DomainTypeName): JsonSchema => ({ $ref: `#/definitions/${name}` });
+
+const timestamp: JsonSchema = { type: 'integer', minimum: 0, description: 'Unix time in milliseconds' };
+const unitInterval: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+
+const DOMAIN_SCHEMAS: Record<DomainTypeName, JsonSchema> = {
+  PredictionType: {
+    type: 'string',
+    enum: Object.keys(PredictionType).map(key => (PredictionType as Record<string, string>)[key])
+  },
+  DataSourceType: {
+    type: 'string',
+    enum: Object.keys(DataSourceType).map(key => (DataSourceType as Record<string, string>)[key])
+  },
+  Timeframe: {
+    type: 'object',
+    properties: {
+      startTime: timestamp,
+      endTime: timestamp,
+      intervalType: { type: 'string', enum: ['MINUTE', 'HOUR', 'DAY', 'WEEK'] },
+      intervalCount: { type: 'integer', minimum: 1 }
+    },
+    required: ['startTime', 'endTime', 'intervalType', 'intervalCount'],
+    additionalProperties: false
+  },
+  PredictionParams: {
+    type: 'object',
+    properties: {
+      asset: nonEmptyString,
+      metric: { type: 'string' },
+      event: nonEmptyString,
+      priorProbability: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+      includeFactors: { type: 'array', items: nonEmptyString }
+    },
+    additionalProperties: false
+  },
+  ConfidenceBounds: {
+    type: 'object',
+    properties: {
+      lower: { type: 'number' },
+      upper: { type: 'number' }
+    },
+    required: ['lower', 'upper'],
+    additionalProperties: false
+  },
+  ConfidenceIntervals: {
+    type: 'object',
+    properties: {
+      interval68: ref('ConfidenceBounds'),
+      interval95: ref('ConfidenceBounds'),
+      interval99: ref('ConfidenceBounds')
+    },
+    required: ['interval68', 'interval95', 'interval99'],
+    additionalProperties: false
+  },
+  PredictionConfidence: {
+    type: 'object',
+    properties: {
+      overall: unitInterval,
+      dataQuality: unitInterval,
+      modelFit: unitInterval
+    },
+    required: ['overall', 'dataQuality', 'modelFit'],
+    additionalProperties: false
+  },
+  SupportingFactor: {
+    type: 'object',
+    properties: {
+      factor: nonEmptyString,
+      description: { type: 'string' },
+      value: { type: 'number', minimum: -1, maximum: 1 },
+      weight: unitInterval
+    },
+    required: ['factor', 'description', 'value', 'weight'],
+    additionalProperties: false
+  },
+  Prediction: {
+    type: 'object',
+    properties: {
+      id: nonEmptyString,
+      schemaVersion: { const: DOMAIN_SCHEMA_VERSION },
+      type: ref('PredictionType'),
+      params: ref('PredictionParams'),
+      timeframe: ref('Timeframe'),
+      value: { type: 'number' },
+      confidence: ref('PredictionConfidence'),
+      confidenceIntervals: ref('ConfidenceIntervals'),
+      supportingFactors: { type: 'array', items: ref('SupportingFactor') },
+      sources: { type: 'array', items: nonEmptyString },
+      model: nonEmptyString,
+      status: { type: 'string', enum: ['ACTIVE', 'EXPIRED'] },
+      createdAt: timestamp,
+      updatedAt: timestamp
+    },
+    required: [
+      'id',
+      'schemaVersion',
+      'type',
+      'params',
+      'timeframe',
+      'value',
+      'confidence',
+      'confidenceIntervals',
+      'supportingFactors',
+      'sources',
+      'model',
+      'status',
+      'createdAt',
+      'updatedAt'
+    ],
+    additionalProperties: false
+  },
+  SensitivityFactor: {
+    type: 'object',
+    properties: {
+      factor: nonEmptyString,
+      sensitivity: { type: 'number' }
+    },
+    required: ['factor', 'sensitivity'],
+    additionalProperties: false
+  },
+  AlternativeScenario: {
+    type: 'object',
+    properties: {
+      description: { type: 'string' },
+      probability: unitInterval,
+      lower: { type: 'number' },
+      upper: { type: 'number' }
+    },
+    required: ['description', 'probability'],
+    additionalProperties: false
+  },
+  PredictionInsights: {
+    type: 'object',
+    properties: {
+      predictionId: nonEmptyString,
+      sensitivityFactors: { type: 'array', items: ref('SensitivityFactor') },
+      alternativeScenarios: { type: 'array', items: ref('AlternativeScenario') },
+      generatedAt: timestamp
+    },
+    required: ['predictionId', 'sensitivityFactors', 'alternativeScenarios', 'generatedAt'],
+    additionalProperties: false
+  },
+  TriggerCondition: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['PRICE_THRESHOLD', 'PROBABILITY_THRESHOLD', 'CONFIDENCE_CHANGE'] },
+      threshold: { type: 'number' },
+      direction: { type: 'string', enum: ['ABOVE', 'BELOW'] },
+      action: nonEmptyString
+    },
+    required: ['type', 'threshold', 'action'],
+    additionalProperties: false
+  },
+  RiskProtocolSpec: {
+    type: 'object',
+    properties: {
+      triggerConditions: { type: 'array', items: ref('TriggerCondition'), minItems: 1 },
+      actionDetails: { type: 'object', additionalProperties: { type: 'object' } }
+    },
+    required: ['triggerConditions', 'actionDetails'],
+    additionalProperties: false
+  },
+  RiskProtocolTrigger: {
+    type: 'object',
+    properties: {
+      id: nonEmptyString,
+      condition: ref('TriggerCondition'),
+      active: { type: 'boolean' },
+      fireCount: { type: 'integer', minimum: 0 },
+      lastFiredAt: timestamp
+    },
+    required: ['id', 'condition', 'active', 'fireCount'],
+    additionalProperties: false
+  },
+  RiskProtocol: {
+    type: 'object',
+    properties: {
+      id: nonEmptyString,
+      schemaVersion: { const: DOMAIN_SCHEMA_VERSION },
+      predictionId: nonEmptyString,
+      triggers: { type: 'array', items: ref('RiskProtocolTrigger') },
+      actionDetails: { type: 'object', additionalProperties: { type: 'object' } },
+      status: { type: 'string', enum: ['ACTIVE', 'CANCELLED'] },
+      baselineConfidence: unitInterval,
+      createdAt: timestamp,
+      lastEvaluatedAt: timestamp
+    },
+    required: ['id', 'schemaVersion', 'predictionId', 'triggers', 'actionDetails', 'status', 'baselineConfidence', 'createdAt'],
+    additionalProperties: false
+  },
+  DataSourceConfiguration: {
+    type: 'object',
+    properties: {
+      id: nonEmptyString,
+      type: ref('DataSourceType'),
+      endpoint: { type: 'string' },
+      apiKey: { type: 'string' },
+      refreshInterval: { type: 'number', exclusiveMinimum: 0 },
+      weight: { type: 'number', exclusiveMinimum: 0 }
+    },
+    required: ['id', 'type'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * Migrations of each versioned type, keyed by the version they migrate from
+ */
+const MIGRATIONS: Record<VersionedTypeName, Record<number, Migration>> = {
+  Prediction: {
+    1: record => ({ ...record, schemaVersion: 2, sources: [] })
+  },
+  RiskProtocol: {
+    // Version 1 evaluated threshold triggers without a direction as BELOW
+    1: record => ({
+      ...record,
+      schemaVersion: 2,
+      triggers: (record.triggers || []).map((trigger: Record<string, any>) => ({
+        ...trigger,
+        condition: trigger.condition && trigger.condition.type !== 'CONFIDENCE_CHANGE' && !trigger.condition.direction
+          ? { ...trigger.condition, direction: 'BELOW' }
+          : trigger.condition
+      }))
+    })
+  }
+};
+
+/**
+ * Get the names of the types with a JSON Schema
+ */
+export function getDomainTypeNames(): DomainTypeName[] {
+  return Object.keys(DOMAIN_SCHEMAS) as DomainTypeName[];
+}
+
+/**
+ * Get the standalone JSON Schema of a domain type, with the definitions it references
+ */
+export function getJsonSchema(name: DomainTypeName): JsonSchema {
+  const schema = getSchema(name);
+  const definitions: Record<string, JsonSchema> = {};
+  const pending = collectReferences(schema);
+  while (pending.length > 0) {
+    const reference = pending.pop()!;
+    if (!definitions[reference]) {
+      definitions[reference] = getSchema(reference);
+      pending.push(...collectReferences(definitions[reference]));
+    }
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DRAFT,
+    $id: `urn:lucentiq:schema:${name}:${DOMAIN_SCHEMA_VERSION}`,
+    title: name,
+    ...schema,
+    ...(Object.keys(definitions).length > 0 && { definitions })
+  };
+}
+
+/**
+ * Get every problem of a value against a domain type's schema
+ * @param path Path reported for the value itself, e.g. `timeframe`
+ */
+export function getValidationIssues(name: DomainTypeName, value: unknown, path: string = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkValue(getSchema(name), value, path, issues);
+  return issues;
+}
+
+/**
+ * Check a value against a domain type's schema
+ * @throws ValidationError listing every problem; `context.field` is the first one
+ */
+export function assertValid<T>(name: DomainTypeName, value: unknown, path: string = ''): T {
+  const issues = getValidationIssues(name, value, path);
+  if (issues.length > 0) {
+    const details = issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+    throw new ValidationError(`Invalid ${name}:\n${details}`, {
+      context: { field: issues[0].path, issues }
+    });
+  }
+  return value as T;
+}
+
+/**
+ * Bring a stored record up to the current schema version and validate it
+ * @throws ValidationError if the record is from a newer version or invalid after migration
+ */
+export function migrateRecord<T>(name: VersionedTypeName, record: unknown): T {
+  if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+    throw new ValidationError(`Stored ${name} must be an object`, { context: { field: 'schemaVersion' } });
+  }
+
+  let migrated = record as Record<string, any>;
+  const version = migrated.schemaVersion === undefined ? 1 : migrated.schemaVersion;
+  if (!Number.isInteger(version) || version < 1 || version > DOMAIN_SCHEMA_VERSION) {
+    throw new ValidationError(
+      `Stored ${name} has schema version ${version}; this release reads versions 1 to ${DOMAIN_SCHEMA_VERSION}`,
+      { context: { field: 'schemaVersion' } }
+    );
+  }
+
+  for (let from = version; from < DOMAIN_SCHEMA_VERSION; from++) {
+    migrated = MIGRATIONS[name][from](migrated);
+  }
+  return assertValid<T>(name, migrated);
+}
+
+/**
+ * Bring a stored prediction up to the current schema version
+ */
+export function migratePrediction(record: unknown): Prediction {
+  return migrateRecord<Prediction>('Prediction', record);
+}
+
+/**
+ * Bring a stored risk protocol up to the current schema version
+ */
+export function migrateRiskProtocol(record: unknown): RiskProtocol {
+  return migrateRecord<RiskProtocol>('RiskProtocol', record);
+}
+
+function getSchema(name: string): JsonSchema {
+  const schema = DOMAIN_SCHEMAS[name as DomainTypeName];
+  if (!schema) {
+    throw new ValidationError(`Unknown domain type ${name}`, { context: { field: 'name' } });
+  }
+  return schema;
+}
+
+function collectReferences(schema: JsonSchema): string[] {
+  const references: string[] = [];
+  if (schema.$ref) {
+    references.push(schema.$ref.replace('#/definitions/', ''));
+  }
+  if (schema.properties) {
+    Object.keys(schema.properties).forEach(key => references.push(...collectReferences(schema.properties![key])));
+  }
+  if (schema.items) {
+    references.push(...collectReferences(schema.items));
+  }
+  if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    references.push(...collectReferences(schema.additionalProperties));
+  }
+  return references;
+}
+
+function checkValue(schema: JsonSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (schema.$ref) {
+    checkValue(getSchema(schema.$ref.replace('#/definitions/', '')), value, path, issues);
+    return;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    return;
+  }
+  if (schema.type && !hasType(value, schema.type)) {
+    issues.push({ path, message: `must be ${schema.type === 'integer' || schema.type === 'array' ? 'an' : 'a'} ${schema.type}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issues.push({ path, message: `must be less than ${schema.exclusiveMaximum}` });
+    }
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must have at least ${schema.minLength} characters` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => checkValue(schema.items!, item, `${path}[${index}]`, issues));
+    }
+  } else if (schema.type === 'object' && value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    (schema.required || [])
+      .filter(key => object[key] === undefined)
+      .forEach(key => issues.push({ path: joinPath(path, key), message: 'is required' }));
+
+    Object.keys(object).forEach(key => {
+      if (object[key] === undefined) {
+        return;
+      }
+      if (properties[key]) {
+        checkValue(properties[key], object[key], joinPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not a known property' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        checkValue(schema.additionalProperties, object[key], joinPath(path, key), issues);
+      }
+    });
+  }
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
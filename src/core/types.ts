@@ -0,0 +1,371 @@
+/**
+ * Type definitions for the LucentIQ domain model and its components
+ */
+
+import type { FlareConnectionConfig } from '../flare-connect/types';
+import type { FTSOConnection } from '../flare-connect/ftso-connection';
+import type { DataFusionEngine } from '../data-sources/data-fusion-engine';
+import type { PredictionRegistry } from '../prediction/prediction-registry';
+import type { RiskProtocolEngine } from '../protocol/programmable-risk-protocols';
+
+export enum PredictionType {
+  ASSET_PRICE = 'ASSET_PRICE',
+  PRICE_DIRECTION = 'PRICE_DIRECTION',
+  EVENT_PROBABILITY = 'EVENT_PROBABILITY'
+}
+
+export enum DataSourceType {
+  BLOCKCHAIN = 'BLOCKCHAIN',
+  FINANCIAL_MARKET = 'FINANCIAL_MARKET',
+  SOCIAL_MEDIA = 'SOCIAL_MEDIA',
+  IOT_SENSOR = 'IOT_SENSOR',
+  GEOGRAPHIC = 'GEOGRAPHIC',
+  ECONOMIC_INDICATOR = 'ECONOMIC_INDICATOR'
+}
+
+export type IntervalType = 'MINUTE' | 'HOUR' | 'DAY' | 'WEEK';
+
+export interface Timeframe {
+  startTime: number;
+  endTime: number;
+  intervalType: IntervalType;
+  intervalCount: number;
+}
+
+export interface PredictionParams {
+  // Asset the prediction is about; required for ASSET_PRICE and PRICE_DIRECTION
+  asset?: string;
+  metric?: string;
+  // Event the prediction is about; required for EVENT_PROBABILITY
+  event?: string;
+  // Probability of the event before any evidence, 0.5 by default
+  priorProbability?: number;
+  // Data source factors the prediction takes into account
+  includeFactors?: string[];
+}
+
+export interface ConfidenceBounds {
+  lower: number;
+  upper: number;
+}
+
+export interface ConfidenceIntervals {
+  interval68: ConfidenceBounds;
+  interval95: ConfidenceBounds;
+  interval99: ConfidenceBounds;
+}
+
+export interface PredictionConfidence {
+  // Overall confidence in [0, 1]
+  overall: number;
+  // How much of the data the model needed was available, in [0, 1]
+  dataQuality: number;
+  // How well the model explains the data it was given, in [0, 1]
+  modelFit: number;
+}
+
+export interface SupportingFactor {
+  factor: string;
+  description: string;
+  // Fused factor signal in [-1, 1]
+  value: number;
+  // Share of the factor in the prediction, summing to 1 over all factors
+  weight: number;
+}
+
+export type PredictionStatus = 'ACTIVE' | 'EXPIRED';
+
+export interface Prediction {
+  id: string;
+  // Domain schema version the record was written with
+  schemaVersion: number;
+  type: PredictionType;
+  params: PredictionParams;
+  timeframe: Timeframe;
+  // Predicted value at the end of the timeframe; a probability for PRICE_DIRECTION and EVENT_PROBABILITY
+  value: number;
+  confidence: PredictionConfidence;
+  confidenceIntervals: ConfidenceIntervals;
+  supportingFactors: SupportingFactor[];
+  // Data sources that contributed observations
+  sources: string[];
+  model: string;
+  status: PredictionStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SensitivityFactor {
+  factor: string;
+  // Relative change of the predicted value when the factor is left out
+  sensitivity: number;
+}
+
+export interface AlternativeScenario {
+  description: string;
+  probability: number;
+  // Range of the predicted value in the scenario; open-ended when a bound is missing
+  lower?: number;
+  upper?: number;
+}
+
+export interface PredictionInsights {
+  predictionId: string;
+  sensitivityFactors: SensitivityFactor[];
+  alternativeScenarios: AlternativeScenario[];
+  generatedAt: number;
+}
+
+export type TriggerType = 'PRICE_THRESHOLD' | 'PROBABILITY_THRESHOLD' | 'CONFIDENCE_CHANGE';
+
+export interface TriggerCondition {
+  type: TriggerType;
+  // Value for the threshold triggers; absolute change of overall confidence for CONFIDENCE_CHANGE
+  threshold: number;
+  // Side of the threshold that fires the threshold triggers, BELOW by default
+  direction?: 'ABOVE' | 'BELOW';
+  action: string;
+}
+
+export interface RiskProtocolSpec {
+  triggerConditions: TriggerCondition[];
+  // Parameters of each action, keyed by action name
+  actionDetails: Record<string, Record<string, unknown>>;
+}
+
+export interface RiskProtocolTrigger {
+  id: string;
+  // Stored with the direction of threshold triggers resolved
+  condition: TriggerCondition;
+  // Whether the condition held at the last evaluation; a trigger fires when this turns true
+  active: boolean;
+  fireCount: number;
+  lastFiredAt?: number;
+}
+
+export type RiskProtocolStatus = 'ACTIVE' | 'CANCELLED';
+
+export interface RiskProtocol {
+  id: string;
+  // Domain schema version the record was written with
+  schemaVersion: number;
+  predictionId: string;
+  triggers: RiskProtocolTrigger[];
+  actionDetails: Record<string, Record<string, unknown>>;
+  status: RiskProtocolStatus;
+  // Overall confidence of the prediction when the protocol was created
+  baselineConfidence: number;
+  createdAt: number;
+  lastEvaluatedAt?: number;
+}
+
+export interface ProtocolActionExecution {
+  protocolId: string;
+  triggerId: string;
+  action: string;
+  details: Record<string, unknown>;
+  prediction: Prediction;
+  executedAt: number;
+  error?: string;
+}
+
+export type ActionHandler = (execution: ProtocolActionExecution) => void | Promise<void>;
+
+export interface Observation {
+  sourceId: string;
+  factor: string;
+  timestamp: number;
+  value: number;
+}
+
+export interface DataQuery {
+  asset?: string;
+  factors: string[];
+  from: number;
+  to: number;
+}
+
+/**
+ * Provider of observations for a set of factors
+ */
+export interface DataSource {
+  id: string;
+  type: DataSourceType;
+  factors: string[];
+  // Relative trust in the source when its observations are fused, 1 by default
+  weight?: number;
+  fetch(query: DataQuery): Promise<Observation[]>;
+}
+
+export interface FusedValue {
+  factor: string;
+  value: number;
+  timestamp: number;
+  sources: string[];
+}
+
+export interface FusedDataSet {
+  query: DataQuery;
+  // All observations of each factor, oldest first
+  series: Record<string, Observation[]>;
+  // Latest observation of each source fused into one value per factor
+  fused: Record<string, FusedValue>;
+  // Sources that failed to answer
+  failedSources: string[];
+}
+
+/**
+ * Combines the values of several sources for one factor
+ */
+export type FusionStrategy = (values: Array<{ value: number; weight: number }>) => number;
+
+export interface ModelInput {
+  type: PredictionType;
+  params: PredictionParams;
+  timeframe: Timeframe;
+  data: FusedDataSet;
+}
+
+export interface ModelOutput {
+  value: number;
+  confidence: PredictionConfidence;
+  confidenceIntervals: ConfidenceIntervals;
+  supportingFactors: SupportingFactor[];
+}
+
+export interface PredictionModel {
+  name: string;
+  supportedTypes: PredictionType[];
+  // Factors the model needs besides the requested ones, e.g. 'price'
+  requiredFactors(type: PredictionType): string[];
+  predict(input: ModelInput): ModelOutput;
+}
+
+export interface DataSourceConfiguration {
+  id: string;
+  type: DataSourceType;
+  endpoint?: string;
+  apiKey?: string;
+  refreshInterval?: number;
+  weight?: number;
+}
+
+export interface IncentiveParameters {
+  baseRewardAmount: number;
+  earlyPredictionBonus: number;
+  difficultyMultiplier: number;
+  baseSlashingAmount: number;
+  maxPredictionTimespan: number;
+}
+
+export interface GovernanceSettings {
+  incentiveParameters: IncentiveParameters;
+}
+
+export interface LucentIQConfig {
+  flareNetworkEndpoint: string;
+  apiKey: string;
+  // Further Flare connection settings; endpoint, apiKey and logLevel are taken from above
+  flareConfig?: Partial<FlareConnectionConfig>;
+  dataSourceConfigurations?: DataSourceConfiguration[];
+  governanceSettings?: GovernanceSettings;
+  // How far back price history is read for a prediction, 6 hours by default; without
+  // flareConfig.ftsoConfig.priceStoreDirectory all of it is read from the chain every time
+  historyWindow?: number;
+  // How often predictions with active risk protocols are re-evaluated; 0 disables it
+  protocolCheckInterval?: number;
+  logLevel?: string;
+}
+
+/**
+ * Partial configuration as given by one configuration layer; arrays are replaced, not merged
+ */
+export type ConfigLayer<T> = {
+  [K in keyof T]?: T[K] extends Array<unknown> ? T[K] : T[K] extends object ? ConfigLayer<T[K]> : T[K];
+};
+
+export type LucentIQConfigLayer = ConfigLayer<LucentIQConfig>;
+
+export interface ValidationIssue {
+  // Dotted path of the offending value, e.g. `dataSourceConfigurations[0].type`
+  path: string;
+  message: string;
+}
+
+/**
+ * @deprecated Use ValidationIssue
+ */
+export type ConfigIssue = ValidationIssue;
+
+/**
+ * Public domain types with a JSON Schema
+ */
+export type DomainTypeName =
+  'PredictionType' |
+  'DataSourceType' |
+  'Timeframe' |
+  'PredictionParams' |
+  'ConfidenceBounds' |
+  'ConfidenceIntervals' |
+  'PredictionConfidence' |
+  'SupportingFactor' |
+  'Prediction' |
+  'SensitivityFactor' |
+  'AlternativeScenario' |
+  'PredictionInsights' |
+  'TriggerCondition' |
+  'RiskProtocolSpec' |
+  'RiskProtocolTrigger' |
+  'RiskProtocol' |
+  'DataSourceConfiguration';
+
+/**
+ * Domain types stored across releases, carrying the schema version they were written with
+ */
+export type VersionedTypeName = 'Prediction' | 'RiskProtocol';
+
+/**
+ * The subset of JSON Schema (draft-07) the domain schemas use
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  definitions?: Record<string, JsonSchema>;
+}
+
+/**
+ * Lifecycle of the Flare connector as used by LucentIQ
+ */
+export interface FlareConnector {
+  initialize(): Promise<void>;
+  disconnect(): Promise<void>;
+  getFTSOConnection(): FTSOConnection;
+}
+
+/**
+ * Components LucentIQ builds by default; pass them to replace them, e.g. in tests
+ */
+export interface LucentIQDependencies {
+  connector?: FlareConnector;
+  dataSources?: DataSource[];
+  models?: PredictionModel[];
+  fusionEngine?: DataFusionEngine;
+  predictionRegistry?: PredictionRegistry;
+  protocolEngine?: RiskProtocolEngine;
+}
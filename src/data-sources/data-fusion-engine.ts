@@ -0,0 +1,131 @@
+/**
+ * Cross-source data collection and fusion
+ *
+ * A query names the factors it needs; every registered source providing one of
+ * them is asked in parallel. Sources that fail are reported rather than failing
+ * the query, so a prediction degrades instead of breaking when one source is
+ * down. The latest observation of each source is fused per factor with the
+ * configured strategy, weighted by source weight.
+ */
+
+import { DataQuery, DataSource, FusedDataSet, FusedValue, FusionStrategy, Observation } from '../core/types';
+import { weightedMeanFusion } from './fusion-strategy';
+import { ValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+export interface DataFusionEngineOptions {
+  strategy?: FusionStrategy;
+  logLevel?: string;
+}
+
+export class DataFusionEngine {
+  private sources: Map<string, DataSource> = new Map();
+  private strategy: FusionStrategy;
+  private logger: Logger;
+
+  /**
+   * Create a new engine; values are fused by weighted mean unless another strategy is given
+   */
+  constructor(options: DataFusionEngineOptions = {}) {
+    this.strategy = options.strategy || weightedMeanFusion;
+    this.logger = new Logger({
+      serviceName: 'DataFusionEngine',
+      logLevel: options.logLevel || 'info'
+    });
+  }
+
+  /**
+   * Register a source
+   * @throws ValidationError if a source with the same ID is registered
+   */
+  addSource(source: DataSource): void {
+    if (this.sources.has(source.id)) {
+      throw new ValidationError(`Data source ${source.id} is already registered`, { context: { field: 'id' } });
+    }
+    this.sources.set(source.id, source);
+    this.logger.debug(`Registered data source ${source.id}`, { type: source.type, factors: source.factors });
+  }
+
+  /**
+   * Unregister a source
+   */
+  removeSource(sourceId: string): boolean {
+    return this.sources.delete(sourceId);
+  }
+
+  /**
+   * Get the registered sources
+   */
+  getSources(): DataSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Get the factors at least one registered source provides
+   */
+  getAvailableFactors(): string[] {
+    const factors = new Set<string>();
+    this.sources.forEach(source => source.factors.forEach(factor => factors.add(factor)));
+    return Array.from(factors);
+  }
+
+  /**
+   * Collect the observations of the queried factors from all sources providing them and fuse them
+   */
+  async collect(query: DataQuery): Promise<FusedDataSet> {
+    const sources = this.getSources().filter(source => source.factors.some(factor => query.factors.includes(factor)));
+    const failedSources: string[] = [];
+
+    const results = await Promise.all(sources.map(source => source.fetch(query).catch((error:any) => {
+      this.logger.warn(`Data source ${source.id} failed`, { error, asset: query.asset });
+      failedSources.push(source.id);
+      return [] as Observation[];
+    })));
+
+    const series: Record<string, Observation[]> = {};
+    query.factors.forEach(factor => {
+      series[factor] = [];
+    });
+    results.forEach(observations => observations
+      .filter(observation => query.factors.includes(observation.factor))
+      .forEach(observation => series[observation.factor].push(observation)));
+
+    const fused: Record<string, FusedValue> = {};
+    query.factors.forEach(factor => {
+      series[factor].sort((a, b) => a.timestamp - b.timestamp);
+      const value = this.fuse(factor, series[factor]);
+      if (value) {
+        fused[factor] = value;
+      }
+    });
+
+    return { query, series, fused, failedSources };
+  }
+
+  /**
+   * Fuse the latest observation of each source of a factor
+   */
+  private fuse(factor: string, observations: Observation[]): FusedValue | null {
+    const latest = new Map<string, Observation>();
+    observations.forEach(observation => latest.set(observation.sourceId, observation));
+    if (latest.size === 0) {
+      return null;
+    }
+
+    const entries = Array.from(latest.values());
+    return {
+      factor,
+      value: this.strategy(entries.map(observation => ({
+        value: observation.value,
+        weight: this.getSourceWeight(observation.sourceId)
+      }))),
+      timestamp: Math.max(...entries.map(observation => observation.timestamp)),
+      sources: entries.map(observation => observation.sourceId)
+    };
+  }
+
+  private getSourceWeight(sourceId: string): number {
+    const source = this.sources.get(sourceId);
+    return source && source.weight !== undefined ? source.weight : 1;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Strategies for fusing the values several sources report for one factor
+ */
+
+import { FusionStrategy } from '../core/types';
+import { weightedMedian } from '../flare-connect/statistics';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Weighted mean of the source values
+ */
+export const weightedMeanFusion: FusionStrategy = values => {
+  const totalWeight = values.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight <= 0) {
+    throw new ValidationError('Cannot fuse values when all weights are zero', { context: { field: 'values' } });
+  }
+  return values.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight;
+};
+
+/**
+ * Weighted median of the source values, robust against a single outlying source
+ */
+export const weightedMedianFusion: FusionStrategy = values => weightedMedian(values);
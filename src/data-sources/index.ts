@@ -0,0 +1,18 @@
+/**
+ * Data Fusion Module
+ *
+ * Collects observations from blockchain, market, social and other sources and
+ * fuses them into one value per factor.
+ */
+
+import { DataFusionEngine } from './data-fusion-engine';
+import { weightedMeanFusion, weightedMedianFusion } from './fusion-strategy';
+import { FlareFTSOSource, FTSO_PRICE_FACTOR } from './sources/blockchain/flare';
+
+export {
+  DataFusionEngine,
+  weightedMeanFusion,
+  weightedMedianFusion,
+  FlareFTSOSource,
+  FTSO_PRICE_FACTOR
+};
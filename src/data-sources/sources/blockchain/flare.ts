@@ -0,0 +1,41 @@
+/**
+ * FTSO v2 feed prices as a data source
+ *
+ * Provides the `price` factor of the queried asset from the FTSO feed history,
+ * one observation per voting epoch with a new feed value.
+ */
+
+import { DataQuery, DataSource, DataSourceType, Observation } from '../../../core/types';
+import { FTSOConnection } from '../../../flare-connect/ftso-connection';
+
+export const FTSO_PRICE_FACTOR = 'price';
+
+export class FlareFTSOSource implements DataSource {
+  readonly id: string;
+  readonly type = DataSourceType.BLOCKCHAIN;
+  readonly factors = [FTSO_PRICE_FACTOR];
+  private getConnection: () => FTSOConnection;
+
+  /**
+   * Create a source reading from the connection returned by `getConnection`,
+   * which is called on every fetch so reconnects are picked up
+   */
+  constructor(getConnection: () => FTSOConnection, id: string = 'flare-ftso') {
+    this.id = id;
+    this.getConnection = getConnection;
+  }
+
+  async fetch(query: DataQuery): Promise<Observation[]> {
+    if (!query.asset || !query.factors.includes(FTSO_PRICE_FACTOR)) {
+      return [];
+    }
+
+    const prices = await this.getConnection().getHistoricalPrices(query.asset, query.from, query.to);
+    return prices.map(price => ({
+      sourceId: this.id,
+      factor: FTSO_PRICE_FACTOR,
+      timestamp: price.timestamp,
+      value: price.price
+    }));
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Minimal Solidity ABI helpers for the contract calls made by the Flare connectors
+ *
+ * Only the handful of types the connectors actually exchange with Flare contracts
+ * and the FDC are supported; this is not a general purpose ABI coder.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { ProviderError, ValidationError } from '../utils/errors';
+
+const WORD_SIZE = 64; // hex characters per 32-byte word
+
+/**
+ * Parameter types understood by encodeAbiParameters and decodeAbiParameters;
+ * integers of every width share the `uint` and `int` types
+ */
+export type AbiType =
+  'uint' |
+  'int' |
+  'bool' |
+  'address' |
+  'bytes32' |
+  'bytes' |
+  'string' |
+  { array: AbiType } |
+  { tuple: AbiType[] };
+
+/**
+ * Strip the 0x prefix from a hex string
+ */
+export function strip0x(hex: string): string {
+  return hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+}
+
+/**
+ * Compute the keccak256 hash of a UTF-8 string or raw bytes as 0x-prefixed hex
+ */
+export function keccak256Hex(data: string | Uint8Array): string {
+  return `0x${bytesToHex(keccak_256(typeof data === 'string' ? utf8ToBytes(data) : data))}`;
+}
+
+/**
+ * Compute the 4-byte selector of a function signature such as `getFeedsById(bytes21[])`
+ */
+export function functionSelector(signature: string): string {
+  return keccak256Hex(signature).slice(0, 10);
+}
+
+/**
+ * Encode an unsigned integer as a 32-byte word
+ */
+export function encodeUint(value: number | bigint): string {
+  const big = BigInt(value);
+  if (big < BigInt(0)) {
+    throw new ValidationError(`Cannot encode negative value ${value} as uint`);
+  }
+  return big.toString(16).padStart(WORD_SIZE, '0');
+}
+
+/**
+ * Encode an address as a 32-byte word
+ */
+export function encodeAddress(address: string): string {
+  return strip0x(address).toLowerCase().padStart(WORD_SIZE, '0');
+}
+
+/**
+ * Encode a fixed-size bytesN value (left-aligned, zero padded on the right)
+ */
+export function encodeFixedBytes(hex: string): string {
+  const body = strip0x(hex);
+  if (body.length > WORD_SIZE) {
+    throw new ValidationError(`Fixed bytes value ${hex} exceeds 32 bytes`);
+  }
+  return body.padEnd(WORD_SIZE, '0');
+}
+
+/**
+ * Encode the tail of a dynamic `bytes` value (length followed by padded data)
+ */
+export function encodeBytesTail(hex: string): string {
+  const body = strip0x(hex);
+  const padded = body.padEnd(Math.ceil(body.length / WORD_SIZE) * WORD_SIZE, '0');
+  return encodeUint(body.length / 2) + padded;
+}
+
+/**
+ * Encode a call with a single dynamic `string` argument
+ */
+export function encodeStringCall(selector: string, value: string): string {
+  return strip0x(selector) + encodeUint(32) + encodeBytesTail(bytesToHex(utf8ToBytes(value)));
+}
+
+/**
+ * Encode a call with a single dynamic `bytes` argument
+ */
+export function encodeBytesCall(selector: string, value: string): string {
+  return strip0x(selector) + encodeUint(32) + encodeBytesTail(value);
+}
+
+/**
+ * Encode a call with a single dynamic `bytesN[]` argument
+ */
+export function encodeFixedBytesArrayCall(selector: string, values: string[]): string {
+  return strip0x(selector) +
+    encodeUint(32) +
+    encodeUint(values.length) +
+    values.map(encodeFixedBytes).join('');
+}
+
+/**
+ * Read the 32-byte word at the given word index
+ */
+export function readWord(data: string, wordIndex: number): string {
+  const body = strip0x(data);
+  const word = body.slice(wordIndex * WORD_SIZE, (wordIndex + 1) * WORD_SIZE);
+  if (word.length !== WORD_SIZE) {
+    throw new ProviderError(`ABI data too short: missing word ${wordIndex}`);
+  }
+  return word;
+}
+
+/**
+ * Decode an unsigned integer word
+ */
+export function decodeUint(word: string): bigint {
+  return BigInt(`0x${word}`);
+}
+
+/**
+ * Decode a signed integer word (two's complement)
+ */
+export function decodeInt(word: string): bigint {
+  return BigInt.asIntN(256, BigInt(`0x${word}`));
+}
+
+/**
+ * Decode an address word
+ */
+export function decodeAddress(word: string): string {
+  return `0x${word.slice(WORD_SIZE - 40)}`;
+}
+
+/**
+ * Decode a dynamic array of 32-byte words whose offset is stored at the given head word
+ */
+export function decodeWordArray(data: string, headWordIndex: number): string[] {
+  const offsetWords = Number(decodeUint(readWord(data, headWordIndex))) / 32;
+  const length = Number(decodeUint(readWord(data, offsetWords)));
+  const words: string[] = [];
+  for (let i = 0; i < length; i++) {
+    words.push(readWord(data, offsetWords + 1 + i));
+  }
+  return words;
+}
+
+/**
+ * Decode a dynamic `bytes` value whose offset is stored at the given head word
+ */
+export function decodeBytes(data: string, headWordIndex: number): string {
+  const offsetWords = Number(decodeUint(readWord(data, headWordIndex))) / 32;
+  const length = Number(decodeUint(readWord(data, offsetWords)));
+  const start = (offsetWords + 1) * WORD_SIZE;
+  return `0x${strip0x(data).slice(start, start + length * 2)}`;
+}
+
+/**
+ * Encode values for a list of parameter types, as Solidity's `abi.encode` does
+ */
+export function encodeAbiParameters(types: AbiType[], values: unknown[]): string {
+  if (types.length !== values.length) {
+    throw new ValidationError(`Expected ${types.length} ABI values, got ${values.length}`);
+  }
+
+  let tailOffset = types.reduce((size, type) => size + getHeadWords(type) * 32, 0);
+  const heads: string[] = [];
+  const tails: string[] = [];
+
+  types.forEach((type, index) => {
+    const encoded = encodeAbiValue(type, values[index]);
+    if (isDynamicType(type)) {
+      heads.push(encodeUint(tailOffset));
+      tails.push(encoded);
+      tailOffset += encoded.length / 2;
+    } else {
+      heads.push(encoded);
+    }
+  });
+
+  return heads.join('') + tails.join('');
+}
+
+/**
+ * Decode ABI-encoded data for a list of parameter types
+ *
+ * Integers decode to bigint, `bytes32`, `bytes` and addresses to 0x-prefixed hex
+ * and tuples to arrays of their members.
+ */
+export function decodeAbiParameters(types: AbiType[], data: string): unknown[] {
+  return decodeAbiTuple(types, strip0x(data), 0);
+}
+
+function isDynamicType(type: AbiType): boolean {
+  if (type === 'bytes' || type === 'string') {
+    return true;
+  }
+  if (typeof type === 'string') {
+    return false;
+  }
+  return 'array' in type || type.tuple.some(isDynamicType);
+}
+
+/**
+ * Number of words a type takes up in the head of its enclosing tuple
+ */
+function getHeadWords(type: AbiType): number {
+  if (typeof type !== 'string' && 'tuple' in type && !isDynamicType(type)) {
+    return type.tuple.reduce((words, member) => words + getHeadWords(member), 0);
+  }
+  return 1;
+}
+
+function encodeAbiValue(type: AbiType, value: any): string {
+  switch (type) {
+    case 'uint':
+      return encodeUint(BigInt(value));
+    case 'int':
+      return BigInt.asUintN(256, BigInt(value)).toString(16).padStart(WORD_SIZE, '0');
+    case 'bool':
+      return encodeUint(value ? 1 : 0);
+    case 'address':
+      return encodeAddress(value);
+    case 'bytes32':
+      return encodeFixedBytes(value);
+    case 'bytes':
+      return encodeBytesTail(value);
+    case 'string':
+      return encodeBytesTail(bytesToHex(utf8ToBytes(value)));
+  }
+
+  if ('array' in type) {
+    return encodeUint(value.length) + encodeAbiParameters(value.map(() => type.array), value);
+  }
+  return encodeAbiParameters(type.tuple, value);
+}
+
+/**
+ * Decode the members of a tuple whose encoding starts at the given word
+ */
+function decodeAbiTuple(types: AbiType[], data: string, startWord: number): unknown[] {
+  let headWord = startWord;
+
+  return types.map(type => {
+    const position = isDynamicType(type)
+      ? startWord + Number(decodeUint(readWord(data, headWord))) / 32
+      : headWord;
+    headWord += getHeadWords(type);
+    return decodeAbiValue(type, data, position);
+  });
+}
+
+function decodeAbiValue(type: AbiType, data: string, wordIndex: number): unknown {
+  switch (type) {
+    case 'uint':
+      return decodeUint(readWord(data, wordIndex));
+    case 'int':
+      return decodeInt(readWord(data, wordIndex));
+    case 'bool':
+      return decodeUint(readWord(data, wordIndex)) !== BigInt(0);
+    case 'address':
+      return decodeAddress(readWord(data, wordIndex));
+    case 'bytes32':
+      return `0x${readWord(data, wordIndex).toLowerCase()}`;
+    case 'bytes':
+    case 'string': {
+      const length = Number(decodeUint(readWord(data, wordIndex)));
+      const start = (wordIndex + 1) * WORD_SIZE;
+      const hex = data.slice(start, start + length * 2);
+      if (hex.length !== length * 2) {
+        throw new ProviderError(`ABI data too short: missing ${type} data at word ${wordIndex}`);
+      }
+      return type === 'bytes' ? `0x${hex}` : new TextDecoder().decode(hexToBytes(hex));
+    }
+  }
+
+  if ('array' in type) {
+    const length = Number(decodeUint(readWord(data, wordIndex)));
+    return decodeAbiTuple(new Array(length).fill(type.array), data, wordIndex + 1);
+  }
+  return decodeAbiTuple(type.tuple, data, wordIndex);
+}
+
+export { bytesToHex, hexToBytes, utf8ToBytes };
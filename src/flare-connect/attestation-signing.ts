@@ -0,0 +1,120 @@
+/**
+ * Signing and signer recovery for State Connector attestation responses
+ *
+ * Attesters sign the keccak256 hash of the canonical JSON encoding of a
+ * response's envelope as an Ethereum signed message (EIP-191), producing
+ * 65-byte `r || s || v` signatures. The envelope binds the response data to the
+ * query it answers and to its validity period, so neither can be changed or
+ * reused for another query without invalidating the signatures.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes, strip0x, utf8ToBytes } from './abi';
+import { publicKeyToAddress } from './transaction';
+import { AttestationResponse } from './types';
+import { ValidationError, VerificationError } from '../utils/errors';
+
+/**
+ * The parts of an attestation response its signatures cover
+ */
+export interface AttestationEnvelope {
+  requestId: string;
+  blockchain: string;
+  address: string;
+  queryData: any;
+  responseData: any;
+  timestamp: number;
+  validUntil: number;
+}
+
+/**
+ * Encode a JSON value canonically: object keys sorted, no whitespace,
+ * undefined object members omitted and bigints written as decimal strings
+ */
+export function canonicalEncode(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'bigint') {
+    return JSON.stringify(value.toString());
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) {
+      throw new ValidationError(`Cannot canonically encode non-finite number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalEncode(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const members = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalEncode(value[key])}`);
+    return `{${members.join(',')}}`;
+  }
+
+  throw new ValidationError(`Cannot canonically encode value of type ${typeof value}`);
+}
+
+/**
+ * Get the envelope attesters sign for a response
+ */
+export function getAttestationEnvelope(response: AttestationResponse): AttestationEnvelope {
+  return {
+    requestId: response.requestId,
+    blockchain: response.blockchain,
+    address: response.address,
+    queryData: response.queryData,
+    responseData: response.responseData,
+    timestamp: response.attestation.timestamp,
+    validUntil: response.attestation.validUntil
+  };
+}
+
+/**
+ * Compute the digest attesters sign for the given envelope
+ */
+export function attestationDigest(envelope: AttestationEnvelope): Uint8Array {
+  const dataHash = keccak_256(utf8ToBytes(canonicalEncode(envelope)));
+  const prefix = utf8ToBytes('\x19Ethereum Signed Message:\n32');
+  const message = new Uint8Array(prefix.length + dataHash.length);
+  message.set(prefix);
+  message.set(dataHash, prefix.length);
+  return keccak_256(message);
+}
+
+/**
+ * Sign a response envelope as an attester
+ */
+export function signAttestation(envelope: AttestationEnvelope, privateKey: string): string {
+  const signature = secp256k1.sign(attestationDigest(envelope), hexToBytes(strip0x(privateKey)), { lowS: true });
+  return `0x${bytesToHex(signature.toCompactRawBytes())}${(27 + signature.recovery).toString(16)}`;
+}
+
+/**
+ * Recover the address that signed the given response envelope
+ */
+export function recoverAttestationSigner(envelope: AttestationEnvelope, signature: string): string {
+  const body = strip0x(signature);
+  if (body.length !== 130 || !/^[0-9a-fA-F]*$/.test(body)) {
+    throw new VerificationError('Signature must be 65 bytes of hex');
+  }
+
+  const v = parseInt(body.slice(128), 16);
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) {
+    throw new VerificationError(`Invalid signature recovery id ${v}`);
+  }
+
+  const publicKey = secp256k1.Signature.fromCompact(body.slice(0, 128))
+    .addRecoveryBit(recovery)
+    .recoverPublicKey(attestationDigest(envelope));
+
+  return publicKeyToAddress(publicKey.toRawBytes(false));
+}
@@ -0,0 +1,408 @@
+/**
+ * Bitcoin simplified payment verification (SPV)
+ *
+ * A transaction is proven by a Merkle branch from its txid to the Merkle root of
+ * a block header, and that header is buried under a chain of headers whose
+ * links and proof-of-work are checked locally. The chain has to connect to a
+ * trusted checkpoint header, which fixes the height of every header and the
+ * difficulty the headers after it must follow. Hashes are handled in display
+ * (big-endian) hex as returned by block explorers and node RPCs.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, strip0x } from './abi';
+import { BitcoinCheckpointConfig, BitcoinSpvProof } from './types';
+import { ValidationError, VerificationError } from '../utils/errors';
+
+export interface BitcoinNetworkParams {
+  powLimitBits: number;
+  retargetInterval: number;
+  // Seconds one retarget interval is meant to take
+  targetTimespan: number;
+  // Seconds between blocks the difficulty aims for
+  targetSpacing: number;
+  allowMinDifficultyBlocks: boolean;
+}
+
+export interface BitcoinHeader {
+  hash: string;
+  version: number;
+  previousBlockHash: string;
+  merkleRoot: string;
+  timestamp: number;
+  bits: number;
+  nonce: number;
+}
+
+export interface BitcoinTransactionOutput {
+  index: number;
+  value: bigint;
+  scriptPubKey: string;
+}
+
+export interface BitcoinSpvVerification {
+  valid: boolean;
+  blockHash?: string;
+  blockHeight?: number;
+  confirmations: number;
+  // Work of the headers from the transaction's block to the end of the chain
+  chainWork: bigint;
+  errors: string[];
+}
+
+/**
+ * Consensus parameters of the Bitcoin networks known to the connector, keyed by chain ID
+ */
+export const BITCOIN_NETWORKS: Record<string, BitcoinNetworkParams> = {
+  'btc-mainnet': {
+    powLimitBits: 0x1d00ffff,
+    retargetInterval: 2016,
+    targetTimespan: 14 * 24 * 60 * 60,
+    targetSpacing: 10 * 60,
+    allowMinDifficultyBlocks: false
+  },
+  'btc-testnet': {
+    powLimitBits: 0x1d00ffff,
+    retargetInterval: 2016,
+    targetTimespan: 14 * 24 * 60 * 60,
+    targetSpacing: 10 * 60,
+    allowMinDifficultyBlocks: true
+  }
+};
+
+/**
+ * Double SHA-256
+ */
+export function sha256d(data: Uint8Array): Uint8Array {
+  return sha256(sha256(data));
+}
+
+/**
+ * Convert between internal (little-endian) byte order and display hex
+ */
+function reverseHex(hex: string): string {
+  return bytesToHex(hexToBytes(strip0x(hex)).reverse());
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+/**
+ * Parse an 80-byte serialized block header
+ */
+export function parseBlockHeader(raw: string): BitcoinHeader {
+  const bytes = hexToBytes(strip0x(raw));
+  if (bytes.length !== 80) {
+    throw new VerificationError(`Block header must be 80 bytes, got ${bytes.length}`);
+  }
+
+  return {
+    hash: bytesToHex(sha256d(bytes).reverse()),
+    version: readUint32LE(bytes, 0),
+    previousBlockHash: bytesToHex(bytes.slice(4, 36).reverse()),
+    merkleRoot: bytesToHex(bytes.slice(36, 68).reverse()),
+    timestamp: readUint32LE(bytes, 68),
+    bits: readUint32LE(bytes, 72),
+    nonce: readUint32LE(bytes, 76)
+  };
+}
+
+/**
+ * Expand the compact difficulty target of a header
+ */
+export function bitsToTarget(bits: number): bigint {
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0x007fffff);
+  if (bits & 0x00800000) {
+    throw new VerificationError(`Negative compact target ${bits.toString(16)}`);
+  }
+  return exponent <= 3
+    ? mantissa >> BigInt(8 * (3 - exponent))
+    : mantissa << BigInt(8 * (exponent - 3));
+}
+
+/**
+ * Encode a target in compact form, as Bitcoin Core's GetCompact
+ */
+export function targetToBits(target: bigint): number {
+  let size = target.toString(16).replace(/^0+/, '').length;
+  size = Math.ceil(size / 2);
+  let compact = size <= 3
+    ? Number(target << BigInt(8 * (3 - size)))
+    : Number(target >> BigInt(8 * (size - 3)));
+  if (compact & 0x00800000) {
+    compact >>>= 8;
+    size++;
+  }
+  return ((size << 24) | compact) >>> 0;
+}
+
+/**
+ * Expected number of hashes needed to meet a target
+ */
+export function targetWork(target: bigint): bigint {
+  return (BigInt(1) << BigInt(256)) / (target + BigInt(1));
+}
+
+/**
+ * Compute the difficulty of the first block of a retarget interval from the
+ * time the previous interval took, clamped to a factor of four either way
+ */
+export function retargetBits(previousBits: number, actualTimespan: number, params: BitcoinNetworkParams): number {
+  const timespan = Math.min(Math.max(actualTimespan, params.targetTimespan / 4), params.targetTimespan * 4);
+  const powLimit = bitsToTarget(params.powLimitBits);
+  const target = bitsToTarget(previousBits) * BigInt(timespan) / BigInt(params.targetTimespan);
+  return targetToBits(target > powLimit ? powLimit : target);
+}
+
+/**
+ * Verify that headers starting at `startHeight` form a chain anchored to a
+ * trusted checkpoint
+ *
+ * The chain has to contain the checkpoint or start right after it. Headers up
+ * to the checkpoint are committed to by its hash; every header after it must
+ * meet its target, and that target must be the one the difficulty rules
+ * require: unchanged within a retarget interval, recomputed from the interval's
+ * timespan at its boundary, and on testnet the minimum difficulty after a
+ * 20-minute gap. The returned chain work covers the headers after the checkpoint.
+ */
+export function verifyHeaderChain(
+  rawHeaders: string[],
+  startHeight: number,
+  params: BitcoinNetworkParams,
+  checkpoint: BitcoinCheckpointConfig
+): { headers: BitcoinHeader[]; chainWork: bigint } {
+  if (rawHeaders.length === 0) {
+    throw new VerificationError('No block headers to verify');
+  }
+
+  const headers = rawHeaders.map(parseBlockHeader);
+  const anchor = parseBlockHeader(checkpoint.header);
+  const anchorIndex = checkpoint.height - startHeight;
+  if (anchorIndex < -1 || anchorIndex >= headers.length) {
+    throw new VerificationError(
+      `Headers ${startHeight} to ${startHeight + headers.length - 1} do not reach the checkpoint at height ${checkpoint.height}`
+    );
+  }
+  const anchored = anchorIndex === -1
+    ? headers[0].previousBlockHash === anchor.hash
+    : headers[anchorIndex].hash === anchor.hash;
+  if (!anchored) {
+    throw new VerificationError(`Header chain does not connect to the checkpoint at height ${checkpoint.height}`);
+  }
+
+  const isPeriodStart = (height: number): boolean => height % params.retargetInterval === 0;
+  let periodStartTimestamp = isPeriodStart(checkpoint.height) ? anchor.timestamp : checkpoint.periodStartTimestamp;
+  if (periodStartTimestamp === undefined && anchorIndex < headers.length - 1) {
+    throw new ValidationError('The checkpoint needs the timestamp of the start of its retarget interval', {
+      context: { field: 'periodStartTimestamp' }
+    });
+  }
+
+  const powLimit = bitsToTarget(params.powLimitBits);
+  let previous = anchor;
+  // Difficulty of the last block that was not a testnet minimum-difficulty block
+  let lastBits = anchor.bits;
+  let chainWork = BigInt(0);
+
+  headers.forEach((header, i) => {
+    const height = startHeight + i;
+    if (i > 0 && header.previousBlockHash !== headers[i - 1].hash) {
+      throw new VerificationError(`Header at height ${height} does not link to the previous header`);
+    }
+    if (i <= anchorIndex) {
+      return;
+    }
+
+    let expectedBits: number;
+    if (isPeriodStart(height)) {
+      expectedBits = retargetBits(previous.bits, previous.timestamp - periodStartTimestamp!, params);
+      periodStartTimestamp = header.timestamp;
+    } else if (params.allowMinDifficultyBlocks && header.timestamp > previous.timestamp + 2 * params.targetSpacing) {
+      expectedBits = params.powLimitBits;
+    } else {
+      expectedBits = params.allowMinDifficultyBlocks ? lastBits : previous.bits;
+    }
+    if (header.bits !== expectedBits) {
+      throw new VerificationError(
+        `Header at height ${height} has difficulty bits ${header.bits.toString(16)}, expected ${expectedBits.toString(16)}`
+      );
+    }
+
+    const target = bitsToTarget(header.bits);
+    if (target === BigInt(0) || target > powLimit) {
+      throw new VerificationError(`Header at height ${height} has a target outside the proof-of-work limit`);
+    }
+    if (BigInt(`0x${header.hash}`) > target) {
+      throw new VerificationError(`Header at height ${height} does not meet its proof-of-work target`);
+    }
+
+    if (isPeriodStart(height) || header.bits !== params.powLimitBits) {
+      lastBits = header.bits;
+    }
+    previous = header;
+    chainWork += targetWork(target);
+  });
+
+  return { headers, chainWork };
+}
+
+/**
+ * Compute the Merkle root implied by a txid, its Merkle branch and its position in the block
+ */
+export function computeMerkleRootFromBranch(txid: string, branch: string[], position: number): string {
+  let node = hexToBytes(reverseHex(txid));
+  let index = position;
+
+  branch.forEach(sibling => {
+    const siblingBytes = hexToBytes(reverseHex(sibling));
+    const pair = new Uint8Array(64);
+    pair.set(index % 2 === 0 ? node : siblingBytes, 0);
+    pair.set(index % 2 === 0 ? siblingBytes : node, 32);
+    node = sha256d(pair);
+    index = Math.floor(index / 2);
+  });
+
+  if (index !== 0) {
+    throw new VerificationError('Transaction position is out of range for the Merkle branch');
+  }
+
+  return bytesToHex(node.reverse());
+}
+
+/**
+ * Parse a raw transaction, returning its txid and outputs
+ *
+ * The txid is computed over the serialization without witness data.
+ */
+export function parseTransaction(raw: string): { txid: string; outputs: BitcoinTransactionOutput[] } {
+  const bytes = hexToBytes(strip0x(raw));
+  let offset = 0;
+
+  const take = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new VerificationError('Raw transaction ended unexpectedly');
+    }
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+  const readVarInt = (): number => {
+    const first = take(1)[0];
+    if (first < 0xfd) {
+      return first;
+    }
+    const size = first === 0xfd ? 2 : first === 0xfe ? 4 : 8;
+    return take(size).reduceRight((value, byte) => value * 256 + byte, 0);
+  };
+
+  const version = take(4);
+  const segwit = bytes[offset] === 0 && bytes[offset + 1] === 1;
+  if (segwit) {
+    take(2);
+  }
+
+  const bodyStart = offset;
+  const inputCount = readVarInt();
+  for (let i = 0; i < inputCount; i++) {
+    take(36);
+    take(readVarInt());
+    take(4);
+  }
+
+  const outputs: BitcoinTransactionOutput[] = [];
+  const outputCount = readVarInt();
+  for (let i = 0; i < outputCount; i++) {
+    const value = take(8).reduceRight((total, byte) => total * BigInt(256) + BigInt(byte), BigInt(0));
+    outputs.push({ index: i, value, scriptPubKey: bytesToHex(take(readVarInt())) });
+  }
+  const bodyEnd = offset;
+
+  if (segwit) {
+    for (let i = 0; i < inputCount; i++) {
+      const items = readVarInt();
+      for (let j = 0; j < items; j++) {
+        take(readVarInt());
+      }
+    }
+  }
+  const lockTime = take(4);
+
+  if (offset !== bytes.length) {
+    throw new VerificationError('Raw transaction has trailing bytes');
+  }
+
+  const stripped = new Uint8Array(4 + (bodyEnd - bodyStart) + 4);
+  stripped.set(version, 0);
+  stripped.set(bytes.slice(bodyStart, bodyEnd), 4);
+  stripped.set(lockTime, 4 + bodyEnd - bodyStart);
+
+  return {
+    txid: bytesToHex(sha256d(stripped).reverse()),
+    outputs
+  };
+}
+
+/**
+ * Verify an SPV proof of a transaction
+ *
+ * The headers of the proof start at `proof.startHeight` (the transaction's
+ * block by default) and must be anchored to the checkpoint, which makes the
+ * height of the transaction's block a verified fact rather than the relay's
+ * claim. The confirmation count is the number of verified headers from that
+ * block on, and their work must reach `minChainWork`.
+ */
+export function verifyBitcoinSpvProof(
+  txid: string,
+  proof: BitcoinSpvProof,
+  params: BitcoinNetworkParams,
+  checkpoint: BitcoinCheckpointConfig,
+  minChainWork: bigint = BigInt(0)
+): BitcoinSpvVerification {
+  const errors: string[] = [];
+  const result: BitcoinSpvVerification = {
+    valid: false,
+    confirmations: 0,
+    chainWork: BigInt(0),
+    errors
+  };
+
+  try {
+    const startHeight = proof.startHeight !== undefined ? proof.startHeight : proof.blockHeight;
+    const { headers } = verifyHeaderChain(proof.headers, startHeight, params, checkpoint);
+    const blockIndex = proof.blockHeight - startHeight;
+    if (blockIndex < 0 || blockIndex >= headers.length) {
+      throw new VerificationError(`Block height ${proof.blockHeight} is outside the proven header chain`);
+    }
+    const confirmingHeaders = headers.slice(blockIndex);
+    result.blockHash = headers[blockIndex].hash;
+    result.blockHeight = proof.blockHeight;
+    result.chainWork = confirmingHeaders.reduce((work, header) => work + targetWork(bitsToTarget(header.bits)), BigInt(0));
+
+    const merkleRoot = computeMerkleRootFromBranch(txid, proof.merkleBranch, proof.position);
+    if (merkleRoot !== headers[blockIndex].merkleRoot) {
+      errors.push('Merkle branch does not lead to the block header Merkle root');
+    }
+
+    if (proof.rawTransaction && parseTransaction(proof.rawTransaction).txid !== strip0x(txid).toLowerCase()) {
+      errors.push('Raw transaction does not hash to the txid');
+    }
+
+    if (result.chainWork < minChainWork) {
+      errors.push(`Chain work ${result.chainWork} of the confirming headers is below the required ${minChainWork}`);
+    }
+
+    if (errors.length === 0) {
+      result.confirmations = confirmingHeaders.length;
+    }
+  } catch (error:any) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    errors.push(error.message);
+  }
+
+  result.valid = errors.length === 0;
+  return result;
+}
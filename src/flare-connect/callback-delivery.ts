@@ -0,0 +1,144 @@
+/**
+ * Signed HTTP callback delivery with retries
+ *
+ * Payloads are POSTed as JSON with an HMAC-SHA256 signature over
+ * `{timestamp}.{body}` in the `X-Flare-Signature` header (`sha256=<hex>`) and the
+ * timestamp in `X-Flare-Timestamp`, so receivers can authenticate the sender and
+ * reject replays. Network errors, 5xx and 429 responses are retried with
+ * exponential backoff; other responses are final.
+ */
+
+import axios from 'axios';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from './abi';
+import { abortableDelay } from './request-scheduler';
+import { CallbackDeliveryOptions, CallbackDeliveryResult } from './types';
+import { Logger, getCorrelationHeaders } from '../utils/logger';
+
+export const SIGNATURE_HEADER = 'X-Flare-Signature';
+export const TIMESTAMP_HEADER = 'X-Flare-Timestamp';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_CALLBACK_TIMEOUT = 10000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const DEFAULT_SIGNATURE_MAX_AGE = 5 * 60 * 1000;
+
+/**
+ * Compute the signature header value for a callback body
+ */
+export function signCallbackPayload(body: string, timestamp: number, secret: string): string {
+  return `sha256=${bytesToHex(hmac(sha256, utf8ToBytes(secret), utf8ToBytes(`${timestamp}.${body}`)))}`;
+}
+
+/**
+ * Check a received callback's signature and that its timestamp is recent
+ */
+export function verifyCallbackSignature(
+  body: string,
+  timestamp: number,
+  signature: string,
+  secret: string,
+  maxAge: number = DEFAULT_SIGNATURE_MAX_AGE
+): boolean {
+  if (!isFinite(timestamp) || Math.abs(Date.now() - timestamp) > maxAge) {
+    return false;
+  }
+
+  const expected = signCallbackPayload(body, timestamp, secret);
+  if (expected.length !== signature.length) {
+    return false;
+  }
+
+  // Compare in constant time
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+export class CallbackDispatcher {
+  private logger: Logger;
+  private controller: AbortController = new AbortController();
+
+  /**
+   * Create a new dispatcher
+   */
+  constructor(logLevel: string = 'info') {
+    this.logger = new Logger({
+      serviceName: 'CallbackDispatcher',
+      logLevel
+    });
+  }
+
+  /**
+   * POST a signed payload, retrying until it is accepted, rejected or attempts run out
+   *
+   * `onAttempt` is called after every attempt with its outcome.
+   */
+  async deliver(
+    url: string,
+    payload: unknown,
+    options: CallbackDeliveryOptions,
+    onAttempt?: (attempt: number, error?: string) => void
+  ): Promise<CallbackDeliveryResult> {
+    const signal = this.controller.signal;
+    const maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+    const retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
+    const body = JSON.stringify(payload);
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let retryable = true;
+      try {
+        const timestamp = Date.now();
+        await axios.post(url, body, {
+          timeout: options.timeout || DEFAULT_CALLBACK_TIMEOUT,
+          headers: {
+            'Content-Type': 'application/json',
+            [SIGNATURE_HEADER]: signCallbackPayload(body, timestamp, options.secret),
+            [TIMESTAMP_HEADER]: String(timestamp),
+            'X-Flare-Delivery-Attempt': String(attempt),
+            ...getCorrelationHeaders()
+          }
+        });
+
+        if (onAttempt) {
+          onAttempt(attempt);
+        }
+        return { delivered: true, attempts: attempt };
+      } catch (error:any) {
+        const status: number | undefined = error.response ? error.response.status : undefined;
+        retryable = status === undefined || status >= 500 || status === 429;
+        lastError = status !== undefined ? `HTTP ${status}` : error.message;
+
+        if (onAttempt) {
+          onAttempt(attempt, lastError);
+        }
+        this.logger.warn(`Callback delivery to ${url} failed`, { attempt, error: lastError, retryable });
+      }
+
+      if (!retryable || attempt === maxAttempts) {
+        return { delivered: false, attempts: attempt, error: lastError };
+      }
+
+      try {
+        await abortableDelay(Math.min(retryDelay * Math.pow(2, attempt - 1), MAX_RETRY_DELAY), signal);
+      } catch (error) {
+        return { delivered: false, attempts: attempt, error: 'Delivery cancelled' };
+      }
+    }
+
+    return { delivered: false, attempts: maxAttempts, error: lastError };
+  }
+
+  /**
+   * Stop all pending retries; deliveries waiting to retry resolve as cancelled
+   */
+  cancelAll(): void {
+    this.controller.abort();
+    this.controller = new AbortController();
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Voting epoch clock shared by the Flare connectors
+ *
+ * Flare protocols (FTSO, FDC) run in voting epochs of fixed duration counted
+ * from a network-specific first epoch timestamp. The clock converts between
+ * timestamps, epoch IDs and reveal deadlines, and emits an `epoch` event with
+ * the new EpochInfo at every epoch boundary while it has listeners.
+ */
+
+import { EventEmitter } from 'events';
+import { EpochClockConfig, EpochInfo } from './types';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Flare mainnet voting epoch parameters
+ */
+export const FLARE_MAINNET_EPOCH_CONFIG: Required<EpochClockConfig> = {
+  firstEpochStartTimestamp: 1658430000 * 1000,
+  epochDuration: 90 * 1000,
+  revealDeadlineOffset: 45 * 1000
+};
+
+export class EpochClock extends EventEmitter {
+  private config: Required<EpochClockConfig>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Create a new epoch clock; unspecified parameters default to Flare mainnet
+   */
+  constructor(config: EpochClockConfig = {}) {
+    super();
+    this.config = {
+      ...FLARE_MAINNET_EPOCH_CONFIG,
+      ...config
+    };
+
+    if (this.config.epochDuration <= 0) {
+      throw new ValidationError('Epoch duration must be positive', { context: { field: 'epochDuration' } });
+    }
+    if (this.config.revealDeadlineOffset < 0 || this.config.revealDeadlineOffset > this.config.epochDuration) {
+      throw new ValidationError('Reveal deadline offset must lie within an epoch', { context: { field: 'revealDeadlineOffset' } });
+    }
+
+    this.on('newListener', event => {
+      if (event === 'epoch' && !this.timer) {
+        this.scheduleNextBoundary();
+      }
+    });
+    this.on('removeListener', event => {
+      if (event === 'epoch' && this.listenerCount('epoch') === 0) {
+        this.clearTimer();
+      }
+    });
+  }
+
+  /**
+   * Get the epoch parameters in use
+   */
+  getConfig(): Required<EpochClockConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the duration of a voting epoch in milliseconds
+   */
+  getEpochDuration(): number {
+    return this.config.epochDuration;
+  }
+
+  /**
+   * Get the ID of the epoch containing a timestamp
+   */
+  getEpochId(timestamp: number = Date.now()): number {
+    return Math.floor((timestamp - this.config.firstEpochStartTimestamp) / this.config.epochDuration);
+  }
+
+  /**
+   * Get the start timestamp of an epoch
+   */
+  getEpochStart(epochId: number): number {
+    return this.config.firstEpochStartTimestamp + epochId * this.config.epochDuration;
+  }
+
+  /**
+   * Get the end timestamp (exclusive) of an epoch
+   */
+  getEpochEnd(epochId: number): number {
+    return this.getEpochStart(epochId + 1);
+  }
+
+  /**
+   * Get the deadline for revealing values committed in an epoch
+   */
+  getRevealDeadline(epochId: number): number {
+    return this.getEpochStart(epochId + 1) + this.config.revealDeadlineOffset;
+  }
+
+  /**
+   * Get full information about an epoch
+   */
+  getEpochInfo(epochId: number): EpochInfo {
+    return {
+      epochId,
+      startTimestamp: this.getEpochStart(epochId),
+      endTimestamp: this.getEpochEnd(epochId),
+      revealDeadline: this.getRevealDeadline(epochId)
+    };
+  }
+
+  /**
+   * Get information about the epoch in progress
+   */
+  getCurrentEpoch(): EpochInfo {
+    return this.getEpochInfo(this.getEpochId());
+  }
+
+  /**
+   * Stop emitting boundary events and remove all listeners
+   */
+  dispose(): void {
+    this.clearTimer();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Emit the next boundary when it is reached; after an emitted epoch the
+   * following one is next even if the timer fired early by the wall clock
+   */
+  private scheduleNextBoundary(nextEpoch: number = this.getEpochId() + 1): void {
+    const delay = Math.max(0, this.getEpochStart(nextEpoch) - Date.now());
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.emit('epoch', this.getEpochInfo(nextEpoch));
+      if (this.listenerCount('epoch') > 0 && !this.timer) {
+        this.scheduleNextBoundary(Math.max(this.getEpochId(), nextEpoch) + 1);
+      }
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
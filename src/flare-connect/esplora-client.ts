@@ -0,0 +1,106 @@
+/**
+ * Esplora REST client used to gather Bitcoin SPV proofs
+ *
+ * Nothing returned here is trusted: headers, Merkle branches and raw
+ * transactions are verified locally by the SPV module.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { BitcoinSpvProof } from './types';
+import { fromHttpError } from '../utils/errors';
+import { getCorrelationHeaders } from '../utils/logger';
+
+export interface EsploraTransactionStatus {
+  confirmed: boolean;
+  block_height?: number;
+  block_hash?: string;
+}
+
+export class EsploraClient {
+  private http: AxiosInstance;
+
+  /**
+   * Create a client for an Esplora API base URL such as https://blockstream.info/api
+   */
+  constructor(baseUrl: string, timeout: number = 10000) {
+    this.http = axios.create({
+      baseURL: baseUrl.replace(/\/$/, ''),
+      timeout
+    });
+    this.http.interceptors.request.use(request => {
+      request.headers.set(getCorrelationHeaders());
+      return request;
+    });
+    this.http.interceptors.response.use(undefined, error => Promise.reject(fromHttpError(error)));
+  }
+
+  /**
+   * Get the confirmation status of a transaction
+   */
+  async getTransactionStatus(txid: string): Promise<EsploraTransactionStatus> {
+    const response = await this.http.get<EsploraTransactionStatus>(`/tx/${txid}/status`);
+    return response.data;
+  }
+
+  /**
+   * Get the height of the chain tip
+   */
+  async getTipHeight(): Promise<number> {
+    const response = await this.http.get(`/blocks/tip/height`, { responseType: 'text' });
+    return parseInt(String(response.data), 10);
+  }
+
+  /**
+   * Get the raw 80-byte header of the block at a height
+   */
+  async getHeaderAtHeight(height: number): Promise<string> {
+    const hash = await this.http.get(`/block-height/${height}`, { responseType: 'text' });
+    const header = await this.http.get(`/block/${String(hash.data).trim()}/header`, { responseType: 'text' });
+    return String(header.data).trim();
+  }
+
+  /**
+   * Get the raw transaction hex
+   */
+  async getRawTransaction(txid: string): Promise<string> {
+    const response = await this.http.get(`/tx/${txid}/hex`, { responseType: 'text' });
+    return String(response.data).trim();
+  }
+
+  /**
+   * Gather an SPV proof for a confirmed transaction with up to `maxHeaders` headers
+   * from its block towards the tip, extended to connect to the checkpoint at
+   * `checkpointHeight`: headers start right after the checkpoint for later blocks
+   * and reach up to it for earlier ones. Returns null while the transaction is
+   * unconfirmed.
+   */
+  async getSpvProof(txid: string, maxHeaders: number, checkpointHeight: number): Promise<BitcoinSpvProof | null> {
+    const status = await this.getTransactionStatus(txid);
+    if (!status.confirmed || status.block_height === undefined) {
+      return null;
+    }
+
+    const blockHeight = status.block_height;
+    const [merkleProof, tipHeight, rawTransaction] = await Promise.all([
+      this.http.get<{ block_height: number; merkle: string[]; pos: number }>(`/tx/${txid}/merkle-proof`),
+      this.getTipHeight(),
+      this.getRawTransaction(txid)
+    ]);
+
+    const startHeight = Math.min(blockHeight, checkpointHeight + 1);
+    const endHeight = Math.max(checkpointHeight, Math.min(tipHeight, blockHeight + maxHeaders - 1), blockHeight);
+    const headers: string[] = [];
+    for (let height = startHeight; height <= endHeight; height++) {
+      headers.push(await this.getHeaderAtHeight(height));
+    }
+
+    return {
+      blockHeight,
+      startHeight,
+      headers,
+      merkleBranch: merkleProof.data.merkle,
+      position: merkleProof.data.pos,
+      rawTransaction
+    };
+  }
+}
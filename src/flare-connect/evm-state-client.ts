@@ -0,0 +1,291 @@
+/**
+ * JSON-RPC access to external EVM chains for state proofs
+ *
+ * Fetches block headers, `eth_getProof` account/storage proofs, block
+ * transactions and receipts so they can be verified locally against the
+ * block's trie roots.
+ */
+
+import { JsonRpcClient } from './json-rpc-client';
+import { bytesToHex, strip0x } from './abi';
+import { rlpDecode, rlpEncode, RlpDecoded, RlpInput } from './rlp';
+import { EvmBlockHeader, EvmLog, JsonRpcClientConfig, RpcClient, StateQueryOptions } from './types';
+import { ProviderError, VerificationError } from '../utils/errors';
+
+export interface EvmProofResponse {
+  address: string;
+  accountProof: string[];
+  balance: string;
+  nonce: string;
+  codeHash: string;
+  storageHash: string;
+  storageProof: Array<{ key: string; value: string; proof: string[] }>;
+}
+
+// Header fields in RLP order; the fields from the London base fee on only exist after their forks
+const HEADER_FIELDS: Array<[string, 'data' | 'quantity']> = [
+  ['parentHash', 'data'],
+  ['sha3Uncles', 'data'],
+  ['miner', 'data'],
+  ['stateRoot', 'data'],
+  ['transactionsRoot', 'data'],
+  ['receiptsRoot', 'data'],
+  ['logsBloom', 'data'],
+  ['difficulty', 'quantity'],
+  ['number', 'quantity'],
+  ['gasLimit', 'quantity'],
+  ['gasUsed', 'quantity'],
+  ['timestamp', 'quantity'],
+  ['extraData', 'data'],
+  ['mixHash', 'data'],
+  ['nonce', 'data'],
+  ['baseFeePerGas', 'quantity'],
+  ['withdrawalsRoot', 'data'],
+  ['blobGasUsed', 'quantity'],
+  ['excessBlobGas', 'quantity'],
+  ['parentBeaconBlockRoot', 'data'],
+  ['requestsHash', 'data']
+];
+const PRE_LONDON_HEADER_FIELDS = 15;
+
+// Signed transaction fields in RLP order, by EIP-2718 transaction type
+const TRANSACTION_FIELDS: Record<number, string[]> = {
+  0: ['nonce', 'gasPrice', 'gas', 'to', 'value', 'input', 'v', 'r', 's'],
+  1: ['chainId', 'nonce', 'gasPrice', 'gas', 'to', 'value', 'input', 'accessList', 'yParity', 'r', 's'],
+  2: ['chainId', 'nonce', 'maxPriorityFeePerGas', 'maxFeePerGas', 'gas', 'to', 'value', 'input', 'accessList', 'yParity', 'r', 's'],
+  3: [
+    'chainId', 'nonce', 'maxPriorityFeePerGas', 'maxFeePerGas', 'gas', 'to', 'value', 'input', 'accessList',
+    'maxFeePerBlobGas', 'blobVersionedHashes', 'yParity', 'r', 's'
+  ],
+  4: [
+    'chainId', 'nonce', 'maxPriorityFeePerGas', 'maxFeePerGas', 'gas', 'to', 'value', 'input', 'accessList',
+    'authorizationList', 'yParity', 'r', 's'
+  ]
+};
+
+export interface EvmReceipt {
+  type?: string;
+  status?: string;
+  root?: string;
+  cumulativeGasUsed: string;
+  logsBloom: string;
+  logs: Array<{ address: string; topics: string[]; data: string }>;
+}
+
+export interface EvmTransactionReceipt extends EvmReceipt {
+  transactionHash: string;
+  transactionIndex: string;
+  blockHash: string;
+  blockNumber: string;
+}
+
+/**
+ * Encode a JSON-RPC receipt as it is stored in the receipts trie
+ * (EIP-2718 typed receipts are prefixed with their type byte)
+ */
+export function encodeReceipt(receipt: EvmReceipt): Uint8Array {
+  const outcome = receipt.root ? receipt.root : BigInt(receipt.status || 0);
+  const encoded = rlpEncode([
+    outcome,
+    BigInt(receipt.cumulativeGasUsed),
+    receipt.logsBloom,
+    receipt.logs.map(log => [log.address, log.topics, log.data])
+  ]);
+
+  const type = receipt.type ? parseInt(receipt.type, 16) : 0;
+  if (type === 0) {
+    return encoded;
+  }
+
+  const typed = new Uint8Array(encoded.length + 1);
+  typed[0] = type;
+  typed.set(encoded, 1);
+  return typed;
+}
+
+/**
+ * Encode a signed JSON-RPC transaction as it is stored in the transactions trie;
+ * its keccak hash is the transaction hash
+ */
+export function encodeTransaction(transaction: Record<string, unknown>): Uint8Array {
+  const type = typeof transaction.type === 'string' ? parseInt(transaction.type, 16) : 0;
+  const names = TRANSACTION_FIELDS[type];
+  if (!names) {
+    throw new VerificationError(`Unsupported transaction type ${type}`);
+  }
+
+  const fields = names.map(name => {
+    // Nodes may only report `v` for the signature parity of typed transactions
+    const value = name === 'yParity' && transaction.yParity === undefined ? transaction.v : transaction[name];
+    return encodeTransactionField(name, value);
+  });
+
+  const encoded = rlpEncode(fields);
+  if (type === 0) {
+    return encoded;
+  }
+
+  const typed = new Uint8Array(encoded.length + 1);
+  typed[0] = type;
+  typed.set(encoded, 1);
+  return typed;
+}
+
+function encodeTransactionField(name: string, value: unknown): RlpInput {
+  switch (name) {
+    case 'to':
+    case 'input':
+      // Contract creations have no recipient
+      return typeof value === 'string' ? value : '0x';
+    case 'accessList':
+      return (value as Array<{ address: string; storageKeys: string[] }> || [])
+        .map(entry => [entry.address, entry.storageKeys]);
+    case 'blobVersionedHashes':
+      return value as string[] || [];
+    case 'authorizationList':
+      return (value as Array<Record<string, string>> || []).map(authorization => [
+        BigInt(authorization.chainId),
+        authorization.address,
+        BigInt(authorization.nonce),
+        BigInt(authorization.yParity),
+        BigInt(authorization.r),
+        BigInt(authorization.s)
+      ]);
+    default:
+      if (typeof value !== 'string') {
+        throw new VerificationError(`Transaction field ${name} is missing`);
+      }
+      return BigInt(value);
+  }
+}
+
+/**
+ * RLP-encode an Ethereum block header from the fields of a JSON-RPC block
+ */
+export function encodeBlockHeader(block: Record<string, unknown>): Uint8Array {
+  const fields: RlpInput[] = [];
+  for (const [name, kind] of HEADER_FIELDS) {
+    const value = block[name];
+    if (typeof value !== 'string') {
+      if (fields.length < PRE_LONDON_HEADER_FIELDS) {
+        throw new VerificationError(`Block header field ${name} is missing`);
+      }
+      break;
+    }
+    fields.push(kind === 'quantity' ? BigInt(value) : value);
+  }
+  return rlpEncode(fields);
+}
+
+/**
+ * Extract the logs emitted by an address from encoded receipts, in block order
+ */
+export function decodeReceiptLogs(encodedReceipts: Uint8Array[], address: string): EvmLog[] {
+  const wanted = strip0x(address).toLowerCase();
+  const logs: EvmLog[] = [];
+  let logIndex = 0;
+
+  encodedReceipts.forEach((encoded, transactionIndex) => {
+    // Typed receipts start with a type byte below the RLP list prefix range
+    const receipt = rlpDecode(encoded[0] < 0xc0 ? encoded.slice(1) : encoded);
+    const receiptLogs = Array.isArray(receipt) ? receipt[3] : undefined;
+    if (!Array.isArray(receiptLogs)) {
+      throw new VerificationError(`Receipt ${transactionIndex} is malformed`);
+    }
+
+    receiptLogs.forEach(log => {
+      const [logAddress, topics, data] = log as RlpDecoded[];
+      const hex = (item: RlpDecoded) => `0x${bytesToHex(item as Uint8Array)}`;
+      if (bytesToHex(logAddress as Uint8Array) === wanted) {
+        logs.push({
+          address: hex(logAddress),
+          topics: (topics as RlpDecoded[]).map(hex),
+          data: hex(data),
+          transactionIndex,
+          logIndex
+        });
+      }
+      logIndex++;
+    });
+  });
+
+  return logs;
+}
+
+export class EvmStateClient {
+  private rpc: RpcClient;
+
+  /**
+   * Create a client for an external EVM chain, talking through `rpc` when given
+   */
+  constructor(config: JsonRpcClientConfig & { rpc?: RpcClient }) {
+    this.rpc = config.rpc || new JsonRpcClient(config);
+  }
+
+  /**
+   * Get the number of the latest block
+   */
+  async getBlockNumber(): Promise<number> {
+    return parseInt(await this.rpc.call<string>('eth_blockNumber'), 16);
+  }
+
+  /**
+   * Get a block's encoded header and the fields needed to verify proofs against it
+   */
+  async getBlock(blockTag: StateQueryOptions['blockTag'] = 'latest'): Promise<EvmBlockHeader> {
+    const tag = typeof blockTag === 'number' ? `0x${blockTag.toString(16)}` : blockTag;
+    const block = await this.rpc.call<Record<string, string> | null>('eth_getBlockByNumber', [tag, false]);
+
+    if (!block) {
+      throw new ProviderError(`Block ${blockTag} not found`);
+    }
+
+    return {
+      number: parseInt(block.number, 16),
+      hash: block.hash,
+      timestamp: parseInt(block.timestamp, 16) * 1000,
+      stateRoot: block.stateRoot,
+      receiptsRoot: block.receiptsRoot,
+      rlp: `0x${bytesToHex(encodeBlockHeader(block))}`
+    };
+  }
+
+  /**
+   * Get the account and storage proofs of an address at a block
+   */
+  async getProof(address: string, storageKeys: string[], blockNumber: number): Promise<EvmProofResponse> {
+    return this.rpc.call<EvmProofResponse>('eth_getProof', [address, storageKeys, `0x${blockNumber.toString(16)}`]);
+  }
+
+  /**
+   * Get the signed transactions of a block, in block order
+   */
+  async getBlockTransactions(blockNumber: number): Promise<Array<Record<string, unknown>>> {
+    const block = await this.rpc.call<{ transactions: Array<Record<string, unknown>> } | null>(
+      'eth_getBlockByNumber',
+      [`0x${blockNumber.toString(16)}`, true]
+    );
+    if (!block) {
+      throw new ProviderError(`Block ${blockNumber} not found`);
+    }
+    return block.transactions;
+  }
+
+  /**
+   * Get the receipt of a transaction, or null while it is not included in a block
+   */
+  async getTransactionReceipt(transactionHash: string): Promise<EvmTransactionReceipt | null> {
+    return this.rpc.call<EvmTransactionReceipt | null>('eth_getTransactionReceipt', [transactionHash]);
+  }
+
+  /**
+   * Get all receipts of a block in transaction order
+   */
+  async getBlockReceipts(blockNumber: number): Promise<EvmReceipt[]> {
+    const receipts = await this.rpc.call<EvmReceipt[] | null>('eth_getBlockReceipts', [`0x${blockNumber.toString(16)}`]);
+    if (!receipts) {
+      throw new ProviderError(`Receipts of block ${blockNumber} not found`);
+    }
+    return receipts;
+  }
+}
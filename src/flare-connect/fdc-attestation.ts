@@ -0,0 +1,85 @@
+/**
+ * Encoding of Flare Data Connector (FDC) attestation requests
+ *
+ * An attestation request is the ABI encoding of
+ * `(bytes32 attestationType, bytes32 sourceId, bytes32 messageIntegrityCode, requestBody)`
+ * where the type and source names are UTF-8 strings right-padded to 32 bytes.
+ */
+
+import { bytesToHex, encodeFixedBytes, hexToBytes, strip0x, utf8ToBytes } from './abi';
+import { AttestationRequestInput } from './types';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * FDC source IDs of the chains known to the connector, keyed by chain ID
+ */
+export const FDC_SOURCE_IDS: Record<string, string> = {
+  'btc-mainnet': 'BTC',
+  'btc-testnet': 'testBTC',
+  'doge-mainnet': 'DOGE',
+  'doge-testnet': 'testDOGE',
+  'xrpl-mainnet': 'XRP',
+  'xrpl-testnet': 'testXRP',
+  'eth-mainnet': 'ETH',
+  'eth-sepolia': 'testETH',
+  'flr-mainnet': 'FLR',
+  'flr-coston2': 'testFLR',
+  'sgb-mainnet': 'SGB',
+  'sgb-coston': 'testSGB',
+  'web2': 'WEB2'
+};
+
+/**
+ * Encode a short UTF-8 name (attestation type or source ID) as a bytes32 hex value
+ */
+export function encodeBytes32String(value: string): string {
+  if (value.startsWith('0x') && strip0x(value).length === 64) {
+    return value.toLowerCase();
+  }
+
+  const bytes = utf8ToBytes(value);
+  if (bytes.length > 32) {
+    throw new ValidationError(`${value} does not fit in bytes32`);
+  }
+  return `0x${encodeFixedBytes(bytesToHex(bytes))}`;
+}
+
+/**
+ * Decode a bytes32 value written by encodeBytes32String back to its name
+ */
+export function decodeBytes32String(value: string): string {
+  const bytes = hexToBytes(strip0x(value));
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.slice(0, end));
+}
+
+/**
+ * Encode an attestation request for submission to FdcHub
+ *
+ * The request body must already be ABI encoded for the attestation type. Without a
+ * message integrity code the zero MIC is used, which verifiers accept only when
+ * the request was prepared without an expected response.
+ */
+export function encodeAttestationRequest(input: AttestationRequestInput): string {
+  const body = strip0x(input.requestBody);
+  if (body.length === 0 || body.length % 64 !== 0 || !/^[0-9a-fA-F]*$/.test(body)) {
+    throw new ValidationError('Attestation request body must be ABI-encoded hex', { context: { field: 'requestBody' } });
+  }
+
+  return '0x' +
+    strip0x(encodeBytes32String(input.attestationType)) +
+    strip0x(encodeBytes32String(input.sourceId)) +
+    encodeFixedBytes(input.messageIntegrityCode || '0x') +
+    body.toLowerCase();
+}
+
+/**
+ * Resolve the FDC source ID for a chain ID or chain name
+ */
+export function getSourceId(blockchain: string): string {
+  const sourceId = FDC_SOURCE_IDS[blockchain.toLowerCase()];
+  if (!sourceId) {
+    throw new ValidationError(`${blockchain} has no FDC source ID`, { context: { field: 'blockchain' } });
+  }
+  return sourceId;
+}
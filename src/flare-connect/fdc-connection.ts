@@ -3,32 +3,79 @@
  * 
  * The FDC provides secure and verified access to external blockchain data,
  * enabling cross-chain functionality and data validation.
+ *
+ * Requests to the network run through a RequestScheduler: at most
+ * `maxConcurrentRequests` at a time with the rest queued, each bounded by
+ * `defaultTimeout` unless the call passes its own timeout, and cancellable
+ * through an AbortSignal.
+ *
+ * Requests are best built with the typed builders from getQueryBuilder(), which
+ * only accept attestation types the chain supports and decode the attested
+ * response for requestAttestation().
  */
 
 import { 
   FDCConnectionConfig, 
   ExternalData, 
   VerificationResult, 
-  SubmissionResult,
   ConnectionStatus,
-  VerifiedData,
-  SupportedBlockchain
+  SupportedBlockchain,
+  FDCTransport,
+  AttestationRequestInput,
+  AttestationRequestRecord,
+  FDCSpecificConfig,
+  RequestOptions,
+  FDCQuery,
+  FDCAttestationResponse,
+  RawAttestationData
 } from './types';
+import { EpochClock } from './epoch-clock';
+import { InFlightTracker } from './in-flight';
+import { RequestScheduler, abortableDelay, throwIfAborted } from './request-scheduler';
+import { JsonRpcFDCTransport } from './fdc-transport';
+import { FDC_SOURCE_IDS, encodeAttestationRequest, getSourceId } from './fdc-attestation';
+import { FDCQueryBuilder, decodeAttestationRequest, decodeAttestationResponse } from './fdc-queries';
+import { canonicalEncode } from './attestation-signing';
+import { computeMerkleRoot, hashLeaf } from './merkle';
+import { TransactionSender } from './transaction';
+import { createSigner } from './signers';
+import { encodeBytesCall, functionSelector, strip0x } from './abi';
+import { NotConnectedError, TimeoutError, ValidationError, VerificationError, wrapError } from '../utils/errors';
 import { Logger } from '../utils/logger';
 
+const REQUEST_ATTESTATION = functionSelector('requestAttestation(bytes)');
+const DEFAULT_ATTESTATION_TIMEOUT = 5 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL = 10000;
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+
+// Voting rounds after the request's round during which the DA layer may still catch up
+const PROOF_GRACE_EPOCHS = 2;
+
+function isRawAttestationData(data: unknown): data is RawAttestationData {
+  return typeof data === 'object' && data !== null && typeof (data as RawAttestationData).responseHex === 'string';
+}
+
 export class FDCConnection {
   private config: FDCConnectionConfig;
   private isConnected: boolean = false;
-  private client: any; 
+  private client: FDCTransport | null = null;
+  private sender: TransactionSender | null = null;
   private logger: Logger;
   private supportedBlockchains: SupportedBlockchain[] = [];
   private lastUpdateTimestamp: number = 0;
+  private epochClock: EpochClock;
+  private inFlight: InFlightTracker = new InFlightTracker();
+  private scheduler: RequestScheduler = new RequestScheduler(
+    () => (this.config.fdcSpecificConfig || {}).maxConcurrentRequests || DEFAULT_MAX_CONCURRENT_REQUESTS
+  );
+  private requests: Map<string, AttestationRequestRecord> = new Map();
   
   /**
    * Create a new connection to the Flare Data Connector
    */
   constructor(config: FDCConnectionConfig) {
     this.config = config;
+    this.epochClock = config.epochClock || new EpochClock();
     this.logger = new Logger({
       serviceName: 'FDCConnection',
       logLevel: config.logLevel || 'info'
@@ -46,58 +93,63 @@ export class FDCConnection {
         endpoint: this.config.endpoint
       });
       
-    
-      
-      await new Promise(resolve => setTimeout(resolve, 700));
+      const fdcConfig = this.config.fdcSpecificConfig || {};
+      const transport = this.config.transport || new JsonRpcFDCTransport({
+        endpoint: this.config.endpoint,
+        apiKey: this.config.apiKey,
+        daLayerUrl: fdcConfig.daLayerUrl,
+        contractRegistryAddress: fdcConfig.contractRegistryAddress,
+        rpc: this.config.rpc
+      });
+      const client = this.config.traffic ? this.config.traffic.wrap('fdc', transport) : transport;
+      await client.connect();
       
-      this.client = {
-        async getExternalData(blockchain: string, dataPath: string) {
-          return {
-            data: {
-              value: Math.random() * 1000,
-              timestamp: Date.now()
-            },
-            blockchain,
-            path: dataPath,
-            attestation: {
-              signatures: 7,
-              threshold: 5
-            }
-          };
-        },
-        
-      };
+      this.client = client;
+      this.sender = fdcConfig.signer ? new TransactionSender(client, createSigner(fdcConfig.signer)) : null;
       
+      // Supported operations are the FDC attestation types verified for each source
       this.supportedBlockchains = [
         {
           name: 'Bitcoin',
           chainId: 'btc-mainnet',
-          supportedOperations: ['UTXO_VERIFICATION', 'TRANSACTION_VERIFICATION'],
+          supportedOperations: ['Payment', 'BalanceDecreasingTransaction', 'AddressValidity'],
           averageFinality: 60 * 60 * 1000 
         },
         {
-          name: 'Ethereum',
-          chainId: 'eth-mainnet',
-          supportedOperations: ['ACCOUNT_STATE', 'TRANSACTION_VERIFICATION', 'SMART_CONTRACT_VERIFICATION'],
-          averageFinality: 3 * 60 * 1000 
+          name: 'Dogecoin',
+          chainId: 'doge-mainnet',
+          supportedOperations: ['Payment', 'BalanceDecreasingTransaction', 'AddressValidity'],
+          averageFinality: 60 * 60 * 1000 
         },
         {
           name: 'XRP Ledger',
           chainId: 'xrpl-mainnet',
-          supportedOperations: ['ACCOUNT_STATE', 'TRANSACTION_VERIFICATION'],
+          supportedOperations: ['Payment', 'BalanceDecreasingTransaction', 'AddressValidity'],
           averageFinality: 5 * 1000 
         },
         {
-          name: 'Algorand',
-          chainId: 'algo-mainnet',
-          supportedOperations: ['ACCOUNT_STATE', 'TRANSACTION_VERIFICATION'],
-          averageFinality: 5 * 1000 
+          name: 'Ethereum',
+          chainId: 'eth-mainnet',
+          supportedOperations: ['EVMTransaction'],
+          averageFinality: 3 * 60 * 1000 
+        },
+        {
+          name: 'Flare',
+          chainId: 'flr-mainnet',
+          supportedOperations: ['EVMTransaction'],
+          averageFinality: 2 * 1000 
         },
         {
-          name: 'Avalanche',
-          chainId: 'avax-c-chain',
-          supportedOperations: ['ACCOUNT_STATE', 'TRANSACTION_VERIFICATION', 'SMART_CONTRACT_VERIFICATION'],
-          averageFinality: 3 * 1000 
+          name: 'Songbird',
+          chainId: 'sgb-mainnet',
+          supportedOperations: ['EVMTransaction'],
+          averageFinality: 2 * 1000 
+        },
+        {
+          name: 'Web2',
+          chainId: 'web2',
+          supportedOperations: ['JsonApi'],
+          averageFinality: 0 
         }
       ];
       
@@ -106,7 +158,7 @@ export class FDCConnection {
       this.logger.info('Successfully connected to Flare Data Connector service');
     } catch (error:any) {
       this.logger.error('Failed to connect to Flare Data Connector service', { error });
-      throw new Error(`FDC connection error: ${error.message}`);
+      throw wrapError(error, 'FDC connection error');
     }
   }
   
@@ -121,14 +173,18 @@ export class FDCConnection {
     try {
       this.logger.info('Disconnecting from Flare Data Connector service');
       
-    
+      this.scheduler.cancelAll('FDC connection closed');
+      if (this.client) {
+        await this.client.close();
+      }
       this.client = null;
+      this.sender = null;
       this.isConnected = false;
       
       this.logger.info('Successfully disconnected from Flare Data Connector service');
     } catch (error:any) {
       this.logger.error('Error during FDC disconnect', { error });
-      throw new Error(`FDC disconnect error: ${error.message}`);
+      throw wrapError(error, 'FDC disconnect error');
     }
   }
   
@@ -143,16 +199,16 @@ export class FDCConnection {
     }
     
     try {
+      const latency = await this.client!.ping();
       
-      const mockStatus: ConnectionStatus = {
+      return {
         connected: true,
-        latency: Math.floor(Math.random() * 150) + 50, 
+        latency,
         lastUpdate: this.lastUpdateTimestamp,
         supportedChainsCount: this.supportedBlockchains.length,
-        activeRequests: Math.floor(Math.random() * 50) + 10 
+        activeRequests: this.scheduler.getActiveCount(),
+        queuedRequests: this.scheduler.getQueuedCount()
       };
-      
-      return mockStatus;
     } catch (error:any) {
       this.logger.error('Error getting FDC connection status', { error });
       return {
@@ -164,116 +220,483 @@ export class FDCConnection {
   
   /**
    * Request data from an external blockchain
+   *
+   * The data path has the form `/{blockchain}/{attestationType}/{abiEncodedRequestBody}`
+   * (see getDataPath) and the attestation type must be one the chain supports. The
+   * request is submitted to the FDC and this resolves once the response and its
+   * Merkle proof are available, which takes at least one voting round.
    */
   async requestExternalData(
     blockchain: string,
-    dataPath: string
-  ): Promise<ExternalData> {
+    dataPath: string,
+    options: RequestOptions = {}
+  ): Promise<ExternalData<RawAttestationData>> {
     this.checkConnection();
     
+    if (!this.sender) {
+      throw new ValidationError('A signer is required in fdcSpecificConfig to submit attestation requests', {
+        context: { field: 'fdcSpecificConfig.signer' }
+      });
+    }
+    
+    this.inFlight.begin();
     try {
       this.logger.debug(`Requesting external data from ${blockchain}`, {
         path: dataPath
       });
       
-
-      
-      const data = await this.client.getExternalData(blockchain, dataPath);
+      const [, attestationType, requestBody] = dataPath.split('/').filter(part => part.length > 0);
+      if (!attestationType || !requestBody) {
+        throw new ValidationError(`Invalid data path ${dataPath}, expected /{blockchain}/{attestationType}/{requestBody}`, {
+          context: { field: 'dataPath' }
+        });
+      }
       
-      const externalData: ExternalData = {
-        blockchain,
-        dataPath,
-        data: data.data,
-        timestamp: data.timestamp || Date.now(),
-        attestation: {
-          signatures: data.attestation.signatures,
-          threshold: data.attestation.threshold,
-          valid: data.attestation.signatures >= data.attestation.threshold
-        },
-        requestId: `req-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-      };
+      const chain = new FDCQueryBuilder(this.supportedBlockchains).checkSupported(blockchain, attestationType);
+      const sourceId = getSourceId(chain.chainId);
+      const record = await this.requestProof(
+        attestationType,
+        sourceId,
+        encodeAttestationRequest({ attestationType, sourceId, requestBody }),
+        options
+      );
       
-      return externalData;
+      return this.toExternalData(blockchain, dataPath, record, {
+        attestationType: record.attestationType,
+        sourceId: record.sourceId,
+        votingRoundId: record.proof!.votingRoundId,
+        responseHex: record.proof!.responseHex
+      });
     } catch (error:any) {
       this.logger.error(`Error requesting external data from ${blockchain}`, { error });
-      throw new Error(`Failed to request external data from ${blockchain}: ${error.message}`);
+      throw wrapError(error, `Failed to request external data from ${blockchain}`);
+    } finally {
+      this.inFlight.end();
     }
   }
   
+  /**
+   * Request an attestation built with getQueryBuilder() and decode its response
+   *
+   * Resolves once the response and its Merkle proof are available, which takes at
+   * least one voting round.
+   */
+  async requestAttestation<TRequest, TResponse>(
+    query: FDCQuery<TRequest, TResponse>,
+    options: RequestOptions = {}
+  ): Promise<ExternalData<FDCAttestationResponse<TRequest, TResponse>>> {
+    this.checkConnection();
+    
+    if (!this.sender) {
+      throw new ValidationError('A signer is required in fdcSpecificConfig to submit attestation requests', {
+        context: { field: 'fdcSpecificConfig.signer' }
+      });
+    }
+    new FDCQueryBuilder(this.supportedBlockchains).checkSupported(query.blockchain, query.attestationType);
+    
+    this.inFlight.begin();
+    try {
+      this.logger.debug(`Requesting ${query.attestationType} attestation from ${query.blockchain}`, {
+        requestBody: query.requestBody
+      });
+      
+      const record = await this.requestProof(query.attestationType, query.sourceId, query.abiEncodedRequest, options);
+      
+      return this.toExternalData(
+        query.blockchain,
+        `/${query.blockchain}/${query.attestationType}/${query.abiEncodedRequest}`,
+        record,
+        query.decodeResponse(record.proof!.responseHex)
+      );
+    } catch (error:any) {
+      this.logger.error(`Error requesting ${query.attestationType} attestation from ${query.blockchain}`, { error });
+      throw wrapError(error, `Failed to request ${query.attestationType} attestation from ${query.blockchain}`);
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get typed request builders for the supported blockchains
+   */
+  getQueryBuilder(): FDCQueryBuilder {
+    this.checkConnection();
+    
+    return new FDCQueryBuilder(this.supportedBlockchains);
+  }
+  
   /**
    * Verify the authenticity of external data
+   *
+   * The attested response must answer the request in the data path for the data's
+   * blockchain and voting round, and match the data claimed. It is then hashed into
+   * a Merkle leaf and the proof must lead to the root finalized on the Relay
+   * contract for that voting round.
    */
-  async verifyExternalData(data: ExternalData): Promise<VerificationResult> {
+  async verifyExternalData(data: ExternalData, options: RequestOptions = {}): Promise<VerificationResult> {
     this.checkConnection();
     
+    this.inFlight.begin();
     try {
       this.logger.debug(`Verifying external data from ${data.blockchain}`, {
         dataPath: data.dataPath,
         requestId: data.requestId
       });
-   
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-      const isValid = data.attestation.valid && 
-                      data.attestation.signatures >= data.attestation.threshold;
       
       const verificationResult: VerificationResult = {
         requestId: data.requestId,
-        verified: isValid,
-        confidence: isValid ? (data.attestation.signatures / (data.attestation.threshold * 1.5)) : 0,
+        verified: false,
+        confidence: 0,
         timestamp: Date.now(),
         details: {
-          signaturesVerified: data.attestation.signatures,
-          requiredThreshold: data.attestation.threshold,
-          signatureVerificationMethod: 'THRESHOLD_SIGNATURE',
+          verificationMethod: 'MERKLE_PROOF',
           sourceBlockchain: data.blockchain,
           dataFinality: this.getBlockchainFinality(data.blockchain),
           crossChainProtocol: 'FDC_ATTESTATION_V1'
         }
       };
       
-      if (!isValid) {
-        verificationResult.error = 'Insufficient attestation signatures';
+      const attestation = data.attestation;
+      if (!attestation || !attestation.responseHex || !Array.isArray(attestation.proof)) {
+        verificationResult.error = 'No attestation proof';
+        return verificationResult;
+      }
+      
+      const mismatches = this.checkAttestedData(data);
+      if (mismatches.length > 0) {
+        verificationResult.error = mismatches.join('; ');
+        return verificationResult;
+      }
+      
+      const leafHash = hashLeaf(attestation.responseHex);
+      const computedRoot = computeMerkleRoot(leafHash, attestation.proof);
+      const merkleRoot = await this.schedule(() => this.client!.getMerkleRoot(attestation.votingRoundId), options);
+      
+      verificationResult.votingRoundId = attestation.votingRoundId;
+      verificationResult.proof = [...attestation.proof];
+      verificationResult.details.leafHash = leafHash;
+      verificationResult.details.computedRoot = computedRoot;
+      
+      if (!merkleRoot) {
+        verificationResult.error = `Voting round ${attestation.votingRoundId} is not finalized`;
+        return verificationResult;
+      }
+      
+      verificationResult.merkleRoot = merkleRoot;
+      verificationResult.verified = computedRoot.toLowerCase() === merkleRoot.toLowerCase();
+      verificationResult.confidence = verificationResult.verified ? 1 : 0;
+      
+      if (!verificationResult.verified) {
+        verificationResult.error = 'Merkle proof does not match the finalized root';
       }
       
       return verificationResult;
     } catch (error:any) {
       this.logger.error(`Error verifying external data from ${data.blockchain}`, { error });
-      throw new Error(`Failed to verify external data: ${error.message}`);
+      throw wrapError(error, 'Failed to verify external data');
+    } finally {
+      this.inFlight.end();
     }
   }
   
   /**
-   * Submit verified data from external sources
+   * Submit an attestation request to FdcHub, paying the request fee
    */
-  async submitExternalData(data: VerifiedData): Promise<SubmissionResult> {
+  async submitAttestationRequest(
+    input: AttestationRequestInput,
+    options: RequestOptions = {}
+  ): Promise<AttestationRequestRecord> {
     this.checkConnection();
     
+    if (!this.sender) {
+      throw new ValidationError('A signer is required in fdcSpecificConfig to submit attestation requests', {
+        context: { field: 'fdcSpecificConfig.signer' }
+      });
+    }
+    
+    this.inFlight.begin();
     try {
-      this.logger.info(`Submitting verified external data from ${data.blockchain}`, {
-        dataPath: data.dataPath,
-        requestId: data.requestId
+      return { ...await this.schedule(() => this.sendAttestationRequest(
+        input.attestationType,
+        input.sourceId,
+        encodeAttestationRequest(input)
+      ), options) };
+    } catch (error:any) {
+      this.logger.error('Error submitting attestation request', { error });
+      throw wrapError(error, 'Failed to submit attestation request');
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get a tracked attestation request
+   */
+  getAttestationRequest(requestId: string): AttestationRequestRecord | undefined {
+    const record = this.requests.get(requestId);
+    return record ? { ...record } : undefined;
+  }
+  
+  /**
+   * Get all tracked attestation requests
+   */
+  getAttestationRequests(): AttestationRequestRecord[] {
+    return Array.from(this.requests.values()).map(record => ({ ...record }));
+  }
+  
+  /**
+   * Advance an attestation request through its lifecycle as far as the chain allows:
+   * PENDING (transaction not mined) → VOTING (round known) → FINALIZED (Merkle root
+   * on the Relay) → PROVEN (response and proof verified) or FAILED
+   */
+  async refreshAttestationRequest(requestId: string, options: RequestOptions = {}): Promise<AttestationRequestRecord> {
+    this.checkConnection();
+    
+    const record = this.requests.get(requestId);
+    if (!record) {
+      throw new ValidationError(`Unknown attestation request ${requestId}`, { context: { field: 'requestId' } });
+    }
+    
+    this.inFlight.begin();
+    try {
+      await this.schedule(() => this.advanceRequest(record), options);
+      return { ...record };
+    } catch (error:any) {
+      this.logger.error(`Error refreshing attestation request ${requestId}`, { error });
+      throw wrapError(error, 'Failed to refresh attestation request');
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Poll an attestation request until it is proven or has failed
+   */
+  async waitForAttestation(
+    requestId: string,
+    options: RequestOptions & { pollInterval?: number } = {}
+  ): Promise<AttestationRequestRecord> {
+    this.checkConnection();
+    
+    const record = this.requests.get(requestId);
+    if (!record) {
+      throw new ValidationError(`Unknown attestation request ${requestId}`, { context: { field: 'requestId' } });
+    }
+    
+    const timeout = options.timeout || this.getDefaultTimeout();
+    const deadline = Date.now() + timeout;
+    
+    this.inFlight.begin();
+    try {
+      return await this.schedule(
+        signal => this.pollAttestation(record, options.pollInterval || this.getPollInterval(), deadline, signal),
+        { timeout, signal: options.signal }
+      );
+    } catch (error:any) {
+      this.logger.error(`Error waiting for attestation request ${requestId}`, { error });
+      throw wrapError(error, 'Failed to wait for attestation request');
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Submit an attestation request and wait until it is proven
+   */
+  private async requestProof(
+    attestationType: string,
+    sourceId: string,
+    abiEncodedRequest: string,
+    options: RequestOptions
+  ): Promise<AttestationRequestRecord> {
+    const record = await this.schedule(async signal => {
+      const submitted = await this.sendAttestationRequest(attestationType, sourceId, abiEncodedRequest);
+      return this.pollAttestation(submitted, this.getPollInterval(), Infinity, signal);
+    }, options);
+    
+    if (record.status !== 'PROVEN' || !record.proof) {
+      throw new VerificationError(record.error || `Attestation request ended in status ${record.status}`, {
+        context: { requestId: record.requestId, status: record.status }
       });
-      
-
-      await new Promise(resolve => setTimeout(resolve, 350));
-      
-      const submissionResult: SubmissionResult = {
-        success: data.verificationResult.verified,
-        epoch: Math.floor(Date.now() / (3 * 60 * 1000)),
-        assetSymbol: data.dataPath.includes('/price/') ? data.dataPath.split('/price/')[1] : undefined,
-        submissionTimestamp: Date.now(),
-        transactionHash: `0x${Math.random().toString(16).substr(2, 40)}`
-      };
-      
-      if (!submissionResult.success) {
-        submissionResult.error = 'Data verification failed';
-      }
-      
-      return submissionResult;
+    }
+    return record;
+  }
+  
+  /**
+   * Compare the decoded response of external data with its blockchain, data path and claimed data
+   */
+  private checkAttestedData(data: ExternalData): string[] {
+    const attestation = data.attestation;
+    let response: FDCAttestationResponse<any, any>;
+    try {
+      response = decodeAttestationResponse(attestation.responseHex);
     } catch (error:any) {
-      this.logger.error(`Error submitting verified external data from ${data.blockchain}`, { error });
-      throw new Error(`Failed to submit verified external data: ${error.message}`);
+      return [error.message];
+    }
+    
+    const errors: string[] = [];
+    const chain = this.findBlockchain(data.blockchain);
+    if (!chain || FDC_SOURCE_IDS[chain.chainId] !== response.sourceId) {
+      errors.push(`Response is for source ${response.sourceId}, not ${data.blockchain}`);
+    }
+    if (response.votingRound !== attestation.votingRoundId) {
+      errors.push(`Response is from voting round ${response.votingRound}, not ${attestation.votingRoundId}`);
+    }
+    
+    // The data path holds either the full ABI-encoded request or only its body
+    const [, attestationType, request] = data.dataPath.split('/').filter(part => part.length > 0);
+    if (attestationType !== response.attestationType) {
+      errors.push(`Response is a ${response.attestationType} attestation, not ${attestationType}`);
+    } else {
+      try {
+        let requested: { sourceId: string; requestBody: any };
+        try {
+          requested = decodeAttestationRequest(request);
+        } catch (error) {
+          requested = decodeAttestationRequest(encodeAttestationRequest({
+            attestationType,
+            sourceId: response.sourceId,
+            requestBody: request
+          }));
+        }
+        if (requested.sourceId !== response.sourceId ||
+          canonicalEncode(requested.requestBody) !== canonicalEncode(response.requestBody)) {
+          errors.push('Response does not answer the request in the data path');
+        }
+      } catch (error:any) {
+        errors.push(`Invalid request in the data path: ${error.message}`);
+      }
+    }
+    
+    // requestExternalData() claims the raw response, requestAttestation() the decoded one
+    const claimed: unknown = data.data;
+    const matches = isRawAttestationData(claimed)
+      ? claimed.responseHex.toLowerCase() === attestation.responseHex.toLowerCase() &&
+        claimed.attestationType === response.attestationType &&
+        claimed.sourceId === response.sourceId &&
+        claimed.votingRoundId === response.votingRound
+      : canonicalEncode(claimed) === canonicalEncode(response);
+    if (!matches) {
+      errors.push('Data does not match the attested response');
+    }
+    
+    return errors;
+  }
+  
+  private toExternalData<T>(
+    blockchain: string,
+    dataPath: string,
+    record: AttestationRequestRecord,
+    data: T
+  ): ExternalData<T> {
+    const proof = record.proof!;
+    return {
+      blockchain,
+      dataPath,
+      data,
+      timestamp: record.updatedAt,
+      attestation: {
+        votingRoundId: proof.votingRoundId,
+        merkleRoot: proof.merkleRoot,
+        proof: [...proof.proof],
+        responseHex: proof.responseHex,
+        valid: true
+      },
+      requestId: record.requestId
+    };
+  }
+  
+  /**
+   * Sign and send the FdcHub transaction for an attestation request and start tracking it
+   */
+  private async sendAttestationRequest(
+    attestationType: string,
+    sourceId: string,
+    abiEncodedRequest: string
+  ): Promise<AttestationRequestRecord> {
+    const [fee, fdcHub] = await Promise.all([
+      this.client!.getRequestFee(abiEncodedRequest),
+      this.client!.getContractAddress('FdcHub')
+    ]);
+    
+    const transactionHash = await this.sender!.send({
+      to: fdcHub,
+      data: encodeBytesCall(REQUEST_ATTESTATION, abiEncodedRequest),
+      value: fee
+    });
+    
+    const now = Date.now();
+    const record: AttestationRequestRecord = {
+      // Transaction hashes are unique, and deterministic in simulation
+      requestId: `req-${strip0x(transactionHash).slice(0, 16)}`,
+      attestationType,
+      sourceId,
+      abiEncodedRequest,
+      status: 'PENDING',
+      transactionHash,
+      fee: fee.toString(),
+      submittedAt: now,
+      updatedAt: now
+    };
+    this.requests.set(record.requestId, record);
+    
+    this.logger.info(`Submitted ${attestationType} attestation request for ${sourceId}`, {
+      requestId: record.requestId,
+      transactionHash
+    });
+    
+    return record;
+  }
+  
+  /**
+   * Refresh a request until it is final, the deadline passes or the signal aborts
+   */
+  private async pollAttestation(
+    record: AttestationRequestRecord,
+    pollInterval: number,
+    deadline: number,
+    signal: AbortSignal
+  ): Promise<AttestationRequestRecord> {
+    await this.advanceRequest(record);
+    while (!this.isFinal(record)) {
+      if (Date.now() + pollInterval > deadline) {
+        throw new TimeoutError(`Timed out waiting for attestation request ${record.requestId} (status ${record.status})`, {
+          context: { requestId: record.requestId, status: record.status }
+        });
+      }
+      await abortableDelay(pollInterval, signal);
+      throwIfAborted(signal);
+      await this.advanceRequest(record);
+    }
+    
+    return { ...record };
+  }
+  
+  /**
+   * Advance an attestation request through its lifecycle as far as the chain allows
+   */
+  private async advanceRequest(record: AttestationRequestRecord): Promise<void> {
+    if (record.status === 'PENDING') {
+      const receipt = await this.client!.getTransactionReceipt(record.transactionHash);
+      if (receipt && !receipt.status) {
+        this.updateRequest(record, { status: 'FAILED', error: 'Attestation request transaction reverted' });
+      } else if (receipt) {
+        const block = await this.client!.getBlock(receipt.blockNumber);
+        this.updateRequest(record, {
+          status: 'VOTING',
+          votingRoundId: this.epochClock.getEpochId(block.timestamp)
+        });
+      }
+    }
+    
+    if (record.status === 'VOTING' || record.status === 'FINALIZED') {
+      const merkleRoot = await this.client!.getMerkleRoot(record.votingRoundId!);
+      if (merkleRoot) {
+        if (record.status === 'VOTING') {
+          this.updateRequest(record, { status: 'FINALIZED' });
+        }
+        await this.resolveProof(record, merkleRoot);
+      }
     }
   }
   
@@ -287,7 +710,7 @@ export class FDCConnection {
       return [...this.supportedBlockchains];
     } catch (error:any) {
       this.logger.error('Error getting supported blockchains', { error });
-      throw new Error(`Failed to get supported blockchains: ${error.message}`);
+      throw wrapError(error, 'Failed to get supported blockchains');
     }
   }
   
@@ -304,6 +727,8 @@ export class FDCConnection {
   
   /**
    * Get a complete data path for a specific query
+   *
+   * @deprecated Build requests with getQueryBuilder() and requestAttestation() instead
    */
   getDataPath(blockchain: string, dataType: string, specificPath: string): string {
     return `/${blockchain}/${dataType}/${specificPath}`;
@@ -313,11 +738,131 @@ export class FDCConnection {
    * Get estimated finality time for a blockchain
    */
   private getBlockchainFinality(blockchain: string): number {
-    const chain = this.supportedBlockchains.find(c => 
+    const chain = this.findBlockchain(blockchain);
+    
+    return chain ? chain.averageFinality : 60 * 60 * 1000; 
+  }
+  
+  /**
+   * Find a supported blockchain by chain ID or name
+   */
+  private findBlockchain(blockchain: string): SupportedBlockchain | undefined {
+    return this.supportedBlockchains.find(c => 
       c.chainId === blockchain || c.name.toLowerCase() === blockchain.toLowerCase()
     );
+  }
+  
+  /**
+   * Fetch the response and proof of a finalized request from the DA layer and check
+   * it against the finalized root
+   */
+  private async resolveProof(record: AttestationRequestRecord, merkleRoot: string): Promise<void> {
+    const votingRoundId = record.votingRoundId!;
+    const result = await this.client!.getProof(votingRoundId, record.abiEncodedRequest);
     
-    return chain ? chain.averageFinality : 60 * 60 * 1000; 
+    if (!result) {
+      if (Date.now() > this.epochClock.getEpochEnd(votingRoundId + PROOF_GRACE_EPOCHS)) {
+        this.updateRequest(record, {
+          status: 'FAILED',
+          error: `Request was not attested in voting round ${votingRoundId}`
+        });
+      }
+      return;
+    }
+    
+    const leafHash = hashLeaf(result.responseHex);
+    if (computeMerkleRoot(leafHash, result.proof).toLowerCase() !== merkleRoot.toLowerCase()) {
+      this.updateRequest(record, { status: 'FAILED', error: 'Merkle proof does not match the finalized root' });
+      return;
+    }
+    
+    this.updateRequest(record, {
+      status: 'PROVEN',
+      proof: {
+        votingRoundId,
+        merkleRoot,
+        leafHash,
+        responseHex: result.responseHex,
+        proof: result.proof
+      }
+    });
+  }
+  
+  private updateRequest(record: AttestationRequestRecord, update: Partial<AttestationRequestRecord>): void {
+    Object.assign(record, update, { updatedAt: Date.now() });
+    this.logger.debug(`Attestation request ${record.requestId} is ${record.status}`, {
+      votingRoundId: record.votingRoundId,
+      error: record.error
+    });
+  }
+  
+  private isFinal(record: AttestationRequestRecord): boolean {
+    return record.status === 'PROVEN' || record.status === 'FAILED';
+  }
+  
+  /**
+   * Run a request through the scheduler with the configured default timeout
+   */
+  private schedule<T>(operation: (signal: AbortSignal) => Promise<T>, options: RequestOptions): Promise<T> {
+    return this.scheduler.run(operation, {
+      timeout: options.timeout || this.getDefaultTimeout(),
+      signal: options.signal
+    });
+  }
+  
+  private getDefaultTimeout(): number {
+    return (this.config.fdcSpecificConfig || {}).defaultTimeout || DEFAULT_ATTESTATION_TIMEOUT;
+  }
+  
+  private getPollInterval(): number {
+    return (this.config.fdcSpecificConfig || {}).pollInterval || DEFAULT_POLL_INTERVAL;
+  }
+  
+  /**
+   * Get the epoch clock used by this connection
+   */
+  getEpochClock(): EpochClock {
+    return this.epochClock;
+  }
+  
+  /**
+   * Apply new FDC settings without reconnecting
+   *
+   * Settings read on every call (feeds, timeouts, thresholds and the like) take
+   * effect immediately; settings used to set up the connection only apply after
+   * a reconnect.
+   */
+  updateConfig(fdcSpecificConfig: FDCSpecificConfig): void {
+    this.config = {
+      ...this.config,
+      fdcSpecificConfig
+    };
+  }
+  
+  /**
+   * Take over the tracked attestation requests of a connection being replaced
+   */
+  adopt(previous: FDCConnection): void {
+    previous.requests.forEach((record, requestId) => {
+      if (!this.requests.has(requestId)) {
+        this.requests.set(requestId, record);
+      }
+    });
+    previous.requests.clear();
+  }
+
+  /**
+   * Wait for in-flight operations to finish; resolves false if the timeout elapses first
+   */
+  drain(timeout: number): Promise<boolean> {
+    return this.inFlight.drain(timeout);
+  }
+  
+  /**
+   * Get the number of operations in flight
+   */
+  getInFlightCount(): number {
+    return this.inFlight.getCount();
   }
   
   /**
@@ -325,7 +870,7 @@ export class FDCConnection {
    */
   private checkConnection(): void {
     if (!this.isConnected || !this.client) {
-      throw new Error('Not connected to Flare Data Connector. Call connect() first.');
+      throw new NotConnectedError('Not connected to Flare Data Connector. Call connect() first.');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,465 @@
+/**
+ * Typed builders for Flare Data Connector (FDC) attestation requests
+ *
+ * Each builder checks that the chain lists the attestation type among its
+ * supported operations, validates and ABI-encodes the request body, and returns
+ * an FDCQuery whose decodeResponse() turns the attested response into a typed
+ * object. Request and response layouts follow the FDC attestation type
+ * definitions; 256-bit amounts are returned as decimal strings.
+ */
+
+import { AbiType, decodeAbiParameters, encodeAbiParameters } from './abi';
+import { decodeBytes32String, encodeBytes32String, getSourceId } from './fdc-attestation';
+import { ValidationError, VerificationError } from '../utils/errors';
+import {
+  AddressValidityRequestBody,
+  AddressValidityResponseBody,
+  BalanceDecreasingTransactionRequestBody,
+  BalanceDecreasingTransactionResponseBody,
+  EVMTransactionRequestBody,
+  EVMTransactionResponseBody,
+  FDCAttestationResponse,
+  FDCAttestationType,
+  FDCQuery,
+  JsonApiRequestBody,
+  JsonApiResponseBody,
+  PaymentRequestBody,
+  PaymentResponseBody,
+  SupportedBlockchain
+} from './types';
+
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const MAX_LOG_INDICES = 50;
+
+interface AttestationTypeDefinition<TRequest, TResponse> {
+  attestationType: FDCAttestationType;
+  requestTypes: AbiType[];
+  responseTypes: AbiType[];
+  toRequestValues(body: TRequest): unknown[];
+  fromRequestValues(values: any[]): TRequest;
+  toResponseValues(body: TResponse): unknown[];
+  fromResponseValues(values: any[]): TResponse;
+}
+
+const PAYMENT: AttestationTypeDefinition<PaymentRequestBody, PaymentResponseBody> = {
+  attestationType: 'Payment',
+  requestTypes: ['bytes32', 'uint', 'uint'],
+  responseTypes: [
+    'uint', 'uint', 'bytes32', 'bytes32', 'bytes32', 'bytes32',
+    'int', 'int', 'int', 'int', 'bytes32', 'bool', 'uint'
+  ],
+  toRequestValues: body => [body.transactionId, body.inUtxo || 0, body.utxo || 0],
+  fromRequestValues: ([transactionId, inUtxo, utxo]) => ({
+    transactionId,
+    inUtxo: Number(inUtxo),
+    utxo: Number(utxo)
+  }),
+  toResponseValues: body => [
+    body.blockNumber,
+    body.blockTimestamp,
+    body.sourceAddressHash,
+    body.sourceAddressesRoot,
+    body.receivingAddressHash,
+    body.intendedReceivingAddressHash,
+    body.spentAmount,
+    body.intendedSpentAmount,
+    body.receivedAmount,
+    body.intendedReceivedAmount,
+    body.standardPaymentReference,
+    body.oneToOne,
+    body.status
+  ],
+  fromResponseValues: values => ({
+    blockNumber: Number(values[0]),
+    blockTimestamp: Number(values[1]),
+    sourceAddressHash: values[2],
+    sourceAddressesRoot: values[3],
+    receivingAddressHash: values[4],
+    intendedReceivingAddressHash: values[5],
+    spentAmount: values[6].toString(),
+    intendedSpentAmount: values[7].toString(),
+    receivedAmount: values[8].toString(),
+    intendedReceivedAmount: values[9].toString(),
+    standardPaymentReference: values[10],
+    oneToOne: values[11],
+    status: Number(values[12])
+  })
+};
+
+const BALANCE_DECREASING_TRANSACTION: AttestationTypeDefinition<
+  BalanceDecreasingTransactionRequestBody,
+  BalanceDecreasingTransactionResponseBody
+> = {
+  attestationType: 'BalanceDecreasingTransaction',
+  requestTypes: ['bytes32', 'bytes32'],
+  responseTypes: ['uint', 'uint', 'bytes32', 'int', 'bytes32'],
+  toRequestValues: body => [body.transactionId, body.sourceAddressIndicator],
+  fromRequestValues: ([transactionId, sourceAddressIndicator]) => ({ transactionId, sourceAddressIndicator }),
+  toResponseValues: body => [
+    body.blockNumber,
+    body.blockTimestamp,
+    body.sourceAddressHash,
+    body.spentAmount,
+    body.standardPaymentReference
+  ],
+  fromResponseValues: values => ({
+    blockNumber: Number(values[0]),
+    blockTimestamp: Number(values[1]),
+    sourceAddressHash: values[2],
+    spentAmount: values[3].toString(),
+    standardPaymentReference: values[4]
+  })
+};
+
+const EVM_TRANSACTION: AttestationTypeDefinition<EVMTransactionRequestBody, EVMTransactionResponseBody> = {
+  attestationType: 'EVMTransaction',
+  requestTypes: ['bytes32', 'uint', 'bool', 'bool', { array: 'uint' }],
+  responseTypes: [
+    'uint', 'uint', 'address', 'bool', 'address', 'uint', 'bytes', 'uint',
+    { array: { tuple: ['uint', 'address', { array: 'bytes32' }, 'bytes', 'bool'] } }
+  ],
+  toRequestValues: body => [
+    body.transactionHash,
+    body.requiredConfirmations !== undefined ? body.requiredConfirmations : 1,
+    Boolean(body.provideInput),
+    Boolean(body.listEvents),
+    body.logIndices || []
+  ],
+  fromRequestValues: ([transactionHash, requiredConfirmations, provideInput, listEvents, logIndices]) => ({
+    transactionHash,
+    requiredConfirmations: Number(requiredConfirmations),
+    provideInput,
+    listEvents,
+    logIndices: logIndices.map(Number)
+  }),
+  toResponseValues: body => [
+    body.blockNumber,
+    body.timestamp,
+    body.sourceAddress,
+    body.isDeployment,
+    body.receivingAddress,
+    body.value,
+    body.input,
+    body.status,
+    body.events.map(event => [event.logIndex, event.emitterAddress, event.topics, event.data, event.removed])
+  ],
+  fromResponseValues: values => ({
+    blockNumber: Number(values[0]),
+    timestamp: Number(values[1]),
+    sourceAddress: values[2],
+    isDeployment: values[3],
+    receivingAddress: values[4],
+    value: values[5].toString(),
+    input: values[6],
+    status: Number(values[7]),
+    events: values[8].map(([logIndex, emitterAddress, topics, data, removed]: any[]) => ({
+      logIndex: Number(logIndex),
+      emitterAddress,
+      topics,
+      data,
+      removed
+    }))
+  })
+};
+
+const ADDRESS_VALIDITY: AttestationTypeDefinition<AddressValidityRequestBody, AddressValidityResponseBody> = {
+  attestationType: 'AddressValidity',
+  requestTypes: ['string'],
+  responseTypes: ['bool', 'string', 'bytes32'],
+  toRequestValues: body => [body.addressStr],
+  fromRequestValues: ([addressStr]) => ({ addressStr }),
+  toResponseValues: body => [body.isValid, body.standardAddress, body.standardAddressHash],
+  fromResponseValues: ([isValid, standardAddress, standardAddressHash]) => ({
+    isValid,
+    standardAddress,
+    standardAddressHash
+  })
+};
+
+const JSON_API: AttestationTypeDefinition<JsonApiRequestBody, JsonApiResponseBody> = {
+  attestationType: 'JsonApi',
+  requestTypes: ['string', 'string', 'string'],
+  responseTypes: ['bytes'],
+  toRequestValues: body => [body.url, body.postprocessJq, body.abiSignature],
+  fromRequestValues: ([url, postprocessJq, abiSignature]) => ({ url, postprocessJq, abiSignature }),
+  toResponseValues: body => [body.abiEncodedData],
+  fromResponseValues: ([abiEncodedData]) => ({ abiEncodedData })
+};
+
+const DEFINITIONS: Record<FDCAttestationType, AttestationTypeDefinition<any, any>> = {
+  Payment: PAYMENT,
+  BalanceDecreasingTransaction: BALANCE_DECREASING_TRANSACTION,
+  EVMTransaction: EVM_TRANSACTION,
+  AddressValidity: ADDRESS_VALIDITY,
+  JsonApi: JSON_API
+};
+
+function checkBytes32(value: string, field: string): void {
+  if (typeof value !== 'string' || !BYTES32_PATTERN.test(value)) {
+    throw new ValidationError(`${field} must be a 0x-prefixed 32-byte hex value`, { context: { field } });
+  }
+}
+
+function checkInteger(value: number | undefined, field: string, max: number = Number.MAX_SAFE_INTEGER): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > max)) {
+    throw new ValidationError(`${field} must be an integer between 0 and ${max}`, { context: { field } });
+  }
+}
+
+/**
+ * Decode an attested response and check it answers a request of the expected type and source
+ */
+function decodeTypedResponse<TRequest, TResponse>(
+  definition: AttestationTypeDefinition<TRequest, TResponse>,
+  sourceId: string,
+  responseHex: string
+): FDCAttestationResponse<TRequest, TResponse> {
+  let values: any[];
+  try {
+    values = decodeAbiParameters([{
+      tuple: ['bytes32', 'bytes32', 'uint', 'uint', { tuple: definition.requestTypes }, { tuple: definition.responseTypes }]
+    }], responseHex)[0] as any[];
+  } catch (error:any) {
+    throw new VerificationError(`Malformed ${definition.attestationType} response: ${error.message}`, { cause: error });
+  }
+
+  const [attestationType, responseSourceId, votingRound, lowestUsedTimestamp, requestValues, responseValues] = values;
+  if (
+    attestationType !== encodeBytes32String(definition.attestationType) ||
+    responseSourceId !== encodeBytes32String(sourceId)
+  ) {
+    throw new VerificationError(`Response is not a ${definition.attestationType} attestation for ${sourceId}`);
+  }
+
+  return {
+    attestationType: definition.attestationType,
+    sourceId,
+    votingRound: Number(votingRound),
+    lowestUsedTimestamp: Number(lowestUsedTimestamp),
+    requestBody: definition.fromRequestValues(requestValues),
+    responseBody: definition.fromResponseValues(responseValues)
+  };
+}
+
+/**
+ * Decode an ABI-encoded request of one of the typed attestation types
+ */
+export function decodeAttestationRequest(abiEncodedRequest: string): {
+  attestationType: FDCAttestationType;
+  sourceId: string;
+  messageIntegrityCode: string;
+  requestBody: any;
+} {
+  for (const definition of Object.values(DEFINITIONS)) {
+    let values: any[];
+    try {
+      values = decodeAbiParameters([{
+        tuple: ['bytes32', 'bytes32', 'bytes32', { tuple: definition.requestTypes }]
+      }], abiEncodedRequest)[0] as any[];
+    } catch (error) {
+      continue;
+    }
+
+    if (values[0] === encodeBytes32String(definition.attestationType)) {
+      return {
+        attestationType: definition.attestationType,
+        sourceId: decodeBytes32String(values[1]),
+        messageIntegrityCode: values[2],
+        requestBody: definition.fromRequestValues(values[3])
+      };
+    }
+  }
+
+  throw new ValidationError('Not a request of a supported attestation type', { context: { field: 'abiEncodedRequest' } });
+}
+
+/**
+ * Decode an attested response of one of the typed attestation types
+ */
+export function decodeAttestationResponse(responseHex: string): FDCAttestationResponse<any, any> {
+  for (const definition of Object.values(DEFINITIONS)) {
+    let values: any[];
+    try {
+      values = decodeAbiParameters([{
+        tuple: ['bytes32', 'bytes32', 'uint', 'uint', { tuple: definition.requestTypes }, { tuple: definition.responseTypes }]
+      }], responseHex)[0] as any[];
+    } catch (error) {
+      continue;
+    }
+
+    if (values[0] === encodeBytes32String(definition.attestationType)) {
+      return decodeTypedResponse(definition, decodeBytes32String(values[1]), responseHex);
+    }
+  }
+
+  throw new VerificationError('Not a response of a supported attestation type');
+}
+
+/**
+ * ABI-encode an attestation response the way the FDC publishes it
+ */
+export function encodeAttestationResponse(response: FDCAttestationResponse<any, any>): string {
+  const definition = DEFINITIONS[response.attestationType];
+  if (!definition) {
+    throw new ValidationError(`Unsupported attestation type ${response.attestationType}`, { context: { field: 'attestationType' } });
+  }
+
+  return `0x${encodeAbiParameters([{
+    tuple: ['bytes32', 'bytes32', 'uint', 'uint', { tuple: definition.requestTypes }, { tuple: definition.responseTypes }]
+  }], [[
+    encodeBytes32String(response.attestationType),
+    encodeBytes32String(response.sourceId),
+    response.votingRound,
+    response.lowestUsedTimestamp,
+    definition.toRequestValues(response.requestBody),
+    definition.toResponseValues(response.responseBody)
+  ]])}`;
+}
+
+export class FDCQueryBuilder {
+  private supportedBlockchains: SupportedBlockchain[];
+
+  /**
+   * Create a builder for the given chains and their supported operations
+   */
+  constructor(supportedBlockchains: SupportedBlockchain[]) {
+    this.supportedBlockchains = supportedBlockchains;
+  }
+
+  /**
+   * Build a Payment query proving a transaction paid from one address to another
+   */
+  payment(
+    blockchain: string,
+    body: PaymentRequestBody,
+    messageIntegrityCode?: string
+  ): FDCQuery<PaymentRequestBody, PaymentResponseBody> {
+    checkBytes32(body.transactionId, 'transactionId');
+    checkInteger(body.inUtxo, 'inUtxo');
+    checkInteger(body.utxo, 'utxo');
+    return this.build(blockchain, PAYMENT, body, messageIntegrityCode);
+  }
+
+  /**
+   * Build a BalanceDecreasingTransaction query proving a transaction lowered an address's balance
+   */
+  balanceDecreasingTransaction(
+    blockchain: string,
+    body: BalanceDecreasingTransactionRequestBody,
+    messageIntegrityCode?: string
+  ): FDCQuery<BalanceDecreasingTransactionRequestBody, BalanceDecreasingTransactionResponseBody> {
+    checkBytes32(body.transactionId, 'transactionId');
+    checkBytes32(body.sourceAddressIndicator, 'sourceAddressIndicator');
+    return this.build(blockchain, BALANCE_DECREASING_TRANSACTION, body, messageIntegrityCode);
+  }
+
+  /**
+   * Build an EVMTransaction query for a transaction and, optionally, its input and events
+   */
+  evmTransaction(
+    blockchain: string,
+    body: EVMTransactionRequestBody,
+    messageIntegrityCode?: string
+  ): FDCQuery<EVMTransactionRequestBody, EVMTransactionResponseBody> {
+    checkBytes32(body.transactionHash, 'transactionHash');
+    checkInteger(body.requiredConfirmations, 'requiredConfirmations', 0xffff);
+    if (body.logIndices) {
+      if (body.logIndices.length > MAX_LOG_INDICES) {
+        throw new ValidationError(`At most ${MAX_LOG_INDICES} logIndices can be requested`, { context: { field: 'logIndices' } });
+      }
+      body.logIndices.forEach(logIndex => checkInteger(logIndex, 'logIndices', 0xffffffff));
+    }
+    return this.build(blockchain, EVM_TRANSACTION, body, messageIntegrityCode);
+  }
+
+  /**
+   * Build an AddressValidity query checking an address is well formed for the chain
+   */
+  addressValidity(
+    blockchain: string,
+    body: AddressValidityRequestBody,
+    messageIntegrityCode?: string
+  ): FDCQuery<AddressValidityRequestBody, AddressValidityResponseBody> {
+    if (typeof body.addressStr !== 'string' || body.addressStr.trim() === '') {
+      throw new ValidationError('addressStr must be a non-empty string', { context: { field: 'addressStr' } });
+    }
+    return this.build(blockchain, ADDRESS_VALIDITY, body, messageIntegrityCode);
+  }
+
+  /**
+   * Build a JsonApi query fetching a URL, transforming it with jq and ABI-encoding the result
+   */
+  jsonApi(
+    blockchain: string,
+    body: JsonApiRequestBody,
+    messageIntegrityCode?: string
+  ): FDCQuery<JsonApiRequestBody, JsonApiResponseBody> {
+    if (!/^https?:\/\/[^\s]+$/i.test(body.url)) {
+      throw new ValidationError(`Invalid url ${body.url}`, { context: { field: 'url' } });
+    }
+    if (typeof body.postprocessJq !== 'string' || body.postprocessJq.trim() === '') {
+      throw new ValidationError('postprocessJq must be a non-empty jq filter', { context: { field: 'postprocessJq' } });
+    }
+    try {
+      JSON.parse(body.abiSignature);
+    } catch (error:any) {
+      throw new ValidationError(`abiSignature must be a JSON ABI fragment: ${error.message}`, {
+        cause: error,
+        context: { field: 'abiSignature' }
+      });
+    }
+    return this.build(blockchain, JSON_API, body, messageIntegrityCode);
+  }
+
+  /**
+   * Resolve a chain and check it supports an attestation type
+   */
+  checkSupported(blockchain: string, attestationType: string): SupportedBlockchain {
+    const chain = this.supportedBlockchains.find(c =>
+      c.chainId === blockchain || c.name.toLowerCase() === blockchain.toLowerCase()
+    );
+    if (!chain) {
+      throw new ValidationError(`${blockchain} is not supported by the FDC`, { context: { field: 'blockchain' } });
+    }
+    if (!chain.supportedOperations.includes(attestationType)) {
+      throw new ValidationError(
+        `${chain.name} does not support ${attestationType} attestations ` +
+        `(supported: ${chain.supportedOperations.join(', ') || 'none'})`,
+        { context: { field: 'attestationType' } }
+      );
+    }
+    return chain;
+  }
+
+  private build<TRequest, TResponse>(
+    blockchain: string,
+    definition: AttestationTypeDefinition<TRequest, TResponse>,
+    body: TRequest,
+    messageIntegrityCode?: string
+  ): FDCQuery<TRequest, TResponse> {
+    if (messageIntegrityCode !== undefined) {
+      checkBytes32(messageIntegrityCode, 'messageIntegrityCode');
+    }
+
+    const chain = this.checkSupported(blockchain, definition.attestationType);
+    const sourceId = getSourceId(chain.chainId);
+    const abiEncodedRequest = `0x${encodeAbiParameters(
+      [{ tuple: ['bytes32', 'bytes32', 'bytes32', { tuple: definition.requestTypes }] }],
+      [[
+        encodeBytes32String(definition.attestationType),
+        encodeBytes32String(sourceId),
+        messageIntegrityCode || '0x',
+        definition.toRequestValues(body)
+      ]]
+    )}`;
+
+    return {
+      attestationType: definition.attestationType,
+      blockchain: chain.chainId,
+      sourceId,
+      requestBody: { ...body },
+      abiEncodedRequest,
+      decodeResponse: responseHex => decodeTypedResponse(definition, sourceId, responseHex)
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Transport layer for the Flare Data Connector (FDC)
+ *
+ * Attestation requests are submitted to the FdcHub contract, the Merkle root of
+ * each finalized voting round is read from the Relay contract, and responses
+ * with their Merkle proofs are fetched from a data-availability (DA) layer.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { FlareChainClient } from './flare-chain-client';
+import { decodeUint, encodeBytesCall, encodeUint, functionSelector, readWord, strip0x } from './abi';
+import { FDCTransport, JsonRpcFDCTransportConfig } from './types';
+import { ValidationError, fromHttpError } from '../utils/errors';
+import { getCorrelationHeaders } from '../utils/logger';
+
+/**
+ * Relay protocol ID under which FDC Merkle roots are stored
+ */
+export const FDC_PROTOCOL_ID = 200;
+
+const GET_REQUEST_FEE = functionSelector('getRequestFee(bytes)');
+const MERKLE_ROOTS = functionSelector('merkleRoots(uint256,uint256)');
+
+export class JsonRpcFDCTransport extends FlareChainClient implements FDCTransport {
+  private daLayer: AxiosInstance | null = null;
+
+  /**
+   * Create a new JSON-RPC transport for the FDC
+   */
+  constructor(config: JsonRpcFDCTransportConfig) {
+    super(config);
+    if (config.daLayerUrl) {
+      this.daLayer = axios.create({
+        baseURL: config.daLayerUrl,
+        timeout: config.timeout || 10000,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'x-api-key': config.apiKey } : {})
+        }
+      });
+      this.daLayer.interceptors.request.use(request => {
+        request.headers.set(getCorrelationHeaders());
+        return request;
+      });
+    }
+  }
+
+  /**
+   * Verify the node is reachable and resolve the FDC contracts
+   */
+  async connect(): Promise<void> {
+    await this.rpc.call<string>('eth_chainId');
+    await Promise.all([
+      this.getContractAddress('FdcHub'),
+      this.getContractAddress('Relay'),
+      this.getContractAddress('FdcRequestFeeConfigurations')
+    ]);
+  }
+
+  /**
+   * Nothing to release for a stateless HTTP transport
+   */
+  async close(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Get the fee FdcHub charges for an attestation request
+   */
+  async getRequestFee(abiEncodedRequest: string): Promise<bigint> {
+    const feeConfigurations = await this.getContractAddress('FdcRequestFeeConfigurations');
+    const result = await this.rpc.ethCall(feeConfigurations, encodeBytesCall(GET_REQUEST_FEE, abiEncodedRequest));
+    return decodeUint(readWord(result, 0));
+  }
+
+  /**
+   * Get the finalized FDC Merkle root of a voting round, or null if not finalized yet
+   */
+  async getMerkleRoot(votingRoundId: number): Promise<string | null> {
+    const relay = await this.getContractAddress('Relay');
+    const result = await this.rpc.ethCall(
+      relay,
+      strip0x(MERKLE_ROOTS) + encodeUint(FDC_PROTOCOL_ID) + encodeUint(votingRoundId)
+    );
+    const root = `0x${readWord(result, 0)}`;
+
+    return /^0x0{64}$/.test(root) ? null : root;
+  }
+
+  /**
+   * Fetch the attestation response and Merkle proof for a request from the DA layer,
+   * or null if the DA layer has none (round not finalized or request not attested)
+   */
+  async getProof(
+    votingRoundId: number,
+    abiEncodedRequest: string
+  ): Promise<{ responseHex: string; proof: string[] } | null> {
+    if (!this.daLayer) {
+      throw new ValidationError('No data-availability layer URL configured', { context: { field: 'daLayerUrl' } });
+    }
+
+    try {
+      const response = await this.daLayer.post<{ response_hex: string; proof: string[] }>(
+        '/api/v1/fdc/proof-by-request-round-raw',
+        {
+          votingRoundId,
+          requestBytes: abiEncodedRequest
+        }
+      );
+
+      return {
+        responseHex: response.data.response_hex,
+        proof: response.data.proof
+      };
+    } catch (error:any) {
+      if (error.response && (error.response.status === 400 || error.response.status === 404)) {
+        return null;
+      }
+      throw fromHttpError(error);
+    }
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Streaming price subscriptions on top of FTSO v2 polling
+ *
+ * All subscribers share two poll loops: an epoch loop that fetches anchor feed
+ * values once per finalized voting epoch, and an optional block loop for
+ * subscribers that want block-latency updates. Each subscriber has its own
+ * bounded queue and receives updates sequentially, so a slow handler only ever
+ * delays (and, once its queue is full, drops stale updates for) itself.
+ */
+
+import { EpochClock } from './epoch-clock';
+import {
+  EpochInfo,
+  PriceData,
+  PriceUpdateHandler,
+  SubscriptionOptions,
+  SubscriptionStats
+} from './types';
+import { ValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+const DEFAULT_MAX_QUEUE_SIZE = 10;
+const DEFAULT_BLOCK_POLL_INTERVAL = 2000;
+const FINALIZATION_DELAY = 5000;
+
+interface Subscription {
+  id: string;
+  symbols: string[];
+  handler: PriceUpdateHandler;
+  blockLatency: boolean;
+  maxQueueSize: number;
+  queue: PriceData[];
+  delivering: boolean;
+  lastTimestamps: Map<string, number>;
+  delivered: number;
+  dropped: number;
+  errors: number;
+}
+
+export class FeedSubscriptionManager {
+  private fetchPrices: (symbols: string[]) => Promise<PriceData[]>;
+  private epochClock: EpochClock;
+  private blockPollInterval: number;
+  private logger: Logger;
+  private subscriptions: Map<string, Subscription> = new Map();
+  private running: boolean = false;
+  private nextId: number = 1;
+  private pendingEpochFetches: Set<ReturnType<typeof setTimeout>> = new Set();
+  private blockTimer: ReturnType<typeof setTimeout> | null = null;
+  private onEpoch = (epoch: EpochInfo) => this.scheduleEpochFetch(epoch);
+
+  /**
+   * Create a new subscription manager
+   */
+  constructor(
+    fetchPrices: (symbols: string[]) => Promise<PriceData[]>,
+    epochClock: EpochClock,
+    options: { blockPollInterval?: number; logLevel?: string } = {}
+  ) {
+    this.fetchPrices = fetchPrices;
+    this.epochClock = epochClock;
+    this.blockPollInterval = options.blockPollInterval || DEFAULT_BLOCK_POLL_INTERVAL;
+    this.logger = new Logger({
+      serviceName: 'FeedSubscriptions',
+      logLevel: options.logLevel || 'info'
+    });
+  }
+
+  /**
+   * Register a subscriber; updates flow once the manager is running
+   */
+  subscribe(symbols: string[], handler: PriceUpdateHandler, options: SubscriptionOptions = {}): string {
+    if (symbols.length === 0) {
+      throw new ValidationError('At least one symbol is required to subscribe', { context: { field: 'symbols' } });
+    }
+
+    const id = `sub-${this.nextId++}`;
+    this.subscriptions.set(id, {
+      id,
+      symbols: Array.from(new Set(symbols)),
+      handler,
+      blockLatency: options.blockLatency || false,
+      maxQueueSize: Math.max(1, options.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE),
+      queue: [],
+      delivering: false,
+      lastTimestamps: new Map(),
+      delivered: 0,
+      dropped: 0,
+      errors: 0
+    });
+
+    if (this.running) {
+      this.startLoops();
+    }
+
+    return id;
+  }
+
+  /**
+   * Remove a subscriber; queued updates are discarded
+   */
+  unsubscribe(id: string): boolean {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return false;
+    }
+
+    subscription.queue = [];
+    this.subscriptions.delete(id);
+
+    if (this.subscriptions.size === 0) {
+      this.stopLoops();
+    } else if (!this.hasBlockLatencySubscribers()) {
+      this.stopBlockLoop();
+    }
+
+    return true;
+  }
+
+  /**
+   * Start delivering updates to all registered subscribers, catching them up
+   * immediately with the current values (already delivered values are skipped)
+   */
+  start(): void {
+    this.running = true;
+    this.startLoops();
+    this.poll(Array.from(this.subscriptions.values()));
+  }
+
+  /**
+   * Stop polling; subscriptions are kept and resume on the next start()
+   */
+  stop(): void {
+    this.running = false;
+    this.stopLoops();
+  }
+
+  /**
+   * Take over the subscriptions of a manager being replaced, keeping their IDs,
+   * statistics and last delivered values; the previous manager is left empty
+   */
+  adopt(previous: FeedSubscriptionManager): void {
+    const adopted = Array.from(previous.subscriptions.values()).filter(subscription => !this.subscriptions.has(subscription.id));
+    adopted.forEach(subscription => this.subscriptions.set(subscription.id, subscription));
+    previous.subscriptions.clear();
+    previous.stopLoops();
+    this.nextId = Math.max(this.nextId, previous.nextId);
+
+    if (this.running) {
+      this.startLoops();
+      this.poll(adopted);
+    }
+  }
+
+  /**
+   * Get delivery statistics for a subscription
+   */
+  getStats(id: string): SubscriptionStats | undefined {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return undefined;
+    }
+
+    return {
+      id,
+      symbols: [...subscription.symbols],
+      blockLatency: subscription.blockLatency,
+      delivered: subscription.delivered,
+      dropped: subscription.dropped,
+      errors: subscription.errors,
+      queued: subscription.queue.length
+    };
+  }
+
+  /**
+   * Get the IDs of all registered subscriptions
+   */
+  getSubscriptionIds(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  private startLoops(): void {
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+    if (this.epochClock.listeners('epoch').indexOf(this.onEpoch) === -1) {
+      this.epochClock.on('epoch', this.onEpoch);
+    }
+    if (this.hasBlockLatencySubscribers() && !this.blockTimer) {
+      this.scheduleBlockPoll();
+    }
+  }
+
+  private stopLoops(): void {
+    this.epochClock.removeListener('epoch', this.onEpoch);
+    this.pendingEpochFetches.forEach(timer => clearTimeout(timer));
+    this.pendingEpochFetches.clear();
+    this.stopBlockLoop();
+  }
+
+  private stopBlockLoop(): void {
+    if (this.blockTimer) {
+      clearTimeout(this.blockTimer);
+      this.blockTimer = null;
+    }
+  }
+
+  private hasBlockLatencySubscribers(): boolean {
+    return Array.from(this.subscriptions.values()).some(subscription => subscription.blockLatency);
+  }
+
+  /**
+   * Values of the epoch that just ended are finalized shortly after its reveal deadline
+   */
+  private scheduleEpochFetch(epoch: EpochInfo): void {
+    const finalizedAt = this.epochClock.getRevealDeadline(epoch.epochId - 1) + FINALIZATION_DELAY;
+
+    const timer = setTimeout(() => {
+      this.pendingEpochFetches.delete(timer);
+      this.poll(Array.from(this.subscriptions.values()).filter(subscription => !subscription.blockLatency));
+    }, Math.max(0, finalizedAt - Date.now()));
+
+    this.pendingEpochFetches.add(timer);
+  }
+
+  private scheduleBlockPoll(): void {
+    const timer = setTimeout(async () => {
+      await this.poll(Array.from(this.subscriptions.values()).filter(subscription => subscription.blockLatency));
+      // A loop stopped or restarted during the poll is no longer this one
+      if (this.blockTimer !== timer) {
+        return;
+      }
+      if (this.running && this.hasBlockLatencySubscribers()) {
+        this.scheduleBlockPoll();
+      } else {
+        this.blockTimer = null;
+      }
+    }, this.blockPollInterval);
+    this.blockTimer = timer;
+  }
+
+  /**
+   * Fetch the union of the subscribers' symbols once and fan out new values
+   */
+  private async poll(subscriptions: Subscription[]): Promise<void> {
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const symbols = Array.from(new Set(
+      subscriptions.reduce<string[]>((all, subscription) => all.concat(subscription.symbols), [])
+    ));
+
+    let prices: PriceData[];
+    try {
+      prices = await this.fetchPrices(symbols);
+    } catch (error) {
+      this.logger.warn('Failed to poll subscribed feeds', { symbols, error });
+      return;
+    }
+
+    subscriptions.forEach(subscription => {
+      if (!this.subscriptions.has(subscription.id)) {
+        return;
+      }
+
+      prices
+        .filter(price => subscription.symbols.includes(price.symbol))
+        .filter(price => subscription.lastTimestamps.get(price.symbol) !== price.timestamp)
+        .forEach(price => {
+          subscription.lastTimestamps.set(price.symbol, price.timestamp);
+          this.enqueue(subscription, price);
+        });
+    });
+  }
+
+  private enqueue(subscription: Subscription, update: PriceData): void {
+    if (subscription.queue.length >= subscription.maxQueueSize) {
+      subscription.queue.shift();
+      subscription.dropped++;
+    }
+    subscription.queue.push(update);
+
+    if (!subscription.delivering) {
+      this.drain(subscription);
+    }
+  }
+
+  private async drain(subscription: Subscription): Promise<void> {
+    subscription.delivering = true;
+
+    while (subscription.queue.length > 0) {
+      const update = subscription.queue.shift()!;
+      try {
+        await subscription.handler(update);
+        subscription.delivered++;
+      } catch (error) {
+        subscription.errors++;
+        this.logger.warn(`Subscription handler ${subscription.id} failed`, { symbol: update.symbol, error });
+      }
+    }
+
+    subscription.delivering = false;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Chain-level JSON-RPC access to a Flare network node
+ *
+ * Shared base for the protocol transports: contract registry lookups, block
+ * and transaction queries, and the primitives needed to send transactions.
+ */
+
+import { JsonRpcClient } from './json-rpc-client';
+import { decodeAddress, encodeStringCall, functionSelector, readWord } from './abi';
+import {
+  BlockInfo,
+  JsonRpcClientConfig,
+  RpcClient,
+  TransactionInfo,
+  TransactionReceipt,
+  TransactionRpc
+} from './types';
+import { ProviderError } from '../utils/errors';
+
+/**
+ * Address of the FlareContractRegistry, identical on Flare, Songbird and their testnets
+ */
+export const FLARE_CONTRACT_REGISTRY_ADDRESS = '0xaD67FE66660Fb8dFE9d6b1b4240d8650e30F6019';
+
+const GET_CONTRACT_ADDRESS_BY_NAME = functionSelector('getContractAddressByName(string)');
+
+export class FlareChainClient implements TransactionRpc {
+  protected rpc: RpcClient;
+  private contractRegistryAddress: string;
+  private contractAddresses: Map<string, string> = new Map();
+
+  /**
+   * Create a new chain client, talking through `rpc` (e.g. an RpcEndpointPool) when given
+   */
+  constructor(config: JsonRpcClientConfig & { contractRegistryAddress?: string; rpc?: RpcClient }) {
+    this.rpc = config.rpc || new JsonRpcClient({
+      endpoint: config.endpoint,
+      apiKey: config.apiKey,
+      timeout: config.timeout
+    });
+    this.contractRegistryAddress = config.contractRegistryAddress || FLARE_CONTRACT_REGISTRY_ADDRESS;
+  }
+
+  /**
+   * Resolve a Flare system contract address by name through the FlareContractRegistry
+   */
+  async getContractAddress(name: string): Promise<string> {
+    const cached = this.contractAddresses.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.rpc.ethCall(this.contractRegistryAddress, encodeStringCall(GET_CONTRACT_ADDRESS_BY_NAME, name));
+    const address = decodeAddress(readWord(result, 0));
+
+    if (/^0x0{40}$/.test(address)) {
+      throw new ProviderError(`${name} is not registered in the FlareContractRegistry`, { context: { contract: name } });
+    }
+
+    this.contractAddresses.set(name, address);
+    return address;
+  }
+
+  /**
+   * Get the number and timestamp of a block
+   */
+  async getBlock(blockTag: number | 'latest' = 'latest'): Promise<BlockInfo> {
+    const tag = blockTag === 'latest' ? blockTag : `0x${blockTag.toString(16)}`;
+    const block = await this.rpc.call<{ number: string; timestamp: string } | null>(
+      'eth_getBlockByNumber',
+      [tag, false]
+    );
+
+    if (!block) {
+      throw new ProviderError(`Block ${blockTag} not found`);
+    }
+
+    return {
+      number: parseInt(block.number, 16),
+      timestamp: parseInt(block.timestamp, 16) * 1000
+    };
+  }
+
+  /**
+   * Get the transactions included in a block
+   */
+  async getBlockTransactions(blockNumber: number): Promise<TransactionInfo[]> {
+    const block = await this.rpc.call<{ transactions: TransactionInfo[] } | null>(
+      'eth_getBlockByNumber',
+      [`0x${blockNumber.toString(16)}`, true]
+    );
+
+    if (!block) {
+      throw new ProviderError(`Block ${blockNumber} not found`);
+    }
+
+    return block.transactions.map(tx => ({
+      hash: tx.hash,
+      from: tx.from.toLowerCase(),
+      to: tx.to ? tx.to.toLowerCase() : null,
+      input: tx.input
+    }));
+  }
+
+  /**
+   * Get the receipt of a mined transaction, or null while it is pending
+   */
+  async getTransactionReceipt(transactionHash: string): Promise<TransactionReceipt | null> {
+    const receipt = await this.rpc.call<{ transactionHash: string; blockNumber: string; status: string } | null>(
+      'eth_getTransactionReceipt',
+      [transactionHash]
+    );
+
+    if (!receipt) {
+      return null;
+    }
+
+    return {
+      transactionHash: receipt.transactionHash,
+      blockNumber: parseInt(receipt.blockNumber, 16),
+      status: parseInt(receipt.status, 16) === 1
+    };
+  }
+
+  /**
+   * Get the chain ID of the connected network
+   */
+  async getChainId(): Promise<number> {
+    return parseInt(await this.rpc.call<string>('eth_chainId'), 16);
+  }
+
+  /**
+   * Get the pending transaction count (next nonce) of an address
+   */
+  async getTransactionCount(address: string): Promise<number> {
+    return parseInt(await this.rpc.call<string>('eth_getTransactionCount', [address, 'pending']), 16);
+  }
+
+  /**
+   * Get the current gas price
+   */
+  async getGasPrice(): Promise<bigint> {
+    return BigInt(await this.rpc.call<string>('eth_gasPrice'));
+  }
+
+  /**
+   * Estimate the gas needed for a transaction
+   */
+  async estimateGas(request: { from: string; to: string; data: string; value?: string }): Promise<bigint> {
+    return BigInt(await this.rpc.call<string>('eth_estimateGas', [request]));
+  }
+
+  /**
+   * Broadcast a signed transaction and return its hash
+   */
+  async sendRawTransaction(rawTransaction: string): Promise<string> {
+    return this.rpc.call<string>('eth_sendRawTransaction', [rawTransaction]);
+  }
+
+  /**
+   * Measure the round-trip latency to the node in milliseconds
+   */
+  async ping(): Promise<number> {
+    const start = Date.now();
+    await this.rpc.call<string>('eth_blockNumber');
+    return Date.now() - start;
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * Commit-reveal submission protocol for FTSO v2 data providers
+ *
+ * In each voting epoch a provider commits a hash of its feed values together
+ * with a random salt, then reveals the values and salt in the following epoch
+ * before the reveal deadline. Submissions are sent to the Submission contract
+ * as `submit1()` (commit) and `submit2()` (reveal) calls with the FTSO protocol
+ * message appended to the calldata. Values are encoded in the canonical feed
+ * order of the voting round's reward epoch, the same order reveals are decoded
+ * in, with an empty slot for every feed the provider does not submit.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  encodeAddress,
+  encodeBytesTail,
+  encodeFixedBytes,
+  encodeUint,
+  functionSelector,
+  keccak256Hex,
+  hexToBytes,
+  strip0x
+} from './abi';
+import { EpochClock } from './epoch-clock';
+import { TransactionSender } from './transaction';
+import { createSigner } from './signers';
+import { toFeedId, toFeedName } from './ftso-transport';
+import {
+  EpochSubmissionState,
+  FTSODataProviderSettings,
+  FTSOTransport,
+  RewardEpochFeed,
+  SubmissionResult,
+  TransactionRequest
+} from './types';
+import { RateLimitError, ValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+export const FTSO_PROTOCOL_ID = 100;
+
+const SUBMIT1_SELECTOR = functionSelector('submit1()');
+const SUBMIT2_SELECTOR = functionSelector('submit2()');
+const REVEAL_DELAY = 1000;
+const MAX_TRACKED_EPOCHS = 100;
+const FEED_VALUE_OFFSET = BigInt(2) ** BigInt(31);
+
+interface PendingEpoch extends EpochSubmissionState {
+  random: string;
+  encodedValues: string;
+  revealTimer?: ReturnType<typeof setTimeout>;
+}
+
+export interface CommitRevealOptions {
+  epochClock: EpochClock;
+  // Feeds of the reward epoch a voting round belongs to, in canonical order
+  getFeeds: (votingRoundId: number) => Promise<RewardEpochFeed[]>;
+  minSubmissionInterval?: number;
+  logLevel?: string;
+}
+
+/**
+ * Encode feed values in the FTSO reveal format: 4 bytes per feed in the order of
+ * `feeds`, offset by 2^31 so negative values fit an unsigned field, with 0
+ * marking a feed without a value. Values are keyed by asset symbol or feed name.
+ */
+export function encodeFeedValues(feeds: RewardEpochFeed[], values: Record<string, number>): string {
+  const valuesByFeedId = new Map<string, number>();
+  Object.keys(values).forEach(symbol => valuesByFeedId.set(toFeedId(symbol), values[symbol]));
+
+  return feeds.map(feed => {
+    const value = valuesByFeedId.get(feed.feedId);
+    if (value === undefined) {
+      return '00000000';
+    }
+    const scaled = BigInt(Math.round(value * Math.pow(10, feed.decimals))) + FEED_VALUE_OFFSET;
+    if (scaled <= BigInt(0) || scaled >= BigInt(2) ** BigInt(32)) {
+      throw new ValidationError(`Value ${value} for ${feed.symbol} does not fit the feed encoding`, { context: { field: 'values' } });
+    }
+    return scaled.toString(16).padStart(8, '0');
+  }).join('');
+}
+
+/**
+ * Compute the commit hash binding the submitter, round, salt and encoded values
+ */
+export function computeCommitHash(
+  submitAddress: string,
+  votingRoundId: number,
+  random: string,
+  encodedValues: string
+): string {
+  const encoded = encodeAddress(submitAddress) +
+    encodeUint(votingRoundId) +
+    encodeFixedBytes(random) +
+    encodeUint(128) +
+    encodeBytesTail(encodedValues);
+
+  return keccak256Hex(hexToBytes(encoded));
+}
+
+/**
+ * Build a protocol message: protocol ID (1 byte), voting round (4 bytes),
+ * payload length (2 bytes) and payload
+ */
+export function encodeProtocolMessage(votingRoundId: number, payload: string): string {
+  const body = strip0x(payload);
+  return FTSO_PROTOCOL_ID.toString(16).padStart(2, '0') +
+    votingRoundId.toString(16).padStart(8, '0') +
+    (body.length / 2).toString(16).padStart(4, '0') +
+    body;
+}
+
+/**
+ * Decode the FTSO messages carried in `submit2()` calldata; messages of other
+ * protocols are skipped
+ */
+export function decodeRevealMessages(calldata: string): Array<{ votingRoundId: number; random: string; encodedValues: string }> {
+  const body = strip0x(calldata);
+  if (`0x${body.slice(0, 8)}` !== SUBMIT2_SELECTOR) {
+    return [];
+  }
+
+  const messages: Array<{ votingRoundId: number; random: string; encodedValues: string }> = [];
+  let offset = 8;
+
+  while (offset + 14 <= body.length) {
+    const protocolId = parseInt(body.slice(offset, offset + 2), 16);
+    const votingRoundId = parseInt(body.slice(offset + 2, offset + 10), 16);
+    const length = parseInt(body.slice(offset + 10, offset + 14), 16);
+    const payload = body.slice(offset + 14, offset + 14 + length * 2);
+    offset += 14 + length * 2;
+
+    if (protocolId === FTSO_PROTOCOL_ID && payload.length >= 64) {
+      messages.push({
+        votingRoundId,
+        random: `0x${payload.slice(0, 64)}`,
+        encodedValues: payload.slice(64)
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Decode the value at a feed index from encoded reveal values; undefined when
+ * the provider did not submit a value for that feed
+ */
+export function decodeFeedValue(encodedValues: string, index: number, decimals: number): number | undefined {
+  const chunk = encodedValues.slice(index * 8, index * 8 + 8);
+  if (chunk.length !== 8) {
+    return undefined;
+  }
+  const raw = BigInt(`0x${chunk}`);
+  if (raw === BigInt(0)) {
+    return undefined;
+  }
+  return Number(raw - FEED_VALUE_OFFSET) / Math.pow(10, decimals);
+}
+
+export class CommitRevealSubmitter {
+  private transport: FTSOTransport;
+  private settings: FTSODataProviderSettings;
+  private options: CommitRevealOptions;
+  private epochClock: EpochClock;
+  private sender: TransactionSender;
+  private logger: Logger;
+  private epochs: Map<number, PendingEpoch> = new Map();
+  private committing: Set<number> = new Set();
+  private submissionAddress: string | null = null;
+  private lastCommitTimestamp: number = 0;
+
+  /**
+   * Create a new submitter for a data provider
+   */
+  constructor(transport: FTSOTransport, settings: FTSODataProviderSettings, options: CommitRevealOptions) {
+    this.transport = transport;
+    this.settings = settings;
+    this.options = options;
+    this.epochClock = options.epochClock;
+    this.sender = new TransactionSender(transport, createSigner(settings.signer));
+    this.logger = new Logger({
+      serviceName: 'FTSOCommitReveal',
+      logLevel: options.logLevel || 'info'
+    });
+  }
+
+  /**
+   * Commit values for the current voting epoch and schedule their reveal
+   */
+  async commit(values: Record<string, number>): Promise<SubmissionResult> {
+    const symbols = Object.keys(values);
+    const unsupported = symbols.filter(symbol => !this.settings.supportedSymbols.includes(symbol));
+    if (symbols.length === 0) {
+      throw new ValidationError('No values to submit', { context: { field: 'values' } });
+    }
+    if (unsupported.length > 0) {
+      throw new ValidationError(`Symbols not supported by this provider: ${unsupported.join(', ')}`, { context: { field: 'symbols' } });
+    }
+
+    const now = Date.now();
+    const minInterval = this.options.minSubmissionInterval || 0;
+    if (now - this.lastCommitTimestamp < minInterval) {
+      const retryAfter = minInterval - (now - this.lastCommitTimestamp);
+      throw new RateLimitError(`Submission interval not elapsed; next submission allowed in ${retryAfter}ms`, { context: { retryAfter } });
+    }
+
+    const epoch = this.epochClock.getEpochId(now);
+    if (this.epochs.has(epoch) || this.committing.has(epoch)) {
+      throw new ValidationError(`Values already committed for epoch ${epoch}`, { context: { field: 'epoch' } });
+    }
+
+    // Claim the epoch and interval before the first await so concurrent commits are refused
+    const previousCommitTimestamp = this.lastCommitTimestamp;
+    this.committing.add(epoch);
+    this.lastCommitTimestamp = now;
+
+    let random: string;
+    let encodedValues: string;
+    let commitHash: string;
+    let transactionHash: string;
+    try {
+      const feeds = await this.options.getFeeds(epoch);
+      const feedIds = feeds.map(feed => feed.feedId);
+      const unoffered = symbols.filter(symbol => !feedIds.includes(toFeedId(symbol)));
+      if (unoffered.length > 0) {
+        throw new ValidationError(`Feeds not offered in the reward epoch of voting round ${epoch}: ${unoffered.map(toFeedName).join(', ')}`, {
+          context: { field: 'symbols' }
+        });
+      }
+
+      encodedValues = encodeFeedValues(feeds, values);
+      random = `0x${randomBytes(32).toString('hex')}`;
+      commitHash = computeCommitHash(await this.sender.getAddress(), epoch, random, encodedValues);
+
+      transactionHash = await this.sender.send({
+        to: await this.getSubmissionAddress(),
+        data: SUBMIT1_SELECTOR + encodeProtocolMessage(epoch, commitHash)
+      });
+    } catch (error) {
+      if (this.lastCommitTimestamp === now) {
+        this.lastCommitTimestamp = previousCommitTimestamp;
+      }
+      throw error;
+    } finally {
+      this.committing.delete(epoch);
+    }
+
+    const revealDeadline = this.epochClock.getRevealDeadline(epoch);
+    const state: PendingEpoch = {
+      epoch,
+      status: 'COMMITTED',
+      values: { ...values },
+      commitHash,
+      commitTransactionHash: transactionHash,
+      committedAt: now,
+      revealDeadline,
+      random,
+      encodedValues
+    };
+
+    this.epochs.set(epoch, state);
+    this.scheduleReveal(state);
+    this.pruneEpochs();
+
+    this.logger.info(`Committed values for epoch ${epoch}`, {
+      symbols,
+      commitHash,
+      transactionHash
+    });
+
+    return {
+      success: true,
+      epoch,
+      assetSymbol: symbols.length === 1 ? symbols[0] : undefined,
+      submissionTimestamp: now,
+      transactionHash,
+      phase: 'COMMIT',
+      commitHash,
+      revealDeadline
+    };
+  }
+
+  /**
+   * Reveal the values committed for an epoch
+   */
+  async reveal(epoch: number): Promise<SubmissionResult> {
+    const state = this.epochs.get(epoch);
+    if (!state) {
+      throw new ValidationError(`No commit found for epoch ${epoch}`, { context: { field: 'epoch' } });
+    }
+    if (state.status !== 'COMMITTED') {
+      throw new ValidationError(`Epoch ${epoch} is already ${state.status}`, { context: { field: 'epoch' } });
+    }
+
+    const now = Date.now();
+    const revealStart = this.epochClock.getEpochEnd(epoch);
+    if (now < revealStart) {
+      throw new ValidationError(`Reveal for epoch ${epoch} opens at ${new Date(revealStart).toISOString()}`, { context: { field: 'epoch' } });
+    }
+    if (now > state.revealDeadline) {
+      this.markMissed(state, 'Reveal deadline passed');
+      throw new ValidationError(`Reveal deadline for epoch ${epoch} has passed`, { context: { field: 'epoch' } });
+    }
+
+    try {
+      const transactionHash = await this.sender.send({
+        to: await this.getSubmissionAddress(),
+        data: SUBMIT2_SELECTOR + encodeProtocolMessage(epoch, strip0x(state.random) + state.encodedValues)
+      });
+
+      state.status = 'REVEALED';
+      state.revealTransactionHash = transactionHash;
+      state.revealedAt = Date.now();
+
+      this.logger.info(`Revealed values for epoch ${epoch}`, { transactionHash });
+
+      return {
+        success: true,
+        epoch,
+        submissionTimestamp: state.revealedAt,
+        transactionHash,
+        phase: 'REVEAL',
+        commitHash: state.commitHash,
+        revealDeadline: state.revealDeadline
+      };
+    } catch (error:any) {
+      state.status = 'REVEAL_FAILED';
+      state.error = error.message;
+      this.logger.error(`Failed to reveal values for epoch ${epoch}`, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the address the provider submits from
+   */
+  getAddress(): Promise<string> {
+    return this.sender.getAddress();
+  }
+
+  /**
+   * Send another transaction from the provider's account, sharing the nonce
+   * tracking of commits and reveals
+   */
+  send(request: TransactionRequest): Promise<string> {
+    return this.sender.send(request);
+  }
+
+  /**
+   * Get the tracked state of an epoch
+   */
+  getEpochState(epoch: number): EpochSubmissionState | undefined {
+    const state = this.epochs.get(epoch);
+    return state ? this.toPublicState(state) : undefined;
+  }
+
+  /**
+   * Get the tracked state of all recent epochs, newest first
+   */
+  getHistory(): EpochSubmissionState[] {
+    return Array.from(this.epochs.values())
+      .sort((a, b) => b.epoch - a.epoch)
+      .map(state => this.toPublicState(state));
+  }
+
+  /**
+   * Get epochs whose commit was never successfully revealed
+   */
+  getMissedReveals(): EpochSubmissionState[] {
+    return this.getHistory().filter(state =>
+      state.status === 'REVEAL_MISSED' || state.status === 'REVEAL_FAILED'
+    );
+  }
+
+  /**
+   * Take over the tracked epochs of a submitter being replaced, revealing its
+   * pending commits from this one; the previous submitter is left empty
+   */
+  adopt(previous: CommitRevealSubmitter): void {
+    previous.epochs.forEach((state, epoch) => {
+      if (state.revealTimer) {
+        clearTimeout(state.revealTimer);
+        state.revealTimer = undefined;
+      }
+      if (!this.epochs.has(epoch)) {
+        this.epochs.set(epoch, state);
+        if (state.status === 'COMMITTED') {
+          this.scheduleReveal(state);
+        }
+      }
+    });
+    previous.epochs.clear();
+    this.lastCommitTimestamp = Math.max(this.lastCommitTimestamp, previous.lastCommitTimestamp);
+    this.pruneEpochs();
+  }
+
+  /**
+   * Cancel all scheduled reveals; pending commits are reported as missed
+   */
+  stop(): void {
+    this.epochs.forEach(state => {
+      if (state.revealTimer) {
+        clearTimeout(state.revealTimer);
+        state.revealTimer = undefined;
+      }
+      if (state.status === 'COMMITTED') {
+        this.markMissed(state, 'Submitter stopped before reveal');
+      }
+    });
+  }
+
+  /**
+   * Schedule the automatic reveal at the start of the next epoch
+   */
+  private scheduleReveal(state: PendingEpoch): void {
+    const delay = Math.max(0, this.epochClock.getEpochEnd(state.epoch) + REVEAL_DELAY - Date.now());
+
+    state.revealTimer = setTimeout(() => {
+      state.revealTimer = undefined;
+      this.reveal(state.epoch).catch(() => {
+        // Failures are recorded on the epoch state and logged by reveal()
+      });
+    }, delay);
+  }
+
+  private markMissed(state: PendingEpoch, reason: string): void {
+    state.status = 'REVEAL_MISSED';
+    state.error = reason;
+    this.logger.warn(`Missed reveal for epoch ${state.epoch}`, { reason });
+  }
+
+  private async getSubmissionAddress(): Promise<string> {
+    if (!this.submissionAddress) {
+      this.submissionAddress = await this.transport.getContractAddress('Submission');
+    }
+    return this.submissionAddress;
+  }
+
+  private pruneEpochs(): void {
+    const epochs = Array.from(this.epochs.keys()).sort((a, b) => a - b);
+    while (epochs.length > MAX_TRACKED_EPOCHS) {
+      const epoch = epochs.shift()!;
+      const state = this.epochs.get(epoch)!;
+      if (state.status !== 'COMMITTED') {
+        this.epochs.delete(epoch);
+      }
+    }
+  }
+
+  private toPublicState(state: PendingEpoch): EpochSubmissionState {
+    const { random, encodedValues, revealTimer, ...publicState } = state;
+    return { ...publicState, values: { ...state.values } };
+  }
+}
@@ -5,30 +5,105 @@
  * to the Flare Network through a consensus of data providers.
  */
 
-import axios from 'axios';
 import { 
   FTSOConnectionConfig, 
   PriceData, 
   SubmissionResult, 
   ConfidenceInterval,
+  ConfidenceIntervalOptions,
   ConnectionStatus,
-  FTSOProviderInfo
+  FTSOProviderInfo,
+  FTSOTransport,
+  FeedValue,
+  BlockInfo,
+  EpochSubmissionState,
+  ProviderSubmission,
+  ProviderQueryOptions,
+  PriceUpdateHandler,
+  SubscriptionOptions,
+  SubscriptionStats,
+  FTSOSpecificConfig,
+  StoredPricePoint,
+  CandleInterval,
+  PriceCandle,
+  RewardClaimOptions,
+  RewardClaimProof,
+  RewardClaimRecord,
+  RewardEpochFeed,
+  RewardReport,
+  RoundRewardEstimate
 } from './types';
+import { JsonRpcFTSOTransport, toFeedId } from './ftso-transport';
+import { CommitRevealSubmitter, decodeFeedValue, decodeRevealMessages } from './ftso-commit-reveal';
+import { inverseNormalCdf, logReturns, standardDeviation, weightedQuantile } from './statistics';
+import { EpochClock } from './epoch-clock';
+import { InFlightTracker } from './in-flight';
+import { ProviderScorer } from './provider-scoring';
+import { FeedSubscriptionManager } from './feed-subscriptions';
+import { PriceStore } from './price-store';
+import { RewardLedger, encodeClaimCall, getRewardEpochId } from './ftso-rewards';
+import { abortableDelay } from './request-scheduler';
+import { NotConnectedError, ProviderError, TimeoutError, ValidationError, wrapError } from '../utils/errors';
 import { Logger } from '../utils/logger';
 
+const DEFAULT_FEEDS = ['BTC', 'ETH', 'XRP', 'ADA', 'SOL', 'DOT', 'FLR', 'USDT', 'USDC'];
+const DEFAULT_CONFIDENCE_LEVELS = [0.5, 0.8, 0.95, 0.99];
+// Volatility window read from the chain (20 epochs, well within the unstored history warning)
+const DEFAULT_VOLATILITY_WINDOW = 30 * 60 * 1000;
+// Volatility window when a price store keeps history between requests
+const STORED_VOLATILITY_WINDOW = 24 * 60 * 60 * 1000;
+const BACKFILL_CHUNK_EPOCHS = 480;
+const DEFAULT_CLAIM_TIMEOUT = 120000;
+const CLAIM_POLL_INTERVAL = 2000;
+const MAX_CACHED_REWARD_EPOCHS = 4;
+// Typical Flare block time, the first guess of block searches
+const DEFAULT_BLOCK_TIME = 1800;
+// Confidence in a value finalized by FtsoV2. The finalized value is the weighted
+// median of the provider reveals, so there is no per-value disagreement to report;
+// how well each provider agrees with the consensus is in its FTSOProviderInfo.
+const FINALIZED_VALUE_CONFIDENCE = 1;
+// Epochs a history request may read from the chain without a price store before a warning is logged (1 hour)
+const UNSTORED_HISTORY_WARNING_EPOCHS = 40;
+
 export class FTSOConnection {
   private config: FTSOConnectionConfig;
   private isConnected: boolean = false;
-  private client: any; 
+  private client: FTSOTransport | null = null;
   private logger: Logger;
   private providerRegistry: Map<string, FTSOProviderInfo> = new Map();
   private lastUpdateTimestamp: number = 0;
+  private submitter: CommitRevealSubmitter | null = null;
+  private providerScorer: ProviderScorer;
+  private subscriptions: FeedSubscriptionManager;
+  private epochClock: EpochClock;
+  private inFlight: InFlightTracker = new InFlightTracker();
+  private priceStore: PriceStore | null;
+  private rewardLedger: RewardLedger | null;
+  private rewardEpochFeeds: Map<number, Promise<RewardEpochFeed[]>> = new Map();
+  private registryUpdate: Promise<void> | null = null;
+  // Block found by the last block search, the starting point of the next one
+  private recentBlock: BlockInfo | null = null;
+  private unstoredHistoryWarned: boolean = false;
   
   /**
    * Create a new connection to FTSO v2
    */
   constructor(config: FTSOConnectionConfig) {
     this.config = config;
+    this.epochClock = config.epochClock || new EpochClock();
+    this.providerScorer = new ProviderScorer(config.ftsoSpecificConfig?.providerScoring);
+    this.subscriptions = new FeedSubscriptionManager(
+      symbols => this.getLatestPrices(symbols),
+      this.epochClock,
+      {
+        blockPollInterval: config.ftsoSpecificConfig?.blockPollInterval,
+        logLevel: config.logLevel
+      }
+    );
+    this.priceStore = config.priceStore || (config.ftsoSpecificConfig?.priceStoreDirectory
+      ? new PriceStore({ directory: config.ftsoSpecificConfig.priceStoreDirectory, logLevel: config.logLevel })
+      : null);
+    this.rewardLedger = config.dataProviderSettings ? new RewardLedger(config.ftsoSpecificConfig?.rewards) : null;
     this.logger = new Logger({
       serviceName: 'FTSOConnection',
       logLevel: config.logLevel || 'info'
@@ -47,70 +122,107 @@ export class FTSOConnection {
       });
       
   
-      await new Promise(resolve => setTimeout(resolve, 500));
+      const transport = this.config.transport || new JsonRpcFTSOTransport({
+        endpoint: this.config.endpoint,
+        apiKey: this.config.apiKey,
+        ftsoV2Address: this.config.ftsoSpecificConfig?.ftsoV2Address,
+        contractRegistryAddress: this.config.ftsoSpecificConfig?.contractRegistryAddress,
+        timeout: this.config.ftsoSpecificConfig?.requestTimeout,
+        rpc: this.config.rpc
+      });
+      const client = this.config.traffic ? this.config.traffic.wrap('ftso', transport) : transport;
       
-      this.client = {
-        async getPriceData(symbol: string) {
-          return {
-            price: Math.random() * 50000,
-            timestamp: Date.now(),
-            confidence: 0.95,
-            providers: 32
-          };
-        },
-        
-      };
+      await client.connect();
+      this.client = client;
+      this.rewardEpochFeeds.clear();
+      this.recentBlock = null;
       
-      await this.updateProviderRegistry();
+      if (this.config.dataProviderSettings) {
+        this.submitter = new CommitRevealSubmitter(client, this.config.dataProviderSettings, {
+          epochClock: this.epochClock,
+          getFeeds: votingRoundId => this.getVotingRoundFeeds(votingRoundId),
+          minSubmissionInterval: this.config.ftsoSpecificConfig?.minSubmissionInterval,
+          logLevel: this.config.logLevel
+        });
+      }
+      const ledgerFile = this.config.ftsoSpecificConfig?.rewards?.ledgerFile;
+      if (this.rewardLedger && ledgerFile) {
+        await this.rewardLedger.load(ledgerFile);
+      }
       
       this.isConnected = true;
+      this.subscriptions.start();
+      
+      // Scoring the backfilled epochs reads every block of their reveal windows
+      this.refreshProviderRegistry();
       this.logger.info('Successfully connected to FTSO v2 service');
     } catch (error:any) {
       this.logger.error('Failed to connect to FTSO v2 service', { error });
-      throw new Error(`FTSO connection error: ${error.message}`);
+      throw wrapError(error, 'FTSO connection error');
     }
   }
   
   /**
-   * Update the provider registry with latest information
+   * Start a provider registry update unless one is running, resolving when it is done
+   */
+  private refreshProviderRegistry(): Promise<void> {
+    if (!this.registryUpdate) {
+      this.registryUpdate = this.updateProviderRegistry().then(() => {
+        this.registryUpdate = null;
+      });
+    }
+    return this.registryUpdate;
+  }
+  
+  /**
+   * Update the provider registry from observed submission history
+   * 
+   * Every revealed epoch since the last update (up to the configured backfill)
+   * is scored for all configured feeds; providers that submitted in earlier
+   * epochs but not in a scored one count as missed reveals.
    */
   private async updateProviderRegistry(): Promise<void> {
     try {
-  
-      const mockProviders: FTSOProviderInfo[] = [
-        {
-          id: 'provider-1',
-          name: 'Alpha Oracle',
-          reliabilityScore: 0.98,
-          accuracy: 0.992,
-          votePower: 2500000,
-          supportedSymbols: ['BTC', 'ETH', 'XRP', 'FLR']
-        },
-        {
-          id: 'provider-2',
-          name: 'Beta Data',
-          reliabilityScore: 0.95,
-          accuracy: 0.983,
-          votePower: 1800000,
-          supportedSymbols: ['BTC', 'ETH', 'ADA', 'SOL', 'FLR']
-        },
-        {
-          id: 'provider-3',
-          name: 'Gamma Metrics',
-          reliabilityScore: 0.99,
-          accuracy: 0.989,
-          votePower: 3200000,
-          supportedSymbols: ['BTC', 'ETH', 'XRP', 'ADA', 'SOL', 'DOT', 'FLR']
+      const latestEpoch = this.getLatestRevealedEpoch();
+      const backfill = this.config.ftsoSpecificConfig?.providerScoring?.backfillEpochs || 10;
+      const firstEpoch = Math.max(this.providerScorer.getLastEpoch() + 1, latestEpoch - backfill + 1);
+      const feeds = this.getConfiguredFeeds();
+      
+      for (let epoch = firstEpoch; epoch <= latestEpoch; epoch++) {
+        if (!this.isConnected) {
+          return;
         }
-      ];
+        const submissionsByFeed = await this.collectEpochSubmissions(epoch, feeds);
+        const knownProviders = this.providerScorer.getProviders();
+        
+        feeds.forEach(symbol => {
+          this.providerScorer.recordEpoch(epoch, symbol, submissionsByFeed.get(symbol) || [], knownProviders);
+        });
+      }
+      
+      const names = this.config.ftsoSpecificConfig?.providerNames || {};
       
-      mockProviders.forEach(provider => {
-        this.providerRegistry.set(provider.id, provider);
+      this.providerRegistry.clear();
+      this.providerScorer.getScores().forEach(score => {
+        this.providerRegistry.set(score.provider, {
+          id: score.provider,
+          name: names[score.provider] || names[score.provider.toLowerCase()] || score.provider,
+          reliabilityScore: score.reliabilityScore,
+          accuracy: score.accuracy,
+          votePower: this.getConfiguredVotePower(score.provider),
+          supportedSymbols: score.symbols,
+          revealRate: score.revealRate,
+          primaryBandRate: score.primaryBandRate,
+          meanDeviation: score.meanDeviation,
+          epochsObserved: score.epochsObserved,
+          lastSeenEpoch: score.lastSeenEpoch
+        });
       });
       
       this.lastUpdateTimestamp = Date.now();
       this.logger.debug('Updated FTSO provider registry', {
-        providersCount: this.providerRegistry.size
+        providersCount: this.providerRegistry.size,
+        scoredThroughEpoch: latestEpoch
       });
     } catch (error) {
       this.logger.error('Failed to update FTSO provider registry', { error });
@@ -128,14 +240,24 @@ export class FTSOConnection {
     try {
       this.logger.info('Disconnecting from FTSO v2 service');
       
-   
-      this.client = null;
       this.isConnected = false;
+      this.subscriptions.stop();
+      if (this.registryUpdate) {
+        await this.registryUpdate;
+      }
+      if (this.submitter) {
+        this.submitter.stop();
+        this.submitter = null;
+      }
+      if (this.client) {
+        await this.client.close();
+      }
+      this.client = null;
       
       this.logger.info('Successfully disconnected from FTSO v2 service');
     } catch (error:any) {
       this.logger.error('Error during FTSO v2 disconnect', { error });
-      throw new Error(`FTSO disconnect error: ${error.message}`);
+      throw wrapError(error, 'FTSO disconnect error');
     }
   }
   
@@ -150,17 +272,15 @@ export class FTSOConnection {
     }
     
     try {
- 
+      const latency = await this.client!.ping();
       
-      const mockStatus: ConnectionStatus = {
+      return {
         connected: true,
-        latency: Math.floor(Math.random() * 100) + 20, 
+        latency,
         lastUpdate: this.lastUpdateTimestamp,
         providersCount: this.providerRegistry.size,
-        activeDataFeeds: ['BTC', 'ETH', 'XRP', 'ADA', 'SOL', 'DOT', 'FLR', 'USDT', 'USDC']
+        activeDataFeeds: this.getConfiguredFeeds()
       };
-      
-      return mockStatus;
     } catch (error:any) {
       this.logger.error('Error getting FTSO connection status', { error });
       return {
@@ -176,36 +296,79 @@ export class FTSOConnection {
   async getLatestPrice(assetSymbol: string): Promise<PriceData> {
     this.checkConnection();
     
+    this.inFlight.begin();
     try {
       this.logger.debug(`Getting latest price for ${assetSymbol}`);
-  
-      
-      const data = await this.client.getPriceData(assetSymbol);
       
-      const priceData: PriceData = {
-        symbol: assetSymbol,
-        price: data.price,
-        timestamp: data.timestamp,
-        confidence: {
-          overall: data.confidence,
-          providers: data.providers
-        },
-        sourceInfo: {
-          providersCount: data.providers,
-          consensusReached: true,
-          epoch: Math.floor(Date.now() / (3 * 60 * 1000)) 
-        }
-      };
+      const [feedValue] = await this.client!.getFeedValues([assetSymbol]);
       
-      return priceData;
+      return this.toPriceData(feedValue);
     } catch (error:any) {
       this.logger.error(`Error getting latest price for ${assetSymbol}`, { error });
-      throw new Error(`Failed to get latest price for ${assetSymbol}: ${error.message}`);
+      throw wrapError(error, `Failed to get latest price for ${assetSymbol}`);
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get the latest prices for several assets in a single read
+   */
+  async getLatestPrices(assetSymbols: string[]): Promise<PriceData[]> {
+    this.checkConnection();
+    
+    this.inFlight.begin();
+    try {
+      const feedValues = await this.client!.getFeedValues(assetSymbols);
+      
+      return feedValues.map(feedValue => this.toPriceData(feedValue));
+    } catch (error:any) {
+      this.logger.error(`Error getting latest prices for ${assetSymbols.join(', ')}`, { error });
+      throw wrapError(error, `Failed to get latest prices for ${assetSymbols.join(', ')}`);
+    } finally {
+      this.inFlight.end();
     }
   }
   
+  /**
+   * Subscribe to price updates for a set of assets
+   * 
+   * The handler receives one update per asset for every finalized epoch, or for
+   * every new block-latency value when `blockLatency` is set. Subscriptions
+   * survive disconnect()/connect() cycles and can be registered before connecting.
+   */
+  subscribe(
+    assetSymbols: string[],
+    handler: PriceUpdateHandler,
+    options: SubscriptionOptions = {}
+  ): string {
+    const id = this.subscriptions.subscribe(assetSymbols, handler, options);
+    this.logger.debug(`Subscribed to ${assetSymbols.join(', ')}`, { subscriptionId: id });
+    return id;
+  }
+  
+  /**
+   * Cancel a subscription
+   */
+  unsubscribe(subscriptionId: string): boolean {
+    return this.subscriptions.unsubscribe(subscriptionId);
+  }
+  
+  /**
+   * Get delivery statistics for a subscription
+   */
+  getSubscriptionStats(subscriptionId: string): SubscriptionStats | undefined {
+    return this.subscriptions.getStats(subscriptionId);
+  }
+  
   /**
    * Get historical prices for a specific asset
+   *
+   * The feed is sampled once per voting epoch. With a price store configured,
+   * completed epochs are served from the store and only epochs not stored yet
+   * are fetched (and stored); the epoch still in progress is always read live.
+   * Without a store every epoch costs a contract call on every request, which is
+   * logged as a warning once when a request reads more than an hour of epochs.
    */
   async getHistoricalPrices(
     assetSymbol: string,
@@ -214,148 +377,818 @@ export class FTSOConnection {
   ): Promise<PriceData[]> {
     this.checkConnection();
     
+    this.inFlight.begin();
     try {
       this.logger.debug(`Getting historical prices for ${assetSymbol}`, {
         from: new Date(fromTimestamp).toISOString(),
         to: new Date(toTimestamp).toISOString()
       });
       
-     
+      const fromEpoch = this.epochClock.getEpochId(fromTimestamp);
+      const toEpoch = this.epochClock.getEpochId(toTimestamp);
+      const latest = await this.client!.getBlock('latest');
       
-      const epochInterval = 3 * 60 * 1000; 
-      const dataPoints: PriceData[] = [];
+      let samples: StoredPricePoint[] = [];
+      if (this.priceStore) {
+        await this.backfillEpochs(assetSymbol, fromEpoch, toEpoch, latest);
+        samples = await this.priceStore.getRange(assetSymbol, fromEpoch, toEpoch);
+      }
       
-      let basePrice = Math.random() * 50000;
-      for (let timestamp = fromTimestamp; timestamp <= toTimestamp; timestamp += epochInterval) {
-        basePrice = basePrice * (1 + (Math.random() * 0.02 - 0.01));
-        
-        dataPoints.push({
-          symbol: assetSymbol,
-          price: basePrice,
-          timestamp,
-          confidence: {
-            overall: 0.9 + Math.random() * 0.09,
-            providers: 20 + Math.floor(Math.random() * 15)
-          },
-          sourceInfo: {
-            providersCount: 20 + Math.floor(Math.random() * 15),
-            consensusReached: Math.random() > 0.05, 
-            epoch: Math.floor(timestamp / epochInterval)
-          }
-        });
+      const stored = new Set(samples.map(sample => sample.epoch));
+      const pending: number[] = [];
+      for (let epoch = fromEpoch; epoch <= toEpoch; epoch++) {
+        if (!stored.has(epoch)) {
+          pending.push(epoch);
+        }
       }
+      if (!this.priceStore && pending.length > UNSTORED_HISTORY_WARNING_EPOCHS && !this.unstoredHistoryWarned) {
+        this.unstoredHistoryWarned = true;
+        this.logger.warn(`Reading ${pending.length} epochs of ${assetSymbol} history from the chain; ` +
+          'set ftsoSpecificConfig.priceStoreDirectory to keep it between requests', { epochs: pending.length });
+      }
+      samples = samples
+        .concat(await this.sampleEpochs(assetSymbol, pending, latest))
+        .sort((a, b) => a.epoch - b.epoch);
+      
+      // Epochs without a new feed update repeat the previous value
+      const dataPoints: PriceData[] = [];
+      let lastFeedTimestamp = -1;
+      samples.forEach(sample => {
+        if (sample.timestamp !== lastFeedTimestamp) {
+          lastFeedTimestamp = sample.timestamp;
+          dataPoints.push(this.toPriceData({ symbol: sample.symbol, value: sample.price, timestamp: sample.timestamp }));
+        }
+      });
       
       return dataPoints;
     } catch (error:any) {
       this.logger.error(`Error getting historical prices for ${assetSymbol}`, { error });
-      throw new Error(`Failed to get historical prices for ${assetSymbol}: ${error.message}`);
+      throw wrapError(error, `Failed to get historical prices for ${assetSymbol}`);
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Fetch and store the per-epoch samples of a time range that are not stored yet
+   * @returns Number of epochs fetched
+   */
+  async backfillHistory(assetSymbol: string, fromTimestamp: number, toTimestamp: number): Promise<number> {
+    this.checkConnection();
+    
+    this.inFlight.begin();
+    try {
+      return await this.backfillEpochs(
+        assetSymbol,
+        this.epochClock.getEpochId(fromTimestamp),
+        this.epochClock.getEpochId(toTimestamp),
+        await this.client!.getBlock('latest')
+      );
+    } catch (error:any) {
+      this.logger.error(`Error backfilling price history for ${assetSymbol}`, { error });
+      throw wrapError(error, `Failed to backfill price history for ${assetSymbol}`);
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get OHLC candles for an asset, backfilling the price store as needed
+   */
+  async getHistoricalCandles(
+    assetSymbol: string,
+    fromTimestamp: number,
+    toTimestamp: number,
+    interval: CandleInterval
+  ): Promise<PriceCandle[]> {
+    this.checkConnection();
+    
+    this.inFlight.begin();
+    try {
+      const fromEpoch = this.epochClock.getEpochId(fromTimestamp);
+      const toEpoch = this.epochClock.getEpochId(toTimestamp);
+      await this.backfillEpochs(assetSymbol, fromEpoch, toEpoch, await this.client!.getBlock('latest'));
+      
+      return await this.getPriceStore().getCandles(assetSymbol, fromEpoch, toEpoch, interval);
+    } catch (error:any) {
+      this.logger.error(`Error getting ${interval} candles for ${assetSymbol}`, { error });
+      throw wrapError(error, `Failed to get ${interval} candles for ${assetSymbol}`);
+    } finally {
+      this.inFlight.end();
     }
   }
   
+  /**
+   * Get the price store backing historical queries, e.g. to export or import datasets
+   * @throws Error if no price store is configured
+   */
+  getPriceStore(): PriceStore {
+    if (!this.priceStore) {
+      throw new ValidationError('No price store configured; set ftsoSpecificConfig.priceStoreDirectory', {
+        context: { field: 'ftsoSpecificConfig.priceStoreDirectory' }
+      });
+    }
+    return this.priceStore;
+  }
+  
   /**
    * Submit a data point to the FTSO (for data providers)
+   * 
+   * The value is committed in the current voting epoch and revealed
+   * automatically in the next one.
    */
   async submitDataPoint(
     assetSymbol: string,
     price: number,
     timestamp: number
+  ): Promise<SubmissionResult> {
+    return this.submitDataPoints({ [assetSymbol]: price }, timestamp);
+  }
+  
+  /**
+   * Submit values for several assets in a single commit (for data providers)
+   */
+  async submitDataPoints(
+    prices: Record<string, number>,
+    timestamp: number
   ): Promise<SubmissionResult> {
     this.checkConnection();
     
-    if (!this.config.dataProviderSettings) {
-      throw new Error('This connection is not configured as a data provider');
-    }
+    const submitter = this.getSubmitter();
+    const symbols = Object.keys(prices).join(', ');
     
+    this.inFlight.begin();
     try {
-      this.logger.info(`Submitting data point for ${assetSymbol}`, {
-        price,
+      this.logger.info(`Submitting data points for ${symbols}`, {
+        prices,
         timestamp: new Date(timestamp).toISOString()
       });
       
-      await new Promise(resolve => setTimeout(resolve, 200));
+      return await submitter.commit(prices);
+    } catch (error:any) {
+      this.logger.error(`Error submitting data points for ${symbols}`, { error });
+      throw wrapError(error, `Failed to submit data point for ${symbols}`);
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get the commit/reveal state of recent submission epochs, newest first
+   */
+  getSubmissionHistory(): EpochSubmissionState[] {
+    return this.getSubmitter().getHistory();
+  }
+  
+  /**
+   * Get epochs whose commit was not revealed in time
+   */
+  getMissedReveals(): EpochSubmissionState[] {
+    return this.getSubmitter().getMissedReveals();
+  }
+  
+  /**
+   * Estimate the rewards of submitted epochs whose reveal window has closed and
+   * that are not yet in the reward ledger (for data providers)
+   * 
+   * Our revealed values are placed among the other providers' reveals of the
+   * same epoch; epochs whose reveal was missed or failed are recorded as missed.
+   */
+  async estimateRewards(): Promise<RoundRewardEstimate[]> {
+    this.checkConnection();
+    
+    const submitter = this.getSubmitter();
+    const ledger = this.getRewardLedger();
+    const votePower = this.config.dataProviderSettings!.votePower;
+    
+    this.inFlight.begin();
+    try {
+      const provider = await submitter.getAddress();
+      const now = Date.now();
+      const closed = submitter.getHistory()
+        .filter(state => state.status !== 'COMMITTED' && now > state.revealDeadline && !ledger.hasRound(state.epoch))
+        .sort((a, b) => a.epoch - b.epoch);
+      
+      const estimates: RoundRewardEstimate[] = [];
+      for (const state of closed) {
+        const revealed = state.status === 'REVEALED';
+        const submissions = revealed
+          ? await this.collectEpochSubmissions(state.epoch, Object.keys(state.values))
+          : new Map<string, ProviderSubmission[]>();
+        estimates.push(ledger.recordRound(
+          state.epoch,
+          provider,
+          revealed ? state.values : null,
+          votePower > 0 ? votePower : 1,
+          submissions
+        ));
+      }
+      
+      if (estimates.length > 0) {
+        await this.saveRewardLedger();
+        this.logger.info(`Estimated rewards for ${estimates.length} epochs`, {
+          expected: estimates.reduce((sum, estimate) => sum + estimate.expected, BigInt(0))
+        });
+      }
+      
+      return estimates;
+    } catch (error:any) {
+      this.logger.error('Error estimating rewards', { error });
+      throw wrapError(error, 'Failed to estimate rewards');
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Claim the rewards of an ended reward epoch through RewardManager (for data providers)
+   * 
+   * The claim is sent from the provider's signer with the Merkle proofs published
+   * for the epoch and recorded in the reward ledger with the proven amounts; it
+   * is paid to the configured reward address unless another recipient is given.
+   * Proofs that pay the reward owner nothing are refused without sending.
+   * Calling it again for a claim still pending checks that claim instead of
+   * sending a new one.
+   */
+  async claimRewards(
+    rewardEpochId: number,
+    proofs: RewardClaimProof[],
+    options: RewardClaimOptions = {}
+  ): Promise<RewardClaimRecord> {
+    this.checkConnection();
+    
+    const submitter = this.getSubmitter();
+    const ledger = this.getRewardLedger();
+    if (ledger.getLastVotingRound(rewardEpochId) >= this.epochClock.getEpochId()) {
+      throw new ValidationError(`Reward epoch ${rewardEpochId} has not ended yet`, { context: { field: 'rewardEpochId' } });
+    }
+    const existing = ledger.getClaim(rewardEpochId);
+    if (existing.status === 'CLAIMED') {
+      throw new ValidationError(`Rewards of reward epoch ${rewardEpochId} are already claimed`, {
+        context: { field: 'rewardEpochId' }
+      });
+    }
+    
+    this.inFlight.begin();
+    try {
+      if (existing.status === 'PENDING' && existing.transactionHash) {
+        return await this.confirmClaim(rewardEpochId, existing.transactionHash);
+      }
+      
+      if (proofs.length === 0 || proofs.some(proof => proof.rewardEpochId !== rewardEpochId)) {
+        throw new ValidationError(`At least one proof, all for reward epoch ${rewardEpochId}, is required`, {
+          context: { field: 'proofs' }
+        });
+      }
       
-      const result: SubmissionResult = {
-        success: true,
-        epoch: Math.floor(Date.now() / (3 * 60 * 1000)),
-        assetSymbol,
-        submissionTimestamp: Date.now(),
-        transactionHash: `0x${Math.random().toString(16).substr(2, 40)}`
-      };
+      const rewardOwner = (options.rewardOwner || await submitter.getAddress()).toLowerCase();
+      const recipient = options.recipient || this.config.dataProviderSettings!.rewardAddress;
+      const amount = proofs
+        .filter(proof => proof.beneficiary.toLowerCase() === rewardOwner)
+        .reduce((sum, proof) => sum + BigInt(proof.amount), BigInt(0));
+      if (amount === BigInt(0)) {
+        throw new ValidationError(`No rewards of reward epoch ${rewardEpochId} to claim for ${rewardOwner}`, {
+          context: { field: 'proofs' }
+        });
+      }
       
-      return result;
-    } catch (error) {
-      this.logger.error(`Error submitting data point for ${assetSymbol}`, { error });
-      throw new Error(`Failed to submit data point for ${assetSymbol}: ${error.message}`);
+      this.logger.info(`Claiming rewards of reward epoch ${rewardEpochId}`, { rewardOwner, recipient, amount });
+      
+      const transactionHash = await submitter.send({
+        to: await this.client!.getContractAddress('RewardManager'),
+        data: encodeClaimCall(rewardOwner, recipient, rewardEpochId, options.wrap || false, proofs)
+      });
+      ledger.recordClaimSent(rewardEpochId, amount, recipient, transactionHash);
+      await this.saveRewardLedger();
+      
+      return await this.confirmClaim(rewardEpochId, transactionHash);
+    } catch (error:any) {
+      this.logger.error(`Error claiming rewards of reward epoch ${rewardEpochId}`, { error });
+      throw wrapError(error, `Failed to claim rewards of reward epoch ${rewardEpochId}`);
+    } finally {
+      this.inFlight.end();
     }
   }
   
+  /**
+   * Get expected and claimed rewards over a range of voting epochs (for data providers)
+   */
+  getRewardReport(fromEpoch: number, toEpoch: number): RewardReport {
+    return this.getRewardLedger().getReport(fromEpoch, toEpoch);
+  }
+  
   /**
    * Get confidence intervals for a price
+   * 
+   * SUBMISSIONS derives the bands from the vote-power weighted distribution of
+   * provider submissions in the latest revealed epoch, as FTSO itself does for
+   * the median. VOLATILITY derives them from realized log-return volatility
+   * over a window of historical prices, scaled to the requested horizon. The
+   * window defaults to 24 hours with a price store and 30 minutes without one,
+   * since every epoch of it is otherwise read from the chain on each call.
    */
-  async getConfidenceInterval(assetSymbol: string): Promise<ConfidenceInterval> {
+  async getConfidenceInterval(
+    assetSymbol: string,
+    options: ConfidenceIntervalOptions = {}
+  ): Promise<ConfidenceInterval> {
     this.checkConnection();
     
+    const method = options.method || 'SUBMISSIONS';
+    const levels = options.levels || DEFAULT_CONFIDENCE_LEVELS;
+    const invalidLevels = levels.filter(level => !(level > 0 && level < 1));
+    if (invalidLevels.length > 0) {
+      throw new ValidationError(`Confidence levels must lie in (0, 1): ${invalidLevels.join(', ')}`, {
+        context: { field: 'confidenceLevels' }
+      });
+    }
+    
+    this.inFlight.begin();
     try {
-      this.logger.debug(`Getting confidence interval for ${assetSymbol}`);
+      this.logger.debug(`Getting confidence interval for ${assetSymbol}`, { method, levels });
       
       const priceData = await this.getLatestPrice(assetSymbol);
       
-   
+      if (method === 'SUBMISSIONS') {
+        const submissions = await this.getEpochSubmissions(assetSymbol);
+        if (submissions.length === 0) {
+          throw new ProviderError('No provider submissions found for the latest revealed epoch', { retryable: true });
+        }
+        
+        const distribution = submissions.map(submission => ({
+          value: submission.value,
+          weight: submission.weight
+        }));
+        
+        return {
+          symbol: assetSymbol,
+          timestamp: priceData.timestamp,
+          currentPrice: priceData.price,
+          method,
+          epoch: submissions[0].epoch,
+          sampleSize: submissions.length,
+          intervals: levels.map(level => ({
+            level,
+            lower: weightedQuantile(distribution, (1 - level) / 2),
+            upper: weightedQuantile(distribution, (1 + level) / 2)
+          }))
+        };
+      }
       
-      const basePrice = priceData.price;
-      const varianceFactor = 1 - priceData.confidence.overall;
+      const window = options.volatilityWindow || (this.priceStore ? STORED_VOLATILITY_WINDOW : DEFAULT_VOLATILITY_WINDOW);
+      const horizon = options.horizon || this.epochClock.getEpochDuration();
+      const history = await this.getHistoricalPrices(assetSymbol, priceData.timestamp - window, priceData.timestamp);
+      const returns = logReturns(history.map(point => point.price));
       
-      const confidenceInterval: ConfidenceInterval = {
+      if (returns.length < 2) {
+        throw new ProviderError('Not enough historical prices to estimate volatility');
+      }
+      
+      const sampleInterval = (history[history.length - 1].timestamp - history[0].timestamp) / (history.length - 1);
+      const sigma = standardDeviation(returns) * Math.sqrt(horizon / sampleInterval);
+      
+      return {
         symbol: assetSymbol,
         timestamp: priceData.timestamp,
-        currentPrice: basePrice,
-        intervals: {
-          interval50: {
-            lower: basePrice * (1 - varianceFactor * 0.67),
-            upper: basePrice * (1 + varianceFactor * 0.67),
-            level: 0.5
-          },
-          interval80: {
-            lower: basePrice * (1 - varianceFactor * 1.28),
-            upper: basePrice * (1 + varianceFactor * 1.28),
-            level: 0.8
-          },
-          interval95: {
-            lower: basePrice * (1 - varianceFactor * 1.96),
-            upper: basePrice * (1 + varianceFactor * 1.96),
-            level: 0.95
-          },
-          interval99: {
-            lower: basePrice * (1 - varianceFactor * 2.58),
-            upper: basePrice * (1 + varianceFactor * 2.58),
-            level: 0.99
-          }
-        }
+        currentPrice: priceData.price,
+        method,
+        epoch: priceData.sourceInfo.epoch,
+        sampleSize: returns.length,
+        intervals: levels.map(level => {
+          const z = inverseNormalCdf((1 + level) / 2);
+          return {
+            level,
+            lower: priceData.price * Math.exp(-z * sigma),
+            upper: priceData.price * Math.exp(z * sigma)
+          };
+        })
       };
-      
-      return confidenceInterval;
     } catch (error:any) {
       this.logger.error(`Error getting confidence interval for ${assetSymbol}`, { error });
-      throw new Error(`Failed to get confidence interval for ${assetSymbol}: ${error.message}`);
+      throw wrapError(error, `Failed to get confidence interval for ${assetSymbol}`);
+    } finally {
+      this.inFlight.end();
     }
   }
   
   /**
-   * Get information about FTSO data providers
+   * Get the provider submissions revealed for an asset in an epoch
+   * 
+   * Reveal transactions sent to the Submission contract during the epoch's
+   * reveal window are decoded; feed positions follow the canonical feed order of
+   * the epoch's reward epoch. Defaults to the latest epoch whose reveal deadline
+   * has passed.
    */
-  async getProviders(): Promise<FTSOProviderInfo[]> {
+  async getEpochSubmissions(assetSymbol: string, epochId?: number): Promise<ProviderSubmission[]> {
     this.checkConnection();
     
+    this.inFlight.begin();
     try {
-      if (Date.now() - this.lastUpdateTimestamp > 60 * 60 * 1000) {
-        await this.updateProviderRegistry();
+      const epoch = epochId ?? this.getLatestRevealedEpoch();
+      const feeds = await this.getVotingRoundFeeds(epoch);
+      if (!feeds.some(feed => feed.feedId === toFeedId(assetSymbol))) {
+        throw new ValidationError(`${assetSymbol} is not offered in the reward epoch of voting round ${epoch}`, {
+          context: { field: 'assetSymbol' }
+        });
       }
       
-      return Array.from(this.providerRegistry.values());
+      const submissionsByFeed = await this.collectEpochSubmissions(epoch, [assetSymbol]);
+      
+      return submissionsByFeed.get(assetSymbol) || [];
+    } catch (error:any) {
+      this.logger.error(`Error getting epoch submissions for ${assetSymbol}`, { error });
+      throw wrapError(error, `Failed to get epoch submissions for ${assetSymbol}`);
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get information about FTSO data providers, optionally filtered and sorted
+   */
+  async getProviders(options: ProviderQueryOptions = {}): Promise<FTSOProviderInfo[]> {
+    this.checkConnection();
+    
+    this.inFlight.begin();
+    try {
+      if (this.registryUpdate || this.getLatestRevealedEpoch() > this.providerScorer.getLastEpoch()) {
+        await this.refreshProviderRegistry();
+      }
+      
+      let providers = Array.from(this.providerRegistry.values());
+      
+      if (options.symbol) {
+        providers = providers.filter(provider => provider.supportedSymbols.includes(options.symbol!));
+      }
+      if (options.minReliability !== undefined) {
+        providers = providers.filter(provider => provider.reliabilityScore >= options.minReliability!);
+      }
+      if (options.sortBy) {
+        const key = options.sortBy;
+        providers.sort((a, b) => (b[key] || 0) - (a[key] || 0));
+      }
+      if (options.limit !== undefined) {
+        providers = providers.slice(0, options.limit);
+      }
+      
+      return providers;
     } catch (error:any) {
       this.logger.error('Error getting FTSO providers', { error });
-      throw new Error(`Failed to get FTSO providers: ${error.message}`);
+      throw wrapError(error, 'Failed to get FTSO providers');
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get normalized provider weights (reliability times vote power) for fusing
+   * provider values; providers without known vote power count with unit power
+   */
+  async getProviderWeights(symbol?: string): Promise<Record<string, number>> {
+    const providers = await this.getProviders({ symbol });
+    const raw = providers.map(provider => provider.reliabilityScore * (provider.votePower > 0 ? provider.votePower : 1));
+    const total = raw.reduce((sum, weight) => sum + weight, 0);
+    const weights: Record<string, number> = {};
+    
+    providers.forEach((provider, i) => {
+      weights[provider.id] = total > 0 ? raw[i] / total : 0;
+    });
+    
+    return weights;
+  }
+  
+  /**
+   * Get the epoch clock used by this connection
+   */
+  getEpochClock(): EpochClock {
+    return this.epochClock;
+  }
+  
+  /**
+   * Apply new FTSO settings without reconnecting
+   *
+   * Settings read on every call (feeds, timeouts, thresholds and the like) take
+   * effect immediately; settings used to set up the connection only apply after
+   * a reconnect.
+   */
+  updateConfig(ftsoSpecificConfig: FTSOSpecificConfig): void {
+    this.config = {
+      ...this.config,
+      ftsoSpecificConfig
+    };
+  }
+  
+  /**
+   * Take over the subscriptions and submission state of a connection being
+   * replaced, so that a reconnect neither drops subscribers nor misses the
+   * reveals of pending commits
+   */
+  adopt(previous: FTSOConnection): void {
+    this.subscriptions.adopt(previous.subscriptions);
+    if (this.submitter && previous.submitter) {
+      this.submitter.adopt(previous.submitter);
+    }
+  }
+
+  /**
+   * Wait for in-flight operations to finish; resolves false if the timeout elapses first
+   */
+  drain(timeout: number): Promise<boolean> {
+    return this.inFlight.drain(timeout);
+  }
+  
+  /**
+   * Get the number of operations in flight
+   */
+  getInFlightCount(): number {
+    return this.inFlight.getCount();
+  }
+  
+  /**
+   * Convert a raw feed value into the PriceData shape exposed to consumers
+   */
+  private toPriceData(feedValue: Pick<FeedValue, 'symbol' | 'value' | 'timestamp'>): PriceData {
+    const providersCount = this.providerRegistry.size;
+    const consensusReached = feedValue.timestamp > 0;
+    
+    return {
+      symbol: feedValue.symbol,
+      price: feedValue.value,
+      timestamp: feedValue.timestamp,
+      confidence: {
+        overall: consensusReached ? FINALIZED_VALUE_CONFIDENCE : 0,
+        providers: providersCount
+      },
+      sourceInfo: {
+        providersCount,
+        consensusReached,
+        epoch: this.epochClock.getEpochId(feedValue.timestamp)
+      }
+    };
+  }
+  
+  /**
+   * Store the samples of completed epochs in a range that the price store does not have yet
+   */
+  private async backfillEpochs(symbol: string, fromEpoch: number, toEpoch: number, latest: BlockInfo): Promise<number> {
+    const store = this.getPriceStore();
+    const lastCompletedEpoch = this.epochClock.getEpochId(latest.timestamp) - 1;
+    const missing = await store.getMissingEpochs(symbol, fromEpoch, Math.min(toEpoch, lastCompletedEpoch));
+    
+    // Chunks persist progress as it is made
+    for (let i = 0; i < missing.length; i += BACKFILL_CHUNK_EPOCHS) {
+      await store.put(await this.sampleEpochs(symbol, missing.slice(i, i + BACKFILL_CHUNK_EPOCHS), latest));
+    }
+    
+    if (missing.length > 0) {
+      this.logger.debug(`Backfilled ${missing.length} epochs of ${symbol}`, { fromEpoch, toEpoch });
+    }
+    return missing.length;
+  }
+  
+  /**
+   * Read the feed value as of the last block of each epoch (or the latest block
+   * for an epoch in progress); each search starts from the previous epoch's block
+   */
+  private async sampleEpochs(symbol: string, epochs: number[], latest: BlockInfo): Promise<StoredPricePoint[]> {
+    const samples: StoredPricePoint[] = [];
+    for (const epoch of epochs) {
+      const block = await this.findBlockAtOrBefore(Math.min(this.epochClock.getEpochEnd(epoch) - 1, latest.timestamp), latest);
+      const [feedValue] = await this.client!.getFeedValues([symbol], block.number);
+      samples.push({ symbol, epoch, timestamp: feedValue.timestamp, price: feedValue.value });
+    }
+    
+    return samples;
+  }
+  
+  /**
+   * Search for the latest block produced at or before a timestamp
+   * 
+   * The search starts at a block extrapolated from the block found last (or the
+   * latest block) and doubles its steps away from that guess until the timestamp
+   * is enclosed, so nearby searches take a handful of block reads.
+   */
+  private async findBlockAtOrBefore(timestamp: number, knownLatest?: BlockInfo): Promise<BlockInfo> {
+    const latest = knownLatest || await this.client!.getBlock('latest');
+    if (timestamp >= latest.timestamp) {
+      return latest;
+    }
+    
+    const recent = this.recentBlock && this.recentBlock.number < latest.number ? this.recentBlock : null;
+    const blockTime = recent
+      ? Math.max(1, (latest.timestamp - recent.timestamp) / (latest.number - recent.number))
+      : DEFAULT_BLOCK_TIME;
+    const origin = recent && Math.abs(timestamp - recent.timestamp) < latest.timestamp - timestamp ? recent : latest;
+    const guess = Math.min(
+      latest.number - 1,
+      Math.max(0, origin.number + Math.floor((timestamp - origin.timestamp) / blockTime))
+    );
+    
+    // Bracket the timestamp: low is produced at or before it, high after it
+    let low = await this.client!.getBlock(guess);
+    let high = latest;
+    if (low.timestamp > timestamp) {
+      high = low;
+      for (let step = 1; low.timestamp > timestamp; step *= 2) {
+        if (high.number === 0) {
+          return high;
+        }
+        low = await this.client!.getBlock(Math.max(0, high.number - step));
+        if (low.timestamp > timestamp) {
+          high = low;
+        }
+      }
+    } else {
+      for (let step = 1; low.number + step < high.number; step *= 2) {
+        const block = await this.client!.getBlock(low.number + step);
+        if (block.timestamp > timestamp) {
+          high = block;
+          break;
+        }
+        low = block;
+      }
+    }
+    
+    while (high.number - low.number > 1) {
+      const block = await this.client!.getBlock(Math.floor((low.number + high.number) / 2));
+      if (block.timestamp <= timestamp) {
+        low = block;
+      } else {
+        high = block;
+      }
+    }
+    
+    this.recentBlock = low;
+    return low;
+  }
+  
+  /**
+   * Decode all reveals sent during an epoch's reveal window into per-feed submissions
+   */
+  private async collectEpochSubmissions(
+    epoch: number,
+    symbols: string[]
+  ): Promise<Map<string, ProviderSubmission[]>> {
+    const feeds = await this.getVotingRoundFeeds(epoch);
+    const submissionAddress = (await this.client!.getContractAddress('Submission')).toLowerCase();
+    const fromBlock = await this.findBlockAtOrBefore(this.epochClock.getEpochEnd(epoch));
+    const toBlock = await this.findBlockAtOrBefore(this.epochClock.getRevealDeadline(epoch));
+    
+    // A provider's last reveal in the window is the one that counts
+    const reveals = new Map<string, string>();
+    for (let blockNumber = fromBlock.number; blockNumber <= toBlock.number; blockNumber++) {
+      const transactions = await this.client!.getBlockTransactions(blockNumber);
+      
+      transactions
+        .filter(tx => tx.to === submissionAddress)
+        .forEach(tx => {
+          decodeRevealMessages(tx.input)
+            .filter(message => message.votingRoundId === epoch)
+            .forEach(message => reveals.set(tx.from, message.encodedValues));
+        });
+    }
+    
+    // Feeds not offered in the reward epoch have no submissions
+    const submissionsByFeed = new Map<string, ProviderSubmission[]>();
+    symbols.forEach(symbol => {
+      const feedIndex = feeds.findIndex(feed => feed.feedId === toFeedId(symbol));
+      const submissions: ProviderSubmission[] = [];
+      
+      reveals.forEach((encodedValues, provider) => {
+        const value = feedIndex === -1 ? undefined : decodeFeedValue(encodedValues, feedIndex, feeds[feedIndex].decimals);
+        if (value !== undefined) {
+          submissions.push({
+            provider,
+            symbol,
+            epoch,
+            value,
+            weight: this.getProviderWeight(provider)
+          });
+        }
+      });
+      
+      submissionsByFeed.set(symbol, submissions);
+    });
+    
+    return submissionsByFeed;
+  }
+  
+  /**
+   * Get the feeds of the reward epoch a voting round belongs to, in the canonical
+   * order that commits and reveals use; read once per reward epoch
+   */
+  private getVotingRoundFeeds(votingRoundId: number): Promise<RewardEpochFeed[]> {
+    const rewardEpochId = getRewardEpochId(votingRoundId, this.config.ftsoSpecificConfig?.rewards);
+    const cached = this.rewardEpochFeeds.get(rewardEpochId);
+    if (cached) {
+      return cached;
+    }
+    
+    const feeds = this.client!.getRewardEpochFeeds(rewardEpochId);
+    this.rewardEpochFeeds.set(rewardEpochId, feeds);
+    feeds.catch(() => this.rewardEpochFeeds.delete(rewardEpochId));
+    
+    const rewardEpochIds = Array.from(this.rewardEpochFeeds.keys()).sort((a, b) => a - b);
+    rewardEpochIds.slice(0, Math.max(0, rewardEpochIds.length - MAX_CACHED_REWARD_EPOCHS))
+      .forEach(id => this.rewardEpochFeeds.delete(id));
+    
+    return feeds;
+  }
+  
+  /**
+   * Get the latest epoch whose reveal deadline has passed
+   */
+  private getLatestRevealedEpoch(): number {
+    const previous = this.epochClock.getEpochId() - 1;
+    return Date.now() > this.epochClock.getRevealDeadline(previous) ? previous : previous - 1;
+  }
+  
+  /**
+   * Get the vote power of a provider, counting unknown providers with unit weight
+   */
+  private getProviderWeight(provider: string): number {
+    const votePower = this.getConfiguredVotePower(provider);
+    return votePower > 0 ? votePower : 1;
+  }
+  
+  /**
+   * Look up a provider's configured vote power by address, ignoring case
+   */
+  private getConfiguredVotePower(provider: string): number {
+    const votePower = this.config.ftsoSpecificConfig?.providerVotePower || {};
+    const key = Object.keys(votePower).find(address => address.toLowerCase() === provider.toLowerCase());
+    return key ? votePower[key] : 0;
+  }
+  
+  /**
+   * Get the feeds this connection reports as active
+   */
+  private getConfiguredFeeds(): string[] {
+    return this.config.ftsoSpecificConfig?.feeds || DEFAULT_FEEDS;
+  }
+  
+  /**
+   * Wait for a claim transaction to be mined and record its outcome; a claim that
+   * is not mined in time stays pending
+   */
+  private async confirmClaim(rewardEpochId: number, transactionHash: string): Promise<RewardClaimRecord> {
+    const ledger = this.getRewardLedger();
+    const timeout = this.config.ftsoSpecificConfig?.rewards?.claimTimeout || DEFAULT_CLAIM_TIMEOUT;
+    const deadline = Date.now() + timeout;
+    
+    let receipt = await this.client!.getTransactionReceipt(transactionHash);
+    while (!receipt) {
+      if (Date.now() > deadline) {
+        throw new TimeoutError(`Claim transaction ${transactionHash} was not mined within ${timeout}ms`, {
+          context: { rewardEpochId, transactionHash }
+        });
+      }
+      await abortableDelay(this.config.ftsoSpecificConfig?.blockPollInterval || CLAIM_POLL_INTERVAL);
+      receipt = await this.client!.getTransactionReceipt(transactionHash);
+    }
+    
+    const record = ledger.recordClaimResult(
+      rewardEpochId,
+      receipt.status,
+      receipt.status ? undefined : 'Claim transaction reverted'
+    );
+    await this.saveRewardLedger();
+    this.logger.info(`Claim for reward epoch ${rewardEpochId} ${record.status.toLowerCase()}`, { transactionHash });
+    
+    return record;
+  }
+  
+  private async saveRewardLedger(): Promise<void> {
+    const ledgerFile = this.config.ftsoSpecificConfig?.rewards?.ledgerFile;
+    if (this.rewardLedger && ledgerFile) {
+      await this.rewardLedger.save(ledgerFile);
+    }
+  }
+  
+  /**
+   * Get the reward ledger, failing if this is not a data provider connection
+   */
+  private getRewardLedger(): RewardLedger {
+    if (!this.rewardLedger) {
+      throw new ValidationError('This connection is not configured as a data provider', {
+        context: { field: 'dataProviderSettings' }
+      });
+    }
+    return this.rewardLedger;
+  }
+  
+  /**
+   * Get the commit-reveal submitter, failing if this is not a data provider connection
+   */
+  private getSubmitter(): CommitRevealSubmitter {
+    if (!this.config.dataProviderSettings) {
+      throw new ValidationError('This connection is not configured as a data provider', {
+        context: { field: 'dataProviderSettings' }
+      });
+    }
+    if (!this.submitter) {
+      throw new NotConnectedError('Not connected to FTSO v2. Call connect() first.');
     }
+    return this.submitter;
   }
   
   /**
@@ -363,7 +1196,7 @@ export class FTSOConnection {
    */
   private checkConnection(): void {
     if (!this.isConnected || !this.client) {
-      throw new Error('Not connected to FTSO v2. Call connect() first.');
+      throw new NotConnectedError('Not connected to FTSO v2. Call connect() first.');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,347 @@
+/**
+ * Reward estimation and claim accounting for an FTSO data provider
+ *
+ * Each feed's reward for a voting round is split in two: the primary share goes
+ * to the providers whose reveal lies in the primary band (the vote-power
+ * weighted interquartile range), the rest to the providers within the
+ * secondary band (a relative distance from the weighted median). Within a band
+ * the reward is divided by vote power. Estimates are grouped by reward epoch,
+ * the unit in which RewardManager pays out, and compared with what was claimed.
+ * The ledger can be saved to and loaded from a JSON file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { encodeAbiParameters, functionSelector } from './abi';
+import { weightedMedian, weightedQuantile } from './statistics';
+import {
+  FeedRoundReward,
+  FTSORewardConfig,
+  ProviderSubmission,
+  RewardClaimProof,
+  RewardClaimRecord,
+  RewardEpochSummary,
+  RewardReport,
+  RoundRewardEstimate
+} from './types';
+import { ValidationError, wrapError } from '../utils/errors';
+
+const LEDGER_FORMAT = 'flare-reward-ledger';
+const LEDGER_VERSION = 1;
+
+// Ledger file as written by save(), amounts as decimal strings
+interface LedgerFile {
+  format: string;
+  version: number;
+  rounds?: Array<Omit<RoundRewardEstimate, 'expected' | 'feeds'> & {
+    expected: string;
+    feeds: Array<Omit<FeedRoundReward, 'expected'> & { expected: string }>;
+  }>;
+  claims?: Array<Omit<RewardClaimRecord, 'claimed'> & { claimed: string }>;
+}
+
+// Parts per billion used for bigint arithmetic on fractional shares
+const PRECISION = 1000000000;
+
+const DEFAULT_REWARD_CONFIG = {
+  rewardPerFeedRound: '1000000000000000000',
+  primaryBandShare: 0.8,
+  secondaryBandWidth: 0.005,
+  votingRoundsPerRewardEpoch: 3360,
+  firstRewardEpochVotingRound: 0
+};
+
+const CLAIM_SELECTOR = functionSelector('claim(address,address,uint24,bool,(bytes32[],(uint24,bytes20,uint120,uint8))[])');
+
+/**
+ * Encode a RewardManager `claim()` call; the bytes20 beneficiary is encoded
+ * left-aligned like a bytes32 value
+ */
+export function encodeClaimCall(
+  rewardOwner: string,
+  recipient: string,
+  rewardEpochId: number,
+  wrap: boolean,
+  proofs: RewardClaimProof[]
+): string {
+  return CLAIM_SELECTOR + encodeAbiParameters(
+    ['address', 'address', 'uint', 'bool', { array: { tuple: [{ array: 'bytes32' }, { tuple: ['uint', 'bytes32', 'uint', 'uint'] }] } }],
+    [
+      rewardOwner,
+      recipient,
+      rewardEpochId,
+      wrap,
+      proofs.map(proof => [
+        proof.merkleProof,
+        [proof.rewardEpochId, proof.beneficiary, BigInt(proof.amount), proof.claimType]
+      ])
+    ]
+  );
+}
+
+/**
+ * Get the reward epoch a voting round belongs to
+ */
+export function getRewardEpochId(votingRoundId: number, config: FTSORewardConfig = {}): number {
+  const firstVotingRound = config.firstRewardEpochVotingRound ?? DEFAULT_REWARD_CONFIG.firstRewardEpochVotingRound;
+  const votingRounds = config.votingRoundsPerRewardEpoch || DEFAULT_REWARD_CONFIG.votingRoundsPerRewardEpoch;
+  return Math.floor((votingRoundId - firstVotingRound) / votingRounds);
+}
+
+function share(amount: bigint, fraction: number): bigint {
+  return amount * BigInt(Math.round(Math.max(0, Math.min(1, fraction)) * PRECISION)) / BigInt(PRECISION);
+}
+
+export class RewardLedger {
+  private config: typeof DEFAULT_REWARD_CONFIG;
+  private rewardPerFeedRound: bigint;
+  private rounds: Map<number, RoundRewardEstimate> = new Map();
+  private claims: Map<number, RewardClaimRecord> = new Map();
+
+  /**
+   * Create an empty ledger
+   */
+  constructor(config: FTSORewardConfig = {}) {
+    this.config = {
+      rewardPerFeedRound: config.rewardPerFeedRound !== undefined
+        ? String(config.rewardPerFeedRound)
+        : DEFAULT_REWARD_CONFIG.rewardPerFeedRound,
+      primaryBandShare: config.primaryBandShare ?? DEFAULT_REWARD_CONFIG.primaryBandShare,
+      secondaryBandWidth: config.secondaryBandWidth ?? DEFAULT_REWARD_CONFIG.secondaryBandWidth,
+      votingRoundsPerRewardEpoch: config.votingRoundsPerRewardEpoch || DEFAULT_REWARD_CONFIG.votingRoundsPerRewardEpoch,
+      firstRewardEpochVotingRound: config.firstRewardEpochVotingRound ?? DEFAULT_REWARD_CONFIG.firstRewardEpochVotingRound
+    };
+    this.rewardPerFeedRound = BigInt(this.config.rewardPerFeedRound);
+  }
+
+  /**
+   * Get the reward epoch a voting round belongs to
+   */
+  getRewardEpochId(votingRoundId: number): number {
+    return getRewardEpochId(votingRoundId, this.config);
+  }
+
+  /**
+   * Get the last voting round of a reward epoch
+   */
+  getLastVotingRound(rewardEpochId: number): number {
+    return this.config.firstRewardEpochVotingRound + (rewardEpochId + 1) * this.config.votingRoundsPerRewardEpoch - 1;
+  }
+
+  /**
+   * Check whether a voting round has been estimated
+   */
+  hasRound(votingRoundId: number): boolean {
+    return this.rounds.has(votingRoundId);
+  }
+
+  /**
+   * Get the estimate of a voting round
+   */
+  getRound(votingRoundId: number): RoundRewardEstimate | undefined {
+    return this.rounds.get(votingRoundId);
+  }
+
+  /**
+   * Estimate and record our reward for a voting round
+   *
+   * `values` are the values we revealed, or null when our reveal was missed;
+   * our own reveal is left out of `submissions` and counted with `weight`.
+   */
+  recordRound(
+    votingRoundId: number,
+    provider: string,
+    values: Record<string, number> | null,
+    weight: number,
+    submissions: Map<string, ProviderSubmission[]>
+  ): RoundRewardEstimate {
+    const own = provider.toLowerCase();
+    const feeds: FeedRoundReward[] = Object.keys(values || {}).map(symbol => {
+      const others = (submissions.get(symbol) || []).filter(submission => submission.provider.toLowerCase() !== own);
+      return this.estimateFeed(symbol, values![symbol], weight, others);
+    });
+
+    const expected = feeds.reduce((sum, feed) => sum + feed.expected, BigInt(0));
+    const estimate: RoundRewardEstimate = {
+      votingRoundId,
+      rewardEpochId: this.getRewardEpochId(votingRoundId),
+      status: values === null ? 'MISSED' : expected > BigInt(0) ? 'REWARDED' : 'OUTSIDE_BANDS',
+      feeds,
+      expected,
+      estimatedAt: Date.now()
+    };
+
+    this.rounds.set(votingRoundId, estimate);
+    return estimate;
+  }
+
+  /**
+   * Get the claim record of a reward epoch
+   */
+  getClaim(rewardEpochId: number): RewardClaimRecord {
+    return { ...(this.claims.get(rewardEpochId) || { rewardEpochId, status: 'UNCLAIMED', claimed: BigInt(0) }) };
+  }
+
+  /**
+   * Record a claim transaction that has been sent
+   */
+  recordClaimSent(rewardEpochId: number, amount: bigint, recipient: string, transactionHash: string): RewardClaimRecord {
+    const record: RewardClaimRecord = { rewardEpochId, status: 'PENDING', claimed: amount, recipient, transactionHash };
+    this.claims.set(rewardEpochId, record);
+    return { ...record };
+  }
+
+  /**
+   * Record the outcome of a pending claim
+   */
+  recordClaimResult(rewardEpochId: number, success: boolean, error?: string): RewardClaimRecord {
+    const record = this.getClaim(rewardEpochId);
+    const updated: RewardClaimRecord = success
+      ? { ...record, status: 'CLAIMED', claimedAt: Date.now(), error: undefined }
+      : { ...record, status: 'FAILED', claimed: BigInt(0), error };
+    this.claims.set(rewardEpochId, updated);
+    return { ...updated };
+  }
+
+  /**
+   * Summarize estimates and claims over a range of voting rounds
+   *
+   * Expected rewards count the rounds in the range; claims count fully for every
+   * reward epoch that overlaps it.
+   */
+  getReport(fromVotingRound: number, toVotingRound: number): RewardReport {
+    if (fromVotingRound > toVotingRound) {
+      throw new ValidationError('fromVotingRound must not be after toVotingRound', { context: { field: 'fromVotingRound' } });
+    }
+
+    const rounds = Array.from(this.rounds.values())
+      .filter(round => round.votingRoundId >= fromVotingRound && round.votingRoundId <= toVotingRound)
+      .sort((a, b) => a.votingRoundId - b.votingRoundId);
+
+    const bySymbol: RewardReport['bySymbol'] = {};
+    let feedRounds = 0;
+    let primaryRounds = 0;
+    rounds.forEach(round => round.feeds.forEach(feed => {
+      const entry = bySymbol[feed.symbol] || { expected: BigInt(0), roundsInPrimaryBand: 0, roundsInSecondaryBand: 0 };
+      entry.expected += feed.expected;
+      entry.roundsInPrimaryBand += feed.inPrimaryBand ? 1 : 0;
+      entry.roundsInSecondaryBand += feed.inSecondaryBand ? 1 : 0;
+      bySymbol[feed.symbol] = entry;
+      feedRounds++;
+      primaryRounds += feed.inPrimaryBand ? 1 : 0;
+    }));
+
+    const rewardEpochs: RewardEpochSummary[] = [];
+    for (let id = this.getRewardEpochId(fromVotingRound); id <= this.getRewardEpochId(toVotingRound); id++) {
+      const claim = this.getClaim(id);
+      rewardEpochs.push({
+        rewardEpochId: id,
+        expected: rounds.filter(round => round.rewardEpochId === id).reduce((sum, round) => sum + round.expected, BigInt(0)),
+        claimed: claim.status === 'CLAIMED' ? claim.claimed : BigInt(0),
+        status: claim.status,
+        ...(claim.transactionHash && { transactionHash: claim.transactionHash })
+      });
+    }
+
+    const expected = rounds.reduce((sum, round) => sum + round.expected, BigInt(0));
+    const claimed = rewardEpochs.reduce((sum, epoch) => sum + epoch.claimed, BigInt(0));
+    const unclaimed = rewardEpochs
+      .filter(epoch => epoch.status !== 'CLAIMED')
+      .reduce((sum, epoch) => sum + epoch.expected, BigInt(0));
+
+    return {
+      fromVotingRound,
+      toVotingRound,
+      roundsEstimated: rounds.length,
+      roundsRewarded: rounds.filter(round => round.status === 'REWARDED').length,
+      roundsMissed: rounds.filter(round => round.status === 'MISSED').length,
+      primaryBandRate: feedRounds > 0 ? primaryRounds / feedRounds : 0,
+      expected,
+      claimed,
+      unclaimed,
+      bySymbol,
+      rewardEpochs
+    };
+  }
+
+  /**
+   * Write the ledger to a JSON file, amounts as decimal strings
+   */
+  async save(filePath: string): Promise<void> {
+    const ledger = {
+      format: LEDGER_FORMAT,
+      version: LEDGER_VERSION,
+      rounds: Array.from(this.rounds.values()),
+      claims: Array.from(this.claims.values())
+    };
+
+    try {
+      await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+      await fs.promises.writeFile(filePath, JSON.stringify(ledger, (_key, value) =>
+        typeof value === 'bigint' ? value.toString() : value, 2));
+    } catch (error) {
+      throw wrapError(error, `Failed to save reward ledger to ${filePath}`);
+    }
+  }
+
+  /**
+   * Replace the ledger's contents with a file written by save(); a missing file leaves it empty
+   */
+  async load(filePath: string): Promise<void> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error:any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw wrapError(error, `Failed to load reward ledger ${filePath}`);
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || (parsed as Partial<LedgerFile>).format !== LEDGER_FORMAT) {
+      throw new ValidationError(`${filePath} is not a reward ledger`, { context: { field: 'format' } });
+    }
+    const ledger = parsed as LedgerFile;
+    if (ledger.version > LEDGER_VERSION) {
+      throw new ValidationError(`Unsupported reward ledger version ${ledger.version}`, { context: { field: 'version' } });
+    }
+
+    this.rounds = new Map();
+    this.claims = new Map();
+    (ledger.rounds || []).forEach(round => {
+      this.rounds.set(round.votingRoundId, {
+        ...round,
+        expected: BigInt(round.expected),
+        feeds: round.feeds.map(feed => ({ ...feed, expected: BigInt(feed.expected) }))
+      });
+    });
+    (ledger.claims || []).forEach(claim => {
+      this.claims.set(claim.rewardEpochId, { ...claim, claimed: BigInt(claim.claimed) });
+    });
+  }
+
+  private estimateFeed(symbol: string, value: number, weight: number, others: ProviderSubmission[]): FeedRoundReward {
+    const distribution = others
+      .map(submission => ({ value: submission.value, weight: submission.weight }))
+      .concat({ value, weight });
+    const median = weightedMedian(distribution);
+    const lowerBand = weightedQuantile(distribution, 0.25);
+    const upperBand = weightedQuantile(distribution, 0.75);
+    const secondaryWidth = Math.abs(median) * this.config.secondaryBandWidth;
+
+    const inPrimary = (v: number) => v >= lowerBand && v <= upperBand;
+    const inSecondary = (v: number) => Math.abs(v - median) <= secondaryWidth;
+    const bandWeight = (test: (v: number) => boolean) =>
+      distribution.filter(entry => test(entry.value)).reduce((sum, entry) => sum + entry.weight, 0);
+
+    const primaryPool = share(this.rewardPerFeedRound, this.config.primaryBandShare);
+    const secondaryPool = this.rewardPerFeedRound - primaryPool;
+    const inPrimaryBand = inPrimary(value);
+    const inSecondaryBand = inSecondary(value);
+
+    const expected = (inPrimaryBand ? share(primaryPool, weight / bandWeight(inPrimary)) : BigInt(0)) +
+      (inSecondaryBand ? share(secondaryPool, weight / bandWeight(inSecondary)) : BigInt(0));
+
+    return { symbol, value, median, inPrimaryBand, inSecondaryBand, expected };
+  }
+}
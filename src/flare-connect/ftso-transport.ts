@@ -0,0 +1,218 @@
+/**
+ * Transport layer for reading FTSO v2 feed values
+ *
+ * The JSON-RPC transport talks to any Flare/Songbird/Coston node and reads feed
+ * values from the FtsoV2 contract, resolving its address through the
+ * FlareContractRegistry when it is not configured explicitly.
+ *
+ * The feeds of a reward epoch are those offered for it through
+ * FtsoRewardOffersManager while the previous reward epoch ran, sorted by feed
+ * ID: the canonical order in which providers commit and reveal values.
+ */
+
+import { FlareChainClient } from './flare-chain-client';
+import {
+  bytesToHex,
+  decodeAbiParameters,
+  decodeInt,
+  decodeUint,
+  decodeWordArray,
+  encodeFixedBytesArrayCall,
+  encodeUint,
+  functionSelector,
+  hexToBytes,
+  keccak256Hex,
+  readWord,
+  strip0x,
+  utf8ToBytes
+} from './abi';
+import { FeedValue, FTSOTransport, JsonRpcFTSOTransportConfig, RewardEpochFeed } from './types';
+import { NotConnectedError, ProviderError, ValidationError } from '../utils/errors';
+
+const CRYPTO_FEED_CATEGORY = '01';
+const FEED_ID_LENGTH = 21;
+const DEFAULT_MAX_LOG_BLOCK_RANGE = 10000;
+
+const GET_FEEDS_BY_ID = functionSelector('getFeedsById(bytes21[])');
+const GET_REWARD_EPOCH_START_INFO = functionSelector('getRewardEpochStartInfo(uint24)');
+const INFLATION_REWARDS_OFFERED = keccak256Hex('InflationRewardsOffered(uint24,bytes,bytes,uint256,uint16,uint24,bytes,uint16)');
+const REWARDS_OFFERED = keccak256Hex('RewardsOffered(uint24,bytes21,int8,uint256,uint16,uint24,uint24,address)');
+
+interface LogEntry {
+  topics: string[];
+  data: string;
+}
+
+/**
+ * Convert an asset symbol (`BTC`) or feed name (`BTC/USD`) to its FTSO v2 feed name
+ */
+export function toFeedName(symbol: string): string {
+  return symbol.includes('/') ? symbol.toUpperCase() : `${symbol.toUpperCase()}/USD`;
+}
+
+/**
+ * Convert an asset symbol or feed name to a 21-byte FTSO v2 crypto feed ID
+ */
+export function toFeedId(symbol: string): string {
+  const nameHex = bytesToHex(utf8ToBytes(toFeedName(symbol)));
+  if (nameHex.length > (FEED_ID_LENGTH - 1) * 2) {
+    throw new ValidationError(`Feed name for ${symbol} is too long`, { context: { field: 'symbol' } });
+  }
+  return `0x${CRYPTO_FEED_CATEGORY}${nameHex.padEnd((FEED_ID_LENGTH - 1) * 2, '0')}`;
+}
+
+/**
+ * Convert a 21-byte feed ID back to its feed name
+ */
+export function fromFeedId(feedId: string): string {
+  const bytes = hexToBytes(strip0x(feedId).slice(2));
+  const end = bytes.indexOf(0);
+  return Buffer.from(end === -1 ? bytes : bytes.slice(0, end)).toString('utf8');
+}
+
+/**
+ * Scale a raw feed value by its decimals (which may be negative)
+ */
+export function scaleFeedValue(value: bigint, decimals: number): number {
+  return decimals >= 0
+    ? Number(value) / Math.pow(10, decimals)
+    : Number(value) * Math.pow(10, -decimals);
+}
+
+/**
+ * Sort feeds into the canonical order of a reward epoch: ascending feed ID
+ */
+export function sortFeeds(feeds: RewardEpochFeed[]): RewardEpochFeed[] {
+  return [...feeds].sort((a, b) => a.feedId < b.feedId ? -1 : a.feedId > b.feedId ? 1 : 0);
+}
+
+export class JsonRpcFTSOTransport extends FlareChainClient implements FTSOTransport {
+  private ftsoV2Address: string | null;
+  private maxLogBlockRange: number;
+
+  /**
+   * Create a new JSON-RPC transport for FTSO v2
+   */
+  constructor(config: JsonRpcFTSOTransportConfig) {
+    super(config);
+    this.ftsoV2Address = config.ftsoV2Address || null;
+    this.maxLogBlockRange = config.maxLogBlockRange || DEFAULT_MAX_LOG_BLOCK_RANGE;
+  }
+
+  /**
+   * Verify the node is reachable and resolve the FtsoV2 contract address
+   */
+  async connect(): Promise<void> {
+    await this.rpc.call<string>('eth_chainId');
+
+    if (!this.ftsoV2Address) {
+      this.ftsoV2Address = await this.getContractAddress('FtsoV2');
+    }
+  }
+
+  /**
+   * Nothing to release for a stateless HTTP transport
+   */
+  async close(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Read the current (or historical) values of the given feeds
+   */
+  async getFeedValues(symbols: string[], blockTag: number | 'latest' = 'latest'): Promise<FeedValue[]> {
+    if (!this.ftsoV2Address) {
+      throw new NotConnectedError('FtsoV2 address not resolved. Call connect() first.');
+    }
+
+    const feedIds = symbols.map(toFeedId);
+    const result = await this.rpc.ethCall(
+      this.ftsoV2Address,
+      encodeFixedBytesArrayCall(GET_FEEDS_BY_ID, feedIds),
+      blockTag
+    );
+
+    if (strip0x(result).length === 0) {
+      throw new ProviderError('Empty response from FtsoV2.getFeedsById');
+    }
+
+    const values = decodeWordArray(result, 0).map(decodeUint);
+    const decimals = decodeWordArray(result, 1).map(word => Number(decodeInt(word)));
+    const timestamp = Number(decodeUint(readWord(result, 2))) * 1000;
+
+    if (values.length !== symbols.length || decimals.length !== symbols.length) {
+      throw new ProviderError(`FtsoV2 returned ${values.length} values for ${symbols.length} feeds`);
+    }
+
+    return symbols.map((symbol, i) => ({
+      symbol,
+      feedId: feedIds[i],
+      value: scaleFeedValue(values[i], decimals[i]),
+      rawValue: values[i].toString(),
+      decimals: decimals[i],
+      timestamp
+    }));
+  }
+
+  /**
+   * Read the feeds offered for a reward epoch, in canonical order
+   *
+   * Offers are logged by FtsoRewardOffersManager between the start of the
+   * previous reward epoch and the start of this one; a feed offered more than
+   * once takes the decimals of its latest offer.
+   */
+  async getRewardEpochFeeds(rewardEpochId: number): Promise<RewardEpochFeed[]> {
+    if (rewardEpochId < 1) {
+      throw new ValidationError(`Reward epoch ${rewardEpochId} has no offers`, { context: { field: 'rewardEpochId' } });
+    }
+
+    const [systemsManager, offersManager] = await Promise.all([
+      this.getContractAddress('FlareSystemsManager'),
+      this.getContractAddress('FtsoRewardOffersManager')
+    ]);
+    const fromBlock = await this.getRewardEpochStartBlock(systemsManager, rewardEpochId - 1);
+    const toBlock = await this.getRewardEpochStartBlock(systemsManager, rewardEpochId);
+
+    const feeds = new Map<string, RewardEpochFeed>();
+    const addFeed = (feedId: string, decimals: number) => {
+      feeds.set(feedId, { feedId, symbol: fromFeedId(feedId), decimals });
+    };
+
+    for (let start = fromBlock; start <= toBlock; start += this.maxLogBlockRange) {
+      const logs = await this.rpc.call<LogEntry[]>('eth_getLogs', [{
+        address: offersManager,
+        fromBlock: `0x${start.toString(16)}`,
+        toBlock: `0x${Math.min(toBlock, start + this.maxLogBlockRange - 1).toString(16)}`,
+        topics: [[INFLATION_REWARDS_OFFERED, REWARDS_OFFERED], `0x${encodeUint(rewardEpochId)}`]
+      }]);
+
+      logs.forEach(log => {
+        if (log.topics[0].toLowerCase() === INFLATION_REWARDS_OFFERED) {
+          const [feedIds, decimals] = decodeAbiParameters(['bytes', 'bytes'], log.data) as string[];
+          const ids = strip0x(feedIds);
+          const decimalBytes = hexToBytes(strip0x(decimals));
+          for (let i = 0; i * FEED_ID_LENGTH * 2 < ids.length; i++) {
+            addFeed(`0x${ids.slice(i * FEED_ID_LENGTH * 2, (i + 1) * FEED_ID_LENGTH * 2).toLowerCase()}`, (decimalBytes[i] << 24) >> 24);
+          }
+        } else {
+          const [feedId, decimals] = decodeAbiParameters(['bytes32', 'int'], log.data) as [string, bigint];
+          addFeed(feedId.slice(0, 2 + FEED_ID_LENGTH * 2), Number(decimals));
+        }
+      });
+    }
+
+    if (feeds.size === 0) {
+      throw new ProviderError(`No feeds were offered for reward epoch ${rewardEpochId}`, { context: { rewardEpochId } });
+    }
+    return sortFeeds(Array.from(feeds.values()));
+  }
+
+  private async getRewardEpochStartBlock(systemsManager: string, rewardEpochId: number): Promise<number> {
+    const result = await this.rpc.ethCall(systemsManager, GET_REWARD_EPOCH_START_INFO + encodeUint(rewardEpochId));
+    const startBlock = Number(decodeUint(readWord(result, 1)));
+    if (startBlock === 0) {
+      throw new ProviderError(`Reward epoch ${rewardEpochId} has not started`, { retryable: true, context: { rewardEpochId } });
+    }
+    return startBlock;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Tracking of in-flight operations so a connection can be drained before it is replaced
+ */
+
+export class InFlightTracker {
+  private count: number = 0;
+  private waiters: Array<() => void> = [];
+
+  /**
+   * Mark the start of an operation
+   */
+  begin(): void {
+    this.count++;
+  }
+
+  /**
+   * Mark the end of an operation started with begin()
+   */
+  end(): void {
+    this.count = Math.max(0, this.count - 1);
+    if (this.count === 0) {
+      const waiters = this.waiters;
+      this.waiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  /**
+   * Get the number of operations in flight
+   */
+  getCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Wait until no operations are in flight; resolves false if the timeout elapses first
+   */
+  drain(timeout: number): Promise<boolean> {
+    if (this.count === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const onDrained = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(waiter => waiter !== onDrained);
+        resolve(false);
+      }, timeout);
+      this.waiters.push(onDrained);
+    });
+  }
+}
@@ -11,12 +11,76 @@ import { FlareNetworkConnector } from './network-connector';
 import { FTSOConnection } from './ftso-connection';
 import { FDCConnection } from './fdc-connection';
 import { StateConnectorInterface } from './state-connector';
+import { JsonRpcClient } from './json-rpc-client';
+import { RpcEndpointPool } from './rpc-endpoint-pool';
+import { JsonRpcFTSOTransport, toFeedId, toFeedName, fromFeedId } from './ftso-transport';
+import { LocalRpcServer } from './local-rpc-server';
+import { CommitRevealSubmitter } from './ftso-commit-reveal';
+import { TransactionSender } from './transaction';
+import { EpochClock, FLARE_MAINNET_EPOCH_CONFIG } from './epoch-clock';
+import { ProviderScorer } from './provider-scoring';
+import { FeedSubscriptionManager } from './feed-subscriptions';
+import { PriceStore } from './price-store';
+import { FlareChainClient } from './flare-chain-client';
+import { JsonRpcFDCTransport } from './fdc-transport';
+import { encodeAttestationRequest } from './fdc-attestation';
+import { FDCQueryBuilder } from './fdc-queries';
+import { verifyMerkleProof } from './merkle';
+import { signAttestation, recoverAttestationSigner } from './attestation-signing';
+import { EvmStateClient } from './evm-state-client';
+import { verifyAccountProof, verifyStorageProof } from './merkle-patricia';
+import { EsploraClient } from './esplora-client';
+import { verifyBitcoinSpvProof } from './bitcoin-spv';
+import { signCallbackPayload, verifyCallbackSignature } from './callback-delivery';
+import { FlareSimulator } from './simulator';
+import { TrafficRecorder, TrafficReplayer } from './traffic-recorder';
+import { KeystoreSigner, EnvironmentSigner, RemoteSigner, createSigner, encryptKeystore } from './signers';
+import { LocalSignerServer } from './local-signer-server';
+import { RewardLedger } from './ftso-rewards';
 
 export {
   FlareNetworkConnector,
   FTSOConnection,
   FDCConnection,
-  StateConnectorInterface
+  StateConnectorInterface,
+  JsonRpcClient,
+  RpcEndpointPool,
+  JsonRpcFTSOTransport,
+  LocalRpcServer,
+  CommitRevealSubmitter,
+  TransactionSender,
+  EpochClock,
+  FLARE_MAINNET_EPOCH_CONFIG,
+  ProviderScorer,
+  FeedSubscriptionManager,
+  PriceStore,
+  FlareChainClient,
+  JsonRpcFDCTransport,
+  encodeAttestationRequest,
+  FDCQueryBuilder,
+  verifyMerkleProof,
+  signAttestation,
+  recoverAttestationSigner,
+  EvmStateClient,
+  verifyAccountProof,
+  verifyStorageProof,
+  EsploraClient,
+  verifyBitcoinSpvProof,
+  signCallbackPayload,
+  verifyCallbackSignature,
+  FlareSimulator,
+  TrafficRecorder,
+  TrafficReplayer,
+  KeystoreSigner,
+  EnvironmentSigner,
+  RemoteSigner,
+  LocalSignerServer,
+  createSigner,
+  encryptKeystore,
+  RewardLedger,
+  toFeedId,
+  toFeedName,
+  fromFeedId
 };
 
 export * from './types';
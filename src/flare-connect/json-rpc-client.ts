@@ -0,0 +1,92 @@
+/**
+ * JSON-RPC 2.0 client over HTTP used by the Flare connectors
+ *
+ * HTTP failures are thrown as retryable ConnectionError, TimeoutError,
+ * RateLimitError or (for 5xx) ProviderError; a JSON-RPC error answer is a
+ * non-retryable ProviderError carrying the node's error code. Requests made
+ * under a correlation ID send it in the X-Correlation-ID header.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { JsonRpcClientConfig } from './types';
+import { ProviderError, fromHttpError } from '../utils/errors';
+import { getCorrelationHeaders } from '../utils/logger';
+
+interface JsonRpcResponse<T> {
+  jsonrpc: string;
+  id: number;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export class JsonRpcClient {
+  private http: AxiosInstance;
+  private nextId: number = 1;
+  private endpoint: string;
+
+  /**
+   * Create a new JSON-RPC client for the given endpoint
+   */
+  constructor(config: JsonRpcClientConfig) {
+    this.endpoint = config.endpoint;
+    this.http = axios.create({
+      baseURL: config.endpoint,
+      timeout: config.timeout || 10000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'x-apikey': config.apiKey } : {})
+      }
+    });
+    this.http.interceptors.request.use(request => {
+      request.headers.set(getCorrelationHeaders());
+      return request;
+    });
+    this.http.interceptors.response.use(undefined, error => Promise.reject(fromHttpError(error)));
+  }
+
+  /**
+   * Invoke a JSON-RPC method and return its result
+   */
+  async call<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    const id = this.nextId++;
+    const response = await this.http.post<JsonRpcResponse<T>>('', {
+      jsonrpc: '2.0',
+      id,
+      method,
+      params
+    });
+
+    const body = response.data;
+    if (body.error) {
+      throw new ProviderError(`JSON-RPC error ${body.error.code} from ${this.endpoint}: ${body.error.message}`, {
+        context: { endpoint: this.endpoint, method, rpcCode: body.error.code, rpcData: body.error.data }
+      });
+    }
+    if (body.result === undefined) {
+      throw new ProviderError(`JSON-RPC response from ${this.endpoint} for ${method} has no result`, {
+        context: { endpoint: this.endpoint, method }
+      });
+    }
+
+    return body.result;
+  }
+
+  /**
+   * Perform a read-only contract call at the given block
+   */
+  async ethCall(to: string, data: string, blockTag: number | 'latest' = 'latest'): Promise<string> {
+    const tag = blockTag === 'latest' ? blockTag : `0x${blockTag.toString(16)}`;
+    return this.call<string>('eth_call', [{ to, data: data.startsWith('0x') ? data : `0x${data}` }, tag]);
+  }
+
+  /**
+   * Get the endpoint this client talks to
+   */
+  getEndpoint(): string {
+    return this.endpoint;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Local stand-in JSON-RPC server
+ *
+ * Replays recorded JSON-RPC exchanges over HTTP so the connectors can be
+ * exercised against real response payloads without network access.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { RecordedRpcExchange } from './types';
+import { Logger } from '../utils/logger';
+
+export class LocalRpcServer {
+  private exchanges: RecordedRpcExchange[];
+  private server: http.Server | null = null;
+  private logger: Logger;
+  private requestLog: Array<{ method: string; params: unknown[] }> = [];
+
+  /**
+   * Create a new stand-in server from a list of recorded exchanges
+   */
+  constructor(exchanges: RecordedRpcExchange[] = [], logLevel: string = 'info') {
+    this.exchanges = [...exchanges];
+    this.logger = new Logger({
+      serviceName: 'LocalRpcServer',
+      logLevel
+    });
+  }
+
+  /**
+   * Load recorded exchanges from a JSON file
+   */
+  static fromFile(path: string, logLevel?: string): LocalRpcServer {
+    const exchanges: RecordedRpcExchange[] = JSON.parse(fs.readFileSync(path, 'utf8'));
+    return new LocalRpcServer(exchanges, logLevel);
+  }
+
+  /**
+   * Add a recorded exchange; later recordings take precedence over earlier ones
+   */
+  record(exchange: RecordedRpcExchange): void {
+    this.exchanges.push(exchange);
+  }
+
+  /**
+   * Start listening and return the endpoint URL
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error('LocalRpcServer is already running');
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+
+    const address = server.address() as AddressInfo;
+    const url = `http://${host}:${address.port}`;
+    this.logger.info('LocalRpcServer listening', { url, exchanges: this.exchanges.length });
+
+    return url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Get the requests received so far
+   */
+  getRequestLog(): Array<{ method: string; params: unknown[] }> {
+    return [...this.requestLog];
+  }
+
+  /**
+   * Find the recording that answers a request, preferring exact parameter matches
+   * over recordings without parameters
+   */
+  private findExchange(method: string, params: unknown[]): RecordedRpcExchange | undefined {
+    const key = JSON.stringify(params);
+    const candidates = this.exchanges.filter(exchange => exchange.method === method).reverse();
+
+    return candidates.find(exchange => exchange.params !== undefined && JSON.stringify(exchange.params) === key) ||
+      candidates.find(exchange => exchange.params === undefined);
+  }
+
+  /**
+   * Answer a single JSON-RPC request (batches are not supported)
+   */
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      let request: { id?: number; method?: string; params?: unknown[] };
+      try {
+        request = JSON.parse(body);
+      } catch {
+        this.send(res, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+        return;
+      }
+
+      const method = request.method || '';
+      const params = request.params || [];
+      this.requestLog.push({ method, params });
+
+      const exchange = this.findExchange(method, params);
+      if (!exchange) {
+        this.logger.warn('No recorded response for request', { method, params });
+        this.send(res, {
+          jsonrpc: '2.0',
+          id: request.id ?? null,
+          error: { code: -32601, message: `No recorded response for ${method}` }
+        });
+        return;
+      }
+
+      this.send(res, exchange.error
+        ? { jsonrpc: '2.0', id: request.id ?? null, error: exchange.error }
+        : { jsonrpc: '2.0', id: request.id ?? null, result: exchange.result });
+    });
+  }
+
+  private send(res: http.ServerResponse, payload: object): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
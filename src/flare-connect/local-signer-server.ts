@@ -0,0 +1,119 @@
+/**
+ * Local stand-in remote signing service
+ *
+ * Serves the RemoteSigner protocol (`GET /address`, `POST /sign`) over HTTP
+ * with any Signer, so remote signing can be exercised without a real signing
+ * service. Requests must carry the configured bearer token, if any.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Signer } from './types';
+import { Logger } from '../utils/logger';
+
+export class LocalSignerServer {
+  private signer: Signer;
+  private authToken?: string;
+  private server: http.Server | null = null;
+  private logger: Logger;
+  private requestLog: Array<{ method: string; path: string; digest?: string }> = [];
+
+  /**
+   * Create a new stand-in server signing with the given signer
+   */
+  constructor(signer: Signer, authToken?: string, logLevel: string = 'info') {
+    this.signer = signer;
+    this.authToken = authToken;
+    this.logger = new Logger({
+      serviceName: 'LocalSignerServer',
+      logLevel
+    });
+  }
+
+  /**
+   * Start listening and return the service URL
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error('LocalSignerServer is already running');
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+
+    const address = server.address() as AddressInfo;
+    const url = `http://${host}:${address.port}`;
+    this.logger.info('LocalSignerServer listening', { url });
+
+    return url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Get the requests received so far
+   */
+  getRequestLog(): Array<{ method: string; path: string; digest?: string }> {
+    return [...this.requestLog];
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      this.respond(req, body)
+        .then(({ status, payload }) => this.send(res, status, payload))
+        .catch((error:any) => {
+          this.logger.warn('Signing request failed', { error });
+          this.send(res, 400, { error: error.message });
+        });
+    });
+  }
+
+  private async respond(req: http.IncomingMessage, body: string): Promise<{ status: number; payload: object }> {
+    const method = req.method || 'GET';
+    const path = (req.url || '/').split('?')[0];
+
+    if (this.authToken && req.headers.authorization !== `Bearer ${this.authToken}`) {
+      this.requestLog.push({ method, path });
+      return { status: 401, payload: { error: 'Unauthorized' } };
+    }
+
+    if (method === 'GET' && path === '/address') {
+      this.requestLog.push({ method, path });
+      return { status: 200, payload: { address: await this.signer.getAddress() } };
+    }
+
+    if (method === 'POST' && path === '/sign') {
+      const request: { digest?: string } = JSON.parse(body || '{}');
+      this.requestLog.push({ method, path, digest: request.digest });
+      if (typeof request.digest !== 'string') {
+        return { status: 400, payload: { error: 'digest is required' } };
+      }
+      return { status: 200, payload: await this.signer.signDigest(request.digest) };
+    }
+
+    this.requestLog.push({ method, path });
+    return { status: 404, payload: { error: `No route for ${method} ${path}` } };
+  }
+
+  private send(res: http.ServerResponse, status: number, payload: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Merkle-Patricia trie proof verification for EVM chains
+ *
+ * Verifies `eth_getProof` account and storage proofs against a block's state
+ * root, and computes the root of ordered tries such as a block's receipts trie.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes, strip0x } from './abi';
+import { RlpDecoded, RlpInput, rlpDecode, rlpEncode } from './rlp';
+import { VerificationError } from '../utils/errors';
+
+export interface TrieAccount {
+  nonce: bigint;
+  balance: bigint;
+  storageHash: string;
+  codeHash: string;
+}
+
+/**
+ * Root of a trie without any entries, keccak256(rlp(''))
+ */
+export const EMPTY_TRIE_ROOT = `0x${bytesToHex(keccak_256(rlpEncode(new Uint8Array(0))))}`;
+
+function toNibbles(bytes: Uint8Array): number[] {
+  const nibbles: number[] = [];
+  bytes.forEach(byte => nibbles.push(byte >> 4, byte & 0x0f));
+  return nibbles;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? BigInt(0) : BigInt(`0x${bytesToHex(bytes)}`);
+}
+
+function asBytes(item: RlpDecoded, what: string): Uint8Array {
+  if (!(item instanceof Uint8Array)) {
+    throw new VerificationError(`Expected ${what} to be a byte string`);
+  }
+  return item;
+}
+
+/**
+ * Decode the hex-prefix encoded path of a leaf or extension node
+ */
+function decodeHexPrefix(encoded: Uint8Array): { path: number[]; isLeaf: boolean } {
+  const nibbles = toNibbles(encoded);
+  const flag = nibbles[0];
+  if (flag > 3) {
+    throw new VerificationError(`Invalid hex-prefix flag ${flag}`);
+  }
+  return {
+    path: nibbles.slice(flag % 2 === 1 ? 1 : 2),
+    isLeaf: flag >= 2
+  };
+}
+
+/**
+ * Hex-prefix encode a nibble path
+ */
+function encodeHexPrefix(path: number[], isLeaf: boolean): Uint8Array {
+  const flag = (isLeaf ? 2 : 0) + (path.length % 2);
+  const nibbles = path.length % 2 === 1 ? [flag, ...path] : [flag, 0, ...path];
+  const bytes = new Uint8Array(nibbles.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = (nibbles[2 * i] << 4) | nibbles[2 * i + 1];
+  }
+  return bytes;
+}
+
+/**
+ * Walk a trie proof along the given key
+ *
+ * Returns the value stored under the key, or null when the proof shows the key is
+ * absent. Throws when the proof is inconsistent with the root.
+ */
+export function verifyTrieProof(root: string, key: Uint8Array, proof: string[]): Uint8Array | null {
+  const nodes = new Map<string, Uint8Array>();
+  proof.forEach(node => {
+    const bytes = hexToBytes(strip0x(node));
+    nodes.set(bytesToHex(keccak_256(bytes)), bytes);
+  });
+
+  const rootHash = strip0x(root).toLowerCase();
+  if (`0x${rootHash}` === EMPTY_TRIE_ROOT) {
+    return null;
+  }
+
+  const path = toNibbles(key);
+  let position = 0;
+  let reference: RlpDecoded = hexToBytes(rootHash);
+
+  for (;;) {
+    let node: RlpDecoded;
+    if (reference instanceof Uint8Array) {
+      if (reference.length === 0) {
+        return null;
+      }
+      if (reference.length !== 32) {
+        throw new VerificationError('Invalid trie node reference');
+      }
+      const encoded = nodes.get(bytesToHex(reference));
+      if (!encoded) {
+        throw new VerificationError(`Proof is missing trie node 0x${bytesToHex(reference)}`);
+      }
+      node = rlpDecode(encoded);
+    } else {
+      // Nodes shorter than 32 bytes are embedded in their parent
+      node = reference;
+    }
+
+    if (!Array.isArray(node)) {
+      throw new VerificationError('Trie node is not a list');
+    }
+
+    if (node.length === 17) {
+      if (position === path.length) {
+        const value = asBytes(node[16], 'branch value');
+        return value.length > 0 ? value : null;
+      }
+      reference = node[path[position]];
+      position++;
+    } else if (node.length === 2) {
+      const { path: nodePath, isLeaf } = decodeHexPrefix(asBytes(node[0], 'node path'));
+      const remaining = path.slice(position);
+      const matches = nodePath.every((nibble, i) => remaining[i] === nibble);
+
+      if (isLeaf) {
+        return matches && nodePath.length === remaining.length ? asBytes(node[1], 'leaf value') : null;
+      }
+      if (!matches || nodePath.length > remaining.length) {
+        return null;
+      }
+      position += nodePath.length;
+      reference = node[1];
+    } else {
+      throw new VerificationError(`Invalid trie node with ${node.length} items`);
+    }
+  }
+}
+
+/**
+ * Verify an account proof against a state root
+ *
+ * Returns the proven account, or null when the proof shows the account does not exist.
+ */
+export function verifyAccountProof(stateRoot: string, address: string, accountProof: string[]): TrieAccount | null {
+  const value = verifyTrieProof(stateRoot, keccak_256(hexToBytes(strip0x(address).toLowerCase())), accountProof);
+  if (!value) {
+    return null;
+  }
+
+  const account = rlpDecode(value);
+  if (!Array.isArray(account) || account.length !== 4) {
+    throw new VerificationError('Account leaf is not a 4-item list');
+  }
+
+  return {
+    nonce: bytesToBigInt(asBytes(account[0], 'nonce')),
+    balance: bytesToBigInt(asBytes(account[1], 'balance')),
+    storageHash: `0x${bytesToHex(asBytes(account[2], 'storage root'))}`,
+    codeHash: `0x${bytesToHex(asBytes(account[3], 'code hash'))}`
+  };
+}
+
+/**
+ * Verify a storage proof against an account's storage root and return the slot value
+ */
+export function verifyStorageProof(storageHash: string, slot: string, storageProof: string[]): bigint {
+  const key = hexToBytes(strip0x(slot).padStart(64, '0'));
+  const value = verifyTrieProof(storageHash, keccak_256(key), storageProof);
+  return value ? bytesToBigInt(asBytes(rlpDecode(value), 'storage value')) : BigInt(0);
+}
+
+/**
+ * Compute the root of a trie keyed by the RLP-encoded index of each value, as used
+ * for a block's transactions and receipts
+ */
+export function orderedTrieRoot(values: Uint8Array[]): string {
+  if (values.length === 0) {
+    return EMPTY_TRIE_ROOT;
+  }
+
+  return trieRoot(values.map((value, index) => ({ key: rlpEncode(index), value })));
+}
+
+/**
+ * Compute the root of a trie holding the given key/value pairs (keys are used as is)
+ */
+export function trieRoot(entries: Array<{ key: Uint8Array; value: Uint8Array }>): string {
+  if (entries.length === 0) {
+    return EMPTY_TRIE_ROOT;
+  }
+
+  const items = entries.map(entry => ({ path: toNibbles(entry.key), value: entry.value }));
+  return `0x${bytesToHex(keccak_256(rlpEncode(buildNode(items, 0))))}`;
+}
+
+function buildNode(items: Array<{ path: number[]; value: Uint8Array }>, depth: number): RlpInput {
+  if (items.length === 1) {
+    return [encodeHexPrefix(items[0].path.slice(depth), true), items[0].value];
+  }
+
+  let shared = 0;
+  const first = items[0].path;
+  while (
+    depth + shared < first.length &&
+    items.every(item => item.path.length > depth + shared && item.path[depth + shared] === first[depth + shared])
+  ) {
+    shared++;
+  }
+
+  if (shared > 0) {
+    return [encodeHexPrefix(first.slice(depth, depth + shared), false), nodeReference(buildNode(items, depth + shared))];
+  }
+
+  const branch: RlpInput[] = [];
+  for (let nibble = 0; nibble < 16; nibble++) {
+    const children = items.filter(item => item.path.length > depth && item.path[depth] === nibble);
+    branch.push(children.length > 0 ? nodeReference(buildNode(children, depth + 1)) : new Uint8Array(0));
+  }
+  const terminal = items.find(item => item.path.length === depth);
+  branch.push(terminal ? terminal.value : new Uint8Array(0));
+
+  return branch;
+}
+
+/**
+ * Nodes whose encoding is shorter than 32 bytes are embedded rather than hashed
+ */
+function nodeReference(node: RlpInput): RlpInput {
+  const encoded = rlpEncode(node);
+  return encoded.length < 32 ? node : keccak_256(encoded);
+}
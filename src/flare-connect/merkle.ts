@@ -0,0 +1,73 @@
+/**
+ * Merkle proof verification for Flare protocol Merkle trees
+ *
+ * Flare protocols (FDC, FTSO anchor feeds) build their trees with sorted-pair
+ * keccak256 hashing, so proofs are plain lists of sibling hashes.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes, strip0x } from './abi';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Hash two 32-byte nodes in sorted order
+ */
+export function hashPair(a: string, b: string): string {
+  const left = strip0x(a).toLowerCase();
+  const right = strip0x(b).toLowerCase();
+  const [first, second] = left <= right ? [left, right] : [right, left];
+  return `0x${bytesToHex(keccak_256(hexToBytes(first + second)))}`;
+}
+
+/**
+ * Compute the leaf hash of an ABI-encoded attestation response
+ */
+export function hashLeaf(encodedResponse: string): string {
+  return `0x${bytesToHex(keccak_256(hexToBytes(strip0x(encodedResponse))))}`;
+}
+
+/**
+ * Compute the root implied by a leaf and its proof
+ */
+export function computeMerkleRoot(leaf: string, proof: string[]): string {
+  return proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+}
+
+/**
+ * Build a sorted-pair Merkle tree over leaf hashes, returning its root and the
+ * proof of every leaf in input order; an odd node is carried up a level unhashed
+ */
+export function buildMerkleTree(leaves: string[]): { root: string; proofs: string[][] } {
+  if (leaves.length === 0) {
+    throw new ValidationError('Cannot build a Merkle tree without leaves', { context: { field: 'leaves' } });
+  }
+
+  const proofs: string[][] = leaves.map(() => []);
+  let level = leaves.map((leaf, index) => ({ hash: leaf, members: [index] }));
+
+  while (level.length > 1) {
+    const next: Array<{ hash: string; members: number[] }> = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1];
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+
+      left.members.forEach(member => proofs[member].push(right.hash));
+      right.members.forEach(member => proofs[member].push(left.hash));
+      next.push({ hash: hashPair(left.hash, right.hash), members: left.members.concat(right.members) });
+    }
+    level = next;
+  }
+
+  return { root: level[0].hash, proofs };
+}
+
+/**
+ * Check that a leaf is included under a Merkle root
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  return computeMerkleRoot(leaf, proof).toLowerCase() === `0x${strip0x(root).toLowerCase()}`;
+}
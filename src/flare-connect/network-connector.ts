@@ -1,58 +1,182 @@
 /**
  * Main connector for Flare Network services
  * Manages connections to FTSO v2, FDC, and State Connector
+ *
+ * Services are monitored independently: startup proceeds with whichever
+ * services connect, failed or unhealthy services are reconnected with
+ * exponential backoff behind a per-service circuit breaker, and a `status`
+ * event (ServiceStatusEvent) is emitted whenever a service's connection or
+ * circuit state changes.
+ *
+ * FTSO and FDC share one pool of Flare RPC endpoints (RpcEndpointPool) with
+ * priority and latency based routing, failover and optional quorum reads;
+ * conflicting quorum answers, including those from the State Connector's
+ * external chain endpoints, are emitted as `disagreement` events
+ * (QuorumDisagreement).
+ *
+ * `backend` selects what the services talk to: the Flare network (the default),
+ * a seeded FlareSimulator scenario (`simulation`), the network with all transport
+ * traffic recorded to `recordingFile` (`record`), or such a recording played back
+ * offline (`replay`). In simulation mode, `ftsoConfig.feeds` should list the
+ * scenario's feeds in order and `stateConnectorConfig.trustedSigners` should be
+ * the simulator's getSigners().
  */
 
+import { EventEmitter } from 'events';
 import { FTSOConnection } from './ftso-connection';
 import { FDCConnection } from './fdc-connection';
 import { StateConnectorInterface } from './state-connector';
-import { FlareConnectionConfig, ConnectionStatus } from './types';
+import { EpochClock } from './epoch-clock';
+import { RpcEndpointPool } from './rpc-endpoint-pool';
+import { FlareSimulator } from './simulator';
+import { TrafficRecorder, TrafficReplayer } from './traffic-recorder';
+import {
+  BackendConfig,
+  FlareConnectionConfig,
+  ConnectionStatus,
+  FlareServiceName,
+  HealthMonitorConfig,
+  QuorumDisagreement,
+  RpcEndpointStatus,
+  ServiceHealth,
+  ServiceStatusEvent,
+  TrafficInterceptor
+} from './types';
+import { ConnectionError, NotConnectedError, ValidationError, wrapError } from '../utils/errors';
 import { Logger } from '../utils/logger';
 
-export class FlareNetworkConnector {
+const SERVICES: FlareServiceName[] = ['ftso', 'fdc', 'stateConnector'];
+
+const SERVICE_LABELS: Record<FlareServiceName, string> = {
+  ftso: 'FTSO v2',
+  fdc: 'FDC',
+  stateConnector: 'State Connector'
+};
+
+const DEFAULT_HEALTH_CONFIG: Required<HealthMonitorConfig> = {
+  checkInterval: 30 * 1000,
+  reconnectBaseDelay: 1000,
+  reconnectMaxDelay: 60 * 1000,
+  failureThreshold: 5,
+  circuitResetTimeout: 2 * 60 * 1000,
+  requiredServices: []
+};
+
+const DEFAULT_DRAIN_TIMEOUT = 30 * 1000;
+
+type ServiceConnection = FTSOConnection | FDCConnection | StateConnectorInterface;
+
+const SERVICE_CONFIG_KEYS: Record<FlareServiceName, 'ftsoConfig' | 'fdcConfig' | 'stateConnectorConfig'> = {
+  ftso: 'ftsoConfig',
+  fdc: 'fdcConfig',
+  stateConnector: 'stateConnectorConfig'
+};
+
+/**
+ * Settings each connection reads on every call, so they can change without a reconnect
+ */
+const LIVE_SETTINGS: Record<FlareServiceName, string[]> = {
+  ftso: ['feeds', 'providerNames', 'providerVotePower'],
+  fdc: ['maxConcurrentRequests', 'defaultTimeout', 'verifierNodes', 'pollInterval'],
+  stateConnector: [
+    'attestationThreshold',
+    'maxQuerySize',
+    'maxConcurrentRequests',
+    'responseTimeout',
+    'trustedSigners',
+    'minConfirmations',
+    'queryPollInterval',
+    'queryTimeout',
+    'callbackSecret',
+    'callbackMaxAttempts',
+    'callbackRetryDelay'
+  ]
+};
+
+export class FlareNetworkConnector extends EventEmitter {
   private config: FlareConnectionConfig;
   private ftsoConnection: FTSOConnection | null = null;
   private fdcConnection: FDCConnection | null = null;
   private stateConnector: StateConnectorInterface | null = null;
+  private epochClock: EpochClock;
+  private rpcPool: RpcEndpointPool;
+  private simulator: FlareSimulator | null = null;
+  private recorder: TrafficRecorder | null = null;
+  private traffic: TrafficInterceptor | null = null;
   private logger: Logger;
+  private health: Map<FlareServiceName, ServiceHealth> = new Map();
+  private healthTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimers: Map<FlareServiceName, ReturnType<typeof setTimeout>> = new Map();
+  // Unhealthy connections kept until a replacement takes over their pending work
+  private retired: Map<FlareServiceName, ServiceConnection> = new Map();
+  private running: boolean = false;
+  private onDisagreement = (report: QuorumDisagreement) => this.emit('disagreement', report);
   
   /**
    * Create a new FlareNetworkConnector
    * @param config Configuration for connecting to Flare Network
    */
   constructor(config: FlareConnectionConfig) {
+    super();
     this.config = config;
+    SERVICES.forEach(service => this.health.set(service, {
+      service,
+      state: 'DISCONNECTED',
+      circuit: 'CLOSED',
+      consecutiveFailures: 0,
+      reconnectAttempts: 0
+    }));
+    this.epochClock = new EpochClock(config.epochConfig);
+    this.rpcPool = this.createRpcPool(config);
     this.logger = new Logger({
       serviceName: 'FlareNetworkConnector',
       logLevel: config.logLevel || 'info'
     });
+    this.setupBackend(config.backend);
     
     this.logger.info('FlareNetworkConnector initialized with endpoint', {
-      endpoint: this.config.endpoint
+      endpoint: this.config.endpoint,
+      endpoints: (this.config.endpoints || []).map(endpoint => endpoint.url),
+      backend: config.backend ? config.backend.mode : 'network'
     });
   }
   
   /**
    * Initialize connections to all Flare Network services
+   *
+   * Succeeds in degraded mode when at least one service (and every service listed
+   * in `healthConfig.requiredServices`) connects; the others keep reconnecting in
+   * the background. Initializing a running connector closes its connections first.
    */
   async initialize(): Promise<void> {
+    if (this.running) {
+      this.logger.info('Closing current Flare Network connections before initializing again');
+      await this.disconnect();
+    }
     this.logger.info('Initializing connections to Flare Network services');
     
-    try {
-      // Connect to FTSO v2
-      this.ftsoConnection = await this.connectToFTSO();
-      
-      // Connect to FDC
-      this.fdcConnection = await this.connectToFDC();
-      
-      // Connect to State Connector
-      this.stateConnector = await this.connectToStateConnector();
-      
+    this.running = true;
+    await Promise.all(SERVICES.map(service => this.connectService(service)));
+    
+    const unavailable = SERVICES.filter(service => this.health.get(service)!.state !== 'CONNECTED');
+    const missingRequired = this.getHealthConfig().requiredServices.filter(service => unavailable.includes(service));
+    
+    if (unavailable.length === SERVICES.length || missingRequired.length > 0) {
+      const reasons = (missingRequired.length > 0 ? missingRequired : unavailable)
+        .map(service => `${SERVICE_LABELS[service]}: ${this.health.get(service)!.lastError}`)
+        .join('; ');
+      this.logger.error('Failed to initialize Flare Network connections', { unavailable });
+      await this.disconnect();
+      throw new ConnectionError(`Failed to initialize Flare Network connections: ${reasons}`, { context: { unavailable } });
+    }
+    
+    if (unavailable.length > 0) {
+      this.logger.warn('Flare Network connections started in degraded mode', { unavailable });
+    } else {
       this.logger.info('All Flare Network connections established successfully');
-    } catch (error:any) {
-      this.logger.error('Failed to initialize Flare Network connections', { error });
-      throw new Error(`Failed to initialize Flare Network connections: ${error.message}`);
     }
+    
+    this.scheduleHealthCheck();
   }
   
   /**
@@ -65,7 +189,11 @@ export class FlareNetworkConnector {
       const ftsoConnection = new FTSOConnection({
         endpoint: this.config.endpoint,
         apiKey: this.config.apiKey,
-        ftsoSpecificConfig: this.config.ftsoConfig
+        ftsoSpecificConfig: this.config.ftsoConfig,
+        transport: this.simulator ? this.simulator.createFTSOTransport() : undefined,
+        rpc: this.rpcPool,
+        traffic: this.traffic || undefined,
+        epochClock: this.epochClock
       });
       
       await ftsoConnection.connect();
@@ -74,7 +202,7 @@ export class FlareNetworkConnector {
       return ftsoConnection;
     } catch (error:any) {
       this.logger.error('Failed to connect to FTSO v2', { error });
-      throw new Error(`Failed to connect to FTSO v2: ${error.message}`);
+      throw wrapError(error, 'Failed to connect to FTSO v2');
     }
   }
   
@@ -88,7 +216,11 @@ export class FlareNetworkConnector {
       const fdcConnection = new FDCConnection({
         endpoint: this.config.endpoint,
         apiKey: this.config.apiKey,
-        fdcSpecificConfig: this.config.fdcConfig
+        fdcSpecificConfig: this.config.fdcConfig,
+        transport: this.simulator ? this.simulator.createFDCTransport() : undefined,
+        rpc: this.rpcPool,
+        traffic: this.traffic || undefined,
+        epochClock: this.epochClock
       });
       
       await fdcConnection.connect();
@@ -97,7 +229,7 @@ export class FlareNetworkConnector {
       return fdcConnection;
     } catch (error:any) {
       this.logger.error('Failed to connect to FDC', { error });
-      throw new Error(`Failed to connect to FDC: ${error.message}`);
+      throw wrapError(error, 'Failed to connect to FDC');
     }
   }
   
@@ -111,7 +243,12 @@ export class FlareNetworkConnector {
       const stateConnector = new StateConnectorInterface({
         endpoint: this.config.endpoint,
         apiKey: this.config.apiKey,
-        stateConnectorConfig: this.config.stateConnectorConfig
+        stateConnectorConfig: this.config.stateConnectorConfig,
+        quorum: this.config.quorum,
+        onQuorumDisagreement: this.onDisagreement,
+        simulator: this.simulator || undefined,
+        traffic: this.traffic || undefined,
+        epochClock: this.epochClock
       });
       
       await stateConnector.connect();
@@ -120,43 +257,93 @@ export class FlareNetworkConnector {
       return stateConnector;
     } catch (error:any) {
       this.logger.error('Failed to connect to State Connector', { error });
-      throw new Error(`Failed to connect to State Connector: ${error.message}`);
+      throw wrapError(error, 'Failed to connect to State Connector');
     }
   }
   
   /**
    * Get the FTSO connection
-   * @throws Error if not initialized
+   * @throws Error if not initialized or currently unavailable
    */
   getFTSOConnection(): FTSOConnection {
     if (!this.ftsoConnection) {
-      throw new Error('FTSO connection not initialized. Call initialize() first.');
+      throw this.unavailableError('ftso');
     }
     return this.ftsoConnection;
   }
   
   /**
    * Get the FDC connection
-   * @throws Error if not initialized
+   * @throws Error if not initialized or currently unavailable
    */
   getFDCConnection(): FDCConnection {
     if (!this.fdcConnection) {
-      throw new Error('FDC connection not initialized. Call initialize() first.');
+      throw this.unavailableError('fdc');
     }
     return this.fdcConnection;
   }
   
   /**
    * Get the State Connector interface
-   * @throws Error if not initialized
+   * @throws Error if not initialized or currently unavailable
    */
   getStateConnector(): StateConnectorInterface {
     if (!this.stateConnector) {
-      throw new Error('State Connector not initialized. Call initialize() first.');
+      throw this.unavailableError('stateConnector');
     }
     return this.stateConnector;
   }
   
+  /**
+   * Get the health of every service
+   */
+  getServiceHealth(): Record<FlareServiceName, ServiceHealth> {
+    return SERVICES.reduce((all, service) => {
+      all[service] = { ...this.health.get(service)! };
+      return all;
+    }, {} as Record<FlareServiceName, ServiceHealth>);
+  }
+  
+  /**
+   * Check whether every service is connected
+   */
+  isFullyConnected(): boolean {
+    return SERVICES.every(service => this.health.get(service)!.state === 'CONNECTED');
+  }
+  
+  /**
+   * Get routing statistics for the Flare RPC endpoints, in current routing order
+   */
+  getEndpointStatus(): RpcEndpointStatus[] {
+    return this.rpcPool.getEndpointStatus();
+  }
+  
+  /**
+   * Get the voting epoch clock shared by all connections
+   */
+  getEpochClock(): EpochClock {
+    return this.epochClock;
+  }
+  
+  /**
+   * Get the simulator serving the services in simulation mode
+   */
+  getSimulator(): FlareSimulator | null {
+    return this.simulator;
+  }
+  
+  /**
+   * Write the traffic recorded so far to the backend's `recordingFile`
+   *
+   * Called automatically on disconnect in record mode.
+   */
+  async saveRecording(): Promise<void> {
+    if (!this.recorder) {
+      throw new ValidationError('Traffic is only recorded in record mode', { context: { field: 'backend.mode' } });
+    }
+    await this.recorder.save(this.config.backend!.recordingFile!);
+  }
+  
   /**
    * Check the status of all connections
    */
@@ -173,11 +360,19 @@ export class FlareNetworkConnector {
   }
   
   /**
-   * Close all connections
+   * Close all connections and stop health monitoring and reconnection
    */
   async disconnect(): Promise<void> {
     this.logger.info('Disconnecting from Flare Network services');
     
+    this.running = false;
+    if (this.healthTimer) {
+      clearTimeout(this.healthTimer);
+      this.healthTimer = null;
+    }
+    this.reconnectTimers.forEach(timer => clearTimeout(timer));
+    this.reconnectTimers.clear();
+    
     try {
       if (this.ftsoConnection) {
         await this.ftsoConnection.disconnect();
@@ -191,24 +386,55 @@ export class FlareNetworkConnector {
         await this.stateConnector.disconnect();
       }
       
+      for (const connection of Array.from(this.retired.values())) {
+        await connection.disconnect();
+      }
+      this.retired.clear();
+      
       this.ftsoConnection = null;
       this.fdcConnection = null;
       this.stateConnector = null;
+      if (this.recorder) {
+        await this.saveRecording();
+      }
+      SERVICES.forEach(service => this.updateHealth(service, {
+        state: 'DISCONNECTED',
+        circuit: 'CLOSED',
+        consecutiveFailures: 0,
+        reconnectAttempts: 0,
+        nextRetryAt: undefined
+      }));
       
       this.logger.info('Successfully disconnected from all Flare Network services');
     } catch (error:any) {
       this.logger.error('Error during disconnect from Flare Network services', { error });
-      throw new Error(`Error during disconnect: ${error.message}`);
+      throw wrapError(error, 'Error during disconnect');
     }
   }
   
   /**
    * Update connection configuration
+   *
+   * Only services whose connection settings changed are reconnected; settings the
+   * connections read on every call are applied live. Replacement connections are
+   * established before the current ones are touched and take over their pending
+   * work (subscriptions, commits awaiting reveal, tracked attestation requests and
+   * submitted state queries); the replaced connections are drained of in-flight
+   * operations before being closed. If a service that is
+   * currently connected cannot connect with the new configuration, the previous
+   * configuration is restored and an error is thrown.
    */
   async updateConfig(newConfig: Partial<FlareConnectionConfig>): Promise<void> {
     this.logger.info('Updating Flare Network connection configuration');
     
-    this.config = {
+    if (newConfig.backend !== undefined && !this.isSameValue(newConfig.backend, this.config.backend)) {
+      throw new ValidationError('The backend cannot be changed by updateConfig; create a new connector instead', {
+        context: { field: 'backend' }
+      });
+    }
+    
+    const previousConfig = this.config;
+    const nextConfig: FlareConnectionConfig = {
       ...this.config,
       ...newConfig,
       ftsoConfig: {
@@ -222,12 +448,482 @@ export class FlareNetworkConnector {
       stateConnectorConfig: {
         ...this.config.stateConnectorConfig,
         ...newConfig.stateConnectorConfig
+      },
+      epochConfig: {
+        ...this.config.epochConfig,
+        ...newConfig.epochConfig
+      },
+      healthConfig: {
+        ...this.config.healthConfig,
+        ...newConfig.healthConfig
+      }
+    };
+    
+    const epochChanged = !this.isSameValue(previousConfig.epochConfig || {}, nextConfig.epochConfig);
+    const rpcChanged = previousConfig.endpoint !== nextConfig.endpoint ||
+      previousConfig.apiKey !== nextConfig.apiKey ||
+      !this.isSameValue(previousConfig.endpoints, nextConfig.endpoints) ||
+      !this.isSameValue(previousConfig.quorum, nextConfig.quorum);
+    
+    if (epochChanged && this.simulator) {
+      throw new ValidationError('The epoch configuration cannot be changed in simulation mode', { context: { field: 'epochConfig' } });
+    }
+    
+    if (!this.running) {
+      this.config = nextConfig;
+      if (epochChanged) {
+        this.epochClock.dispose();
+        this.epochClock = new EpochClock(this.config.epochConfig);
+      }
+      if (rpcChanged) {
+        this.rpcPool.removeListener('disagreement', this.onDisagreement);
+        this.rpcPool = this.createRpcPool(this.config);
+      }
+      await this.initialize();
+      this.logger.info('Flare Network connections updated with new configuration');
+      return;
+    }
+    
+    const { reconnect, live } = this.diffConfig(previousConfig, nextConfig, epochChanged || rpcChanged);
+    const previousClock = this.epochClock;
+    const previousPool = this.rpcPool;
+    
+    this.config = nextConfig;
+    if (epochChanged) {
+      this.epochClock = new EpochClock(this.config.epochConfig);
+    }
+    if (rpcChanged) {
+      this.rpcPool = this.createRpcPool(this.config);
+    }
+    
+    // Bring up replacements before touching the current connections
+    const replacements = new Map<FlareServiceName, ServiceConnection>();
+    const failures: string[] = [];
+    await Promise.all(reconnect.map(async service => {
+      try {
+        replacements.set(service, await this.createConnection(service));
+      } catch (error:any) {
+        // Services that were already down keep retrying with the new configuration
+        if (this.health.get(service)!.state === 'CONNECTED') {
+          failures.push(`${SERVICE_LABELS[service]}: ${error.message}`);
+        }
+      }
+    }));
+    
+    if (failures.length > 0) {
+      await Promise.all(Array.from(replacements.values()).map(connection =>
+        connection.disconnect().catch(() => undefined)
+      ));
+      if (epochChanged) {
+        this.epochClock.dispose();
+        this.epochClock = previousClock;
+      }
+      if (rpcChanged) {
+        this.rpcPool.removeListener('disagreement', this.onDisagreement);
+        this.rpcPool = previousPool;
+      }
+      this.config = previousConfig;
+      
+      this.logger.error('Configuration update failed, previous configuration restored', { failures });
+      throw new ConnectionError(`Failed to apply configuration, previous configuration restored: ${failures.join('; ')}`, {
+        context: { failures }
+      });
+    }
+    
+    live.forEach(service => {
+      const connection = this.getConnection(service);
+      if (connection) {
+        this.applyLiveConfig(service, connection);
+      }
+    });
+    
+    const replaced: Array<[FlareServiceName, ServiceConnection, ServiceConnection]> = [];
+    replacements.forEach((connection, service) => {
+      const previous = this.getConnection(service) || this.retired.get(service);
+      this.retired.delete(service);
+      const timer = this.reconnectTimers.get(service);
+      if (timer) {
+        clearTimeout(timer);
+        this.reconnectTimers.delete(service);
+      }
+      
+      this.setConnection(service, connection);
+      this.markConnected(service);
+      if (previous) {
+        this.handOver(service, previous, connection);
+        replaced.push([service, previous, connection]);
+      }
+    });
+    
+    const drainTimeout = this.config.drainTimeout || DEFAULT_DRAIN_TIMEOUT;
+    await Promise.all(replaced.map(async ([service, previous, connection]) => {
+      if (!await previous.drain(drainTimeout)) {
+        this.logger.warn(`Timed out draining ${SERVICE_LABELS[service]} connection`, {
+          inFlight: previous.getInFlightCount()
+        });
+      }
+      // Work started on the previous connection while it drained moves over too
+      this.handOver(service, previous, connection);
+      try {
+        await previous.disconnect();
+      } catch (error:any) {
+        this.logger.debug(`Error closing replaced ${SERVICE_LABELS[service]} connection`, { error });
+      }
+    }));
+    
+    if (epochChanged) {
+      previousClock.dispose();
+    }
+    if (rpcChanged) {
+      previousPool.removeListener('disagreement', this.onDisagreement);
+    }
+    
+    if (!this.isSameValue(previousConfig.healthConfig || {}, nextConfig.healthConfig) && this.healthTimer) {
+      clearTimeout(this.healthTimer);
+      this.healthTimer = null;
+      this.scheduleHealthCheck();
+    }
+    
+    this.logger.info('Flare Network connections updated with new configuration', {
+      reconnected: Array.from(replacements.keys()),
+      liveUpdated: live
+    });
+  }
+  
+  /**
+   * Work out which services must reconnect and which can take their new settings live
+   */
+  private diffConfig(
+    previous: FlareConnectionConfig,
+    next: FlareConnectionConfig,
+    connectionChanged: boolean
+  ): { reconnect: FlareServiceName[]; live: FlareServiceName[] } {
+    const reconnect: FlareServiceName[] = [];
+    const live: FlareServiceName[] = [];
+    
+    SERVICES.forEach(service => {
+      const before: Record<string, any> = previous[SERVICE_CONFIG_KEYS[service]] || {};
+      const after: Record<string, any> = next[SERVICE_CONFIG_KEYS[service]] || {};
+      const changed = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(key => !this.isSameValue(before[key], after[key]));
+      
+      if (connectionChanged || changed.some(key => !LIVE_SETTINGS[service].includes(key))) {
+        reconnect.push(service);
+      } else if (changed.length > 0) {
+        live.push(service);
       }
+    });
+    
+    return { reconnect, live };
+  }
+  
+  private applyLiveConfig(service: FlareServiceName, connection: ServiceConnection): void {
+    switch (service) {
+      case 'ftso':
+        (connection as FTSOConnection).updateConfig(this.config.ftsoConfig || {});
+        break;
+      case 'fdc':
+        (connection as FDCConnection).updateConfig(this.config.fdcConfig || {});
+        break;
+      case 'stateConnector':
+        (connection as StateConnectorInterface).updateConfig(this.config.stateConnectorConfig || {});
+        break;
+    }
+  }
+  
+  /**
+   * Move the pending work of a replaced connection to its replacement
+   */
+  private handOver(service: FlareServiceName, previous: ServiceConnection, replacement: ServiceConnection): void {
+    switch (service) {
+      case 'ftso':
+        (replacement as FTSOConnection).adopt(previous as FTSOConnection);
+        break;
+      case 'fdc':
+        (replacement as FDCConnection).adopt(previous as FDCConnection);
+        break;
+      case 'stateConnector':
+        (replacement as StateConnectorInterface).adopt(previous as StateConnectorInterface);
+        break;
+    }
+  }
+  
+  /**
+   * Set up the simulator, recorder or replayer selected by the backend configuration
+   */
+  private setupBackend(backend: BackendConfig | undefined): void {
+    if (!backend) {
+      return;
+    }
+    
+    switch (backend.mode) {
+      case 'network':
+        break;
+      case 'simulation': {
+        const options = {
+          seed: backend.seed,
+          epochClock: new EpochClock(this.config.epochConfig),
+          logLevel: this.config.logLevel
+        };
+        this.simulator = typeof backend.scenario === 'string'
+          ? FlareSimulator.fromFile(backend.scenario, options)
+          : new FlareSimulator(backend.scenario || {}, options);
+        break;
+      }
+      case 'record':
+        if (!backend.recordingFile) {
+          throw new ValidationError('Record mode requires backend.recordingFile', { context: { field: 'backend.recordingFile' } });
+        }
+        this.recorder = new TrafficRecorder(this.config.logLevel);
+        this.traffic = this.recorder;
+        break;
+      case 'replay':
+        if (!backend.recordingFile) {
+          throw new ValidationError('Replay mode requires backend.recordingFile', { context: { field: 'backend.recordingFile' } });
+        }
+        this.traffic = TrafficReplayer.fromFile(backend.recordingFile, this.config.logLevel);
+        break;
+      default:
+        throw new ValidationError(`Unknown backend mode ${(backend as BackendConfig).mode}`, { context: { field: 'backend.mode' } });
+    }
+  }
+  
+  /**
+   * Pool the configured endpoints, falling back to the single `endpoint`
+   */
+  private createRpcPool(config: FlareConnectionConfig): RpcEndpointPool {
+    const pool = new RpcEndpointPool(
+      config.endpoints && config.endpoints.length > 0 ? config.endpoints : [{ url: config.endpoint }],
+      {
+        name: 'flare',
+        apiKey: config.apiKey,
+        quorum: config.quorum,
+        logLevel: config.logLevel
+      }
+    );
+    pool.on('disagreement', this.onDisagreement);
+    return pool;
+  }
+  
+  private isSameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  
+  private getHealthConfig(): Required<HealthMonitorConfig> {
+    return {
+      ...DEFAULT_HEALTH_CONFIG,
+      ...this.config.healthConfig
     };
+  }
+  
+  private getConnection(service: FlareServiceName): ServiceConnection | null {
+    switch (service) {
+      case 'ftso':
+        return this.ftsoConnection;
+      case 'fdc':
+        return this.fdcConnection;
+      case 'stateConnector':
+        return this.stateConnector;
+    }
+  }
+  
+  private setConnection(service: FlareServiceName, connection: ServiceConnection | null): void {
+    switch (service) {
+      case 'ftso':
+        this.ftsoConnection = connection as FTSOConnection | null;
+        break;
+      case 'fdc':
+        this.fdcConnection = connection as FDCConnection | null;
+        break;
+      case 'stateConnector':
+        this.stateConnector = connection as StateConnectorInterface | null;
+        break;
+    }
+  }
+  
+  /**
+   * Connect a single service, recording the outcome instead of throwing; the new
+   * connection takes over the pending work of the one it replaces after a failed
+   * health check
+   */
+  private async connectService(service: FlareServiceName): Promise<void> {
+    try {
+      const connection = await this.createConnection(service);
+      
+      if (!this.running) {
+        await connection.disconnect();
+        return;
+      }
+      
+      this.setConnection(service, connection);
+      this.markConnected(service);
+      
+      const retired = this.retired.get(service);
+      if (retired) {
+        this.retired.delete(service);
+        this.handOver(service, retired, connection);
+        retired.disconnect().catch(error => {
+          this.logger.debug(`Error tearing down ${SERVICE_LABELS[service]} connection`, { error });
+        });
+      }
+    } catch (error:any) {
+      this.recordFailure(service, error.message);
+    }
+  }
+  
+  private createConnection(service: FlareServiceName): Promise<ServiceConnection> {
+    switch (service) {
+      case 'ftso':
+        return this.connectToFTSO();
+      case 'fdc':
+        return this.connectToFDC();
+      case 'stateConnector':
+        return this.connectToStateConnector();
+    }
+  }
+  
+  private markConnected(service: FlareServiceName): void {
+    this.updateHealth(service, {
+      state: 'CONNECTED',
+      circuit: 'CLOSED',
+      consecutiveFailures: 0,
+      reconnectAttempts: 0,
+      lastConnected: Date.now(),
+      nextRetryAt: undefined,
+      lastError: undefined
+    });
+  }
+  
+  /**
+   * Count a failed connect or health check, open the circuit once failures reach
+   * the threshold (or immediately when a half-open probe fails) and schedule a retry
+   */
+  private recordFailure(service: FlareServiceName, message: string): void {
+    const current = this.health.get(service)!;
+    const consecutiveFailures = current.consecutiveFailures + 1;
+    const tripped = current.circuit === 'HALF_OPEN' || consecutiveFailures >= this.getHealthConfig().failureThreshold;
+    
+    this.updateHealth(service, {
+      state: 'DISCONNECTED',
+      circuit: tripped ? 'OPEN' : current.circuit,
+      consecutiveFailures,
+      lastError: message
+    });
+    
+    if (tripped && current.circuit !== 'OPEN') {
+      this.logger.warn(`Circuit opened for ${SERVICE_LABELS[service]}`, { consecutiveFailures, error: message });
+    }
+    
+    this.scheduleReconnect(service);
+  }
+  
+  private scheduleReconnect(service: FlareServiceName): void {
+    if (!this.running || this.reconnectTimers.has(service)) {
+      return;
+    }
+    
+    const healthConfig = this.getHealthConfig();
+    const current = this.health.get(service)!;
+    const delay = current.circuit === 'OPEN'
+      ? healthConfig.circuitResetTimeout
+      : Math.min(healthConfig.reconnectBaseDelay * Math.pow(2, current.reconnectAttempts), healthConfig.reconnectMaxDelay);
+    
+    this.updateHealth(service, { nextRetryAt: Date.now() + delay });
+    
+    this.reconnectTimers.set(service, setTimeout(async () => {
+      this.reconnectTimers.delete(service);
+      if (!this.running) {
+        return;
+      }
+      
+      const circuit = this.health.get(service)!.circuit;
+      this.updateHealth(service, {
+        state: 'RECONNECTING',
+        circuit: circuit === 'OPEN' ? 'HALF_OPEN' : circuit,
+        reconnectAttempts: this.health.get(service)!.reconnectAttempts + 1,
+        nextRetryAt: undefined
+      });
+      
+      this.logger.info(`Reconnecting to ${SERVICE_LABELS[service]}`, {
+        attempt: this.health.get(service)!.reconnectAttempts
+      });
+      await this.connectService(service);
+    }, delay));
+  }
+  
+  private scheduleHealthCheck(): void {
+    if (!this.running || this.healthTimer) {
+      return;
+    }
     
-    await this.disconnect();
-    await this.initialize();
+    const timer = setTimeout(async () => {
+      await this.checkHealth();
+      // A check rescheduled or stopped while it ran leaves the timer to its replacement
+      if (this.healthTimer === timer) {
+        this.healthTimer = null;
+        this.scheduleHealthCheck();
+      }
+    }, this.getHealthConfig().checkInterval);
+    this.healthTimer = timer;
+  }
+  
+  /**
+   * Probe every connected service; an unhealthy service is replaced by a new
+   * connection, which takes over its pending work once it connects
+   */
+  private async checkHealth(): Promise<void> {
+    await Promise.all(SERVICES.map(async service => {
+      const connection = this.getConnection(service);
+      if (!connection || this.health.get(service)!.state !== 'CONNECTED') {
+        return;
+      }
+      
+      let status: ConnectionStatus;
+      try {
+        status = await connection.getStatus();
+      } catch (error:any) {
+        status = { connected: false, error: error.message };
+      }
+      
+      this.updateHealth(service, { lastCheck: Date.now() });
+      if (status.connected && !status.error) {
+        return;
+      }
+      
+      this.logger.warn(`Health check failed for ${SERVICE_LABELS[service]}`, { error: status.error });
+      this.setConnection(service, null);
+      this.retired.set(service, connection);
+      this.recordFailure(service, status.error || 'Connection lost');
+    }));
+  }
+  
+  /**
+   * Apply a health update and emit a status event when the connection or circuit state changed
+   */
+  private updateHealth(service: FlareServiceName, update: Partial<ServiceHealth>): void {
+    const previous = this.health.get(service)!;
+    const current = { ...previous, ...update };
+    this.health.set(service, current);
     
-    this.logger.info('Flare Network connections updated with new configuration');
+    if (previous.state !== current.state || previous.circuit !== current.circuit) {
+      const event: ServiceStatusEvent = {
+        service,
+        previous: { ...previous },
+        current: { ...current },
+        timestamp: Date.now()
+      };
+      this.emit('status', event);
+    }
+  }
+  
+  private unavailableError(service: FlareServiceName): NotConnectedError {
+    return this.running
+      ? new NotConnectedError(`${SERVICE_LABELS[service]} connection is currently unavailable (${this.health.get(service)!.state})`, {
+        retryable: true,
+        context: { service, state: this.health.get(service)!.state }
+      })
+      : new NotConnectedError(`${SERVICE_LABELS[service]} connection not initialized. Call initialize() first.`, {
+        context: { service }
+      });
   }
-}
\ No newline at end of file
+}
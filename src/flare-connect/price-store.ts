@@ -0,0 +1,382 @@
+/**
+ * Embedded on-disk time-series store for FTSO feed values
+ *
+ * Each symbol is kept in its own append-only JSON Lines file of per-epoch
+ * samples, loaded into memory on first use. Re-written epochs are appended and
+ * the last line for an epoch wins until the file is compacted. A last line torn
+ * by an interrupted append is dropped when the file is loaded. Datasets can be
+ * exported to and imported from a single JSON Lines file with a format header.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CandleInterval,
+  PriceCandle,
+  PriceStoreConfig,
+  PriceStoreExportOptions,
+  PriceStoreImportResult,
+  StoredPricePoint
+} from './types';
+import { ValidationError, wrapError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+const SERIES_EXTENSION = '.jsonl';
+const EXPORT_FORMAT = 'flare-price-store';
+const EXPORT_VERSION = 1;
+
+const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+interface Series {
+  points: Map<number, StoredPricePoint>;
+  sortedEpochs: number[] | null;
+  lines: number;
+}
+
+export class PriceStore {
+  private directory: string;
+  private logger: Logger;
+  private series: Map<string, Promise<Series>> = new Map();
+  private writes: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Create a store rooted at the given directory (created on first write)
+   */
+  constructor(config: PriceStoreConfig) {
+    this.directory = config.directory;
+    this.logger = new Logger({
+      serviceName: 'PriceStore',
+      logLevel: config.logLevel || 'info'
+    });
+  }
+
+  /**
+   * Store samples; samples for epochs already stored replace them
+   */
+  async put(points: StoredPricePoint[]): Promise<void> {
+    const bySymbol = new Map<string, StoredPricePoint[]>();
+    points.forEach(point => bySymbol.set(point.symbol, (bySymbol.get(point.symbol) || []).concat(point)));
+
+    await Promise.all(Array.from(bySymbol.entries()).map(([symbol, symbolPoints]) =>
+      this.serialize(symbol, async () => {
+        const series = await this.loadSeries(symbol);
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.appendFile(
+          this.getSeriesPath(symbol),
+          symbolPoints.map(point => `${JSON.stringify(this.toRecord(point))}\n`).join('')
+        );
+
+        symbolPoints.forEach(point => series.points.set(point.epoch, { ...point }));
+        series.sortedEpochs = null;
+        series.lines += symbolPoints.length;
+      })
+    ));
+  }
+
+  /**
+   * Get the stored samples of a symbol for an inclusive epoch range, in epoch order
+   */
+  async getRange(symbol: string, fromEpoch: number, toEpoch: number): Promise<StoredPricePoint[]> {
+    const series = await this.loadSeries(symbol);
+    return this.getSortedEpochs(series)
+      .filter(epoch => epoch >= fromEpoch && epoch <= toEpoch)
+      .map(epoch => ({ ...series.points.get(epoch)! }));
+  }
+
+  /**
+   * Get the epochs of an inclusive range that have no stored sample
+   */
+  async getMissingEpochs(symbol: string, fromEpoch: number, toEpoch: number): Promise<number[]> {
+    const series = await this.loadSeries(symbol);
+    const missing: number[] = [];
+    for (let epoch = fromEpoch; epoch <= toEpoch; epoch++) {
+      if (!series.points.has(epoch)) {
+        missing.push(epoch);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Get the first and last stored epoch of a symbol, or null when nothing is stored
+   */
+  async getEpochBounds(symbol: string): Promise<{ first: number; last: number } | null> {
+    const epochs = this.getSortedEpochs(await this.loadSeries(symbol));
+    return epochs.length > 0 ? { first: epochs[0], last: epochs[epochs.length - 1] } : null;
+  }
+
+  /**
+   * Get the symbols with a series on disk or in memory
+   */
+  async getSymbols(): Promise<string[]> {
+    let files: string[] = [];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error:any) {
+      if (error.code !== 'ENOENT') {
+        throw wrapError(error, `Failed to list price store ${this.directory}`);
+      }
+    }
+
+    const onDisk = files
+      .filter(file => file.endsWith(SERIES_EXTENSION))
+      .map(file => decodeURIComponent(file.slice(0, -SERIES_EXTENSION.length)));
+    return Array.from(new Set(onDisk.concat(Array.from(this.series.keys())))).sort();
+  }
+
+  /**
+   * Downsample the samples of an inclusive epoch range into OHLC candles
+   *
+   * Consecutive samples carrying the same feed timestamp are one feed update and
+   * are counted once. Candles are aligned to UTC interval boundaries of the feed
+   * timestamps and only intervals with at least one update are returned.
+   */
+  async getCandles(
+    symbol: string,
+    fromEpoch: number,
+    toEpoch: number,
+    interval: CandleInterval
+  ): Promise<PriceCandle[]> {
+    const intervalMs = CANDLE_INTERVALS[interval];
+    if (!intervalMs) {
+      throw new ValidationError(`Unsupported candle interval ${interval}`, { context: { field: 'interval' } });
+    }
+
+    const candles: PriceCandle[] = [];
+    let lastTimestamp = -1;
+
+    (await this.getRange(symbol, fromEpoch, toEpoch)).forEach(point => {
+      if (point.timestamp === lastTimestamp) {
+        return;
+      }
+      lastTimestamp = point.timestamp;
+
+      const openTime = Math.floor(point.timestamp / intervalMs) * intervalMs;
+      const current = candles[candles.length - 1];
+      if (current && current.openTime === openTime) {
+        current.high = Math.max(current.high, point.price);
+        current.low = Math.min(current.low, point.price);
+        current.close = point.price;
+        current.samples++;
+        return;
+      }
+
+      candles.push({
+        symbol,
+        interval,
+        openTime,
+        closeTime: openTime + intervalMs,
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        samples: 1
+      });
+    });
+
+    return candles;
+  }
+
+  /**
+   * Rewrite a symbol's file without superseded lines
+   */
+  async compact(symbol: string): Promise<void> {
+    await this.serialize(symbol, async () => {
+      const series = await this.loadSeries(symbol);
+      if (series.lines === series.points.size) {
+        return;
+      }
+
+      const seriesPath = this.getSeriesPath(symbol);
+      const temporaryPath = `${seriesPath}.tmp`;
+      await fs.promises.writeFile(
+        temporaryPath,
+        this.getSortedEpochs(series).map(epoch => `${JSON.stringify(this.toRecord(series.points.get(epoch)!))}\n`).join('')
+      );
+      await fs.promises.rename(temporaryPath, seriesPath);
+
+      this.logger.debug(`Compacted price series ${symbol}`, { removed: series.lines - series.points.size });
+      series.lines = series.points.size;
+    });
+  }
+
+  /**
+   * Write stored samples to a JSON Lines file that import() can read back
+   */
+  async export(filePath: string, options: PriceStoreExportOptions = {}): Promise<number> {
+    try {
+      const symbols = options.symbols || await this.getSymbols();
+      const lines = [JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now() })];
+
+      for (const symbol of symbols) {
+        const points = await this.getRange(
+          symbol,
+          options.fromEpoch !== undefined ? options.fromEpoch : -Infinity,
+          options.toEpoch !== undefined ? options.toEpoch : Infinity
+        );
+        points.forEach(point => lines.push(JSON.stringify(point)));
+      }
+
+      await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+      await fs.promises.writeFile(filePath, `${lines.join('\n')}\n`);
+
+      this.logger.info('Exported price history', { filePath, symbols: symbols.length, points: lines.length - 1 });
+      return lines.length - 1;
+    } catch (error:any) {
+      throw wrapError(error, `Failed to export price history to ${filePath}`);
+    }
+  }
+
+  /**
+   * Load samples exported by export(); epochs already stored are kept unless `overwrite` is set
+   */
+  async import(filePath: string, options: { overwrite?: boolean } = {}): Promise<PriceStoreImportResult> {
+    let lines: string[];
+    try {
+      lines = (await fs.promises.readFile(filePath, 'utf8')).split('\n').filter(line => line.trim() !== '');
+    } catch (error:any) {
+      throw wrapError(error, `Failed to read price history from ${filePath}`);
+    }
+
+    const header = lines.length > 0 ? this.parseLine(lines[0], filePath, 1) : null;
+    if (!header || header.format !== EXPORT_FORMAT) {
+      throw new ValidationError(`${filePath} is not a price store export`, { context: { field: 'format' } });
+    }
+    if (header.version > EXPORT_VERSION) {
+      throw new ValidationError(`Unsupported price store export version ${header.version}`, { context: { field: 'version' } });
+    }
+
+    const incoming = lines.slice(1).map((line, index) => this.toPoint(this.parseLine(line, filePath, index + 2), filePath, index + 2));
+    const accepted: StoredPricePoint[] = [];
+
+    for (const point of incoming) {
+      const series = await this.loadSeries(point.symbol);
+      if (options.overwrite || !series.points.has(point.epoch)) {
+        accepted.push(point);
+      }
+    }
+    await this.put(accepted);
+
+    const result: PriceStoreImportResult = {
+      imported: accepted.length,
+      skipped: incoming.length - accepted.length,
+      symbols: Array.from(new Set(incoming.map(point => point.symbol))).sort()
+    };
+    this.logger.info('Imported price history', { filePath, ...result });
+
+    return result;
+  }
+
+  private loadSeries(symbol: string): Promise<Series> {
+    let series = this.series.get(symbol);
+    if (!series) {
+      series = this.readSeries(symbol);
+      this.series.set(symbol, series);
+      series.catch(() => this.series.delete(symbol));
+    }
+    return series;
+  }
+
+  private async readSeries(symbol: string): Promise<Series> {
+    const seriesPath = this.getSeriesPath(symbol);
+    let content = '';
+    try {
+      content = await fs.promises.readFile(seriesPath, 'utf8');
+    } catch (error:any) {
+      if (error.code !== 'ENOENT') {
+        throw wrapError(error, `Failed to read price series ${symbol}`);
+      }
+    }
+
+    if (content !== '' && !content.endsWith('\n')) {
+      content = await this.repairTornLine(symbol, seriesPath, content);
+    }
+
+    const points = new Map<number, StoredPricePoint>();
+    const lines = content.split('\n').filter(line => line.trim() !== '');
+    lines.forEach((line, index) => {
+      const point = this.toPoint({ symbol, ...this.parseLine(line, seriesPath, index + 1) }, seriesPath, index + 1);
+      points.set(point.epoch, point);
+    });
+
+    return { points, sortedEpochs: null, lines: lines.length };
+  }
+
+  /**
+   * Finish a last line cut off by an interrupted append: a complete sample gets its
+   * line break, anything else is truncated so later appends start on a fresh line
+   */
+  private async repairTornLine(symbol: string, seriesPath: string, content: string): Promise<string> {
+    const lineStart = content.lastIndexOf('\n') + 1;
+    const lastLine = content.slice(lineStart);
+
+    try {
+      let complete = true;
+      try {
+        this.toPoint({ symbol, ...JSON.parse(lastLine) }, seriesPath, 0);
+      } catch (error) {
+        complete = false;
+      }
+
+      if (complete) {
+        await fs.promises.appendFile(seriesPath, '\n');
+        return `${content}\n`;
+      }
+
+      await fs.promises.truncate(seriesPath, Buffer.byteLength(content.slice(0, lineStart), 'utf8'));
+      this.logger.warn(`Dropped a torn last line from price series ${symbol}`, { seriesPath, line: lastLine });
+      return content.slice(0, lineStart);
+    } catch (error:any) {
+      throw wrapError(error, `Failed to repair price series ${symbol}`);
+    }
+  }
+
+  /**
+   * Run file operations on a symbol one at a time so appends never interleave
+   */
+  private serialize(symbol: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(symbol) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(operation);
+    this.writes.set(symbol, next);
+    return next;
+  }
+
+  private getSortedEpochs(series: Series): number[] {
+    if (!series.sortedEpochs) {
+      series.sortedEpochs = Array.from(series.points.keys()).sort((a, b) => a - b);
+    }
+    return series.sortedEpochs;
+  }
+
+  private getSeriesPath(symbol: string): string {
+    return path.join(this.directory, `${encodeURIComponent(symbol)}${SERIES_EXTENSION}`);
+  }
+
+  private toRecord(point: StoredPricePoint): { epoch: number; timestamp: number; price: number } {
+    return { epoch: point.epoch, timestamp: point.timestamp, price: point.price };
+  }
+
+  private parseLine(line: string, source: string, lineNumber: number): any {
+    try {
+      return JSON.parse(line);
+    } catch (error:any) {
+      throw new ValidationError(`Malformed line ${lineNumber} in ${source}: ${error.message}`, { cause: error });
+    }
+  }
+
+  private toPoint(value: any, source: string, lineNumber: number): StoredPricePoint {
+    if (
+      !value ||
+      typeof value.symbol !== 'string' ||
+      !Number.isInteger(value.epoch) ||
+      typeof value.timestamp !== 'number' ||
+      typeof value.price !== 'number'
+    ) {
+      throw new ValidationError(`Invalid price sample on line ${lineNumber} in ${source}`);
+    }
+    return { symbol: value.symbol, epoch: value.epoch, timestamp: value.timestamp, price: value.price };
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Reliability scoring of FTSO data providers from observed submissions
+ *
+ * For each finalized epoch a provider is scored on whether it revealed, how far
+ * its value deviated from the weighted median and whether it landed inside the
+ * primary reward band (the weighted interquartile range). Observations are kept
+ * in a rolling window per provider and aggregated with exponential decay so
+ * recent behaviour dominates.
+ */
+
+import { ProviderScoringConfig, ProviderSubmission } from './types';
+import { weightedMedian, weightedQuantile } from './statistics';
+
+export interface EpochObservation {
+  epoch: number;
+  symbol: string;
+  revealed: boolean;
+  deviation?: number;
+  inPrimaryBand?: boolean;
+}
+
+export interface ProviderScore {
+  provider: string;
+  reliabilityScore: number;
+  accuracy: number;
+  revealRate: number;
+  primaryBandRate: number;
+  meanDeviation: number;
+  epochsObserved: number;
+  lastSeenEpoch: number;
+  symbols: string[];
+}
+
+const DEFAULT_SCORING_CONFIG: Required<ProviderScoringConfig> = {
+  windowSize: 200,
+  halfLife: 20,
+  backfillEpochs: 10,
+  weights: {
+    reveal: 0.4,
+    primaryBand: 0.4,
+    accuracy: 0.2
+  }
+};
+
+export class ProviderScorer {
+  private config: Required<ProviderScoringConfig>;
+  private observations: Map<string, EpochObservation[]> = new Map();
+  private lastEpoch: number = -1;
+
+  /**
+   * Create a new scorer
+   */
+  constructor(config: ProviderScoringConfig = {}) {
+    this.config = {
+      ...DEFAULT_SCORING_CONFIG,
+      ...config,
+      weights: {
+        ...DEFAULT_SCORING_CONFIG.weights,
+        ...config.weights
+      }
+    };
+  }
+
+  /**
+   * Record the submissions of one finalized epoch for one feed
+   *
+   * Providers in `expectedProviders` without a submission are recorded as
+   * missed reveals. Returns the finalized (weighted median) value.
+   */
+  recordEpoch(
+    epoch: number,
+    symbol: string,
+    submissions: ProviderSubmission[],
+    expectedProviders: string[] = []
+  ): number | undefined {
+    this.lastEpoch = Math.max(this.lastEpoch, epoch);
+
+    const submitted = new Set(submissions.map(submission => submission.provider));
+    expectedProviders
+      .filter(provider => !submitted.has(provider))
+      .forEach(provider => this.addObservation(provider, { epoch, symbol, revealed: false }));
+
+    if (submissions.length === 0) {
+      return undefined;
+    }
+
+    const distribution = submissions.map(submission => ({
+      value: submission.value,
+      weight: submission.weight
+    }));
+    const median = weightedMedian(distribution);
+    const lowerBand = weightedQuantile(distribution, 0.25);
+    const upperBand = weightedQuantile(distribution, 0.75);
+
+    submissions.forEach(submission => {
+      this.addObservation(submission.provider, {
+        epoch,
+        symbol,
+        revealed: true,
+        deviation: median !== 0 ? Math.abs(submission.value - median) / Math.abs(median) : 0,
+        inPrimaryBand: submission.value >= lowerBand && submission.value <= upperBand
+      });
+    });
+
+    return median;
+  }
+
+  /**
+   * Get the latest epoch recorded
+   */
+  getLastEpoch(): number {
+    return this.lastEpoch;
+  }
+
+  /**
+   * Get all providers seen so far
+   */
+  getProviders(): string[] {
+    return Array.from(this.observations.keys());
+  }
+
+  /**
+   * Compute the decayed score of a provider
+   */
+  getScore(provider: string): ProviderScore | undefined {
+    const oldestEpoch = this.lastEpoch - this.config.windowSize + 1;
+    const observations = (this.observations.get(provider) || []).filter(o => o.epoch >= oldestEpoch);
+    if (observations.length === 0) {
+      return undefined;
+    }
+
+    const decay = Math.pow(0.5, 1 / this.config.halfLife);
+    let totalWeight = 0;
+    let revealedWeight = 0;
+    let bandWeight = 0;
+    let deviationSum = 0;
+
+    observations.forEach(observation => {
+      const weight = Math.pow(decay, this.lastEpoch - observation.epoch);
+      totalWeight += weight;
+
+      if (observation.revealed) {
+        revealedWeight += weight;
+        deviationSum += weight * (observation.deviation || 0);
+        if (observation.inPrimaryBand) {
+          bandWeight += weight;
+        }
+      }
+    });
+
+    const revealRate = totalWeight > 0 ? revealedWeight / totalWeight : 0;
+    const primaryBandRate = revealedWeight > 0 ? bandWeight / revealedWeight : 0;
+    const meanDeviation = revealedWeight > 0 ? deviationSum / revealedWeight : 1;
+    const accuracy = Math.max(0, Math.min(1, 1 - meanDeviation));
+    const { reveal, primaryBand, accuracy: accuracyWeight } = this.config.weights;
+    const weightSum = (reveal || 0) + (primaryBand || 0) + (accuracyWeight || 0);
+
+    return {
+      provider,
+      reliabilityScore: weightSum > 0
+        ? ((reveal || 0) * revealRate + (primaryBand || 0) * primaryBandRate + (accuracyWeight || 0) * accuracy) / weightSum
+        : 0,
+      accuracy,
+      revealRate,
+      primaryBandRate,
+      meanDeviation,
+      epochsObserved: new Set(observations.map(observation => observation.epoch)).size,
+      lastSeenEpoch: Math.max(...observations.filter(o => o.revealed).map(o => o.epoch), -1),
+      symbols: Array.from(new Set(observations.filter(o => o.revealed).map(o => o.symbol)))
+    };
+  }
+
+  /**
+   * Compute scores for all providers
+   */
+  getScores(): ProviderScore[] {
+    return this.getProviders()
+      .map(provider => this.getScore(provider))
+      .filter((score): score is ProviderScore => score !== undefined);
+  }
+
+  private addObservation(provider: string, observation: EpochObservation): void {
+    const observations = this.observations.get(provider) || [];
+    observations.push(observation);
+
+    // Keep only observations inside the rolling window of epochs
+    const oldestEpoch = this.lastEpoch - this.config.windowSize + 1;
+    this.observations.set(provider, observations.filter(o => o.epoch >= oldestEpoch));
+  }
+}
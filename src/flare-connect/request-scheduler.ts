@@ -0,0 +1,160 @@
+/**
+ * Concurrency-limited scheduling of connector requests with timeouts and cancellation
+ *
+ * Requests beyond the concurrency limit wait in a FIFO queue. A request's
+ * timeout counts from when it is scheduled, so time spent queued is included.
+ * When a request times out or its caller's signal aborts, the caller is released
+ * immediately, its slot is freed and the operation's own signal is aborted so it
+ * can stop at its next step. Operations run in their caller's async context, so
+ * a queued request keeps its correlation ID when another request frees its slot.
+ */
+
+import { AsyncResource } from 'async_hooks';
+import { RequestOptions } from './types';
+import { CancelledError, TimeoutError } from '../utils/errors';
+
+interface QueuedRequest {
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
+/**
+ * Resolve after a delay, or reject as soon as the signal aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(new CancelledError('Request aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Request aborted'));
+    };
+    const timer = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      resolve();
+    }, ms);
+
+    if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal && signal.aborted) {
+    throw new CancelledError('Request aborted');
+  }
+}
+
+export class RequestScheduler {
+  private getMaxConcurrent: () => number;
+  private active: Set<QueuedRequest> = new Set();
+  private queue: QueuedRequest[] = [];
+
+  /**
+   * Create a scheduler; the concurrency limit is read on every scheduling decision
+   * so configuration changes apply without recreating it
+   */
+  constructor(getMaxConcurrent: () => number) {
+    this.getMaxConcurrent = getMaxConcurrent;
+  }
+
+  /**
+   * Run an operation once a slot is free
+   */
+  run<T>(operation: (signal: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal && options.signal.aborted) {
+        reject(new CancelledError('Request aborted'));
+        return;
+      }
+
+      const controller = new AbortController();
+      const runInCallerContext = AsyncResource.bind(operation);
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let settled = false;
+
+      const settle = (outcome: () => void) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+
+        if (timer) {
+          clearTimeout(timer);
+        }
+        if (options.signal) {
+          options.signal.removeEventListener('abort', onAbort);
+        }
+        if (this.active.delete(request)) {
+          this.pump();
+        } else {
+          this.queue = this.queue.filter(queued => queued !== request);
+        }
+        outcome();
+      };
+
+      const request: QueuedRequest = {
+        start: () => {
+          this.active.add(request);
+          Promise.resolve()
+            .then(() => runInCallerContext(controller.signal))
+            .then(value => settle(() => resolve(value)), error => settle(() => reject(error)));
+        },
+        cancel: (error: Error) => {
+          controller.abort();
+          settle(() => reject(error));
+        }
+      };
+
+      const onAbort = () => request.cancel(new CancelledError('Request aborted'));
+      if (options.signal) {
+        options.signal.addEventListener('abort', onAbort, { once: true });
+      }
+      if (options.timeout !== undefined && options.timeout > 0) {
+        timer = setTimeout(() => request.cancel(new TimeoutError(`Request timed out after ${options.timeout}ms`, {
+          context: { timeout: options.timeout }
+        })), options.timeout);
+      }
+
+      this.queue.push(request);
+      this.pump();
+    });
+  }
+
+  /**
+   * Get the number of requests currently running
+   */
+  getActiveCount(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Get the number of requests waiting for a slot
+   */
+  getQueuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Reject every running and queued request
+   */
+  cancelAll(reason: string): void {
+    const error = new CancelledError(reason);
+    this.queue.concat(Array.from(this.active)).forEach(request => request.cancel(error));
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && this.active.size < Math.max(1, this.getMaxConcurrent())) {
+      this.queue.shift()!.start();
+    }
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Recursive Length Prefix (RLP) encoding as used by Ethereum-compatible chains
+ */
+
+import { bytesToHex, hexToBytes, strip0x } from './abi';
+import { ValidationError, VerificationError } from '../utils/errors';
+
+export type RlpInput = Uint8Array | string | number | bigint | RlpInput[];
+
+export type RlpDecoded = Uint8Array | RlpDecoded[];
+
+/**
+ * Convert a non-negative integer to its minimal big-endian byte representation
+ */
+function integerToBytes(value: number | bigint): Uint8Array {
+  const big = BigInt(value);
+  if (big < BigInt(0)) {
+    throw new ValidationError(`Cannot RLP encode negative integer ${value}`, { context: { field: 'value' } });
+  }
+  if (big === BigInt(0)) {
+    return new Uint8Array(0);
+  }
+  const hex = big.toString(16);
+  return hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+}
+
+/**
+ * Encode the length prefix for a payload
+ */
+function encodeLength(length: number, offset: number): Uint8Array {
+  if (length < 56) {
+    return new Uint8Array([offset + length]);
+  }
+  const lengthBytes = integerToBytes(length);
+  return new Uint8Array([offset + 55 + lengthBytes.length, ...lengthBytes]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Convert an input item to bytes; strings are treated as hex
+ */
+function toBytes(input: Exclude<RlpInput, RlpInput[]>): Uint8Array {
+  if (input instanceof Uint8Array) {
+    return input;
+  }
+  if (typeof input === 'string') {
+    const hex = strip0x(input);
+    return hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+  }
+  return integerToBytes(input);
+}
+
+/**
+ * RLP encode a value to bytes
+ */
+export function rlpEncode(input: RlpInput): Uint8Array {
+  if (Array.isArray(input)) {
+    const payload = concat(input.map(rlpEncode));
+    return concat([encodeLength(payload.length, 0xc0), payload]);
+  }
+
+  const bytes = toBytes(input);
+  if (bytes.length === 1 && bytes[0] < 0x80) {
+    return bytes;
+  }
+  return concat([encodeLength(bytes.length, 0x80), bytes]);
+}
+
+/**
+ * RLP encode a value to 0x-prefixed hex
+ */
+export function rlpEncodeHex(input: RlpInput): string {
+  return `0x${bytesToHex(rlpEncode(input))}`;
+}
+
+/**
+ * Decode RLP bytes (or 0x-prefixed hex) into nested byte strings and lists
+ */
+export function rlpDecode(input: Uint8Array | string): RlpDecoded {
+  const bytes = typeof input === 'string' ? hexToBytes(strip0x(input)) : input;
+  const [item, consumed] = decodeItem(bytes, 0);
+  if (consumed !== bytes.length) {
+    throw new VerificationError(`RLP data has ${bytes.length - consumed} trailing bytes`);
+  }
+  return item;
+}
+
+/**
+ * Decode the item starting at `offset`, returning it with the offset just past it
+ */
+function decodeItem(bytes: Uint8Array, offset: number): [RlpDecoded, number] {
+  if (offset >= bytes.length) {
+    throw new VerificationError('RLP data ended unexpectedly');
+  }
+
+  const prefix = bytes[offset];
+  if (prefix < 0x80) {
+    return [bytes.slice(offset, offset + 1), offset + 1];
+  }
+
+  const isList = prefix >= 0xc0;
+  const shortLimit = isList ? 0xf7 : 0xb7;
+  const base = isList ? 0xc0 : 0x80;
+  let start: number;
+  let length: number;
+
+  if (prefix <= shortLimit) {
+    start = offset + 1;
+    length = prefix - base;
+  } else {
+    const lengthOfLength = prefix - shortLimit;
+    start = offset + 1 + lengthOfLength;
+    if (start > bytes.length) {
+      throw new VerificationError('RLP length prefix exceeds data');
+    }
+    length = 0;
+    for (let i = offset + 1; i < start; i++) {
+      length = length * 256 + bytes[i];
+    }
+  }
+
+  const end = start + length;
+  if (end > bytes.length) {
+    throw new VerificationError('RLP item exceeds data');
+  }
+
+  if (!isList) {
+    return [bytes.slice(start, end), end];
+  }
+
+  const items: RlpDecoded[] = [];
+  let position = start;
+  while (position < end) {
+    const [item, next] = decodeItem(bytes, position);
+    items.push(item);
+    position = next;
+  }
+  if (position !== end) {
+    throw new VerificationError('RLP list payload length mismatch');
+  }
+  return [items, end];
+}
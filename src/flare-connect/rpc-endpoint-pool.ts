@@ -0,0 +1,379 @@
+/**
+ * Multi-endpoint JSON-RPC access with failover and quorum reads
+ *
+ * Requests are routed to the endpoint with the lowest priority number, and among
+ * endpoints of equal priority to the one with the lowest observed latency. HTTP
+ * and network failures put an endpoint into an exponentially growing cooldown and
+ * the request fails over to the next endpoint; JSON-RPC errors are the node's
+ * answer and are returned to the caller as-is. When every endpoint fails, the
+ * request fails with a ConnectionError caused by the last endpoint's error.
+ *
+ * With quorum enabled, state reads are sent to several endpoints and only
+ * returned once enough of them agree. A quorum needs at least two agreeing
+ * endpoints and more than half of those asked, so that no two conflicting
+ * answers can both reach it; a configuration short of that is not a quorum and
+ * reads fall back to failover. Reads at `latest`, `safe` or `finalized`
+ * are first pinned to a concrete block so that nodes a block apart still agree.
+ * Every quorum read with conflicting answers is emitted as a `disagreement`
+ * event (QuorumDisagreement).
+ */
+
+import { EventEmitter } from 'events';
+import { JsonRpcClient } from './json-rpc-client';
+import { canonicalEncode } from './attestation-signing';
+import {
+  QuorumConfig,
+  QuorumDisagreement,
+  QuorumResponse,
+  RpcClient,
+  RpcEndpointConfig,
+  RpcEndpointPoolOptions,
+  RpcEndpointStatus
+} from './types';
+import { ConnectionError, LucentIQError, ProviderError, ValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+const FAILURE_COOLDOWN_BASE = 1000;
+const FAILURE_COOLDOWN_MAX = 60 * 1000;
+const LATENCY_SMOOTHING = 0.3;
+const DEFAULT_BLOCK_LAG = 1;
+const MAX_DISAGREEMENT_HISTORY = 50;
+
+/**
+ * Reads answered by quorum, with the position of their block tag parameter
+ */
+const QUORUM_METHODS: Record<string, number> = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_getProof: 2,
+  eth_getBlockByNumber: 0,
+  eth_getBlockReceipts: 0
+};
+
+interface EndpointState {
+  url: string;
+  priority: number;
+  client: JsonRpcClient;
+  latency: number | null;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  cooldownUntil: number;
+  lastError?: string;
+}
+
+/**
+ * Whether an error means the endpoint itself failed (as opposed to a JSON-RPC error answer);
+ * any HTTP error status counts, as another endpoint may still accept the request
+ */
+function isTransportError(error: any): boolean {
+  return error instanceof LucentIQError && (error.retryable || error.context.status !== undefined);
+}
+
+export class RpcEndpointPool extends EventEmitter implements RpcClient {
+  private endpoints: EndpointState[];
+  private name: string;
+  private quorum: QuorumConfig;
+  private disagreements: QuorumDisagreement[] = [];
+  private logger: Logger;
+
+  /**
+   * Create a pool over the given endpoints
+   */
+  constructor(endpoints: RpcEndpointConfig[], options: RpcEndpointPoolOptions = {}) {
+    super();
+    if (endpoints.length === 0) {
+      throw new ValidationError('At least one RPC endpoint is required', { context: { field: 'endpoints' } });
+    }
+
+    this.endpoints = endpoints.map(endpoint => ({
+      url: endpoint.url,
+      priority: endpoint.priority || 0,
+      client: new JsonRpcClient({
+        endpoint: endpoint.url,
+        apiKey: endpoint.apiKey !== undefined ? endpoint.apiKey : options.apiKey,
+        timeout: options.timeout
+      }),
+      latency: null,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      cooldownUntil: 0
+    }));
+    this.name = options.name || 'flare';
+    this.quorum = options.quorum || {};
+    this.logger = new Logger({
+      serviceName: 'RpcEndpointPool',
+      logLevel: options.logLevel || 'info'
+    });
+
+    if (this.quorum.enabled && !this.isQuorumEnabled()) {
+      const { size, required } = this.getQuorumParams();
+      this.logger.warn(`Quorum of ${required} out of ${size} endpoints cannot outvote a conflicting answer; reads use failover`, {
+        network: this.name
+      });
+    }
+  }
+
+  /**
+   * Invoke a JSON-RPC method, by quorum for state reads when enabled and with failover otherwise
+   */
+  async call<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    if (this.isQuorumEnabled() && QUORUM_METHODS[method] !== undefined) {
+      return this.quorumCall<T>(method, params);
+    }
+    return this.failoverCall<T>(method, params);
+  }
+
+  /**
+   * Perform a read-only contract call at the given block
+   */
+  async ethCall(to: string, data: string, blockTag: number | 'latest' = 'latest'): Promise<string> {
+    const tag = blockTag === 'latest' ? blockTag : `0x${blockTag.toString(16)}`;
+    return this.call<string>('eth_call', [{ to, data: data.startsWith('0x') ? data : `0x${data}` }, tag]);
+  }
+
+  /**
+   * Get the endpoint requests are currently routed to first
+   */
+  getEndpoint(): string {
+    return this.getRoutingOrder()[0].url;
+  }
+
+  /**
+   * Check whether state reads are answered by a quorum that no conflicting answer can also reach
+   */
+  isQuorumEnabled(): boolean {
+    const { size, required } = this.getQuorumParams();
+    return Boolean(this.quorum.enabled) && required >= 2 && required > size / 2;
+  }
+
+  /**
+   * Get routing statistics for every endpoint, in current routing order
+   */
+  getEndpointStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.getRoutingOrder().map(endpoint => ({
+      url: endpoint.url,
+      priority: endpoint.priority,
+      available: endpoint.cooldownUntil <= now,
+      latency: endpoint.latency !== null ? Math.round(endpoint.latency) : undefined,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      totalRequests: endpoint.totalRequests,
+      totalFailures: endpoint.totalFailures,
+      cooldownUntil: endpoint.cooldownUntil > now ? endpoint.cooldownUntil : undefined,
+      lastError: endpoint.lastError
+    }));
+  }
+
+  /**
+   * Get the most recent quorum reads that had conflicting answers, oldest first
+   */
+  getDisagreements(): QuorumDisagreement[] {
+    return [...this.disagreements];
+  }
+
+  /**
+   * Try endpoints in routing order until one answers
+   */
+  private async failoverCall<T>(method: string, params: unknown[]): Promise<T> {
+    const errors: string[] = [];
+    let lastError: unknown;
+
+    for (const endpoint of this.getRoutingOrder()) {
+      try {
+        return await this.callEndpoint<T>(endpoint, method, params);
+      } catch (error:any) {
+        if (!isTransportError(error)) {
+          throw error;
+        }
+        errors.push(`${endpoint.url}: ${error.message}`);
+        lastError = error;
+      }
+    }
+
+    throw new ConnectionError(`All RPC endpoints failed for ${method}: ${errors.join('; ')}`, {
+      cause: lastError,
+      context: { network: this.name, method }
+    });
+  }
+
+  /**
+   * Ask endpoints in routing order until `size` of them answered, then return the
+   * answer at least `threshold` of them agree on
+   */
+  private async quorumCall<T>(method: string, params: unknown[]): Promise<T> {
+    const order = this.getRoutingOrder();
+    const { size, required } = this.getQuorumParams();
+
+    if (required > order.length) {
+      throw new ValidationError(`Quorum of ${required} needs more than the ${order.length} configured RPC endpoints`, {
+        context: { field: 'quorum', network: this.name }
+      });
+    }
+
+    const pinnedParams = await this.pinBlockTag(method, params);
+    const responses: QuorumResponse[] = [];
+    let next = 0;
+
+    // Endpoints that fail are replaced by the next ones in routing order
+    while (next < order.length) {
+      const missing = size - responses.filter(response => response.error === undefined).length;
+      if (missing <= 0) {
+        break;
+      }
+
+      const batch = order.slice(next, next + missing);
+      next += batch.length;
+      responses.push(...await Promise.all(batch.map(async endpoint => {
+        try {
+          return { endpoint: endpoint.url, result: await this.callEndpoint(endpoint, method, pinnedParams) };
+        } catch (error:any) {
+          return { endpoint: endpoint.url, error: error.message };
+        }
+      })));
+    }
+
+    const groups = new Map<string, QuorumResponse[]>();
+    responses.filter(response => response.error === undefined).forEach(response => {
+      const key = canonicalEncode(response.result);
+      groups.set(key, (groups.get(key) || []).concat(response));
+    });
+
+    const best = Array.from(groups.values()).sort((a, b) => b.length - a.length)[0] || [];
+    const reached = best.length >= required;
+
+    if (groups.size > 1 || (groups.size > 0 && !reached)) {
+      this.reportDisagreement({
+        network: this.name,
+        method,
+        params: pinnedParams,
+        required,
+        agreeing: best.length,
+        reached,
+        responses,
+        timestamp: Date.now()
+      });
+    }
+
+    if (!reached) {
+      const failures = responses.filter(response => response.error !== undefined);
+      throw new ProviderError(
+        `Quorum not reached for ${method}: ${best.length} of ${required} required endpoints agreed` +
+        (failures.length > 0 ? ` (${failures.map(failure => `${failure.endpoint}: ${failure.error}`).join('; ')})` : ''),
+        { retryable: true, context: { network: this.name, method, agreeing: best.length, required } }
+      );
+    }
+
+    return best[0].result;
+  }
+
+  /**
+   * Get the number of endpoints asked per quorum read and how many of them must agree
+   */
+  private getQuorumParams(): { size: number; required: number } {
+    const size = Math.min(this.quorum.size || this.endpoints.length, this.endpoints.length);
+    return { size, required: this.quorum.threshold || Math.floor(size / 2) + 1 };
+  }
+
+  /**
+   * Replace a moving block tag with a concrete block number so every endpoint reads the same state
+   */
+  private async pinBlockTag(method: string, params: unknown[]): Promise<unknown[]> {
+    const index = QUORUM_METHODS[method];
+    const tag = params[index];
+
+    let blockNumber: number;
+    if (tag === 'latest') {
+      const latest = parseInt(await this.failoverCall<string>('eth_blockNumber', []), 16);
+      const blockLag = this.quorum.blockLag !== undefined ? this.quorum.blockLag : DEFAULT_BLOCK_LAG;
+      blockNumber = Math.max(0, latest - blockLag);
+    } else if (tag === 'safe' || tag === 'finalized') {
+      const block = await this.failoverCall<{ number: string } | null>('eth_getBlockByNumber', [tag, false]);
+      if (!block) {
+        throw new ProviderError(`Block ${tag} not found`, { context: { network: this.name } });
+      }
+      blockNumber = parseInt(block.number, 16);
+    } else {
+      return params;
+    }
+
+    const pinned = [...params];
+    pinned[index] = `0x${blockNumber.toString(16)}`;
+    return pinned;
+  }
+
+  private async callEndpoint<T>(endpoint: EndpointState, method: string, params: unknown[]): Promise<T> {
+    const start = Date.now();
+    endpoint.totalRequests++;
+
+    try {
+      const result = await endpoint.client.call<T>(method, params);
+      this.recordSuccess(endpoint, Date.now() - start);
+      return result;
+    } catch (error:any) {
+      if (isTransportError(error)) {
+        this.recordFailure(endpoint, error.message);
+      } else {
+        this.recordSuccess(endpoint, Date.now() - start);
+      }
+      throw error;
+    }
+  }
+
+  private recordSuccess(endpoint: EndpointState, latency: number): void {
+    endpoint.latency = endpoint.latency === null
+      ? latency
+      : endpoint.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  private recordFailure(endpoint: EndpointState, message: string): void {
+    endpoint.consecutiveFailures++;
+    endpoint.totalFailures++;
+    endpoint.lastError = message;
+    endpoint.cooldownUntil = Date.now() + Math.min(
+      FAILURE_COOLDOWN_BASE * Math.pow(2, endpoint.consecutiveFailures - 1),
+      FAILURE_COOLDOWN_MAX
+    );
+
+    this.logger.warn(`RPC endpoint ${endpoint.url} failed, routing around it`, {
+      consecutiveFailures: endpoint.consecutiveFailures,
+      error: message
+    });
+  }
+
+  /**
+   * Available endpoints by priority, then latency (unmeasured first so they get
+   * probed); endpoints in cooldown follow as a last resort, soonest available first
+   */
+  private getRoutingOrder(): EndpointState[] {
+    const now = Date.now();
+    const available = this.endpoints
+      .filter(endpoint => endpoint.cooldownUntil <= now)
+      .sort((a, b) => a.priority - b.priority || (a.latency || 0) - (b.latency || 0));
+    const coolingDown = this.endpoints
+      .filter(endpoint => endpoint.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+    return available.concat(coolingDown);
+  }
+
+  private reportDisagreement(report: QuorumDisagreement): void {
+    this.disagreements.push(report);
+    if (this.disagreements.length > MAX_DISAGREEMENT_HISTORY) {
+      this.disagreements.shift();
+    }
+
+    this.logger.warn(`RPC endpoints disagree on ${report.method}`, {
+      network: report.network,
+      agreeing: report.agreeing,
+      required: report.required,
+      reached: report.reached
+    });
+    this.emit('disagreement', report);
+  }
+}
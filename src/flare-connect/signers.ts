@@ -0,0 +1,356 @@
+/**
+ * Signers for data-provider and attestation-request transactions
+ *
+ * Submitting components sign through the Signer interface instead of holding
+ * raw private keys. Keys come from an encrypted keystore file (Web3 Secret
+ * Storage v3: scrypt key derivation, AES-128-CTR encryption and a keccak256
+ * MAC), from an environment variable injected at deploy time, or stay on a
+ * remote signing service reached over HTTP. Keys loaded into the process are
+ * kept in a module-private WeakMap rather than on the signer objects, so
+ * serializing or logging a signer or the config holding it never exposes them.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scrypt } from 'crypto';
+import * as fs from 'fs';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes, strip0x } from './abi';
+import { privateKeyToAddress, publicKeyToAddress } from './transaction';
+import { DigestSignature, KeystoreFile, KeystoreOptions, Signer, SignerConfig } from './types';
+import { ValidationError, VerificationError, fromHttpError, wrapError } from '../utils/errors';
+import { getCorrelationHeaders } from '../utils/logger';
+
+export const DEFAULT_PRIVATE_KEY_ENV = 'FLARE_SIGNER_PRIVATE_KEY';
+export const DEFAULT_KEYSTORE_PASSWORD_ENV = 'FLARE_KEYSTORE_PASSWORD';
+
+const DEFAULT_SCRYPT_N = 262144;
+const DEFAULT_SCRYPT_R = 8;
+const DEFAULT_SCRYPT_P = 1;
+const DERIVED_KEY_LENGTH = 32;
+const KEYSTORE_CIPHER = 'aes-128-ctr';
+const DEFAULT_REMOTE_TIMEOUT = 10000;
+
+const signingKeys = new WeakMap<Signer, Uint8Array>();
+
+function parsePrivateKey(privateKey: string, field: string): Uint8Array {
+  const hex = strip0x(privateKey.trim());
+  if (!/^[0-9a-fA-F]{64}$/.test(hex) || !secp256k1.utils.isValidPrivateKey(hexToBytes(hex))) {
+    throw new ValidationError(`${field} is not a valid secp256k1 private key`, { context: { field } });
+  }
+  return hexToBytes(hex);
+}
+
+function parseDigest(digest: string): Uint8Array {
+  const hex = strip0x(digest);
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new ValidationError('Digest must be 32 bytes of hex', { context: { field: 'digest' } });
+  }
+  return hexToBytes(hex);
+}
+
+function signWithKey(key: Uint8Array, digest: string): DigestSignature {
+  const signature = secp256k1.sign(parseDigest(digest), key, { lowS: true });
+  return {
+    r: `0x${signature.r.toString(16).padStart(64, '0')}`,
+    s: `0x${signature.s.toString(16).padStart(64, '0')}`,
+    recovery: signature.recovery
+  };
+}
+
+function deriveKeystoreKey(password: string, salt: Uint8Array, n: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, DERIVED_KEY_LENGTH, { N: n, r, p, maxmem: 256 * n * r }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+function keystoreMac(derivedKey: Uint8Array, ciphertext: Uint8Array): string {
+  const macInput = new Uint8Array(16 + ciphertext.length);
+  macInput.set(derivedKey.slice(16, 32));
+  macInput.set(ciphertext, 16);
+  return bytesToHex(keccak_256(macInput));
+}
+
+/**
+ * Recover the 0x address that produced a signature over a digest
+ */
+export function recoverDigestSigner(digest: string, signature: DigestSignature): string {
+  const publicKey = new secp256k1.Signature(BigInt(signature.r), BigInt(signature.s))
+    .addRecoveryBit(signature.recovery)
+    .recoverPublicKey(parseDigest(digest));
+  return publicKeyToAddress(publicKey.toRawBytes(false));
+}
+
+/**
+ * Encrypt a private key into a keystore; the scrypt cost can be lowered for tests
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  password: string,
+  options: KeystoreOptions = {}
+): Promise<KeystoreFile> {
+  const key = parsePrivateKey(privateKey, 'privateKey');
+  const n = options.scryptN || DEFAULT_SCRYPT_N;
+  const r = options.scryptR || DEFAULT_SCRYPT_R;
+  const p = options.scryptP || DEFAULT_SCRYPT_P;
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+
+  const derivedKey = await deriveKeystoreKey(password, salt, n, r, p);
+  const cipher = createCipheriv(KEYSTORE_CIPHER, derivedKey.slice(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: strip0x(privateKeyToAddress(bytesToHex(key))),
+    crypto: {
+      cipher: KEYSTORE_CIPHER,
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams: { iv: iv.toString('hex') },
+      kdf: 'scrypt',
+      kdfparams: { dklen: DERIVED_KEY_LENGTH, n, r, p, salt: salt.toString('hex') },
+      mac: keystoreMac(derivedKey, ciphertext)
+    }
+  };
+}
+
+/**
+ * Decrypt the private key of a keystore, checking the password against its MAC
+ */
+async function decryptKeystore(keystore: KeystoreFile, password: string): Promise<Uint8Array> {
+  const crypto = keystore && keystore.crypto;
+  if (!crypto || keystore.version !== 3 || crypto.kdf !== 'scrypt' || crypto.cipher !== KEYSTORE_CIPHER) {
+    throw new ValidationError('Only version 3 scrypt/aes-128-ctr keystores are supported', { context: { field: 'keystore' } });
+  }
+
+  const { n, r, p, salt, dklen } = crypto.kdfparams;
+  if (dklen !== DERIVED_KEY_LENGTH) {
+    throw new ValidationError(`Unsupported keystore key length ${dklen}`, { context: { field: 'keystore' } });
+  }
+
+  const derivedKey = await deriveKeystoreKey(password, hexToBytes(salt), n, r, p);
+  const ciphertext = hexToBytes(crypto.ciphertext);
+  if (keystoreMac(derivedKey, ciphertext) !== crypto.mac.toLowerCase()) {
+    throw new VerificationError('Keystore password is incorrect or the keystore is corrupted');
+  }
+
+  const decipher = createDecipheriv(KEYSTORE_CIPHER, derivedKey.slice(0, 16), hexToBytes(crypto.cipherparams.iv));
+  return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+/**
+ * Signs with a key decrypted from a keystore file on first use
+ */
+export class KeystoreSigner implements Signer {
+  private filePath: string;
+  private passwordEnv: string;
+  private address: string | null = null;
+  private unlocking: Promise<string> | null = null;
+
+  /**
+   * Create a signer for a keystore file whose password is read from an
+   * environment variable when the key is first needed
+   */
+  constructor(filePath: string, passwordEnv: string = DEFAULT_KEYSTORE_PASSWORD_ENV) {
+    this.filePath = filePath;
+    this.passwordEnv = passwordEnv;
+  }
+
+  /**
+   * Decrypt a keystore file with the given password
+   */
+  static async unlock(filePath: string, password: string): Promise<KeystoreSigner> {
+    const signer = new KeystoreSigner(filePath);
+    signer.unlocking = signer.decrypt(password);
+    await signer.getAddress();
+    return signer;
+  }
+
+  async getAddress(): Promise<string> {
+    if (this.address) {
+      return this.address;
+    }
+    if (!this.unlocking) {
+      const password = process.env[this.passwordEnv];
+      if (password === undefined) {
+        throw new ValidationError(`Environment variable ${this.passwordEnv} with the keystore password is not set`, {
+          context: { field: 'passwordEnv' }
+        });
+      }
+      this.unlocking = this.decrypt(password);
+    }
+
+    try {
+      this.address = await this.unlocking;
+      return this.address;
+    } catch (error) {
+      // Allow another attempt, e.g. after the password variable was fixed
+      this.unlocking = null;
+      throw error;
+    }
+  }
+
+  async signDigest(digest: string): Promise<DigestSignature> {
+    await this.getAddress();
+    return signWithKey(signingKeys.get(this)!, digest);
+  }
+
+  private async decrypt(password: string): Promise<string> {
+    let keystore: KeystoreFile;
+    try {
+      keystore = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      throw wrapError(error, `Failed to read keystore ${this.filePath}`);
+    }
+
+    const key = await decryptKeystore(keystore, password);
+    const address = privateKeyToAddress(bytesToHex(key));
+    if (keystore.address && strip0x(keystore.address).toLowerCase() !== strip0x(address)) {
+      throw new VerificationError(`Keystore ${this.filePath} does not hold the key of its address ${keystore.address}`);
+    }
+
+    signingKeys.set(this, key);
+    return address;
+  }
+}
+
+/**
+ * Signs with a private key injected through an environment variable
+ */
+export class EnvironmentSigner implements Signer {
+  private address: string;
+
+  /**
+   * Read the key from the environment; fails at once if it is missing or invalid
+   */
+  constructor(variable: string = DEFAULT_PRIVATE_KEY_ENV) {
+    const value = process.env[variable];
+    if (!value) {
+      throw new ValidationError(`Environment variable ${variable} with the signing key is not set`, {
+        context: { field: 'variable' }
+      });
+    }
+
+    const key = parsePrivateKey(value, variable);
+    signingKeys.set(this, key);
+    this.address = privateKeyToAddress(bytesToHex(key));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signDigest(digest: string): Promise<DigestSignature> {
+    return signWithKey(signingKeys.get(this)!, digest);
+  }
+}
+
+/**
+ * Signs through a remote signing service
+ *
+ * The service answers `GET /address` with `{ "address": "0x..." }` and
+ * `POST /sign` with body `{ "digest": "0x..." }` with `{ "r", "s", "recovery" }`.
+ * Every signature is checked to recover to the service's address.
+ */
+export class RemoteSigner implements Signer {
+  private http: AxiosInstance;
+  private url: string;
+  private expectedAddress?: string;
+  private address: string | null = null;
+
+  /**
+   * Create a signer for a service; `authToken` is sent as a bearer token
+   */
+  constructor(options: { url: string; address?: string; authToken?: string; timeout?: number }) {
+    this.url = options.url.replace(/\/+$/, '');
+    this.expectedAddress = options.address ? options.address.toLowerCase() : undefined;
+    this.http = axios.create({
+      baseURL: this.url,
+      timeout: options.timeout || DEFAULT_REMOTE_TIMEOUT,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.authToken ? { Authorization: `Bearer ${options.authToken}` } : {})
+      }
+    });
+    this.http.interceptors.request.use(request => {
+      request.headers.set(getCorrelationHeaders());
+      return request;
+    });
+    this.http.interceptors.response.use(undefined, error => Promise.reject(fromHttpError(error, { signer: this.url })));
+  }
+
+  async getAddress(): Promise<string> {
+    if (this.address) {
+      return this.address;
+    }
+
+    const response = await this.http.get<{ address: string }>('/address');
+    const address = String((response.data || {} as any).address || '').toLowerCase();
+    if (!/^0x[0-9a-f]{40}$/.test(address)) {
+      throw new VerificationError(`Remote signer ${this.url} returned an invalid address`);
+    }
+    if (this.expectedAddress && address !== this.expectedAddress) {
+      throw new VerificationError(`Remote signer ${this.url} signs for ${address}, expected ${this.expectedAddress}`);
+    }
+
+    this.address = address;
+    return address;
+  }
+
+  async signDigest(digest: string): Promise<DigestSignature> {
+    const address = await this.getAddress();
+    const response = await this.http.post<DigestSignature>('/sign', { digest });
+    const signature = response.data;
+
+    let signer: string;
+    try {
+      signer = recoverDigestSigner(digest, signature);
+    } catch (error) {
+      throw new VerificationError(`Remote signer ${this.url} returned a malformed signature`, { cause: error });
+    }
+    if (signer !== address) {
+      throw new VerificationError(`Remote signer ${this.url} returned a signature by ${signer}, expected ${address}`);
+    }
+    return { r: signature.r, s: signature.s, recovery: signature.recovery };
+  }
+}
+
+/**
+ * Check whether a value is a ready signer rather than a signer configuration
+ */
+export function isSigner(value: unknown): value is Signer {
+  return value !== null && typeof value === 'object' && typeof (value as Partial<Signer>).signDigest === 'function';
+}
+
+/**
+ * Get the signer for a configuration; signers are returned as they are
+ */
+export function createSigner(config: Signer | SignerConfig): Signer {
+  if (isSigner(config)) {
+    return config;
+  }
+
+  switch (config.type) {
+    case 'keystore':
+      return new KeystoreSigner(config.path, config.passwordEnv);
+    case 'env':
+      return new EnvironmentSigner(config.variable);
+    case 'remote':
+      if (config.authTokenEnv && !process.env[config.authTokenEnv]) {
+        throw new ValidationError(`Environment variable ${config.authTokenEnv} with the signer auth token is not set`, {
+          context: { field: 'signer.authTokenEnv' }
+        });
+      }
+      return new RemoteSigner({
+        url: config.url,
+        address: config.address,
+        authToken: config.authTokenEnv ? process.env[config.authTokenEnv] : undefined,
+        timeout: config.timeout
+      });
+    default:
+      throw new ValidationError(`Unknown signer type ${(config as any).type}`, { context: { field: 'signer.type' } });
+  }
+}
@@ -0,0 +1,853 @@
+/**
+ * Deterministic simulation of the Flare services behind the connectors
+ *
+ * A FlareSimulator models a Flare chain from a scenario: FTSO feeds follow seeded
+ * random walks, simulated data providers reveal values around them every epoch,
+ * FDC requests are attested after a configurable number of voting rounds and
+ * State Connector queries are answered with attestations signed by simulated
+ * attesters. Scenario events inject edge cases (rounds without consensus, price
+ * shocks, failed attestations, insufficient signatures, outages) for ranges of
+ * epochs counted from the scenario's start epoch.
+ *
+ * Prices, reveals and attestation responses are pure functions of the seed and
+ * the epoch or request, so two simulators built from the same scenario agree;
+ * injected call failures and request IDs follow a seeded sequence and repeat for
+ * the same order of calls.
+ */
+
+import * as fs from 'fs';
+import { decodeBytes, encodeUint, functionSelector, keccak256Hex, strip0x, bytesToHex } from './abi';
+import { AttestationEnvelope, signAttestation } from './attestation-signing';
+import { EpochClock } from './epoch-clock';
+import { decodeAttestationRequest, encodeAttestationResponse } from './fdc-queries';
+import { encodeFeedValues, encodeProtocolMessage } from './ftso-commit-reveal';
+import { sortFeeds, toFeedId, toFeedName } from './ftso-transport';
+import { buildMerkleTree, hashLeaf } from './merkle';
+import { rlpDecode } from './rlp';
+import { privateKeyToAddress, transactionHash } from './transaction';
+import {
+  AttestationResponse,
+  BlockInfo,
+  FDCAttestationType,
+  FDCTransport,
+  FeedValue,
+  FlareServiceName,
+  FTSOTransport,
+  RewardEpochFeed,
+  SimulatedFeed,
+  SimulatedProvider,
+  SimulationEvent,
+  SimulationEventType,
+  SimulationScenario,
+  StateQueryRequest,
+  TransactionInfo,
+  TransactionReceipt,
+  TrustedSigner
+} from './types';
+import { ConnectionError, ProviderError, ValidationError, wrapError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+const DEFAULT_SEED = 1;
+const DEFAULT_HISTORY_EPOCHS = 100;
+const DEFAULT_BLOCK_TIME = 1800;
+const DEFAULT_CHAIN_ID = 14;
+const DEFAULT_VOLATILITY = 0.002;
+const DEFAULT_PROVIDER_COUNT = 5;
+const DEFAULT_PROVIDER_DEVIATION = 0.001;
+const DEFAULT_REVEAL_RATE = 1;
+const DEFAULT_DELAY_ROUNDS = 1;
+const DEFAULT_SIGNERS = 5;
+const DEFAULT_INSUFFICIENT_SIGNERS = 1;
+const ATTESTATION_VALIDITY = 24 * 60 * 60 * 1000;
+const GAS_PRICE = BigInt(25000000000);
+const GAS_ESTIMATE = BigInt(100000);
+const REQUEST_FEE = BigInt('1000000000000000000');
+
+const SUBMIT2_SELECTOR = functionSelector('submit2()');
+const REQUEST_ATTESTATION = functionSelector('requestAttestation(bytes)');
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+
+/**
+ * Address formats accepted by simulated AddressValidity attestations, by source ID
+ */
+const ADDRESS_PATTERNS: Record<string, RegExp> = {
+  BTC: /^(bc1[02-9ac-hj-np-z]{11,71}|[13][1-9A-HJ-NP-Za-km-z]{25,34})$/,
+  testBTC: /^(tb1[02-9ac-hj-np-z]{11,71}|[mn2][1-9A-HJ-NP-Za-km-z]{25,34})$/,
+  DOGE: /^[DA9][1-9A-HJ-NP-Za-km-z]{25,34}$/,
+  testDOGE: /^[nm2][1-9A-HJ-NP-Za-km-z]{25,34}$/,
+  XRP: /^r[1-9A-HJ-NP-Za-km-z]{24,34}$/,
+  testXRP: /^r[1-9A-HJ-NP-Za-km-z]{24,34}$/
+};
+
+export interface FlareSimulatorOptions {
+  seed?: number;
+  epochClock?: EpochClock;
+  logLevel?: string;
+}
+
+interface SimulatedTransaction {
+  hash: string;
+  to: string;
+  data: string;
+  blockNumber: number;
+}
+
+interface AttestedRound {
+  root: string;
+  proofs: Map<string, { responseHex: string; proof: string[] }>;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 generator of uniform values in [0, 1)
+ */
+function createGenerator(state: number): () => number {
+  let current = state >>> 0;
+  return () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class FlareSimulator {
+  private scenario: SimulationScenario;
+  private seed: number;
+  private epochClock: EpochClock;
+  private logger: Logger;
+  private startEpoch: number;
+  private genesisEpoch: number;
+  private genesisTime: number;
+  private blockTime: number;
+  private feeds: SimulatedFeed[];
+  private providers: SimulatedProvider[];
+  private signerKeys: string[];
+  private sequence: () => number;
+  private requestCount = 0;
+  private walks: Map<string, number[]> = new Map();
+  private transactions: Map<string, SimulatedTransaction> = new Map();
+  private attestationRequests: Map<number, string[]> = new Map();
+  private attestedRounds: Map<number, AttestedRound> = new Map();
+  private trackedTransactions: Map<string, number> = new Map();
+
+  /**
+   * Create a simulator for a scenario; `options.seed` overrides the scenario's seed
+   */
+  constructor(scenario: SimulationScenario = {}, options: FlareSimulatorOptions = {}) {
+    this.scenario = scenario;
+    this.seed = options.seed !== undefined ? options.seed : (scenario.seed !== undefined ? scenario.seed : DEFAULT_SEED);
+    this.epochClock = options.epochClock || new EpochClock();
+    this.logger = new Logger({
+      serviceName: 'FlareSimulator',
+      logLevel: options.logLevel || 'info'
+    });
+
+    this.blockTime = scenario.blockTime || DEFAULT_BLOCK_TIME;
+    this.startEpoch = this.epochClock.getEpochId(scenario.startTime !== undefined ? scenario.startTime : Date.now());
+    this.genesisEpoch = this.startEpoch - (scenario.historyEpochs !== undefined ? scenario.historyEpochs : DEFAULT_HISTORY_EPOCHS);
+    this.genesisTime = this.epochClock.getEpochStart(this.genesisEpoch);
+    this.sequence = createGenerator(hashString(`${this.seed}:sequence`));
+
+    this.feeds = (scenario.feeds || []).map(feed => ({ ...feed, symbol: toFeedName(feed.symbol) }));
+    this.providers = scenario.providers && scenario.providers.length > 0
+      ? scenario.providers.map(provider => ({ ...provider, address: provider.address.toLowerCase() }))
+      : Array.from({ length: DEFAULT_PROVIDER_COUNT }, (_, i) => ({
+        address: `0x${strip0x(this.randomHex(`provider:${i}`)).slice(-40)}`
+      }));
+
+    const attestation = scenario.attestation || {};
+    this.signerKeys = Array.from(
+      { length: attestation.signers || DEFAULT_SIGNERS },
+      (_, i) => this.randomHex(`signer:${i}`)
+    );
+
+    this.logger.info(`Created simulator${scenario.name ? ` for scenario ${scenario.name}` : ''}`, {
+      seed: this.seed,
+      startEpoch: this.startEpoch,
+      feeds: this.feeds.length,
+      providers: this.providers.length
+    });
+  }
+
+  /**
+   * Create a simulator from a scenario JSON file
+   */
+  static fromFile(filePath: string, options: FlareSimulatorOptions = {}): FlareSimulator {
+    let scenario: SimulationScenario;
+    try {
+      scenario = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error:any) {
+      throw wrapError(error, `Failed to load simulation scenario ${filePath}`);
+    }
+    return new FlareSimulator(scenario, options);
+  }
+
+  /**
+   * Get the scenario being simulated
+   */
+  getScenario(): SimulationScenario {
+    return { ...this.scenario };
+  }
+
+  /**
+   * Get the epoch that scenario event epochs are counted from
+   */
+  getStartEpoch(): number {
+    return this.startEpoch;
+  }
+
+  /**
+   * Get the simulated State Connector attesters, to configure as trusted signers
+   */
+  getSigners(): TrustedSigner[] {
+    return this.signerKeys.map((key, i) => ({
+      address: privateKeyToAddress(key),
+      weight: 1,
+      name: `simulated-attester-${i + 1}`
+    }));
+  }
+
+  /**
+   * Get the simulated data providers, e.g. to configure their vote power
+   */
+  getProviders(): SimulatedProvider[] {
+    return this.providers.map(provider => ({ ...provider }));
+  }
+
+  /**
+   * Get the delay before a simulated State Connector query is answered, in milliseconds
+   */
+  getResponseDelay(): number {
+    const attestation = this.scenario.attestation || {};
+    return attestation.responseDelay || 0;
+  }
+
+  /**
+   * Get the next request ID of the seeded sequence, for requests made against this simulator
+   */
+  nextRequestId(prefix: string): string {
+    return `${prefix}-${this.seed}-${++this.requestCount}`;
+  }
+
+  /**
+   * Get a simulated round-trip latency in milliseconds
+   */
+  getLatency(): number {
+    return 20 + Math.floor(this.sequence() * 80);
+  }
+
+  /**
+   * Create an FTSO transport backed by this simulator
+   */
+  createFTSOTransport(): FTSOTransport {
+    return {
+      ...this.createTransactionRpc('ftso'),
+      connect: async () => this.checkAvailable('ftso'),
+      close: async () => undefined,
+      ping: async () => {
+        this.checkAvailable('ftso');
+        return this.getLatency();
+      },
+      getContractAddress: async (name: string) => {
+        this.checkAvailable('ftso');
+        return this.getContractAddress(name);
+      },
+      getBlock: async (blockTag: number | 'latest' = 'latest') => {
+        this.checkAvailable('ftso');
+        return this.getBlock(blockTag);
+      },
+      getFeedValues: async (symbols: string[], blockTag: number | 'latest' = 'latest') => {
+        this.checkAvailable('ftso');
+        return this.getFeedValues(symbols, this.getBlock(blockTag).timestamp);
+      },
+      getBlockTransactions: async (blockNumber: number) => {
+        this.checkAvailable('ftso');
+        return this.getBlockTransactions(blockNumber);
+      },
+      getTransactionReceipt: async (hash: string) => {
+        this.checkAvailable('ftso');
+        return this.getTransactionReceipt(hash);
+      },
+      getRewardEpochFeeds: async (_rewardEpochId: number) => {
+        this.checkAvailable('ftso');
+        return this.getRewardEpochFeeds();
+      }
+    };
+  }
+
+  /**
+   * Create an FDC transport backed by this simulator
+   */
+  createFDCTransport(): FDCTransport {
+    return {
+      ...this.createTransactionRpc('fdc'),
+      connect: async () => this.checkAvailable('fdc'),
+      close: async () => undefined,
+      ping: async () => {
+        this.checkAvailable('fdc');
+        return this.getLatency();
+      },
+      getContractAddress: async (name: string) => {
+        this.checkAvailable('fdc');
+        return this.getContractAddress(name);
+      },
+      getBlock: async (blockTag: number | 'latest' = 'latest') => {
+        this.checkAvailable('fdc');
+        return this.getBlock(blockTag);
+      },
+      getTransactionReceipt: async (hash: string) => {
+        this.checkAvailable('fdc');
+        return this.getTransactionReceipt(hash);
+      },
+      getRequestFee: async () => {
+        this.checkAvailable('fdc');
+        return REQUEST_FEE;
+      },
+      getMerkleRoot: async (votingRoundId: number) => {
+        this.checkAvailable('fdc');
+        const round = this.getAttestedRound(votingRoundId);
+        return round ? round.root : null;
+      },
+      getProof: async (votingRoundId: number, abiEncodedRequest: string) => {
+        this.checkAvailable('fdc');
+        const round = this.getAttestedRound(votingRoundId);
+        const proof = round ? round.proofs.get(abiEncodedRequest.toLowerCase()) : undefined;
+        return proof ? { responseHex: proof.responseHex, proof: [...proof.proof] } : null;
+      }
+    };
+  }
+
+  /**
+   * Answer a State Connector query with an attestation signed by the simulated attesters
+   *
+   * Transaction verifications stay PENDING until the attestation delay has passed
+   * since the transaction was first queried.
+   */
+  queryState(request: StateQueryRequest): AttestationResponse {
+    this.checkAvailable('stateConnector');
+
+    const epoch = this.epochClock.getEpochId();
+    if (this.isEventActive('ATTESTATION_FAILURE', epoch, { service: 'stateConnector' })) {
+      throw new ProviderError(`Simulated attestation failure for ${request.blockchain}`);
+    }
+
+    const key = `${request.blockchain}:${request.address.toLowerCase()}:${request.queryType}:${JSON.stringify(request.queryData || {})}`;
+    let responseData: any;
+
+    switch (request.queryType) {
+      case 'ACCOUNT_STATE':
+        responseData = {
+          balance: (this.random(`balance:${key}`) * 10000).toFixed(6),
+          nonce: Math.floor(this.random(`nonce:${key}`) * 1000),
+          codeHash: this.randomHex(`code:${key}`),
+          storageRoot: this.randomHex(`storage:${key}`)
+        };
+        break;
+      case 'TRANSACTION_VERIFICATION': {
+        if (!this.trackedTransactions.has(key)) {
+          this.trackedTransactions.set(key, epoch);
+        }
+        const elapsed = epoch - this.trackedTransactions.get(key)!;
+        const confirmed = elapsed >= this.getDelayRounds();
+        responseData = {
+          transactionHash: request.queryData && request.queryData.transactionHash
+            ? request.queryData.transactionHash
+            : this.randomHex(`transaction:${key}`),
+          status: confirmed ? 'CONFIRMED' : 'PENDING',
+          confirmations: confirmed ? elapsed - this.getDelayRounds() + 1 : 0,
+          blockHeight: 1000000 + Math.floor(this.random(`height:${key}`) * 1000000),
+          blockHash: this.randomHex(`block:${key}`)
+        };
+        break;
+      }
+      case 'CONTRACT_CALL':
+        responseData = {
+          result: this.randomHex(`call:${key}`),
+          blockHeight: 1000000 + Math.floor(this.random(`height:${key}`) * 1000000)
+        };
+        break;
+      default:
+        throw new ValidationError(`Unsupported query type ${request.queryType}`, { context: { field: 'queryType' } });
+    }
+
+    const attestation = this.scenario.attestation || {};
+    const signerCount = this.isEventActive('INSUFFICIENT_SIGNATURES', epoch, { service: 'stateConnector' })
+      ? Math.min(attestation.insufficientSigners !== undefined ? attestation.insufficientSigners : DEFAULT_INSUFFICIENT_SIGNERS, this.signerKeys.length)
+      : this.signerKeys.length;
+    const now = Date.now();
+    const envelope: AttestationEnvelope = {
+      requestId: this.nextRequestId('sim'),
+      blockchain: request.blockchain,
+      address: request.address,
+      queryData: request.queryData,
+      responseData,
+      timestamp: now,
+      validUntil: now + ATTESTATION_VALIDITY
+    };
+
+    return {
+      requestId: envelope.requestId,
+      blockchain: envelope.blockchain,
+      address: envelope.address,
+      queryData: envelope.queryData,
+      responseData,
+      attestation: {
+        signatures: this.signerKeys.slice(0, signerCount).map(signerKey => ({
+          signer: privateKeyToAddress(signerKey),
+          signature: signAttestation(envelope, signerKey)
+        })),
+        timestamp: envelope.timestamp,
+        validUntil: envelope.validUntil
+      },
+      metadata: {
+        responseTime: this.getResponseDelay(),
+        source: `${request.blockchain}-simulator`,
+        attestationSchema: `${request.queryType}_SCHEMA_V1`
+      }
+    };
+  }
+
+  /**
+   * Get the transaction methods shared by the simulated transports
+   */
+  private createTransactionRpc(service: FlareServiceName) {
+    return {
+      getChainId: async () => {
+        this.checkAvailable(service);
+        return this.scenario.chainId || DEFAULT_CHAIN_ID;
+      },
+      getTransactionCount: async (_address: string) => {
+        this.checkAvailable(service);
+        return 0;
+      },
+      getGasPrice: async () => {
+        this.checkAvailable(service);
+        return GAS_PRICE;
+      },
+      estimateGas: async (_request: { from: string; to: string; data: string; value?: string }) => {
+        this.checkAvailable(service);
+        return GAS_ESTIMATE;
+      },
+      sendRawTransaction: async (rawTransaction: string) => {
+        this.checkAvailable(service);
+        return this.mineTransaction(rawTransaction);
+      }
+    };
+  }
+
+  /**
+   * Accept a raw transaction into the next block; FdcHub attestation requests are
+   * queued for the voting round of that block
+   */
+  private mineTransaction(rawTransaction: string): string {
+    const fields = rlpDecode(rawTransaction);
+    if (!Array.isArray(fields) || fields.length < 6 || Array.isArray(fields[3]) || Array.isArray(fields[5])) {
+      throw new ValidationError('Invalid raw transaction');
+    }
+
+    const hash = transactionHash(rawTransaction);
+    const transaction: SimulatedTransaction = {
+      hash,
+      to: `0x${bytesToHex(fields[3] as Uint8Array)}`,
+      data: `0x${bytesToHex(fields[5] as Uint8Array)}`,
+      blockNumber: this.getLatestBlockNumber() + 1
+    };
+    this.transactions.set(hash, transaction);
+
+    if (transaction.to === this.getContractAddress('FdcHub') && transaction.data.startsWith(REQUEST_ATTESTATION)) {
+      const votingRoundId = this.epochClock.getEpochId(this.getBlockTimestamp(transaction.blockNumber));
+      const abiEncodedRequest = decodeBytes(transaction.data.slice(REQUEST_ATTESTATION.length), 0).toLowerCase();
+      this.attestationRequests.set(votingRoundId, (this.attestationRequests.get(votingRoundId) || []).concat(abiEncodedRequest));
+      this.logger.debug('Simulated attestation request', { hash, votingRoundId });
+    }
+
+    return hash;
+  }
+
+  private getTransactionReceipt(hash: string): TransactionReceipt | null {
+    const transaction = this.transactions.get(hash);
+    if (!transaction || transaction.blockNumber > this.getLatestBlockNumber()) {
+      return null;
+    }
+    return { transactionHash: hash, blockNumber: transaction.blockNumber, status: true };
+  }
+
+  /**
+   * Get the attestations of a voting round once it is finalized, building them on first use
+   *
+   * A round is finalized once the reveal window of the round `delayRounds`
+   * after it (at least one) has closed. Requests of unsupported types, requests hit by the attestation failure rate
+   * and every request of a round with an ATTESTATION_FAILURE event are left out.
+   */
+  private getAttestedRound(votingRoundId: number): AttestedRound | null {
+    if (Date.now() < this.epochClock.getRevealDeadline(votingRoundId + Math.max(1, this.getDelayRounds()) - 1)) {
+      return null;
+    }
+
+    const cached = this.attestedRounds.get(votingRoundId);
+    if (cached) {
+      return cached;
+    }
+
+    const failureRate = (this.scenario.attestation || {}).failureRate || 0;
+    const roundFailed = this.isEventActive('ATTESTATION_FAILURE', votingRoundId, { service: 'fdc' });
+    const attested: Array<{ request: string; responseHex: string }> = [];
+
+    Array.from(new Set(this.attestationRequests.get(votingRoundId) || [])).forEach(request => {
+      if (roundFailed || this.random(`attestation:${votingRoundId}:${request}`) < failureRate) {
+        return;
+      }
+      try {
+        attested.push({ request, responseHex: this.createAttestationResponse(votingRoundId, request) });
+      } catch (error:any) {
+        this.logger.debug('Simulated request not attested', { votingRoundId, error: error.message });
+      }
+    });
+
+    let round: AttestedRound;
+    if (attested.length === 0) {
+      round = { root: this.randomHex(`empty-round:${votingRoundId}`), proofs: new Map() };
+    } else {
+      const tree = buildMerkleTree(attested.map(entry => hashLeaf(entry.responseHex)));
+      round = { root: tree.root, proofs: new Map() };
+      attested.forEach((entry, i) => round.proofs.set(entry.request, { responseHex: entry.responseHex, proof: tree.proofs[i] }));
+    }
+
+    this.attestedRounds.set(votingRoundId, round);
+    return round;
+  }
+
+  /**
+   * Build the encoded response to an attestation request, with response fields derived from the request
+   */
+  private createAttestationResponse(votingRoundId: number, abiEncodedRequest: string): string {
+    const request = decodeAttestationRequest(abiEncodedRequest);
+    const key = `response:${abiEncodedRequest}`;
+    const timestamp = Math.floor(this.epochClock.getEpochStart(votingRoundId) / 1000) - 600;
+    const blockNumber = 1000000 + Math.floor(this.random(`${key}:block`) * 1000000);
+    const amount = BigInt(1000 + Math.floor(this.random(`${key}:amount`) * 100000000));
+    const fee = BigInt(Math.floor(this.random(`${key}:fee`) * 1000));
+
+    return encodeAttestationResponse({
+      attestationType: request.attestationType,
+      sourceId: request.sourceId,
+      votingRound: votingRoundId,
+      lowestUsedTimestamp: timestamp,
+      requestBody: request.requestBody,
+      responseBody: this.createResponseBody(request.attestationType, request.sourceId, request.requestBody, key, {
+        blockNumber,
+        timestamp,
+        amount,
+        fee
+      })
+    });
+  }
+
+  private createResponseBody(
+    attestationType: FDCAttestationType,
+    sourceId: string,
+    requestBody: any,
+    key: string,
+    values: { blockNumber: number; timestamp: number; amount: bigint; fee: bigint }
+  ): any {
+    switch (attestationType) {
+      case 'Payment':
+        return {
+          blockNumber: values.blockNumber,
+          blockTimestamp: values.timestamp,
+          sourceAddressHash: this.randomHex(`${key}:source`),
+          sourceAddressesRoot: this.randomHex(`${key}:sources`),
+          receivingAddressHash: this.randomHex(`${key}:receiver`),
+          intendedReceivingAddressHash: this.randomHex(`${key}:receiver`),
+          spentAmount: (values.amount + values.fee).toString(),
+          intendedSpentAmount: (values.amount + values.fee).toString(),
+          receivedAmount: values.amount.toString(),
+          intendedReceivedAmount: values.amount.toString(),
+          standardPaymentReference: this.randomHex(`${key}:reference`),
+          oneToOne: true,
+          status: 0
+        };
+      case 'BalanceDecreasingTransaction':
+        return {
+          blockNumber: values.blockNumber,
+          blockTimestamp: values.timestamp,
+          sourceAddressHash: requestBody.sourceAddressIndicator,
+          spentAmount: (values.amount + values.fee).toString(),
+          standardPaymentReference: this.randomHex(`${key}:reference`)
+        };
+      case 'EVMTransaction': {
+        const logIndices: number[] = requestBody.logIndices && requestBody.logIndices.length > 0 ? requestBody.logIndices : [0, 1];
+        return {
+          blockNumber: values.blockNumber,
+          timestamp: values.timestamp,
+          sourceAddress: `0x${strip0x(this.randomHex(`${key}:from`)).slice(-40)}`,
+          isDeployment: false,
+          receivingAddress: `0x${strip0x(this.randomHex(`${key}:to`)).slice(-40)}`,
+          value: values.amount.toString(),
+          input: requestBody.provideInput ? `${functionSelector('transfer(address,uint256)')}${encodeUint(values.amount)}` : '0x',
+          status: 1,
+          events: requestBody.listEvents ? logIndices.map(logIndex => ({
+            logIndex,
+            emitterAddress: `0x${strip0x(this.randomHex(`${key}:emitter:${logIndex}`)).slice(-40)}`,
+            topics: [this.randomHex(`${key}:topic:${logIndex}`)],
+            data: this.randomHex(`${key}:data:${logIndex}`),
+            removed: false
+          })) : []
+        };
+      }
+      case 'AddressValidity': {
+        const pattern = ADDRESS_PATTERNS[sourceId] || /^0x[0-9a-fA-F]{40}$/;
+        const isValid = pattern.test(requestBody.addressStr);
+        return {
+          isValid,
+          standardAddress: isValid ? requestBody.addressStr : '',
+          standardAddressHash: isValid ? keccak256Hex(requestBody.addressStr) : ZERO_HASH
+        };
+      }
+      case 'JsonApi':
+        return {
+          abiEncodedData: `0x${encodeUint(Math.floor(this.random(`${key}:json`) * 1000000))}`
+        };
+      default:
+        throw new ValidationError(`Unsupported attestation type ${attestationType}`, { context: { field: 'attestationType' } });
+    }
+  }
+
+  /**
+   * Get the values of feeds as finalized at a time: the last epoch ended before it
+   */
+  private getFeedValues(symbols: string[], timestamp: number): FeedValue[] {
+    const epoch = this.epochClock.getEpochId(timestamp) - 1;
+
+    return symbols.map(symbol => {
+      const feed = this.getFeed(symbol);
+      const decimals = this.getFeedDecimals(feed);
+      const noConsensus = this.isEventActive('NO_CONSENSUS', epoch, { symbol: feed.symbol });
+      const rawValue = noConsensus ? BigInt(0) : BigInt(Math.round(this.getPrice(feed, epoch) * Math.pow(10, decimals)));
+
+      return {
+        symbol,
+        feedId: toFeedId(symbol),
+        value: Number(rawValue) / Math.pow(10, decimals),
+        rawValue: rawValue.toString(),
+        decimals,
+        timestamp: noConsensus ? 0 : this.epochClock.getEpochEnd(epoch)
+      };
+    });
+  }
+
+  /**
+   * Get the reveal transactions of the simulated providers in a block
+   *
+   * Each provider reveals once per epoch, at its own block offset into the reveal
+   * window, for the scenario's feeds in canonical order.
+   */
+  private getBlockTransactions(blockNumber: number): TransactionInfo[] {
+    const latest = this.getLatestBlockNumber();
+    if (blockNumber < 0 || blockNumber > latest) {
+      throw new ProviderError(`Block ${blockNumber} not found`);
+    }
+
+    const epoch = this.epochClock.getEpochId(this.getBlockTimestamp(blockNumber)) - 1;
+    const firstBlock = this.getFirstBlockAt(this.epochClock.getEpochEnd(epoch));
+    const windowBlocks = Math.max(1, this.getFirstBlockAt(this.epochClock.getRevealDeadline(epoch)) - firstBlock);
+    const offset = blockNumber - firstBlock;
+    if (offset < 0 || offset >= windowBlocks || this.feeds.length === 0) {
+      return [];
+    }
+
+    const submission = this.getContractAddress('Submission');
+    const rewardEpochFeeds = this.getRewardEpochFeeds();
+
+    return this.providers
+      .filter((provider, i) => i % windowBlocks === offset)
+      .filter(provider => this.random(`reveal:${provider.address}:${epoch}`) < (provider.revealRate !== undefined ? provider.revealRate : DEFAULT_REVEAL_RATE))
+      .map(provider => {
+        const deviation = provider.deviation !== undefined ? provider.deviation : DEFAULT_PROVIDER_DEVIATION;
+        const values: Record<string, number> = {};
+        this.feeds.forEach(feed => {
+          values[feed.symbol] = this.getPrice(feed, epoch) * (1 + deviation * this.gaussian(`value:${provider.address}:${feed.symbol}:${epoch}`));
+        });
+
+        const payload = strip0x(this.randomHex(`random:${provider.address}:${epoch}`)) + encodeFeedValues(rewardEpochFeeds, values);
+        return {
+          hash: this.randomHex(`reveal-tx:${provider.address}:${epoch}`),
+          from: provider.address,
+          to: submission,
+          input: `${SUBMIT2_SELECTOR}${encodeProtocolMessage(epoch, payload)}`
+        };
+      });
+  }
+
+  /**
+   * Every reward epoch offers the scenario's feeds
+   */
+  private getRewardEpochFeeds(): RewardEpochFeed[] {
+    return sortFeeds(this.feeds.map(feed => ({
+      feedId: toFeedId(feed.symbol),
+      symbol: feed.symbol,
+      decimals: this.getFeedDecimals(feed)
+    })));
+  }
+
+  private getBlock(blockTag: number | 'latest'): BlockInfo {
+    const latest = this.getLatestBlockNumber();
+    const blockNumber = blockTag === 'latest' ? latest : blockTag;
+    if (blockNumber < 0 || blockNumber > latest) {
+      throw new ProviderError(`Block ${blockTag} not found`);
+    }
+    return { number: blockNumber, timestamp: this.getBlockTimestamp(blockNumber) };
+  }
+
+  private getLatestBlockNumber(): number {
+    return Math.floor((Date.now() - this.genesisTime) / this.blockTime);
+  }
+
+  /**
+   * Get a block's timestamp in milliseconds, truncated to whole seconds as on chain
+   */
+  private getBlockTimestamp(blockNumber: number): number {
+    return Math.floor((this.genesisTime + blockNumber * this.blockTime) / 1000) * 1000;
+  }
+
+  /**
+   * Get the first block produced at or after a time
+   */
+  private getFirstBlockAt(timestamp: number): number {
+    return Math.ceil((timestamp - this.genesisTime) / this.blockTime);
+  }
+
+  /**
+   * Derive a stable contract address from its registry name
+   */
+  private getContractAddress(name: string): string {
+    return `0x${strip0x(keccak256Hex(`simulated-contract:${name}`)).slice(-40)}`;
+  }
+
+  /**
+   * Get a scenario feed by symbol or feed name; feeds outside the scenario get a
+   * seeded starting price
+   */
+  private getFeed(symbol: string): SimulatedFeed {
+    const name = toFeedName(symbol);
+    const feed = this.feeds.find(candidate => candidate.symbol === name);
+    return feed || { symbol: name, price: Number((1 + this.random(`price:${name}`) * 99).toFixed(4)) };
+  }
+
+  /**
+   * Use the scenario's decimals or enough to keep about eight significant digits
+   */
+  private getFeedDecimals(feed: SimulatedFeed): number {
+    if (feed.decimals !== undefined) {
+      return feed.decimals;
+    }
+    return Math.max(0, 7 - Math.floor(Math.log10(feed.price)));
+  }
+
+  /**
+   * Get a feed's price in an epoch: a geometric random walk from the scenario
+   * price at the simulated genesis, scaled by the price shocks in effect
+   */
+  private getPrice(feed: SimulatedFeed, epoch: number): number {
+    const step = Math.max(0, epoch - this.genesisEpoch);
+    let walk = this.walks.get(feed.symbol);
+    if (!walk) {
+      walk = [feed.price];
+      this.walks.set(feed.symbol, walk);
+    }
+
+    const volatility = feed.volatility !== undefined ? feed.volatility : DEFAULT_VOLATILITY;
+    const drift = feed.drift || 0;
+    while (walk.length <= step) {
+      const shock = this.gaussian(`walk:${feed.symbol}:${walk.length}`);
+      walk.push(walk[walk.length - 1] * Math.exp(drift - volatility * volatility / 2 + volatility * shock));
+    }
+
+    return this.getEvents('PRICE_SHOCK', epoch, { symbol: feed.symbol })
+      .reduce((price, event) => price * (1 + (event.change || 0)), walk[step]);
+  }
+
+  private getDelayRounds(): number {
+    const attestation = this.scenario.attestation || {};
+    return attestation.delayRounds !== undefined ? attestation.delayRounds : DEFAULT_DELAY_ROUNDS;
+  }
+
+  /**
+   * Fail a call during an outage of the service or at the service's failure rate
+   */
+  private checkAvailable(service: FlareServiceName): void {
+    if (this.isEventActive('OUTAGE', this.epochClock.getEpochId(), { service })) {
+      throw new ConnectionError(`Simulated ${service} outage`, { context: { service } });
+    }
+
+    const failureRate = (this.scenario.failureRates || {})[service] || 0;
+    if (failureRate > 0 && this.sequence() < failureRate) {
+      throw new ProviderError(`Simulated ${service} request failure`, { retryable: true, context: { service } });
+    }
+  }
+
+  private isEventActive(
+    type: SimulationEventType,
+    epoch: number,
+    filter: { symbol?: string; service?: FlareServiceName }
+  ): boolean {
+    return this.getEvents(type, epoch, filter).length > 0;
+  }
+
+  /**
+   * Get the events of a type in effect in an epoch; events last from `fromEpoch`
+   * to `toEpoch` inclusive, a single epoch when `toEpoch` is omitted, except price
+   * shocks, which persist
+   */
+  private getEvents(
+    type: SimulationEventType,
+    epoch: number,
+    filter: { symbol?: string; service?: FlareServiceName }
+  ): SimulationEvent[] {
+    const relativeEpoch = epoch - this.startEpoch;
+    return (this.scenario.events || []).filter(event => {
+      const toEpoch = event.toEpoch !== undefined ? event.toEpoch : (type === 'PRICE_SHOCK' ? Infinity : event.fromEpoch);
+      return event.type === type &&
+        relativeEpoch >= event.fromEpoch &&
+        relativeEpoch <= toEpoch &&
+        (!filter.symbol || !event.symbols || event.symbols.some(symbol => toFeedName(symbol) === filter.symbol)) &&
+        (!filter.service || !event.services || event.services.includes(filter.service));
+    });
+  }
+
+  /**
+   * Uniform value in [0, 1) determined by the seed and a key
+   */
+  private random(key: string): number {
+    return createGenerator(hashString(`${this.seed}:${key}`))();
+  }
+
+  /**
+   * Standard normal value determined by the seed and a key
+   */
+  private gaussian(key: string): number {
+    const u = Math.max(this.random(`${key}:u`), Number.EPSILON);
+    const v = this.random(`${key}:v`);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * 32 bytes of 0x hex determined by the seed and a key
+   */
+  private randomHex(key: string): string {
+    return keccak256Hex(`${this.seed}:${key}`);
+  }
+}
@@ -3,30 +3,110 @@
  * 
  * The State Connector allows Flare smart contracts to access and verify information
  * from other blockchains in a secure and decentralized manner.
+ *
+ * Queries larger than `maxQuerySize` bytes (as JSON) are rejected up front;
+ * accepted ones run through a RequestScheduler limited to
+ * `maxConcurrentRequests` at a time, bounded by `responseTimeout` unless the call
+ * passes its own timeout, and cancellable through an AbortSignal.
+ *
+ * submitStateQuery() answers queries in the background instead: the query is
+ * tracked by requestId, re-checked until its response is final, and the outcome
+ * is optionally POSTed to the query's `callbackUrl` as a signed payload.
+ *
+ * With a `simulator` configured, attested queries are answered by the
+ * FlareSimulator instead of the external chains.
  */
 
+import { randomBytes } from 'crypto';
 import { 
   StateConnectorConfig, 
   StateProof, 
   SubmissionResult,
   ConnectionStatus,
   StateQueryRequest,
-  AttestationResponse
+  AttestationResponse,
+  AttestationVerificationResult,
+  SignatureVerification,
+  StateQueryOptions,
+  StateProofVerification,
+  EvmAccountState,
+  EvmBlockHeader,
+  BitcoinCheckpointConfig,
+  StateConnectorSpecificConfig,
+  RpcEndpointConfig,
+  RpcEndpointStatus,
+  RequestOptions,
+  StateQueryRecord,
+  StateQueryCallback
 } from './types';
+import { EpochClock } from './epoch-clock';
+import { InFlightTracker } from './in-flight';
+import { RequestScheduler, abortableDelay, throwIfAborted } from './request-scheduler';
+import { CallbackDispatcher } from './callback-delivery';
+import { getAttestationEnvelope, recoverAttestationSigner } from './attestation-signing';
+import {
+  EvmReceipt,
+  EvmStateClient,
+  EvmTransactionReceipt,
+  decodeReceiptLogs,
+  encodeReceipt,
+  encodeTransaction
+} from './evm-state-client';
+import { RpcEndpointPool } from './rpc-endpoint-pool';
+import { orderedTrieRoot, verifyAccountProof, verifyStorageProof } from './merkle-patricia';
+import { bytesToHex, hexToBytes, keccak256Hex, strip0x } from './abi';
+import { rlpDecode } from './rlp';
+import { EsploraClient } from './esplora-client';
+import {
+  BITCOIN_NETWORKS,
+  BitcoinNetworkParams,
+  bitsToTarget,
+  parseBlockHeader,
+  parseTransaction,
+  targetWork,
+  verifyBitcoinSpvProof
+} from './bitcoin-spv';
+import { NotConnectedError, ValidationError, VerificationError, wrapError } from '../utils/errors';
 import { Logger } from '../utils/logger';
 
+const DEFAULT_ATTESTATION_THRESHOLD = 0.67;
+const DEFAULT_MIN_CONFIRMATIONS = 6;
+const BITCOIN_BLOCK_INTERVAL = 10 * 60 * 1000;
+// Proven EVM responses are tied to their block, and confirmations only grow
+const EVM_PROOF_VALIDITY = 24 * 60 * 60 * 1000;
+const DEFAULT_RESPONSE_TIMEOUT = 30 * 1000;
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+const DEFAULT_QUERY_POLL_INTERVAL = 60 * 1000;
+const DEFAULT_QUERY_TIMEOUT = 3 * 60 * 60 * 1000;
+const QUERY_RETENTION = 24 * 60 * 60 * 1000;
+
+// Response statuses that may still change as the source chain progresses
+const PENDING_RESPONSE_STATUSES = ['PENDING', 'INSUFFICIENT_CONFIRMATIONS'];
+
 export class StateConnectorInterface {
   private config: StateConnectorConfig;
   private isConnected: boolean = false;
-  private client: any; 
+  private chainClients: Map<string, EvmStateClient> = new Map();
+  private chainPools: Map<string, RpcEndpointPool> = new Map();
+  private spvClients: Map<string, EsploraClient> = new Map();
   private logger: Logger;
   private lastUpdateTimestamp: number = 0;
+  private epochClock: EpochClock;
+  private inFlight: InFlightTracker = new InFlightTracker();
+  private scheduler: RequestScheduler = new RequestScheduler(
+    () => (this.config.stateConnectorConfig || {}).maxConcurrentRequests || DEFAULT_MAX_CONCURRENT_REQUESTS
+  );
+  private queries: Map<string, StateQueryRecord> = new Map();
+  private queryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private callbacks: CallbackDispatcher;
   
   /**
    * Create a new State Connector interface
    */
   constructor(config: StateConnectorConfig) {
     this.config = config;
+    this.epochClock = config.epochClock || new EpochClock();
+    this.callbacks = new CallbackDispatcher(config.logLevel);
     this.logger = new Logger({
       serviceName: 'StateConnector',
       logLevel: config.logLevel || 'info'
@@ -44,41 +124,28 @@ export class StateConnectorInterface {
         endpoint: this.config.endpoint
       });
       
-   
-      await new Promise(resolve => setTimeout(resolve, 600));
+      const chainEndpoints = (this.config.stateConnectorConfig || {}).chainEndpoints || {};
+      this.chainPools = new Map(Object.keys(chainEndpoints).map(blockchain => [
+        blockchain.toLowerCase(),
+        this.createChainPool(blockchain, chainEndpoints[blockchain])
+      ] as [string, RpcEndpointPool]));
+      this.chainClients = new Map(Array.from(this.chainPools.entries()).map(([blockchain, pool]) => [
+        blockchain,
+        this.intercept(`${blockchain}/evm`, new EvmStateClient({ endpoint: pool.getEndpoint(), rpc: pool }))
+      ] as [string, EvmStateClient]));
       
-     
-      this.client = {
-        async getStateProof(blockchain: string, address: string) {
-          return {
-            blockchain,
-            address,
-            state: {
-              nonce: Math.floor(Math.random() * 1000),
-              balance: Math.random() * 10000,
-              storage: {
-                key1: Math.random().toString(16),
-                key2: Math.random().toString(16)
-              }
-            },
-            proof: {
-              blockHeight: 12345678 + Math.floor(Math.random() * 1000),
-              blockHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-              timestamp: Date.now(),
-              proofType: 'MERKLE_PATRICIA',
-              signatures: Array(3).fill(0).map(() => `0x${Math.random().toString(16).substr(2, 130)}`)
-            }
-          };
-        },
-        
-      };
+      const spvEndpoints = (this.config.stateConnectorConfig || {}).spvEndpoints || {};
+      this.spvClients = new Map(Object.keys(spvEndpoints).map(blockchain => [
+        blockchain.toLowerCase(),
+        this.intercept(`${blockchain.toLowerCase()}/spv`, new EsploraClient(spvEndpoints[blockchain]))
+      ] as [string, EsploraClient]));
       
       this.isConnected = true;
       this.lastUpdateTimestamp = Date.now();
       this.logger.info('Successfully connected to State Connector service');
     } catch (error:any) {
       this.logger.error('Failed to connect to State Connector service', { error });
-      throw new Error(`State Connector connection error: ${error.message}`);
+      throw wrapError(error, 'State Connector connection error');
     }
   }
   
@@ -93,18 +160,33 @@ export class StateConnectorInterface {
     try {
       this.logger.info('Disconnecting from State Connector service');
  
-      this.client = null;
+      this.scheduler.cancelAll('State Connector connection closed');
+      this.callbacks.cancelAll();
+      this.queryTimers.forEach(timer => clearTimeout(timer));
+      this.queryTimers.clear();
+      this.queries.forEach(record => {
+        if (record.status !== 'FINALIZED' && record.status !== 'FAILED') {
+          this.updateQuery(record, { status: 'FAILED', error: 'State Connector connection closed', nextCheckAt: undefined });
+        }
+      });
+      this.chainPools.forEach(pool => pool.removeAllListeners());
+      this.chainPools.clear();
+      this.chainClients.clear();
+      this.spvClients.clear();
       this.isConnected = false;
       
       this.logger.info('Successfully disconnected from State Connector service');
     } catch (error:any) {
       this.logger.error('Error during State Connector disconnect', { error });
-      throw new Error(`State Connector disconnect error: ${error.message}`);
+      throw wrapError(error, 'State Connector disconnect error');
     }
   }
   
   /**
    * Get the current connection status
+   *
+   * The latency is that of the slowest external chain endpoint, probed with a
+   * block height read (the simulated latency in simulation mode).
    */
   async getStatus(): Promise<ConnectionStatus> {
     if (!this.isConnected) {
@@ -114,16 +196,14 @@ export class StateConnectorInterface {
     }
     
     try {
-   
-      
-      const mockStatus: ConnectionStatus = {
+      return {
         connected: true,
-        latency: Math.floor(Math.random() * 120) + 30, 
+        latency: await this.probeLatency(),
         lastUpdate: this.lastUpdateTimestamp,
-        activeRequests: Math.floor(Math.random() * 30) + 5 
+        supportedChainsCount: this.chainClients.size + this.spvClients.size,
+        activeRequests: this.scheduler.getActiveCount(),
+        queuedRequests: this.scheduler.getQueuedCount()
       };
-      
-      return mockStatus;
     } catch (error:any) {
       this.logger.error('Error getting State Connector status', { error });
       return {
@@ -135,171 +215,1115 @@ export class StateConnectorInterface {
   
   /**
    * Get verified state from external chains
+   *
+   * The account (and requested storage slots) are fetched with `eth_getProof` from
+   * the chain's configured endpoints and verified against the block's state root.
+   * With `includeLogs`, the block's receipts are included and the address' logs
+   * are verified against the receipts root. The header must hash to a block hash
+   * trusted independently of a single endpoint: agreed by quorum when quorum is
+   * enabled over several endpoints, and `options.trustedBlockHash` otherwise.
    */
   async getExternalState(
     blockchain: string,
     address: string,
-    options: { includeStorage?: boolean; includeLogs?: boolean } = {}
+    options: StateQueryOptions = {}
   ): Promise<StateProof> {
     this.checkConnection();
     
+    this.inFlight.begin();
     try {
       this.logger.debug(`Getting external state from ${blockchain}`, {
         address,
         includeStorage: options.includeStorage,
         includeLogs: options.includeLogs
       });
-     
       
-      const data = await this.client.getStateProof(blockchain, address);
+      const client = this.getChainClient(blockchain);
+      this.checkBlockTrust(blockchain, options.trustedBlockHash);
+      const storageKeys = options.includeStorage ? options.storageKeys || [] : [];
+      if (options.includeStorage && storageKeys.length === 0) {
+        throw new ValidationError('storageKeys are required when includeStorage is set', { context: { field: 'storageKeys' } });
+      }
+      this.checkQuerySize({
+        blockchain,
+        address,
+        storageKeys,
+        includeLogs: options.includeLogs,
+        blockTag: options.blockTag
+      });
+      
+      const requestTimestamp = Date.now();
+      const { block, accountProof, receipts } = await this.schedule(async signal => {
+        const block = await client.getBlock(options.blockTag);
+        throwIfAborted(signal);
+        const [accountProof, receipts] = await Promise.all([
+          client.getProof(address, storageKeys, block.number),
+          options.includeLogs ? client.getBlockReceipts(block.number) : Promise.resolve(undefined)
+        ]);
+        return { block, accountProof, receipts };
+      }, options);
+      
+      const encodedReceipts = receipts ? receipts.map(encodeReceipt) : undefined;
+      const state: EvmAccountState = {
+        nonce: BigInt(accountProof.nonce).toString(),
+        balance: BigInt(accountProof.balance).toString(),
+        storageHash: accountProof.storageHash,
+        codeHash: accountProof.codeHash
+      };
+      if (options.includeStorage) {
+        state.storage = {};
+        accountProof.storageProof.forEach(slot => {
+          state.storage![slot.key] = `0x${BigInt(slot.value).toString(16)}`;
+        });
+      }
+      if (encodedReceipts) {
+        state.logs = decodeReceiptLogs(encodedReceipts, address);
+      }
       
       const stateProof: StateProof = {
         blockchain,
         address,
-        requestId: `req-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-        state: data.state,
+        requestId: this.createRequestId('req'),
+        state,
         proof: {
-          blockHeight: data.proof.blockHeight,
-          blockHash: data.proof.blockHash,
-          timestamp: data.proof.timestamp,
-          proofType: data.proof.proofType,
-          signatures: data.proof.signatures
+          blockHeight: block.number,
+          blockHash: block.hash,
+          timestamp: block.timestamp,
+          proofType: 'MERKLE_PATRICIA',
+          signatures: [],
+          stateRoot: block.stateRoot,
+          accountProof: accountProof.accountProof,
+          ...(options.includeStorage && {
+            storageProofs: accountProof.storageProof.map(slot => ({
+              key: slot.key,
+              value: `0x${BigInt(slot.value).toString(16)}`,
+              proof: slot.proof
+            }))
+          }),
+          ...(encodedReceipts && {
+            receiptsRoot: block.receiptsRoot,
+            receipts: encodedReceipts.map(receipt => `0x${bytesToHex(receipt)}`)
+          }),
+          blockHeader: block.rlp
         },
         timestamp: Date.now(),
         metadata: {
-          requestTimestamp: Date.now() - 2000, // Simulating that request was made 2 seconds ago
-          attestationCount: data.proof.signatures.length,
-          requiredAttestations: Math.ceil(data.proof.signatures.length * 0.67),
-          finalized: true
+          requestTimestamp,
+          attestationCount: 0,
+          requiredAttestations: 0,
+          finalized: options.blockTag === 'finalized',
+          verified: false
         }
       };
       
+      // A quorum read makes the hash of the block it returned agreed by several endpoints
+      const verification = this.verifyStateProof(stateProof, options.trustedBlockHash || block.hash);
+      if (!verification.valid) {
+        throw new VerificationError(`State proof verification failed: ${verification.errors.join('; ')}`, {
+          context: { errors: verification.errors }
+        });
+      }
+      stateProof.metadata.verified = true;
+      
       return stateProof;
     } catch (error:any) {
       this.logger.error(`Error getting external state from ${blockchain}`, { error });
-      throw new Error(`Failed to get external state from ${blockchain}: ${error.message}`);
+      throw wrapError(error, `Failed to get external state from ${blockchain}`);
+    } finally {
+      this.inFlight.end();
     }
   }
   
+  /**
+   * Verify a Merkle-Patricia state proof locally against its block's trie roots
+   *
+   * The block header must hash to the proof's block hash, and that to
+   * `trustedBlockHash` when given, so the trie roots are those of the block.
+   * Every value claimed in `state` (account fields, storage slots and logs) must
+   * be proven by the included trie nodes or receipts.
+   */
+  verifyStateProof(proof: StateProof, trustedBlockHash?: string): StateProofVerification {
+    const errors: string[] = [];
+    const { stateRoot, accountProof, storageProofs, receiptsRoot, receipts, blockHeader, blockHash } = proof.proof;
+    const state: EvmAccountState = proof.state || {};
+    
+    if (proof.proof.proofType !== 'MERKLE_PATRICIA' || !stateRoot || !accountProof) {
+      return { valid: false, errors: ['No Merkle-Patricia proof'] };
+    }
+    if (!blockHeader) {
+      return { valid: false, errors: ['No block header'] };
+    }
+    
+    try {
+      const header = rlpDecode(blockHeader);
+      const field = (index: number) => Array.isArray(header) && header[index] instanceof Uint8Array
+        ? `0x${bytesToHex(header[index] as Uint8Array)}`
+        : '';
+      if (keccak256Hex(hexToBytes(strip0x(blockHeader))) !== blockHash.toLowerCase()) {
+        errors.push('Block header does not hash to the block hash');
+      }
+      if (trustedBlockHash && trustedBlockHash.toLowerCase() !== blockHash.toLowerCase()) {
+        errors.push(`Block hash ${blockHash} is not the trusted hash ${trustedBlockHash}`);
+      }
+      if (field(3) !== stateRoot.toLowerCase()) {
+        errors.push('State root does not match the block header');
+      }
+      if (receiptsRoot && field(5) !== receiptsRoot.toLowerCase()) {
+        errors.push('Receipts root does not match the block header');
+      }
+      if (BigInt(`0x${strip0x(field(8)) || '0'}`) !== BigInt(proof.proof.blockHeight)) {
+        errors.push(`Block height ${proof.proof.blockHeight} does not match the block header`);
+      }
+      
+      const account = verifyAccountProof(stateRoot, proof.address, accountProof) || {
+        nonce: BigInt(0),
+        balance: BigInt(0),
+        storageHash: '',
+        codeHash: ''
+      };
+      
+      if (BigInt(state.nonce || 0) !== account.nonce) {
+        errors.push(`Nonce ${state.nonce} is not proven (proof has ${account.nonce})`);
+      }
+      if (BigInt(state.balance || 0) !== account.balance) {
+        errors.push(`Balance ${state.balance} is not proven (proof has ${account.balance})`);
+      }
+      if (account.storageHash && (state.storageHash || '').toLowerCase() !== account.storageHash) {
+        errors.push('Storage root does not match the account proof');
+      }
+      if (account.codeHash && (state.codeHash || '').toLowerCase() !== account.codeHash) {
+        errors.push('Code hash does not match the account proof');
+      }
+      
+      const storage = state.storage || {};
+      const proven = new Set<string>();
+      (storageProofs || []).forEach(slot => {
+        const value = account.storageHash ? verifyStorageProof(account.storageHash, slot.key, slot.proof) : BigInt(0);
+        proven.add(slot.key);
+        if (BigInt(slot.value) !== value || BigInt(storage[slot.key] || 0) !== value) {
+          errors.push(`Storage slot ${slot.key} is not proven (proof has 0x${value.toString(16)})`);
+        }
+      });
+      Object.keys(storage)
+        .filter(key => !proven.has(key))
+        .forEach(key => errors.push(`Storage slot ${key} has no proof`));
+      
+      if (state.logs) {
+        if (!receipts || !receiptsRoot) {
+          errors.push('Logs are included without block receipts');
+        } else {
+          const encoded = receipts.map(receipt => hexToBytes(strip0x(receipt)));
+          if (orderedTrieRoot(encoded).toLowerCase() !== receiptsRoot.toLowerCase()) {
+            errors.push('Receipts do not match the receipts root');
+          } else if (JSON.stringify(decodeReceiptLogs(encoded, proof.address)) !== JSON.stringify(state.logs)) {
+            errors.push('Logs do not match the block receipts');
+          }
+        }
+      }
+    } catch (error:any) {
+      errors.push(error.message);
+    }
+    
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
+  
   /**
    * Submit a state proof to the Flare Network
+   *
+   * No Flare contract accepts state proofs, so submissions are only accepted by
+   * the simulator; verify proofs locally with verifyStateProof() instead.
    */
-  async submitStateProof(proof: StateProof): Promise<SubmissionResult> {
+  async submitStateProof(proof: StateProof, options: RequestOptions = {}): Promise<SubmissionResult> {
     this.checkConnection();
     
+    const simulator = this.config.simulator;
+    if (!simulator) {
+      throw new ValidationError('State proofs can only be submitted to the simulator; use verifyStateProof() instead', {
+        context: { field: 'simulator' }
+      });
+    }
+    
+    this.inFlight.begin();
     try {
       this.logger.info(`Submitting state proof for ${proof.blockchain}`, {
         address: proof.address,
         requestId: proof.requestId
       });
      
-      await new Promise(resolve => setTimeout(resolve, 400));
+      await this.schedule(signal => abortableDelay(simulator.getResponseDelay(), signal), options);
       
-      const isValid = proof.proof.signatures.length >= proof.metadata.requiredAttestations;
+      const hasTrieProof = proof.proof.proofType === 'MERKLE_PATRICIA' && !!proof.proof.accountProof;
+      const isValid = hasTrieProof
+        ? this.verifyStateProof(proof).valid
+        : proof.proof.signatures.length >= proof.metadata.requiredAttestations;
       
       const submissionResult: SubmissionResult = {
         success: isValid,
-        epoch: Math.floor(Date.now() / (3 * 60 * 1000)),
+        epoch: this.epochClock.getEpochId(),
         submissionTimestamp: Date.now(),
-        transactionHash: `0x${Math.random().toString(16).substr(2, 40)}`
+        transactionHash: keccak256Hex(simulator.nextRequestId('state-proof'))
       };
       
       if (!isValid) {
-        submissionResult.error = 'Insufficient attestation signatures';
+        submissionResult.error = hasTrieProof ? 'State proof verification failed' : 'Insufficient attestation signatures';
       }
       
       return submissionResult;
     } catch (error:any) {
       this.logger.error(`Error submitting state proof for ${proof.blockchain}`, { error });
-      throw new Error(`Failed to submit state proof: ${error.message}`);
+      throw wrapError(error, 'Failed to submit state proof');
+    } finally {
+      this.inFlight.end();
     }
   }
   
   /**
    * Query the state of an external blockchain with attestation
+   *
+   * Bitcoin transactions are proven with SPV. On EVM chains, ACCOUNT_STATE is
+   * answered with a verified state proof (see getExternalState()) and
+   * TRANSACTION_VERIFICATION with the transaction and its receipt proven against
+   * the block's tries; `queryData.trustedBlockHash` applies as for
+   * getExternalState(). Such locally verified responses carry no signatures.
    */
-  async queryStateWithAttestation(request: StateQueryRequest): Promise<AttestationResponse> {
+  async queryStateWithAttestation(
+    request: StateQueryRequest,
+    options: RequestOptions = {}
+  ): Promise<AttestationResponse> {
     this.checkConnection();
     
+    this.inFlight.begin();
     try {
       this.logger.debug(`Querying state with attestation for ${request.blockchain}`, {
         address: request.address,
         queryData: request.queryData
       });
       
-   
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      this.checkQuerySize(request);
       
-      const attestationResponse: AttestationResponse = {
-        requestId: `req-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-        blockchain: request.blockchain,
-        address: request.address,
-        queryData: request.queryData,
-        responseData: {
-          ...(request.queryType === 'ACCOUNT_STATE' && {
-            balance: (Math.random() * 10000).toFixed(6),
-            nonce: Math.floor(Math.random() * 1000),
-            codeHash: `0x${Math.random().toString(16).substr(2, 64)}`
-          }),
-          ...(request.queryType === 'TRANSACTION_VERIFICATION' && {
-            blockHeight: 12345678 + Math.floor(Math.random() * 1000),
-            blockHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-            transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-            status: Math.random() > 0.1 ? 'CONFIRMED' : 'PENDING',
-            confirmations: Math.floor(Math.random() * 30) + 1
-          })
-        },
-        attestation: {
-          signatures: Array(Math.floor(Math.random() * 5) + 3).fill(0).map(() => ({
-            signer: `0x${Math.random().toString(16).substr(2, 40)}`,
-            signature: `0x${Math.random().toString(16).substr(2, 130)}`
-          })),
-          timestamp: Date.now(),
-          validUntil: Date.now() + 24 * 60 * 60 * 1000 
-        },
-        metadata: {
-          responseTime: Math.floor(Math.random() * 1000) + 500,
-          source: request.blockchain,
-          attestationSchema: `${request.queryType}_SCHEMA_V1`
-        }
-      };
+      const simulator = this.config.simulator;
+      if (simulator) {
+        await this.schedule(signal => abortableDelay(simulator.getResponseDelay(), signal), options);
+        return simulator.queryState(request);
+      }
+      
+      if (request.queryType === 'TRANSACTION_VERIFICATION' && this.getBitcoinNetwork(request.blockchain)) {
+        return await this.schedule(() => this.verifyBitcoinTransaction(request), options);
+      }
+      if (request.queryType === 'TRANSACTION_VERIFICATION') {
+        return await this.verifyEvmTransaction(request, options);
+      }
+      if (request.queryType === 'ACCOUNT_STATE') {
+        return await this.queryEvmAccount(request, options);
+      }
       
-      return attestationResponse;
+      throw new ValidationError(`${request.queryType} queries are not supported for ${request.blockchain}`, {
+        context: { field: 'queryType' }
+      });
     } catch (error:any) {
       this.logger.error(`Error querying state with attestation for ${request.blockchain}`, { error });
-      throw new Error(`Failed to query state with attestation: ${error.message}`);
+      throw wrapError(error, 'Failed to query state with attestation');
+    } finally {
+      this.inFlight.end();
     }
   }
   
+  /**
+   * Submit a state query to be answered asynchronously
+   *
+   * Returns immediately with a requestId to poll with getQueryStatus(). Responses
+   * that are not final yet (such as a Bitcoin transaction short of its required
+   * confirmations) are re-checked every `queryPollInterval` until they are final
+   * or `queryTimeout` has passed. With a `callbackUrl`, the outcome is POSTed there
+   * as a StateQueryCallback signed with `callbackSecret`, retrying failed deliveries.
+   */
+  submitStateQuery(request: StateQueryRequest): StateQueryRecord {
+    this.checkConnection();
+    
+    if (request.callbackUrl) {
+      if (!/^https?:\/\/[^\s]+$/i.test(request.callbackUrl)) {
+        throw new ValidationError(`Invalid callbackUrl ${request.callbackUrl}`, { context: { field: 'callbackUrl' } });
+      }
+      if (!(this.config.stateConnectorConfig || {}).callbackSecret) {
+        throw new ValidationError('A callbackSecret is required in stateConnectorConfig to deliver signed callbacks', {
+          context: { field: 'stateConnectorConfig.callbackSecret' }
+        });
+      }
+    }
+    this.checkQuerySize(request);
+    this.pruneQueries();
+    
+    const now = Date.now();
+    const record: StateQueryRecord = {
+      requestId: this.createRequestId('query'),
+      request: { ...request },
+      status: 'QUEUED',
+      submittedAt: now,
+      updatedAt: now,
+      checks: 0,
+      ...(request.callbackUrl && {
+        callback: { url: request.callbackUrl, status: 'PENDING', attempts: 0 }
+      })
+    };
+    this.queries.set(record.requestId, record);
+    this.scheduleQueryCheck(record, 0);
+    
+    this.logger.debug(`Submitted state query ${record.requestId} for ${request.blockchain}`, {
+      queryType: request.queryType,
+      callbackUrl: request.callbackUrl
+    });
+    
+    return this.copyQuery(record);
+  }
+  
+  /**
+   * Get the status of a query submitted with submitStateQuery()
+   */
+  getQueryStatus(requestId: string): StateQueryRecord | undefined {
+    const record = this.queries.get(requestId);
+    return record ? this.copyQuery(record) : undefined;
+  }
+  
   /**
    * Verify an attestation response
+   *
+   * Each signature is checked by recovering its signer from the canonical encoding
+   * of `responseData`. The response is valid when it has not expired and the
+   * distinct trusted signers reach the attestation threshold, which is a fraction
+   * of the total trusted weight when at most 1 and an absolute weight otherwise.
    */
-  async verifyAttestation(attestation: AttestationResponse): Promise<boolean> {
+  async verifyAttestation(attestation: AttestationResponse): Promise<AttestationVerificationResult> {
     this.checkConnection();
     
+    this.inFlight.begin();
     try {
       this.logger.debug(`Verifying attestation for ${attestation.blockchain}`, {
         requestId: attestation.requestId,
         address: attestation.address
       });
       
-  
-      const isValid = attestation.attestation.validUntil > Date.now() &&
-                      attestation.attestation.signatures.length >= 3; 
+      const trustedSigners = this.getTrustedSigners();
+      const totalWeight = Array.from(trustedSigners.values()).reduce((sum, weight) => sum + weight, 0);
+      const threshold = this.getAttestationThreshold();
+      const requiredWeight = threshold <= 1 ? threshold * totalWeight : threshold;
+      
+      const envelope = getAttestationEnvelope(attestation);
+      const counted = new Set<string>();
+      const signatures = attestation.attestation.signatures.map(({ signer, signature }): SignatureVerification => {
+        const claimedSigner = (signer || '').toLowerCase();
+        let recoveredSigner: string;
+        try {
+          recoveredSigner = recoverAttestationSigner(envelope, signature);
+        } catch (error:any) {
+          return { claimedSigner, status: 'INVALID', weight: 0, error: error.message };
+        }
+        
+        if (claimedSigner && claimedSigner !== recoveredSigner) {
+          return {
+            claimedSigner,
+            recoveredSigner,
+            status: 'INVALID',
+            weight: 0,
+            error: 'Recovered signer does not match the claimed signer'
+          };
+        }
+        if (!trustedSigners.has(recoveredSigner)) {
+          return { claimedSigner, recoveredSigner, status: 'UNKNOWN', weight: 0 };
+        }
+        if (counted.has(recoveredSigner)) {
+          return { claimedSigner, recoveredSigner, status: 'DUPLICATE', weight: 0 };
+        }
+        
+        counted.add(recoveredSigner);
+        return { claimedSigner, recoveredSigner, status: 'VALID', weight: trustedSigners.get(recoveredSigner)! };
+      });
+      
+      const signersWithStatus = (status: SignatureVerification['status']) => Array.from(new Set(
+        signatures.filter(s => s.status === status).map(s => s.recoveredSigner!)
+      ));
+      const validWeight = signatures.reduce((sum, s) => sum + s.weight, 0);
+      const expired = attestation.attestation.validUntil <= Date.now();
+      
+      const result: AttestationVerificationResult = {
+        requestId: attestation.requestId,
+        valid: !expired && totalWeight > 0 && validWeight >= requiredWeight,
+        expired,
+        validWeight,
+        requiredWeight,
+        totalWeight,
+        validSigners: signersWithStatus('VALID'),
+        unknownSigners: signersWithStatus('UNKNOWN'),
+        duplicateSigners: signersWithStatus('DUPLICATE'),
+        invalidSignatures: signatures.filter(s => s.status === 'INVALID'),
+        signatures
+      };
       
-      return isValid;
+      if (totalWeight === 0) {
+        result.error = 'No trusted signers configured';
+      } else if (expired) {
+        result.error = 'Attestation has expired';
+      } else if (!result.valid) {
+        result.error = `Insufficient signer weight: ${validWeight} of ${requiredWeight} required`;
+      }
+      
+      return result;
     } catch (error:any) {
       this.logger.error(`Error verifying attestation for ${attestation.blockchain}`, { error });
-      throw new Error(`Failed to verify attestation: ${error.message}`);
+      throw wrapError(error, 'Failed to verify attestation');
+    } finally {
+      this.inFlight.end();
+    }
+  }
+  
+  /**
+   * Get the signer weight an attestation needs: a fraction of the total trusted
+   * weight up to 1, an absolute weight above it
+   */
+  private getAttestationThreshold(): number {
+    const threshold = (this.config.stateConnectorConfig || {}).attestationThreshold;
+    if (threshold === undefined) {
+      return DEFAULT_ATTESTATION_THRESHOLD;
+    }
+    if (typeof threshold !== 'number' || !isFinite(threshold) || threshold <= 0) {
+      throw new ValidationError(`Attestation threshold must be a positive number, got ${threshold}`, {
+        context: { field: 'stateConnectorConfig.attestationThreshold' }
+      });
+    }
+    return threshold;
+  }
+  
+  /**
+   * Get the trusted signer weights keyed by lowercase address
+   */
+  private getTrustedSigners(): Map<string, number> {
+    const trustedSigners = new Map<string, number>();
+    ((this.config.stateConnectorConfig || {}).trustedSigners || []).forEach(signer => {
+      trustedSigners.set(signer.address.toLowerCase(), signer.weight !== undefined ? signer.weight : 1);
+    });
+    return trustedSigners;
+  }
+  
+  /**
+   * Prove a Bitcoin transaction with SPV: a Merkle branch into its block header and
+   * a verified header chain, anchored to the configured checkpoint, on top of it
+   * for the confirmation depth
+   *
+   * Unless the checkpoint sets `minChainWork`, the confirming headers must carry at
+   * least a quarter of the work the required confirmations take at the
+   * checkpoint's difficulty, a quarter being the most one retarget can lower it.
+   */
+  private async verifyBitcoinTransaction(request: StateQueryRequest): Promise<AttestationResponse> {
+    const startTime = Date.now();
+    const [chainId, params] = this.getBitcoinNetwork(request.blockchain)!;
+    const client = this.spvClients.get(chainId);
+    if (!client) {
+      throw new ValidationError(`No SPV endpoint configured for ${chainId}`, { context: { field: 'chainId' } });
+    }
+    
+    const queryData = request.queryData || {};
+    const txid = strip0x(String(queryData.transactionHash || queryData.txid || '')).toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(txid)) {
+      throw new ValidationError('queryData.transactionHash must be a 32-byte Bitcoin txid', {
+        context: { field: 'queryData.transactionHash' }
+      });
+    }
+    const requiredConfirmations = queryData.minConfirmations ||
+      (this.config.stateConnectorConfig || {}).minConfirmations ||
+      DEFAULT_MIN_CONFIRMATIONS;
+    
+    const checkpoint = this.getSpvCheckpoint(chainId);
+    const minChainWork = checkpoint.minChainWork !== undefined
+      ? BigInt(checkpoint.minChainWork)
+      : BigInt(requiredConfirmations) * targetWork(bitsToTarget(parseBlockHeader(checkpoint.header).bits)) / BigInt(4);
+    
+    const spvProof = await client.getSpvProof(txid, requiredConfirmations, checkpoint.height);
+    let responseData: any = {
+      transactionHash: txid,
+      status: 'PENDING',
+      confirmations: 0,
+      requiredConfirmations,
+      verified: false
+    };
+    
+    if (spvProof) {
+      const verification = verifyBitcoinSpvProof(txid, spvProof, params, checkpoint, minChainWork);
+      const outputs = verification.valid && spvProof.rawTransaction
+        ? parseTransaction(spvProof.rawTransaction).outputs
+        : [];
+      
+      responseData = {
+        transactionHash: txid,
+        blockHeight: verification.blockHeight,
+        blockHash: verification.blockHash,
+        status: !verification.valid
+          ? 'INVALID'
+          : verification.confirmations >= requiredConfirmations ? 'CONFIRMED' : 'INSUFFICIENT_CONFIRMATIONS',
+        confirmations: verification.confirmations,
+        requiredConfirmations,
+        chainWork: verification.chainWork.toString(),
+        verified: verification.valid,
+        outputs: outputs.map(output => ({
+          index: output.index,
+          value: output.value.toString(),
+          scriptPubKey: output.scriptPubKey
+        })),
+        ...(verification.errors.length > 0 && { errors: verification.errors })
+      };
+    }
+    
+    const timestamp = Date.now();
+    return {
+      requestId: this.createRequestId('req'),
+      blockchain: request.blockchain,
+      address: request.address,
+      queryData: request.queryData,
+      responseData,
+      attestation: {
+        signatures: [],
+        timestamp,
+        // The confirmation depth is only current until the next block
+        validUntil: timestamp + BITCOIN_BLOCK_INTERVAL
+      },
+      metadata: {
+        responseTime: timestamp - startTime,
+        source: chainId,
+        attestationSchema: 'BITCOIN_SPV_V1'
+      },
+      ...(spvProof && { spvProof })
+    };
+  }
+  
+  /**
+   * Answer an ACCOUNT_STATE query on an EVM chain from a verified state proof
+   */
+  private async queryEvmAccount(request: StateQueryRequest, options: RequestOptions): Promise<AttestationResponse> {
+    const startTime = Date.now();
+    const queryData = request.queryData || {};
+    const stateProof = await this.getExternalState(request.blockchain, request.address, {
+      ...options,
+      blockTag: queryData.blockTag,
+      trustedBlockHash: queryData.trustedBlockHash
+    });
+    
+    const timestamp = Date.now();
+    return {
+      requestId: stateProof.requestId,
+      blockchain: request.blockchain,
+      address: request.address,
+      queryData: request.queryData,
+      responseData: {
+        nonce: stateProof.state.nonce,
+        balance: stateProof.state.balance,
+        storageHash: stateProof.state.storageHash,
+        codeHash: stateProof.state.codeHash,
+        blockHeight: stateProof.proof.blockHeight,
+        blockHash: stateProof.proof.blockHash,
+        stateRoot: stateProof.proof.stateRoot,
+        verified: true
+      },
+      attestation: {
+        signatures: [],
+        timestamp,
+        validUntil: timestamp + EVM_PROOF_VALIDITY
+      },
+      metadata: {
+        responseTime: timestamp - startTime,
+        source: request.blockchain,
+        attestationSchema: 'EVM_STATE_PROOF_V1'
+      }
+    };
+  }
+  
+  /**
+   * Prove an EVM transaction and its outcome: the transaction against the block's
+   * transactions root and its receipt against the receipts root, in a header that
+   * hashes to a trusted block hash
+   */
+  private async verifyEvmTransaction(request: StateQueryRequest, options: RequestOptions): Promise<AttestationResponse> {
+    const startTime = Date.now();
+    const client = this.getChainClient(request.blockchain);
+    const queryData = request.queryData || {};
+    const transactionHash = String(queryData.transactionHash || '').toLowerCase();
+    if (!/^0x[0-9a-f]{64}$/.test(transactionHash)) {
+      throw new ValidationError('queryData.transactionHash must be a 32-byte transaction hash', {
+        context: { field: 'queryData.transactionHash' }
+      });
+    }
+    this.checkBlockTrust(request.blockchain, queryData.trustedBlockHash);
+    const requiredConfirmations = queryData.minConfirmations ||
+      (this.config.stateConnectorConfig || {}).minConfirmations ||
+      DEFAULT_MIN_CONFIRMATIONS;
+    
+    const evidence = await this.schedule(async signal => {
+      const receipt = await client.getTransactionReceipt(transactionHash);
+      if (!receipt) {
+        return null;
+      }
+      throwIfAborted(signal);
+      const blockNumber = parseInt(receipt.blockNumber, 16);
+      const [block, transactions, receipts, latest] = await Promise.all([
+        client.getBlock(blockNumber),
+        client.getBlockTransactions(blockNumber),
+        client.getBlockReceipts(blockNumber),
+        client.getBlockNumber()
+      ]);
+      return { receipt, block, transactions, receipts, latest };
+    }, options);
+    
+    let responseData: Record<string, unknown> = {
+      transactionHash,
+      status: 'PENDING',
+      confirmations: 0,
+      requiredConfirmations,
+      verified: false
+    };
+    
+    if (evidence) {
+      const { receipt, block, latest } = evidence;
+      const transactionIndex = parseInt(receipt.transactionIndex, 16);
+      const errors = this.verifyTransactionInclusion(transactionHash, transactionIndex, evidence, queryData.trustedBlockHash);
+      const confirmations = Math.max(0, latest - block.number + 1);
+      
+      responseData = {
+        transactionHash,
+        blockHeight: block.number,
+        blockHash: block.hash,
+        transactionIndex,
+        status: errors.length > 0
+          ? 'INVALID'
+          : confirmations >= requiredConfirmations ? 'CONFIRMED' : 'INSUFFICIENT_CONFIRMATIONS',
+        // Whether the transaction executed without reverting
+        succeeded: BigInt(receipt.status || 0) === BigInt(1),
+        confirmations,
+        requiredConfirmations,
+        verified: errors.length === 0,
+        ...(errors.length > 0 && { errors })
+      };
+    }
+    
+    const timestamp = Date.now();
+    return {
+      requestId: this.createRequestId('req'),
+      blockchain: request.blockchain,
+      address: request.address,
+      queryData: request.queryData,
+      responseData,
+      attestation: {
+        signatures: [],
+        timestamp,
+        validUntil: timestamp + EVM_PROOF_VALIDITY
+      },
+      metadata: {
+        responseTime: timestamp - startTime,
+        source: request.blockchain,
+        attestationSchema: 'EVM_TRANSACTION_PROOF_V1'
+      }
+    };
+  }
+  
+  /**
+   * Check a transaction and its receipt against the tries of the block they claim to be in
+   */
+  private verifyTransactionInclusion(
+    transactionHash: string,
+    transactionIndex: number,
+    evidence: {
+      receipt: EvmTransactionReceipt;
+      block: EvmBlockHeader;
+      transactions: Array<Record<string, unknown>>;
+      receipts: EvmReceipt[];
+    },
+    trustedBlockHash?: string
+  ): string[] {
+    const { receipt, block, transactions, receipts } = evidence;
+    const errors: string[] = [];
+    
+    try {
+      const header = hexToBytes(strip0x(block.rlp));
+      if (keccak256Hex(header).toLowerCase() !== block.hash.toLowerCase()) {
+        errors.push('Block header does not hash to the block hash');
+      }
+      if (trustedBlockHash && trustedBlockHash.toLowerCase() !== block.hash.toLowerCase()) {
+        errors.push(`Block hash ${block.hash} is not the trusted hash ${trustedBlockHash}`);
+      }
+      if (receipt.blockHash.toLowerCase() !== block.hash.toLowerCase()) {
+        errors.push(`Receipt is for block ${receipt.blockHash}, not ${block.hash}`);
+      }
+      
+      const fields = rlpDecode(header) as Uint8Array[];
+      const encodedTransactions = transactions.map(encodeTransaction);
+      if (orderedTrieRoot(encodedTransactions) !== `0x${bytesToHex(fields[4])}`) {
+        errors.push('Transactions do not match the transactions root');
+      } else if (
+        !encodedTransactions[transactionIndex] ||
+        keccak256Hex(encodedTransactions[transactionIndex]) !== transactionHash
+      ) {
+        errors.push(`Transaction is not at index ${transactionIndex} of the block`);
+      }
+      
+      const encodedReceipts = receipts.map(encodeReceipt);
+      if (orderedTrieRoot(encodedReceipts) !== `0x${bytesToHex(fields[5])}`) {
+        errors.push('Receipts do not match the receipts root');
+      } else if (
+        !encodedReceipts[transactionIndex] ||
+        bytesToHex(encodedReceipts[transactionIndex]) !== bytesToHex(encodeReceipt(receipt))
+      ) {
+        errors.push('Receipt does not match the block receipts');
+      }
+    } catch (error:any) {
+      errors.push(error.message);
     }
+    
+    return errors;
+  }
+  
+  /**
+   * Require a block hash trusted independently of a single endpoint: quorum reads or a given hash
+   */
+  private checkBlockTrust(blockchain: string, trustedBlockHash?: string): void {
+    const pool = this.chainPools.get(blockchain.toLowerCase());
+    if (!(pool && pool.isQuorumEnabled()) && !trustedBlockHash) {
+      throw new ValidationError(
+        `A trustedBlockHash is required for ${blockchain} unless a majority quorum of at least two endpoints is enabled`,
+        { context: { field: 'trustedBlockHash' } }
+      );
+    }
+  }
+  
+  /**
+   * Read the block height of every external chain, undefined when none is configured
+   */
+  private async probeLatency(): Promise<number | undefined> {
+    if (this.config.simulator) {
+      return this.config.simulator.getLatency();
+    }
+    
+    const probes: Array<() => Promise<number>> = [
+      ...Array.from(this.chainClients.values()).map(client => () => client.getBlockNumber()),
+      ...Array.from(this.spvClients.values()).map(client => () => client.getTipHeight())
+    ];
+    if (probes.length === 0) {
+      return undefined;
+    }
+    
+    const start = Date.now();
+    await Promise.all(probes.map(probe => probe()));
+    return Date.now() - start;
+  }
+  
+  /**
+   * Resolve the Bitcoin network of a chain ID or name
+   */
+  private getBitcoinNetwork(blockchain: string): [string, BitcoinNetworkParams] | undefined {
+    const chainId = blockchain.toLowerCase() === 'bitcoin' ? 'btc-mainnet' : blockchain.toLowerCase();
+    const params = BITCOIN_NETWORKS[chainId];
+    return params ? [chainId, params] : undefined;
+  }
+  
+  /**
+   * Get the trusted checkpoint SPV proofs of a Bitcoin network are anchored to
+   */
+  private getSpvCheckpoint(chainId: string): BitcoinCheckpointConfig {
+    const checkpoints = (this.config.stateConnectorConfig || {}).spvCheckpoints || {};
+    const key = Object.keys(checkpoints).find(blockchain => blockchain.toLowerCase() === chainId);
+    if (!key) {
+      throw new ValidationError(`No SPV checkpoint configured for ${chainId}`, {
+        context: { field: 'stateConnectorConfig.spvCheckpoints' }
+      });
+    }
+    return checkpoints[key];
+  }
+  
+  /**
+   * Get routing statistics for the endpoints of an external EVM chain
+   */
+  getEndpointStatus(blockchain: string): RpcEndpointStatus[] {
+    const pool = this.chainPools.get(blockchain.toLowerCase());
+    if (!pool) {
+      throw new ValidationError(`No EVM endpoint configured for ${blockchain}`, { context: { field: 'blockchain' } });
+    }
+    return pool.getEndpointStatus();
+  }
+  
+  /**
+   * Build the endpoint pool of an external chain; quorum reads apply when several endpoints are configured
+   */
+  private createChainPool(blockchain: string, endpoints: string | Array<string | RpcEndpointConfig>): RpcEndpointPool {
+    const pool = new RpcEndpointPool(
+      (Array.isArray(endpoints) ? endpoints : [endpoints]).map(endpoint =>
+        typeof endpoint === 'string' ? { url: endpoint } : endpoint
+      ),
+      {
+        name: blockchain.toLowerCase(),
+        quorum: this.config.quorum,
+        logLevel: this.config.logLevel
+      }
+    );
+    
+    if (this.config.onQuorumDisagreement) {
+      pool.on('disagreement', this.config.onQuorumDisagreement);
+    }
+    return pool;
+  }
+  
+  /**
+   * Pass a chain client through the configured traffic interceptor, if any
+   */
+  private intercept<T extends object>(source: string, client: T): T {
+    return this.config.traffic ? this.config.traffic.wrap(`stateConnector/${source}`, client) : client;
+  }
+  
+  private scheduleQueryCheck(record: StateQueryRecord, delay: number): void {
+    record.nextCheckAt = Date.now() + delay;
+    this.queryTimers.set(record.requestId, setTimeout(() => {
+      this.queryTimers.delete(record.requestId);
+      this.checkQuery(record);
+    }, delay));
+  }
+  
+  /**
+   * Run a submitted query once, then either schedule the next check or settle it
+   * and deliver its callback
+   */
+  private async checkQuery(record: StateQueryRecord): Promise<void> {
+    const config = this.config.stateConnectorConfig || {};
+    const pollInterval = config.queryPollInterval || DEFAULT_QUERY_POLL_INTERVAL;
+    const timeout = config.queryTimeout || DEFAULT_QUERY_TIMEOUT;
+    
+    this.updateQuery(record, { status: 'PROCESSING', checks: record.checks + 1, nextCheckAt: undefined });
+    
+    try {
+      const response = await this.queryStateWithAttestation(record.request);
+      if (!this.isConnected || !this.ownsQuery(record)) {
+        return;
+      }
+      
+      if (!PENDING_RESPONSE_STATUSES.includes(response.responseData.status)) {
+        this.updateQuery(record, { status: 'FINALIZED', response });
+      } else if (Date.now() + pollInterval > record.submittedAt + timeout) {
+        this.updateQuery(record, {
+          status: 'FAILED',
+          response,
+          error: `Query did not finalize within ${timeout}ms (status ${response.responseData.status})`
+        });
+      } else {
+        this.updateQuery(record, { status: 'WAITING', response });
+        this.scheduleQueryCheck(record, pollInterval);
+        return;
+      }
+    } catch (error:any) {
+      if (!this.isConnected || !this.ownsQuery(record)) {
+        return;
+      }
+      this.updateQuery(record, { status: 'FAILED', error: error.message });
+    }
+    
+    await this.deliverQueryCallback(record);
+  }
+  
+  private async deliverQueryCallback(record: StateQueryRecord): Promise<void> {
+    if (!record.callback) {
+      return;
+    }
+    
+    const config = this.config.stateConnectorConfig || {};
+    if (!config.callbackSecret) {
+      record.callback = { ...record.callback, status: 'FAILED', error: 'No callbackSecret configured' };
+      return;
+    }
+    
+    const payload: StateQueryCallback = {
+      requestId: record.requestId,
+      status: record.status === 'FINALIZED' ? 'FINALIZED' : 'FAILED',
+      response: record.response,
+      error: record.error,
+      timestamp: Date.now()
+    };
+    
+    const result = await this.callbacks.deliver(
+      record.callback.url,
+      payload,
+      {
+        secret: config.callbackSecret,
+        maxAttempts: config.callbackMaxAttempts,
+        retryDelay: config.callbackRetryDelay,
+        timeout: config.responseTimeout
+      },
+      (attempt, error) => {
+        if (this.ownsQuery(record)) {
+          record.callback = { ...record.callback!, attempts: attempt, lastAttemptAt: Date.now(), error };
+        }
+      }
+    );
+    // A query taken over by another connection is delivered from there
+    if (!this.ownsQuery(record)) {
+      return;
+    }
+    
+    record.callback = result.delivered
+      ? { ...record.callback!, status: 'DELIVERED', deliveredAt: Date.now(), error: undefined }
+      : { ...record.callback!, status: 'FAILED', error: result.error };
+    
+    if (result.delivered) {
+      this.logger.debug(`Delivered callback for state query ${record.requestId}`, { attempts: result.attempts });
+    } else {
+      this.logger.warn(`Failed to deliver callback for state query ${record.requestId}`, {
+        attempts: result.attempts,
+        error: result.error
+      });
+    }
+  }
+  
+  private ownsQuery(record: StateQueryRecord): boolean {
+    return this.queries.get(record.requestId) === record;
+  }
+  
+  private updateQuery(record: StateQueryRecord, update: Partial<StateQueryRecord>): void {
+    Object.assign(record, update, { updatedAt: Date.now() });
+  }
+  
+  /**
+   * Forget settled queries (with no callback still being delivered) after the retention period
+   */
+  private pruneQueries(): void {
+    const cutoff = Date.now() - QUERY_RETENTION;
+    this.queries.forEach((record, requestId) => {
+      const settled = record.status === 'FINALIZED' || record.status === 'FAILED';
+      const delivering = record.callback && record.callback.status === 'PENDING';
+      if (settled && !delivering && record.updatedAt < cutoff) {
+        this.queries.delete(requestId);
+      }
+    });
+  }
+  
+  private copyQuery(record: StateQueryRecord): StateQueryRecord {
+    return {
+      ...record,
+      request: { ...record.request },
+      ...(record.callback && { callback: { ...record.callback } })
+    };
+  }
+  
+  /**
+   * Run a request through the scheduler with the configured response timeout
+   */
+  private schedule<T>(operation: (signal: AbortSignal) => Promise<T>, options: RequestOptions): Promise<T> {
+    return this.scheduler.run(operation, {
+      timeout: options.timeout || (this.config.stateConnectorConfig || {}).responseTimeout || DEFAULT_RESPONSE_TIMEOUT,
+      signal: options.signal
+    });
+  }
+  
+  /**
+   * Reject queries whose JSON encoding exceeds maxQuerySize bytes
+   */
+  private checkQuerySize(query: unknown): void {
+    const maxQuerySize = (this.config.stateConnectorConfig || {}).maxQuerySize;
+    if (!maxQuerySize) {
+      return;
+    }
+    
+    const size = Buffer.byteLength(JSON.stringify(query), 'utf8');
+    if (size > maxQuerySize) {
+      throw new ValidationError(`Query size of ${size} bytes exceeds maxQuerySize of ${maxQuerySize} bytes`, {
+        context: { field: 'queryData', size, maxQuerySize }
+      });
+    }
+  }
+  
+  /**
+   * Create a request ID, taken from the simulator's seeded sequence in simulation mode
+   */
+  private createRequestId(prefix: string): string {
+    return this.config.simulator
+      ? this.config.simulator.nextRequestId(prefix)
+      : `${prefix}-${Date.now()}-${randomBytes(4).toString('hex')}`;
+  }
+  
+  /**
+   * Get the client of an external chain with a configured endpoint
+   */
+  private getChainClient(blockchain: string): EvmStateClient {
+    const client = this.chainClients.get(blockchain.toLowerCase());
+    if (!client) {
+      throw new ValidationError(`No EVM endpoint configured for ${blockchain}`, { context: { field: 'blockchain' } });
+    }
+    return client;
+  }
+  
+  /**
+   * Get the epoch clock used by this connection
+   */
+  getEpochClock(): EpochClock {
+    return this.epochClock;
+  }
+  
+  /**
+   * Apply new State Connector settings without reconnecting
+   *
+   * Settings read on every call (feeds, timeouts, thresholds and the like) take
+   * effect immediately; settings used to set up the connection only apply after
+   * a reconnect.
+   */
+  updateConfig(stateConnectorConfig: StateConnectorSpecificConfig): void {
+    this.config = {
+      ...this.config,
+      stateConnectorConfig
+    };
+  }
+  
+  /**
+   * Take over the submitted queries of a connection being replaced
+   *
+   * Queries still being checked are checked again from this connection, and
+   * callbacks still being delivered are delivered again from it; the previous
+   * connection drops the results of work it had started on them.
+   */
+  adopt(previous: StateConnectorInterface): void {
+    previous.callbacks.cancelAll();
+    previous.queries.forEach((record, requestId) => {
+      const timer = previous.queryTimers.get(requestId);
+      if (timer) {
+        clearTimeout(timer);
+        previous.queryTimers.delete(requestId);
+      }
+      if (this.queries.has(requestId)) {
+        return;
+      }
+      this.queries.set(requestId, record);
+
+      if (record.status !== 'FINALIZED' && record.status !== 'FAILED') {
+        this.scheduleQueryCheck(record, Math.max(0, (record.nextCheckAt || 0) - Date.now()));
+      } else if (record.callback && record.callback.status === 'PENDING') {
+        this.deliverQueryCallback(record);
+      }
+    });
+    previous.queries.clear();
+  }
+
+  /**
+   * Wait for in-flight operations to finish; resolves false if the timeout elapses first
+   */
+  drain(timeout: number): Promise<boolean> {
+    return this.inFlight.drain(timeout);
+  }
+  
+  /**
+   * Get the number of operations in flight
+   */
+  getInFlightCount(): number {
+    return this.inFlight.getCount();
   }
   
   /**
    * Utility method to check if connected and throw an error if not
    */
   private checkConnection(): void {
-    if (!this.isConnected || !this.client) {
-      throw new Error('Not connected to State Connector. Call connect() first.');
+    if (!this.isConnected) {
+      throw new NotConnectedError('Not connected to State Connector. Call connect() first.');
     }
   }
 }
\ No newline at end of file
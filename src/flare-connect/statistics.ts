@@ -0,0 +1,117 @@
+/**
+ * Statistical helpers for price feed analysis
+ */
+
+import { ValidationError } from '../utils/errors';
+
+export interface WeightedValue {
+  value: number;
+  weight: number;
+}
+
+/**
+ * Weighted quantile in the FTSO sense: the smallest value at which the
+ * cumulative weight of the sorted values reaches `q` of the total weight
+ */
+export function weightedQuantile(values: WeightedValue[], q: number): number {
+  if (values.length === 0) {
+    throw new ValidationError('Cannot compute a quantile of an empty set', { context: { field: 'values' } });
+  }
+  if (!(q >= 0 && q <= 1)) {
+    throw new ValidationError(`Quantile ${q} outside [0, 1]`, { context: { field: 'q' } });
+  }
+
+  const sorted = values.filter(v => v.weight > 0).sort((a, b) => a.value - b.value);
+  if (sorted.length === 0) {
+    throw new ValidationError('Cannot compute a quantile when all weights are zero', { context: { field: 'values' } });
+  }
+
+  const totalWeight = sorted.reduce((sum, v) => sum + v.weight, 0);
+  const target = q * totalWeight;
+  let cumulative = 0;
+
+  for (const entry of sorted) {
+    cumulative += entry.weight;
+    if (cumulative >= target) {
+      return entry.value;
+    }
+  }
+
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Weighted median of a set of values
+ */
+export function weightedMedian(values: WeightedValue[]): number {
+  return weightedQuantile(values, 0.5);
+}
+
+/**
+ * Sample standard deviation
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Logarithmic returns between consecutive positive values
+ */
+export function logReturns(values: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    if (values[i - 1] > 0 && values[i] > 0) {
+      returns.push(Math.log(values[i] / values[i - 1]));
+    }
+  }
+  return returns;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.2e-9)
+ */
+export function inverseNormalCdf(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new ValidationError(`Probability ${p} outside (0, 1)`, { context: { field: 'p' } });
+  }
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02,
+    1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02,
+    6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00,
+    -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00,
+    3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -inverseNormalCdf(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Standard normal CDF (Zelen and Severo's approximation, absolute error below 7.5e-8)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+}
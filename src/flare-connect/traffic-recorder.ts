@@ -0,0 +1,238 @@
+/**
+ * Recording and replay of the traffic between the connectors and their transports
+ *
+ * A TrafficRecorder wraps transports and RPC clients in proxies that log every
+ * asynchronous call with its arguments and outcome; the log is saved as a JSON
+ * recording. A TrafficReplayer wraps the same objects with proxies that answer
+ * from such a recording without touching the network. Calls are matched by
+ * source, method and canonically encoded arguments; a call made more often than
+ * recorded keeps getting the last recorded outcome.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { canonicalEncode } from './attestation-signing';
+import { RecordedTransportCall, TrafficInterceptor, TransportRecording } from './types';
+import { ErrorCode, ProviderError, ValidationError, createError, toLucentIQError, wrapError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+const RECORDING_FORMAT = 'flare-connect-recording';
+const RECORDING_VERSION = 1;
+
+/**
+ * Methods that are answered locally when a recording has no entry for them
+ */
+const LIFECYCLE_METHODS = ['connect', 'close'];
+
+/**
+ * Convert a value to plain JSON, writing bigints as `{ "$bigint": "<decimal>" }`
+ */
+function toJson(value: unknown): unknown {
+  if (value === undefined) {
+    return undefined;
+  }
+  return JSON.parse(JSON.stringify(value, (_key, member) =>
+    typeof member === 'bigint' ? { $bigint: member.toString() } : member
+  ));
+}
+
+/**
+ * Restore the bigints of a value converted by toJson
+ */
+function fromJson(value: unknown): any {
+  if (Array.isArray(value)) {
+    return value.map(fromJson);
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (Object.keys(record).length === 1 && typeof record.$bigint === 'string') {
+      return BigInt(record.$bigint);
+    }
+    const restored: Record<string, unknown> = {};
+    Object.keys(record).forEach(key => {
+      restored[key] = fromJson(record[key]);
+    });
+    return restored;
+  }
+  return value;
+}
+
+function getCallKey(source: string, method: string, args: unknown[]): string {
+  return `${source}.${method}(${canonicalEncode(args)})`;
+}
+
+export class TrafficRecorder implements TrafficInterceptor {
+  private calls: RecordedTransportCall[] = [];
+  private logger: Logger;
+
+  /**
+   * Create a new recorder
+   */
+  constructor(logLevel: string = 'info') {
+    this.logger = new Logger({
+      serviceName: 'TrafficRecorder',
+      logLevel
+    });
+  }
+
+  /**
+   * Wrap an object so that its asynchronous method calls are recorded under `source`
+   */
+  wrap<T extends object>(source: string, target: T): T {
+    return new Proxy(target, {
+      get: (object, property, receiver) => {
+        const member = Reflect.get(object, property, receiver);
+        if (typeof member !== 'function' || typeof property !== 'string') {
+          return member;
+        }
+
+        return (...args: unknown[]) => {
+          const result = member.apply(object, args);
+          if (!result || typeof result.then !== 'function') {
+            return result;
+          }
+
+          return result.then(
+            (value: unknown) => {
+              this.calls.push({ source, method: property, args: toJson(args) as unknown[], result: toJson(value) });
+              return value;
+            },
+            (error: any) => {
+              const classified = toLucentIQError(error);
+              this.calls.push({
+                source,
+                method: property,
+                args: toJson(args) as unknown[],
+                error: classified.message,
+                errorCode: classified.code,
+                retryable: classified.retryable
+              });
+              throw error;
+            }
+          );
+        };
+      }
+    });
+  }
+
+  /**
+   * Get the calls recorded so far, oldest first
+   */
+  getCalls(): RecordedTransportCall[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Get the recorded calls as a recording that TrafficReplayer can play back
+   */
+  getRecording(): TransportRecording {
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      recordedAt: Date.now(),
+      calls: this.getCalls()
+    };
+  }
+
+  /**
+   * Write the recording to a JSON file
+   */
+  async save(filePath: string): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+      await fs.promises.writeFile(filePath, JSON.stringify(this.getRecording(), null, 2));
+      this.logger.info('Saved traffic recording', { filePath, calls: this.calls.length });
+    } catch (error:any) {
+      throw wrapError(error, `Failed to save traffic recording to ${filePath}`);
+    }
+  }
+}
+
+export class TrafficReplayer implements TrafficInterceptor {
+  private responses: Map<string, RecordedTransportCall[]> = new Map();
+  private positions: Map<string, number> = new Map();
+  private logger: Logger;
+
+  /**
+   * Create a replayer for a recording
+   */
+  constructor(recording: TransportRecording, logLevel: string = 'info') {
+    if (!recording || recording.format !== RECORDING_FORMAT) {
+      throw new ValidationError('Not a traffic recording', { context: { field: 'format' } });
+    }
+    if (recording.version > RECORDING_VERSION) {
+      throw new ValidationError(`Unsupported traffic recording version ${recording.version}`, { context: { field: 'version' } });
+    }
+
+    recording.calls.forEach(call => {
+      const key = getCallKey(call.source, call.method, fromJson(call.args));
+      this.responses.set(key, (this.responses.get(key) || []).concat(call));
+    });
+    this.logger = new Logger({
+      serviceName: 'TrafficReplayer',
+      logLevel
+    });
+  }
+
+  /**
+   * Load a recording saved by TrafficRecorder
+   */
+  static fromFile(filePath: string, logLevel: string = 'info'): TrafficReplayer {
+    let recording: TransportRecording;
+    try {
+      recording = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error:any) {
+      throw wrapError(error, `Failed to load traffic recording ${filePath}`);
+    }
+    return new TrafficReplayer(recording, logLevel);
+  }
+
+  /**
+   * Wrap an object so that its method calls are answered from the recording of `source`
+   */
+  wrap<T extends object>(source: string, target: T): T {
+    return new Proxy(target, {
+      get: (object, property, receiver) => {
+        const member = Reflect.get(object, property, receiver);
+        if (typeof member !== 'function' || typeof property !== 'string') {
+          return member;
+        }
+        return async (...args: unknown[]) => this.replay(source, property, args);
+      }
+    });
+  }
+
+  /**
+   * Get the number of recorded calls not yet replayed
+   */
+  getRemainingCount(): number {
+    let remaining = 0;
+    this.responses.forEach((calls, key) => {
+      remaining += Math.max(0, calls.length - (this.positions.get(key) || 0));
+    });
+    return remaining;
+  }
+
+  private replay(source: string, method: string, args: unknown[]): unknown {
+    const key = getCallKey(source, method, args);
+    const calls = this.responses.get(key);
+
+    if (!calls) {
+      if (LIFECYCLE_METHODS.includes(method)) {
+        return undefined;
+      }
+      this.logger.warn(`No recorded response for ${source}.${method}`, { args: canonicalEncode(args) });
+      throw new ProviderError(`No recorded response for ${source}.${method}`, { context: { source, method } });
+    }
+
+    const position = this.positions.get(key) || 0;
+    this.positions.set(key, position + 1);
+    const call = calls[Math.min(position, calls.length - 1)];
+
+    if (call.error !== undefined) {
+      // Recordings made before errors were classified replay as internal errors
+      throw createError((call.errorCode || 'INTERNAL_ERROR') as ErrorCode, call.error, { retryable: call.retryable });
+    }
+    return fromJson(call.result);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Signing and sending of legacy (EIP-155) transactions to Flare networks
+ *
+ * A TransactionSender sends one transaction at a time, so transactions from
+ * the same account (commits, reveals, attestation requests, reward claims)
+ * get consecutive nonces however their sends overlap.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes, strip0x } from './abi';
+import { rlpEncode } from './rlp';
+import { Signer, TransactionRequest, TransactionRpc, UnsignedTransaction } from './types';
+
+/**
+ * Derive the checksum-free 0x address for a private key
+ */
+export function privateKeyToAddress(privateKey: string): string {
+  const publicKey = secp256k1.getPublicKey(hexToBytes(strip0x(privateKey)), false);
+  return publicKeyToAddress(publicKey);
+}
+
+/**
+ * Derive the 0x address for an uncompressed secp256k1 public key
+ */
+export function publicKeyToAddress(publicKey: Uint8Array): string {
+  return `0x${bytesToHex(keccak_256(publicKey.slice(1)).slice(-20))}`;
+}
+
+/**
+ * Sign a legacy transaction with EIP-155 replay protection and return the raw transaction
+ */
+export async function signTransaction(tx: UnsignedTransaction, signer: Signer): Promise<string> {
+  const fields = [tx.nonce, tx.gasPrice, tx.gasLimit, tx.to, tx.value, tx.data];
+  const signingHash = keccak_256(rlpEncode([...fields, tx.chainId, 0, 0]));
+  const signature = await signer.signDigest(`0x${bytesToHex(signingHash)}`);
+  const v = BigInt(tx.chainId) * BigInt(2) + BigInt(35 + signature.recovery);
+
+  return `0x${bytesToHex(rlpEncode([...fields, v, BigInt(signature.r), BigInt(signature.s)]))}`;
+}
+
+/**
+ * Compute the hash of a raw signed transaction
+ */
+export function transactionHash(rawTransaction: string): string {
+  return `0x${bytesToHex(keccak_256(hexToBytes(strip0x(rawTransaction))))}`;
+}
+
+export class TransactionSender {
+  private rpc: TransactionRpc;
+  private signer: Signer;
+  private address: string | null = null;
+  private chainId: number | null = null;
+  private nextNonce: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a sender that signs with the given signer
+   */
+  constructor(rpc: TransactionRpc, signer: Signer) {
+    this.rpc = rpc;
+    this.signer = signer;
+  }
+
+  /**
+   * Get the address transactions are sent from
+   */
+  async getAddress(): Promise<string> {
+    if (this.address === null) {
+      this.address = await this.signer.getAddress();
+    }
+    return this.address;
+  }
+
+  /**
+   * Sign and broadcast a transaction once the sends before it have finished,
+   * returning its hash
+   */
+  send(request: TransactionRequest): Promise<string> {
+    const result = this.queue.then(() => this.sendNext(request));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sendNext(request: TransactionRequest): Promise<string> {
+    try {
+      return await this.signAndSend(request);
+    } catch (error) {
+      // The nonce may or may not have been used; read it from the chain next time
+      this.nextNonce = null;
+      throw error;
+    }
+  }
+
+  private async signAndSend(request: TransactionRequest): Promise<string> {
+    if (this.chainId === null) {
+      this.chainId = await this.rpc.getChainId();
+    }
+
+    // The pending count lags behind transactions the node has not seen yet
+    const address = await this.getAddress();
+    const pendingNonce = await this.rpc.getTransactionCount(address);
+    const nonce = this.nextNonce === null ? pendingNonce : Math.max(pendingNonce, this.nextNonce);
+
+    const [gasPrice, gasLimit] = await Promise.all([
+      this.rpc.getGasPrice(),
+      request.gasLimit !== undefined
+        ? Promise.resolve(BigInt(request.gasLimit))
+        : this.rpc.estimateGas({
+          from: address,
+          to: request.to,
+          data: request.data,
+          ...(request.value ? { value: `0x${BigInt(request.value).toString(16)}` } : {})
+        })
+    ]);
+
+    const rawTransaction = await signTransaction({
+      nonce,
+      gasPrice,
+      gasLimit,
+      to: request.to,
+      value: BigInt(request.value || 0),
+      data: request.data,
+      chainId: this.chainId
+    }, this.signer);
+
+    const hash = await this.rpc.sendRawTransaction(rawTransaction);
+    this.nextNonce = nonce + 1;
+
+    return hash;
+  }
+}
@@ -2,6 +2,10 @@
  * Type definitions for Flare Network connectivity components
  */
 
+import type { EpochClock } from './epoch-clock';
+import type { PriceStore } from './price-store';
+import type { FlareSimulator } from './simulator';
+
 
 export interface ConnectionStatus {
     connected: boolean;
@@ -12,6 +16,12 @@ export interface ConnectionStatus {
     activeDataFeeds?: string[];
     supportedChainsCount?: number;
     activeRequests?: number;
+    queuedRequests?: number;
+  }
+  
+  export interface RequestOptions {
+    timeout?: number;
+    signal?: AbortSignal;
   }
   
   export interface SubmissionResult {
@@ -21,36 +31,154 @@ export interface ConnectionStatus {
     submissionTimestamp: number;
     transactionHash: string;
     error?: string;
+    phase?: SubmissionPhase;
+    commitHash?: string;
+    revealDeadline?: number;
+  }
+  
+  export type SubmissionPhase = 'COMMIT' | 'REVEAL';
+  
+  export type EpochSubmissionStatus = 'COMMITTED' | 'REVEALED' | 'REVEAL_MISSED' | 'REVEAL_FAILED';
+  
+  export interface EpochSubmissionState {
+    epoch: number;
+    status: EpochSubmissionStatus;
+    values: Record<string, number>;
+    commitHash: string;
+    commitTransactionHash: string;
+    committedAt: number;
+    revealDeadline: number;
+    revealTransactionHash?: string;
+    revealedAt?: number;
+    error?: string;
   }
   
   
   export interface FlareConnectionConfig {
     endpoint: string;
     apiKey: string;
+    endpoints?: RpcEndpointConfig[];
+    quorum?: QuorumConfig;
     ftsoConfig?: FTSOSpecificConfig;
     fdcConfig?: FDCSpecificConfig;
     stateConnectorConfig?: StateConnectorSpecificConfig;
+    epochConfig?: EpochClockConfig;
+    healthConfig?: HealthMonitorConfig;
+    backend?: BackendConfig;
+    drainTimeout?: number;
     logLevel?: string;
   }
   
+  export type FlareServiceName = 'ftso' | 'fdc' | 'stateConnector';
+  
+  export type ServiceConnectionState = 'CONNECTED' | 'DISCONNECTED' | 'RECONNECTING';
+  
+  export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+  
+  export interface HealthMonitorConfig {
+    checkInterval?: number;
+    reconnectBaseDelay?: number;
+    reconnectMaxDelay?: number;
+    failureThreshold?: number;
+    circuitResetTimeout?: number;
+    requiredServices?: FlareServiceName[];
+  }
+  
+  export interface ServiceHealth {
+    service: FlareServiceName;
+    state: ServiceConnectionState;
+    circuit: CircuitState;
+    consecutiveFailures: number;
+    reconnectAttempts: number;
+    lastCheck?: number;
+    lastConnected?: number;
+    nextRetryAt?: number;
+    lastError?: string;
+  }
+  
+  export interface ServiceStatusEvent {
+    service: FlareServiceName;
+    previous: ServiceHealth;
+    current: ServiceHealth;
+    timestamp: number;
+  }
+  
+  export interface EpochClockConfig {
+    firstEpochStartTimestamp?: number;
+    epochDuration?: number;
+    revealDeadlineOffset?: number;
+  }
+  
+  export interface EpochInfo {
+    epochId: number;
+    startTimestamp: number;
+    endTimestamp: number;
+    revealDeadline: number;
+  }
+  
   export interface FTSOSpecificConfig {
     dataProviderMode?: boolean;
     providerIdentity?: string;
-    privateKey?: string;
+    signer?: Signer | SignerConfig;
     votePower?: number;
     minSubmissionInterval?: number;
+    ftsoV2Address?: string;
+    contractRegistryAddress?: string;
+    feeds?: string[];
+    requestTimeout?: number;
+    providerNames?: Record<string, string>;
+    providerVotePower?: Record<string, number>;
+    providerScoring?: ProviderScoringConfig;
+    blockPollInterval?: number;
+    priceStoreDirectory?: string;
+    rewards?: FTSORewardConfig;
   }
   
   export interface FDCSpecificConfig {
     maxConcurrentRequests?: number;
     defaultTimeout?: number;
     verifierNodes?: string[];
+    signer?: Signer | SignerConfig;
+    daLayerUrl?: string;
+    contractRegistryAddress?: string;
+    pollInterval?: number;
   }
   
   export interface StateConnectorSpecificConfig {
     attestationThreshold?: number;
     maxQuerySize?: number;
+    maxConcurrentRequests?: number;
     responseTimeout?: number;
+    trustedSigners?: TrustedSigner[];
+    chainEndpoints?: Record<string, string | Array<string | RpcEndpointConfig>>;
+    spvEndpoints?: Record<string, string>;
+    spvCheckpoints?: Record<string, BitcoinCheckpointConfig>;
+    minConfirmations?: number;
+    queryPollInterval?: number;
+    queryTimeout?: number;
+    callbackSecret?: string;
+    callbackMaxAttempts?: number;
+    callbackRetryDelay?: number;
+  }
+  
+  /**
+   * A Bitcoin header trusted without proof, anchoring the header chains of SPV proofs
+   */
+  export interface BitcoinCheckpointConfig {
+    height: number;
+    // Raw 80-byte header
+    header: string;
+    // Timestamp of the first block of the checkpoint's retarget interval; not
+    // needed when the checkpoint is that block
+    periodStartTimestamp?: number;
+    // Minimum work of the confirming headers, as a decimal or 0x-prefixed hex string
+    minChainWork?: string;
+  }
+  
+  export interface TrustedSigner {
+    address: string;
+    weight?: number;
+    name?: string;
   }
   
   
@@ -59,12 +187,77 @@ export interface ConnectionStatus {
     apiKey: string;
     ftsoSpecificConfig?: FTSOSpecificConfig;
     dataProviderSettings?: FTSODataProviderSettings;
+    transport?: FTSOTransport;
+    rpc?: RpcClient;
+    traffic?: TrafficInterceptor;
+    priceStore?: PriceStore;
+    epochClock?: EpochClock;
     logLevel?: string;
   }
   
+  export interface FTSOTransport extends TransactionRpc {
+    connect(): Promise<void>;
+    close(): Promise<void>;
+    getFeedValues(symbols: string[], blockTag?: number | 'latest'): Promise<FeedValue[]>;
+    getBlock(blockTag?: number | 'latest'): Promise<BlockInfo>;
+    getBlockTransactions(blockNumber: number): Promise<TransactionInfo[]>;
+    getTransactionReceipt(transactionHash: string): Promise<TransactionReceipt | null>;
+    ping(): Promise<number>;
+    getContractAddress(name: string): Promise<string>;
+    getRewardEpochFeeds(rewardEpochId: number): Promise<RewardEpochFeed[]>;
+  }
+  
+  export interface JsonRpcFTSOTransportConfig {
+    endpoint: string;
+    apiKey?: string;
+    ftsoV2Address?: string;
+    contractRegistryAddress?: string;
+    timeout?: number;
+    rpc?: RpcClient;
+    // Largest block range of a single eth_getLogs request
+    maxLogBlockRange?: number;
+  }
+  
+  export interface FeedValue {
+    symbol: string;
+    feedId: string;
+    value: number;
+    rawValue: string;
+    decimals: number;
+    timestamp: number;
+  }
+  
+  /**
+   * A feed of a reward epoch, in the epoch's canonical feed order used by commits and reveals
+   */
+  export interface RewardEpochFeed {
+    feedId: string;
+    // Feed name, e.g. BTC/USD
+    symbol: string;
+    decimals: number;
+  }
+  
+  export interface BlockInfo {
+    number: number;
+    timestamp: number;
+  }
+  
+  export interface TransactionReceipt {
+    transactionHash: string;
+    blockNumber: number;
+    status: boolean;
+  }
+  
+  export interface TransactionInfo {
+    hash: string;
+    from: string;
+    to: string | null;
+    input: string;
+  }
+  
   export interface FTSODataProviderSettings {
     providerIdentity: string;
-    privateKey: string;
+    signer: Signer | SignerConfig;
     votePower: number;
     supportedSymbols: string[];
     rewardAddress: string;
@@ -85,32 +278,92 @@ export interface ConnectionStatus {
     };
   }
   
+  export interface StoredPricePoint {
+    symbol: string;
+    epoch: number;
+    timestamp: number;
+    price: number;
+  }
+  
+  export type CandleInterval = '1h' | '1d';
+  
+  export interface PriceCandle {
+    symbol: string;
+    interval: CandleInterval;
+    openTime: number;
+    closeTime: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    samples: number;
+  }
+  
+  export interface PriceStoreConfig {
+    directory: string;
+    logLevel?: string;
+  }
+  
+  export interface PriceStoreExportOptions {
+    symbols?: string[];
+    fromEpoch?: number;
+    toEpoch?: number;
+  }
+  
+  export interface PriceStoreImportResult {
+    imported: number;
+    skipped: number;
+    symbols: string[];
+  }
+  
+  export type PriceUpdateHandler = (update: PriceData) => void | Promise<void>;
+  
+  export interface SubscriptionOptions {
+    blockLatency?: boolean;
+    maxQueueSize?: number;
+  }
+  
+  export interface SubscriptionStats {
+    id: string;
+    symbols: string[];
+    blockLatency: boolean;
+    delivered: number;
+    dropped: number;
+    errors: number;
+    queued: number;
+  }
+  
+  export type ConfidenceIntervalMethod = 'SUBMISSIONS' | 'VOLATILITY';
+  
+  export interface ConfidenceIntervalOptions {
+    method?: ConfidenceIntervalMethod;
+    levels?: number[];
+    volatilityWindow?: number;
+    horizon?: number;
+  }
+  
+  export interface ConfidenceBand {
+    level: number;
+    lower: number;
+    upper: number;
+  }
+  
   export interface ConfidenceInterval {
     symbol: string;
     timestamp: number;
     currentPrice: number;
-    intervals: {
-      interval50: {
-        lower: number;
-        upper: number;
-        level: number;
-      };
-      interval80: {
-        lower: number;
-        upper: number;
-        level: number;
-      };
-      interval95: {
-        lower: number;
-        upper: number;
-        level: number;
-      };
-      interval99: {
-        lower: number;
-        upper: number;
-        level: number;
-      };
-    };
+    method: ConfidenceIntervalMethod;
+    epoch: number;
+    sampleSize: number;
+    intervals: ConfidenceBand[];
+  }
+  
+  export interface ProviderSubmission {
+    provider: string;
+    symbol: string;
+    epoch: number;
+    value: number;
+    weight: number;
   }
   
   export interface FTSOProviderInfo {
@@ -120,6 +373,107 @@ export interface ConnectionStatus {
     accuracy: number;
     votePower: number;
     supportedSymbols: string[];
+    revealRate?: number;
+    primaryBandRate?: number;
+    meanDeviation?: number;
+    epochsObserved?: number;
+    lastSeenEpoch?: number;
+  }
+  
+  export interface ProviderQueryOptions {
+    sortBy?: 'reliabilityScore' | 'accuracy' | 'revealRate' | 'votePower';
+    minReliability?: number;
+    symbol?: string;
+    limit?: number;
+  }
+  
+  export interface ProviderScoringConfig {
+    windowSize?: number;
+    halfLife?: number;
+    backfillEpochs?: number;
+    weights?: {
+      reveal?: number;
+      primaryBand?: number;
+      accuracy?: number;
+    };
+  }
+  
+  export interface FTSORewardConfig {
+    rewardPerFeedRound?: bigint | string;
+    primaryBandShare?: number;
+    secondaryBandWidth?: number;
+    votingRoundsPerRewardEpoch?: number;
+    firstRewardEpochVotingRound?: number;
+    ledgerFile?: string;
+    claimTimeout?: number;
+  }
+  
+  export type RoundRewardStatus = 'REWARDED' | 'OUTSIDE_BANDS' | 'MISSED';
+  
+  export interface FeedRoundReward {
+    symbol: string;
+    value?: number;
+    median?: number;
+    inPrimaryBand: boolean;
+    inSecondaryBand: boolean;
+    expected: bigint;
+  }
+  
+  export interface RoundRewardEstimate {
+    votingRoundId: number;
+    rewardEpochId: number;
+    status: RoundRewardStatus;
+    feeds: FeedRoundReward[];
+    expected: bigint;
+    estimatedAt: number;
+  }
+  
+  export type RewardClaimStatus = 'UNCLAIMED' | 'PENDING' | 'CLAIMED' | 'FAILED';
+  
+  export interface RewardClaimRecord {
+    rewardEpochId: number;
+    status: RewardClaimStatus;
+    claimed: bigint;
+    recipient?: string;
+    transactionHash?: string;
+    claimedAt?: number;
+    error?: string;
+  }
+  
+  export interface RewardClaimProof {
+    merkleProof: string[];
+    rewardEpochId: number;
+    beneficiary: string;
+    amount: bigint | string;
+    claimType: number;
+  }
+  
+  export interface RewardClaimOptions {
+    rewardOwner?: string;
+    recipient?: string;
+    wrap?: boolean;
+  }
+  
+  export interface RewardEpochSummary {
+    rewardEpochId: number;
+    expected: bigint;
+    claimed: bigint;
+    status: RewardClaimStatus;
+    transactionHash?: string;
+  }
+  
+  export interface RewardReport {
+    fromVotingRound: number;
+    toVotingRound: number;
+    roundsEstimated: number;
+    roundsRewarded: number;
+    roundsMissed: number;
+    primaryBandRate: number;
+    expected: bigint;
+    claimed: bigint;
+    unclaimed: bigint;
+    bySymbol: Record<string, { expected: bigint; roundsInPrimaryBand: number; roundsInSecondaryBand: number }>;
+    rewardEpochs: RewardEpochSummary[];
   }
   
   
@@ -127,17 +481,192 @@ export interface ConnectionStatus {
     endpoint: string;
     apiKey: string;
     fdcSpecificConfig?: FDCSpecificConfig;
+    transport?: FDCTransport;
+    rpc?: RpcClient;
+    traffic?: TrafficInterceptor;
+    epochClock?: EpochClock;
     logLevel?: string;
   }
   
-  export interface ExternalData {
+  export interface FDCTransport extends TransactionRpc {
+    connect(): Promise<void>;
+    close(): Promise<void>;
+    ping(): Promise<number>;
+    getContractAddress(name: string): Promise<string>;
+    getBlock(blockTag?: number | 'latest'): Promise<BlockInfo>;
+    getTransactionReceipt(transactionHash: string): Promise<TransactionReceipt | null>;
+    getRequestFee(abiEncodedRequest: string): Promise<bigint>;
+    getMerkleRoot(votingRoundId: number): Promise<string | null>;
+    getProof(votingRoundId: number, abiEncodedRequest: string): Promise<{ responseHex: string; proof: string[] } | null>;
+  }
+  
+  export interface JsonRpcFDCTransportConfig {
+    endpoint: string;
+    apiKey?: string;
+    daLayerUrl?: string;
+    contractRegistryAddress?: string;
+    timeout?: number;
+    rpc?: RpcClient;
+  }
+  
+  export interface AttestationRequestInput {
+    attestationType: string;
+    sourceId: string;
+    requestBody: string;
+    messageIntegrityCode?: string;
+  }
+  
+  export type AttestationRequestStatus = 'PENDING' | 'VOTING' | 'FINALIZED' | 'PROVEN' | 'FAILED';
+  
+  export interface AttestationRequestRecord {
+    requestId: string;
+    attestationType: string;
+    sourceId: string;
+    abiEncodedRequest: string;
+    status: AttestationRequestStatus;
+    transactionHash: string;
+    fee: string;
+    submittedAt: number;
+    updatedAt: number;
+    votingRoundId?: number;
+    proof?: AttestationProof;
+    error?: string;
+  }
+  
+  export interface AttestationProof {
+    votingRoundId: number;
+    merkleRoot: string;
+    leafHash: string;
+    responseHex: string;
+    proof: string[];
+  }
+  
+  export type FDCAttestationType =
+    'Payment' |
+    'BalanceDecreasingTransaction' |
+    'EVMTransaction' |
+    'AddressValidity' |
+    'JsonApi';
+  
+  export interface PaymentRequestBody {
+    transactionId: string;
+    inUtxo?: number;
+    utxo?: number;
+  }
+  
+  export interface PaymentResponseBody {
+    blockNumber: number;
+    blockTimestamp: number;
+    sourceAddressHash: string;
+    sourceAddressesRoot: string;
+    receivingAddressHash: string;
+    intendedReceivingAddressHash: string;
+    spentAmount: string;
+    intendedSpentAmount: string;
+    receivedAmount: string;
+    intendedReceivedAmount: string;
+    standardPaymentReference: string;
+    oneToOne: boolean;
+    status: number;
+  }
+  
+  export interface BalanceDecreasingTransactionRequestBody {
+    transactionId: string;
+    sourceAddressIndicator: string;
+  }
+  
+  export interface BalanceDecreasingTransactionResponseBody {
+    blockNumber: number;
+    blockTimestamp: number;
+    sourceAddressHash: string;
+    spentAmount: string;
+    standardPaymentReference: string;
+  }
+  
+  export interface EVMTransactionRequestBody {
+    transactionHash: string;
+    requiredConfirmations?: number;
+    provideInput?: boolean;
+    listEvents?: boolean;
+    logIndices?: number[];
+  }
+  
+  export interface EVMTransactionEvent {
+    logIndex: number;
+    emitterAddress: string;
+    topics: string[];
+    data: string;
+    removed: boolean;
+  }
+  
+  export interface EVMTransactionResponseBody {
+    blockNumber: number;
+    timestamp: number;
+    sourceAddress: string;
+    isDeployment: boolean;
+    receivingAddress: string;
+    value: string;
+    input: string;
+    status: number;
+    events: EVMTransactionEvent[];
+  }
+  
+  export interface AddressValidityRequestBody {
+    addressStr: string;
+  }
+  
+  export interface AddressValidityResponseBody {
+    isValid: boolean;
+    standardAddress: string;
+    standardAddressHash: string;
+  }
+  
+  export interface JsonApiRequestBody {
+    url: string;
+    postprocessJq: string;
+    abiSignature: string;
+  }
+  
+  export interface JsonApiResponseBody {
+    abiEncodedData: string;
+  }
+  
+  export interface FDCAttestationResponse<TRequest, TResponse> {
+    attestationType: FDCAttestationType;
+    sourceId: string;
+    votingRound: number;
+    lowestUsedTimestamp: number;
+    requestBody: TRequest;
+    responseBody: TResponse;
+  }
+  
+  export interface FDCQuery<TRequest, TResponse> {
+    attestationType: FDCAttestationType;
+    blockchain: string;
+    sourceId: string;
+    requestBody: TRequest;
+    abiEncodedRequest: string;
+    decodeResponse(responseHex: string): FDCAttestationResponse<TRequest, TResponse>;
+  }
+  
+  // Attested response as returned by requestExternalData(), still ABI-encoded
+  export interface RawAttestationData {
+    attestationType: string;
+    sourceId: string;
+    votingRoundId: number;
+    responseHex: string;
+  }
+  
+  export interface ExternalData<T = RawAttestationData | FDCAttestationResponse<unknown, unknown>> {
     blockchain: string;
     dataPath: string;
-    data: any;
+    data: T;
     timestamp: number;
     attestation: {
-      signatures: number;
-      threshold: number;
+      votingRoundId: number;
+      merkleRoot: string;
+      proof: string[];
+      responseHex: string;
       valid: boolean;
     };
     requestId: string;
@@ -149,20 +678,23 @@ export interface ConnectionStatus {
     confidence: number;
     timestamp: number;
     error?: string;
+    votingRoundId?: number;
+    merkleRoot?: string;
+    proof?: string[];
     details: {
-      signaturesVerified: number;
-      requiredThreshold: number;
-      signatureVerificationMethod: string;
+      verificationMethod: string;
+      leafHash?: string;
+      computedRoot?: string;
       sourceBlockchain: string;
       dataFinality: number;
       crossChainProtocol: string;
     };
   }
   
-  export interface VerifiedData {
+  export interface VerifiedData<T = RawAttestationData | FDCAttestationResponse<unknown, unknown>> {
     blockchain: string;
     dataPath: string;
-    data: any;
+    data: T;
     timestamp: number;
     requestId: string;
     verificationResult: VerificationResult;
@@ -181,6 +713,11 @@ export interface ConnectionStatus {
     endpoint: string;
     apiKey: string;
     stateConnectorConfig?: StateConnectorSpecificConfig;
+    quorum?: QuorumConfig;
+    onQuorumDisagreement?: (report: QuorumDisagreement) => void;
+    simulator?: FlareSimulator;
+    traffic?: TrafficInterceptor;
+    epochClock?: EpochClock;
     logLevel?: string;
   }
   
@@ -195,6 +732,13 @@ export interface ConnectionStatus {
       timestamp: number;
       proofType: string;
       signatures: string[];
+      stateRoot?: string;
+      accountProof?: string[];
+      storageProofs?: StorageSlotProof[];
+      receiptsRoot?: string;
+      receipts?: string[];
+      // RLP-encoded block header binding the trie roots to blockHash
+      blockHeader?: string;
     };
     timestamp: number;
     metadata: {
@@ -202,9 +746,57 @@ export interface ConnectionStatus {
       attestationCount: number;
       requiredAttestations: number;
       finalized: boolean;
+      verified?: boolean;
     };
   }
   
+  export interface StateQueryOptions extends RequestOptions {
+    includeStorage?: boolean;
+    includeLogs?: boolean;
+    storageKeys?: string[];
+    blockTag?: number | 'latest' | 'safe' | 'finalized';
+    // Hash of the block from a source independent of the chain's endpoints; needed unless they answer by quorum
+    trustedBlockHash?: string;
+  }
+  
+  export interface StorageSlotProof {
+    key: string;
+    value: string;
+    proof: string[];
+  }
+  
+  export interface EvmLog {
+    address: string;
+    topics: string[];
+    data: string;
+    transactionIndex: number;
+    logIndex: number;
+  }
+  
+  export interface EvmAccountState {
+    nonce: string;
+    balance: string;
+    storageHash: string;
+    codeHash: string;
+    storage?: Record<string, string>;
+    logs?: EvmLog[];
+  }
+  
+  export interface EvmBlockHeader {
+    number: number;
+    hash: string;
+    timestamp: number;
+    stateRoot: string;
+    receiptsRoot: string;
+    // RLP encoding of the full header, which hashes to `hash`
+    rlp: string;
+  }
+  
+  export interface StateProofVerification {
+    valid: boolean;
+    errors: string[];
+  }
+  
   export interface StateQueryRequest {
     blockchain: string;
     address: string;
@@ -214,6 +806,51 @@ export interface ConnectionStatus {
     callbackUrl?: string;
   }
   
+  export type StateQueryStatus = 'QUEUED' | 'PROCESSING' | 'WAITING' | 'FINALIZED' | 'FAILED';
+  
+  export type CallbackDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+  
+  export interface StateQueryRecord {
+    requestId: string;
+    request: StateQueryRequest;
+    status: StateQueryStatus;
+    submittedAt: number;
+    updatedAt: number;
+    checks: number;
+    nextCheckAt?: number;
+    response?: AttestationResponse;
+    error?: string;
+    callback?: {
+      url: string;
+      status: CallbackDeliveryStatus;
+      attempts: number;
+      lastAttemptAt?: number;
+      deliveredAt?: number;
+      error?: string;
+    };
+  }
+  
+  export interface StateQueryCallback {
+    requestId: string;
+    status: 'FINALIZED' | 'FAILED';
+    response?: AttestationResponse;
+    error?: string;
+    timestamp: number;
+  }
+  
+  export interface CallbackDeliveryOptions {
+    secret: string;
+    maxAttempts?: number;
+    retryDelay?: number;
+    timeout?: number;
+  }
+  
+  export interface CallbackDeliveryResult {
+    delivered: boolean;
+    attempts: number;
+    error?: string;
+  }
+  
   export interface AttestationResponse {
     requestId: string;
     blockchain: string;
@@ -233,4 +870,283 @@ export interface ConnectionStatus {
       source: string;
       attestationSchema: string;
     };
-  }
\ No newline at end of file
+    spvProof?: BitcoinSpvProof;
+  }
+  
+  export interface BitcoinSpvProof {
+    blockHeight: number;
+    // Height of the first header; the transaction's block when absent
+    startHeight?: number;
+    headers: string[];
+    merkleBranch: string[];
+    position: number;
+    rawTransaction?: string;
+  }
+  
+  export type SignatureStatus = 'VALID' | 'UNKNOWN' | 'DUPLICATE' | 'INVALID';
+  
+  export interface SignatureVerification {
+    claimedSigner: string;
+    recoveredSigner?: string;
+    status: SignatureStatus;
+    weight: number;
+    error?: string;
+  }
+  
+  export interface AttestationVerificationResult {
+    requestId: string;
+    valid: boolean;
+    expired: boolean;
+    validWeight: number;
+    requiredWeight: number;
+    totalWeight: number;
+    validSigners: string[];
+    unknownSigners: string[];
+    duplicateSigners: string[];
+    invalidSignatures: SignatureVerification[];
+    signatures: SignatureVerification[];
+    error?: string;
+  }
+  
+
+  
+  export interface JsonRpcClientConfig {
+    endpoint: string;
+    apiKey?: string;
+    timeout?: number;
+  }
+  
+  export interface RpcClient {
+    call<T = any>(method: string, params?: unknown[]): Promise<T>;
+    ethCall(to: string, data: string, blockTag?: number | 'latest'): Promise<string>;
+    getEndpoint(): string;
+  }
+  
+  export interface RpcEndpointConfig {
+    url: string;
+    priority?: number;
+    apiKey?: string;
+  }
+  
+  export interface QuorumConfig {
+    enabled?: boolean;
+    size?: number;
+    threshold?: number;
+    blockLag?: number;
+  }
+  
+  export interface RpcEndpointPoolOptions {
+    name?: string;
+    apiKey?: string;
+    timeout?: number;
+    quorum?: QuorumConfig;
+    logLevel?: string;
+  }
+  
+  export interface RpcEndpointStatus {
+    url: string;
+    priority: number;
+    available: boolean;
+    latency?: number;
+    consecutiveFailures: number;
+    totalRequests: number;
+    totalFailures: number;
+    cooldownUntil?: number;
+    lastError?: string;
+  }
+  
+  export interface QuorumResponse {
+    endpoint: string;
+    result?: any;
+    error?: string;
+  }
+  
+  export interface QuorumDisagreement {
+    network: string;
+    method: string;
+    params: unknown[];
+    required: number;
+    agreeing: number;
+    reached: boolean;
+    responses: QuorumResponse[];
+    timestamp: number;
+  }
+  
+  export interface RecordedRpcExchange {
+    method: string;
+    params?: unknown[];
+    result?: any;
+    error?: {
+      code: number;
+      message: string;
+      data?: any;
+    };
+  }
+  
+  export interface TransactionRpc {
+    getChainId(): Promise<number>;
+    getTransactionCount(address: string): Promise<number>;
+    getGasPrice(): Promise<bigint>;
+    estimateGas(request: { from: string; to: string; data: string; value?: string }): Promise<bigint>;
+    sendRawTransaction(rawTransaction: string): Promise<string>;
+  }
+  
+  export interface TransactionRequest {
+    to: string;
+    data: string;
+    value?: number | bigint;
+    gasLimit?: number | bigint;
+  }
+  
+  export interface UnsignedTransaction {
+    nonce: number;
+    gasPrice: bigint;
+    gasLimit: bigint;
+    to: string;
+    value: bigint;
+    data: string;
+    chainId: number;
+  }
+  
+  export interface DigestSignature {
+    r: string;
+    s: string;
+    recovery: number;
+  }
+  
+  export interface Signer {
+    getAddress(): Promise<string>;
+    signDigest(digest: string): Promise<DigestSignature>;
+  }
+  
+  export interface KeystoreSignerConfig {
+    type: 'keystore';
+    path: string;
+    passwordEnv?: string;
+  }
+  
+  export interface EnvironmentSignerConfig {
+    type: 'env';
+    variable?: string;
+  }
+  
+  export interface RemoteSignerConfig {
+    type: 'remote';
+    url: string;
+    address?: string;
+    authTokenEnv?: string;
+    timeout?: number;
+  }
+  
+  export type SignerConfig = KeystoreSignerConfig | EnvironmentSignerConfig | RemoteSignerConfig;
+  
+  export interface KeystoreFile {
+    version: number;
+    id: string;
+    address: string;
+    crypto: {
+      cipher: string;
+      ciphertext: string;
+      cipherparams: {
+        iv: string;
+      };
+      kdf: string;
+      kdfparams: {
+        dklen: number;
+        n: number;
+        r: number;
+        p: number;
+        salt: string;
+      };
+      mac: string;
+    };
+  }
+  
+  export interface KeystoreOptions {
+    scryptN?: number;
+    scryptR?: number;
+    scryptP?: number;
+  }
+  
+  export type BackendMode = 'network' | 'simulation' | 'record' | 'replay';
+  
+  export interface BackendConfig {
+    mode: BackendMode;
+    scenario?: SimulationScenario | string;
+    seed?: number;
+    recordingFile?: string;
+  }
+  
+  export interface SimulationScenario {
+    name?: string;
+    seed?: number;
+    startTime?: number;
+    historyEpochs?: number;
+    blockTime?: number;
+    chainId?: number;
+    feeds?: SimulatedFeed[];
+    providers?: SimulatedProvider[];
+    attestation?: SimulatedAttestationConfig;
+    failureRates?: Partial<Record<FlareServiceName, number>>;
+    events?: SimulationEvent[];
+  }
+  
+  export interface SimulatedFeed {
+    symbol: string;
+    price: number;
+    volatility?: number;
+    drift?: number;
+    decimals?: number;
+  }
+  
+  export interface SimulatedProvider {
+    address: string;
+    votePower?: number;
+    deviation?: number;
+    revealRate?: number;
+  }
+  
+  export interface SimulatedAttestationConfig {
+    delayRounds?: number;
+    failureRate?: number;
+    signers?: number;
+    insufficientSigners?: number;
+    responseDelay?: number;
+  }
+  
+  export type SimulationEventType =
+    'NO_CONSENSUS' |
+    'PRICE_SHOCK' |
+    'ATTESTATION_FAILURE' |
+    'INSUFFICIENT_SIGNATURES' |
+    'OUTAGE';
+  
+  export interface SimulationEvent {
+    type: SimulationEventType;
+    fromEpoch: number;
+    toEpoch?: number;
+    symbols?: string[];
+    services?: FlareServiceName[];
+    change?: number;
+  }
+  
+  export interface TrafficInterceptor {
+    wrap<T extends object>(source: string, target: T): T;
+  }
+  
+  export interface RecordedTransportCall {
+    source: string;
+    method: string;
+    args: unknown[];
+    result?: unknown;
+    error?: string;
+    errorCode?: string;
+    retryable?: boolean;
+  }
+  
+  export interface TransportRecording {
+    format: string;
+    version: number;
+    recordedAt: number;
+    calls: RecordedTransportCall[];
+  }
@@ -0,0 +1,16 @@
+/**
+ * LucentIQ
+ *
+ * Decentralized predictive intelligence on the Flare Network.
+ */
+
+import { LucentIQ } from './core';
+
+export * from './core';
+export * from './data-sources';
+export * from './prediction';
+export * from './protocol';
+export * from './flare-connect';
+export * from './utils';
+
+export default LucentIQ;
@@ -0,0 +1,69 @@
+/**
+ * Confidence intervals and outcome scenarios for predictions
+ *
+ * Price-like values are treated as log-normal around the prediction, and
+ * probabilities as normal around the estimate, clipped to [0, 1].
+ */
+
+import { AlternativeScenario, ConfidenceBounds, ConfidenceIntervals, Prediction, PredictionType } from '../core/types';
+import { inverseNormalCdf } from '../flare-connect/statistics';
+
+const INTERVAL_LEVELS: Array<[keyof ConfidenceIntervals, number]> = [
+  ['interval68', 0.6827],
+  ['interval95', 0.95],
+  ['interval99', 0.99]
+];
+
+/**
+ * Intervals of a log-normal value with log standard deviation `sigma`
+ */
+export function logNormalIntervals(value: number, sigma: number): ConfidenceIntervals {
+  return buildIntervals(z => ({
+    lower: value * Math.exp(-z * sigma),
+    upper: value * Math.exp(z * sigma)
+  }));
+}
+
+/**
+ * Intervals of a probability estimate with standard error `standardError`
+ */
+export function probabilityIntervals(probability: number, standardError: number): ConfidenceIntervals {
+  return buildIntervals(z => ({
+    lower: Math.max(0, probability - z * standardError),
+    upper: Math.min(1, probability + z * standardError)
+  }));
+}
+
+/**
+ * Describe the outcomes a prediction leaves open, with their probabilities
+ */
+export function getAlternativeScenarios(prediction: Prediction): AlternativeScenario[] {
+  if (prediction.type !== PredictionType.ASSET_PRICE) {
+    const subject = prediction.type === PredictionType.PRICE_DIRECTION
+      ? `${prediction.params.asset} rises`
+      : prediction.params.event || 'Event occurs';
+    return [
+      { description: subject, probability: prediction.value },
+      { description: `Not: ${subject}`, probability: 1 - prediction.value }
+    ];
+  }
+
+  const { interval68, interval95 } = prediction.confidenceIntervals;
+  const tail68 = (1 - INTERVAL_LEVELS[0][1]) / 2;
+  const tail95 = (1 - INTERVAL_LEVELS[1][1]) / 2;
+  return [
+    { description: 'Strong decline', probability: tail95, upper: interval95.lower },
+    { description: 'Moderate decline', probability: tail68 - tail95, lower: interval95.lower, upper: interval68.lower },
+    { description: 'Base case', probability: INTERVAL_LEVELS[0][1], lower: interval68.lower, upper: interval68.upper },
+    { description: 'Moderate rally', probability: tail68 - tail95, lower: interval68.upper, upper: interval95.upper },
+    { description: 'Strong rally', probability: tail95, lower: interval95.upper }
+  ];
+}
+
+function buildIntervals(bounds: (z: number) => ConfidenceBounds): ConfidenceIntervals {
+  const intervals = {} as ConfidenceIntervals;
+  INTERVAL_LEVELS.forEach(([key, level]) => {
+    intervals[key] = bounds(inverseNormalCdf((1 + level) / 2));
+  });
+  return intervals;
+}
@@ -0,0 +1,20 @@
+/**
+ * Prediction Module
+ *
+ * Prediction models, the registry that serves them, and confidence interval
+ * and scenario helpers.
+ */
+
+import { PredictionRegistry } from './prediction-registry';
+import { TimeSeriesModel, DirectionalModel, BayesianModel } from './models';
+import { logNormalIntervals, probabilityIntervals, getAlternativeScenarios } from './confidence-interval-engine';
+
+export {
+  PredictionRegistry,
+  TimeSeriesModel,
+  DirectionalModel,
+  BayesianModel,
+  logNormalIntervals,
+  probabilityIntervals,
+  getAlternativeScenarios
+};
@@ -0,0 +1,60 @@
+/**
+ * Bayesian model for event probability predictions
+ *
+ * Starts from a Beta prior centred on the prior probability and counts every
+ * observation of the included factors as evidence: a signal of 1 is a full
+ * observation of the event, -1 a full observation of its absence.
+ */
+
+import { ModelInput, ModelOutput, PredictionModel, PredictionType } from '../../core/types';
+import { getFactorCoverage, getSupportingFactors } from './time-series-model';
+import { probabilityIntervals } from '../confidence-interval-engine';
+
+const DEFAULT_PRIOR_PROBABILITY = 0.5;
+// Pseudo-observations the prior is worth
+const PRIOR_STRENGTH = 2;
+// Observations at which the evidence counts as complete
+const FULL_EVIDENCE = 20;
+
+export class BayesianModel implements PredictionModel {
+  readonly name = 'bayesian';
+  readonly supportedTypes = [PredictionType.EVENT_PROBABILITY];
+
+  requiredFactors(): string[] {
+    return [];
+  }
+
+  predict(input: ModelInput): ModelOutput {
+    const prior = input.params.priorProbability !== undefined
+      ? input.params.priorProbability
+      : DEFAULT_PRIOR_PROBABILITY;
+
+    let alpha = prior * PRIOR_STRENGTH;
+    let beta = (1 - prior) * PRIOR_STRENGTH;
+    let evidence = 0;
+    (input.params.includeFactors || []).forEach(factor => (input.data.series[factor] || []).forEach(observation => {
+      const success = (Math.max(-1, Math.min(1, observation.value)) + 1) / 2;
+      alpha += success;
+      beta += 1 - success;
+      evidence++;
+    }));
+
+    const total = alpha + beta;
+    const probability = alpha / total;
+    const standardError = Math.sqrt(alpha * beta / (total * total * (total + 1)));
+    const dataQuality = Math.min(1, evidence / FULL_EVIDENCE) * getFactorCoverage(input);
+    // The posterior standard deviation is at most 0.5
+    const modelFit = 1 - 2 * standardError;
+
+    return {
+      value: probability,
+      confidence: {
+        overall: dataQuality * modelFit,
+        dataQuality,
+        modelFit
+      },
+      confidenceIntervals: probabilityIntervals(probability, standardError),
+      supportingFactors: getSupportingFactors(input)
+    };
+  }
+}
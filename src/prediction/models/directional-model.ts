@@ -0,0 +1,42 @@
+/**
+ * Directional model for price direction predictions
+ *
+ * Predicts the probability that the asset ends the timeframe above its latest
+ * price, from the same drift and volatility estimate as the time series model.
+ */
+
+import { ModelInput, ModelOutput, PredictionModel, PredictionType } from '../../core/types';
+import { estimateDrift } from './time-series-model';
+import { probabilityIntervals } from '../confidence-interval-engine';
+import { FTSO_PRICE_FACTOR } from '../../data-sources/sources/blockchain/flare';
+import { normalCdf } from '../../flare-connect/statistics';
+
+export class DirectionalModel implements PredictionModel {
+  readonly name = 'directional';
+  readonly supportedTypes = [PredictionType.PRICE_DIRECTION];
+
+  requiredFactors(): string[] {
+    return [FTSO_PRICE_FACTOR];
+  }
+
+  predict(input: ModelInput): ModelOutput {
+    const estimate = estimateDrift(input);
+    const probability = estimate.sigma > 0
+      ? normalCdf(estimate.expectedReturn / estimate.sigma)
+      : estimate.expectedReturn >= 0 ? 1 : 0;
+    const standardError = Math.sqrt(probability * (1 - probability) / Math.max(1, estimate.samples));
+    // A probability near 0.5 means the model cannot tell the direction
+    const modelFit = Math.abs(2 * probability - 1);
+
+    return {
+      value: probability,
+      confidence: {
+        overall: estimate.dataQuality * modelFit,
+        dataQuality: estimate.dataQuality,
+        modelFit
+      },
+      confidenceIntervals: probabilityIntervals(probability, standardError),
+      supportingFactors: estimate.supportingFactors
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export * from './time-series-model';
+export * from './directional-model';
+export * from './bayesian-model';
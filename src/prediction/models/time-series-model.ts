@@ -0,0 +1,120 @@
+/**
+ * Time series model for asset price predictions
+ *
+ * Treats the price as geometric Brownian motion: drift and volatility are the
+ * mean and standard deviation of the log returns of the price history, scaled
+ * to the time left until the end of the timeframe. The mean is shrunk towards
+ * zero by its standard error, so a short history with no significant trend is
+ * not extrapolated over a long horizon. Factor signals tilt the
+ * expected log return by up to half a standard deviation of the horizon.
+ */
+
+import { ModelInput, ModelOutput, PredictionModel, PredictionType, SupportingFactor } from '../../core/types';
+import { logNormalIntervals } from '../confidence-interval-engine';
+import { FTSO_PRICE_FACTOR } from '../../data-sources/sources/blockchain/flare';
+import { logReturns, standardDeviation } from '../../flare-connect/statistics';
+import { ProviderError } from '../../utils/errors';
+
+const MIN_PRICE_SAMPLES = 3;
+// Return samples at which the price history counts as complete
+const FULL_HISTORY_SAMPLES = 60;
+const FACTOR_TILT = 0.5;
+
+export interface DriftEstimate {
+  lastPrice: number;
+  // Expected log return until the end of the timeframe, including the factor tilt
+  expectedReturn: number;
+  // Standard deviation of the log return until the end of the timeframe
+  sigma: number;
+  samples: number;
+  supportingFactors: SupportingFactor[];
+  dataQuality: number;
+}
+
+/**
+ * Get the requested factors that have a fused value, as supporting factors of equal weight
+ */
+export function getSupportingFactors(input: ModelInput): SupportingFactor[] {
+  const available = (input.params.includeFactors || []).filter(factor => input.data.fused[factor]);
+  return available.map(factor => {
+    const fused = input.data.fused[factor];
+    return {
+      factor,
+      description: `${factor} fused from ${fused.sources.join(', ')}`,
+      value: Math.max(-1, Math.min(1, fused.value)),
+      weight: 1 / available.length
+    };
+  });
+}
+
+/**
+ * Share of the requested factors with a fused value
+ */
+export function getFactorCoverage(input: ModelInput): number {
+  const requested = input.params.includeFactors || [];
+  return requested.length === 0
+    ? 1
+    : requested.filter(factor => input.data.fused[factor]).length / requested.length;
+}
+
+/**
+ * Estimate the log return of the price over the rest of the timeframe
+ * @throws ProviderError if there is not enough price history
+ */
+export function estimateDrift(input: ModelInput): DriftEstimate {
+  const history = input.data.series[FTSO_PRICE_FACTOR] || [];
+  if (history.length < MIN_PRICE_SAMPLES) {
+    throw new ProviderError(`Not enough price history for ${input.params.asset}: ${history.length} samples`, {
+      retryable: true
+    });
+  }
+
+  const returns = logReturns(history.map(observation => observation.value));
+  const last = history[history.length - 1];
+  const sampleInterval = (last.timestamp - history[0].timestamp) / (history.length - 1);
+  const steps = sampleInterval > 0 ? Math.max(0, input.timeframe.endTime - last.timestamp) / sampleInterval : 0;
+  const mean = returns.reduce((sum, value) => sum + value, 0) / Math.max(1, returns.length);
+  const deviation = standardDeviation(returns);
+  const squaredError = deviation * deviation / Math.max(1, returns.length);
+  const drift = mean !== 0 ? mean * Math.max(0, 1 - squaredError / (mean * mean)) : 0;
+  const sigma = deviation * Math.sqrt(steps);
+
+  const supportingFactors = getSupportingFactors(input);
+  const signal = supportingFactors.reduce((sum, factor) => sum + factor.value * factor.weight, 0);
+
+  return {
+    lastPrice: last.value,
+    expectedReturn: drift * steps + signal * FACTOR_TILT * sigma,
+    sigma,
+    samples: returns.length,
+    supportingFactors,
+    dataQuality: Math.min(1, returns.length / FULL_HISTORY_SAMPLES) * getFactorCoverage(input)
+  };
+}
+
+export class TimeSeriesModel implements PredictionModel {
+  readonly name = 'time-series';
+  readonly supportedTypes = [PredictionType.ASSET_PRICE];
+
+  requiredFactors(): string[] {
+    return [FTSO_PRICE_FACTOR];
+  }
+
+  predict(input: ModelInput): ModelOutput {
+    const estimate = estimateDrift(input);
+    const value = estimate.lastPrice * Math.exp(estimate.expectedReturn);
+    // The wider the horizon's spread, the less the prediction says
+    const modelFit = Math.exp(-estimate.sigma);
+
+    return {
+      value,
+      confidence: {
+        overall: estimate.dataQuality * modelFit,
+        dataQuality: estimate.dataQuality,
+        modelFit
+      },
+      confidenceIntervals: logNormalIntervals(value, estimate.sigma),
+      supportingFactors: estimate.supportingFactors
+    };
+  }
+}
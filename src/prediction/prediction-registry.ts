@@ -0,0 +1,82 @@
+/**
+ * Registry of prediction models and the predictions made with them
+ *
+ * Each prediction type is served by the model registered for it last, so a
+ * custom model replaces a built-in one by registering for the same type.
+ */
+
+import { Prediction, PredictionModel, PredictionStatus, PredictionType } from '../core/types';
+import { migratePrediction } from '../core/schema';
+import { ValidationError, wrapError } from '../utils/errors';
+
+export class PredictionRegistry {
+  private models: Map<PredictionType, PredictionModel> = new Map();
+  private predictions: Map<string, Prediction> = new Map();
+
+  /**
+   * Register a model for every type it supports
+   */
+  registerModel(model: PredictionModel): void {
+    model.supportedTypes.forEach(type => this.models.set(type, model));
+  }
+
+  /**
+   * Get the model serving a prediction type
+   * @throws ValidationError if no model supports the type
+   */
+  getModel(type: PredictionType): PredictionModel {
+    const model = this.models.get(type);
+    if (!model) {
+      throw new ValidationError(`No prediction model registered for ${type}`, { context: { field: 'type' } });
+    }
+    return model;
+  }
+
+  /**
+   * Get the prediction types a model is registered for
+   */
+  getSupportedTypes(): PredictionType[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * Store a new or updated prediction
+   */
+  save(prediction: Prediction): void {
+    this.predictions.set(prediction.id, prediction);
+  }
+
+  get(id: string): Prediction | undefined {
+    return this.predictions.get(id);
+  }
+
+  /**
+   * List the stored predictions, newest first
+   */
+  list(filter: { type?: PredictionType; status?: PredictionStatus } = {}): Prediction[] {
+    return Array.from(this.predictions.values())
+      .filter(prediction => !filter.type || prediction.type === filter.type)
+      .filter(prediction => !filter.status || prediction.status === filter.status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  remove(id: string): boolean {
+    return this.predictions.delete(id);
+  }
+
+  /**
+   * Load stored predictions of any schema version, migrating them to the current one
+   * @throws ValidationError naming the record if one cannot be migrated; nothing is loaded then
+   */
+  restore(records: unknown[]): Prediction[] {
+    const predictions = records.map((record, index) => {
+      try {
+        return migratePrediction(record);
+      } catch (error:any) {
+        throw wrapError(error, `Stored prediction ${index} cannot be restored`);
+      }
+    });
+    predictions.forEach(prediction => this.save(prediction));
+    return predictions;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Execution of risk protocol actions
+ *
+ * Actions are executed by the handler registered for their name. A failing or
+ * missing handler is recorded on the execution instead of being thrown, so one
+ * broken action does not keep the other triggers of a protocol from running.
+ */
+
+import { ActionHandler, ProtocolActionExecution } from '../core/types';
+import { getErrorMessage } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+const MAX_HISTORY = 1000;
+
+export class ActionEngine {
+  private handlers: Map<string, ActionHandler> = new Map();
+  private history: ProtocolActionExecution[] = [];
+  private logger: Logger;
+
+  constructor(logLevel: string = 'info') {
+    this.logger = new Logger({
+      serviceName: 'ActionEngine',
+      logLevel
+    });
+  }
+
+  /**
+   * Set the handler executing an action, replacing any previous one
+   */
+  registerHandler(action: string, handler: ActionHandler): void {
+    this.handlers.set(action, handler);
+  }
+
+  unregisterHandler(action: string): boolean {
+    return this.handlers.delete(action);
+  }
+
+  /**
+   * Execute an action; the returned execution carries the error if it failed
+   */
+  async execute(execution: ProtocolActionExecution): Promise<ProtocolActionExecution> {
+    const handler = this.handlers.get(execution.action);
+    let result = execution;
+
+    if (!handler) {
+      this.logger.warn(`No handler registered for action ${execution.action}`, { protocolId: execution.protocolId });
+      result = { ...execution, error: `No handler registered for action ${execution.action}` };
+    } else {
+      try {
+        await handler(execution);
+        this.logger.info(`Executed action ${execution.action}`, { protocolId: execution.protocolId });
+      } catch (error:any) {
+        this.logger.error(`Action ${execution.action} failed`, { error, protocolId: execution.protocolId });
+        result = { ...execution, error: getErrorMessage(error) };
+      }
+    }
+
+    this.history.push(result);
+    if (this.history.length > MAX_HISTORY) {
+      this.history.shift();
+    }
+    return result;
+  }
+
+  /**
+   * Get the executed actions, oldest first, optionally of one protocol
+   */
+  getHistory(protocolId?: string): ProtocolActionExecution[] {
+    return this.history.filter(execution => !protocolId || execution.protocolId === protocolId);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Risk Protocol Module
+ *
+ * Programmable risk protocols: trigger conditions on predictions that run
+ * registered actions when they start to hold.
+ */
+
+import { RiskProtocolEngine } from './programmable-risk-protocols';
+import { ActionEngine } from './action-engine';
+import { ProtocolRegistry } from './protocol-registry';
+import { evaluateTrigger, validateTrigger } from './trigger-engine';
+
+export {
+  RiskProtocolEngine,
+  ActionEngine,
+  ProtocolRegistry,
+  evaluateTrigger,
+  validateTrigger
+};
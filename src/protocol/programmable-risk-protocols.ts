@@ -0,0 +1,150 @@
+/**
+ * Programmable risk protocols
+ *
+ * A protocol attaches trigger conditions to a prediction. Whenever the
+ * prediction is evaluated, each trigger whose condition has become true since
+ * the last evaluation fires once and runs its action with the parameters from
+ * the protocol's action details; it fires again only after the condition has
+ * stopped holding in between.
+ */
+
+import { randomUUID } from 'crypto';
+import { Prediction, ProtocolActionExecution, RiskProtocol, RiskProtocolSpec } from '../core/types';
+import { ActionEngine } from './action-engine';
+import { ProtocolRegistry } from './protocol-registry';
+import { evaluateTrigger, validateTrigger } from './trigger-engine';
+import { DOMAIN_SCHEMA_VERSION, assertValid } from '../core/schema';
+import { ValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+export interface RiskProtocolEngineOptions {
+  actionEngine?: ActionEngine;
+  registry?: ProtocolRegistry;
+  logLevel?: string;
+}
+
+export class RiskProtocolEngine {
+  private actionEngine: ActionEngine;
+  private registry: ProtocolRegistry;
+  private logger: Logger;
+
+  constructor(options: RiskProtocolEngineOptions = {}) {
+    const logLevel = options.logLevel || 'info';
+    this.actionEngine = options.actionEngine || new ActionEngine(logLevel);
+    this.registry = options.registry || new ProtocolRegistry();
+    this.logger = new Logger({
+      serviceName: 'RiskProtocolEngine',
+      logLevel
+    });
+  }
+
+  /**
+   * Create a protocol on a prediction; no trigger fires until the protocol is first evaluated
+   * @throws ValidationError if the spec is malformed or a trigger does not apply to the prediction
+   */
+  createProtocol(prediction: Prediction, spec: RiskProtocolSpec): RiskProtocol {
+    assertValid('RiskProtocolSpec', spec);
+    spec.triggerConditions.forEach((condition, index) => validateTrigger(condition, prediction, `triggerConditions[${index}]`));
+
+    const protocol: RiskProtocol = {
+      id: `protocol-${randomUUID()}`,
+      schemaVersion: DOMAIN_SCHEMA_VERSION,
+      predictionId: prediction.id,
+      triggers: spec.triggerConditions.map((condition, index) => ({
+        id: `trigger-${index}`,
+        condition: condition.type === 'CONFIDENCE_CHANGE'
+          ? { ...condition }
+          : { ...condition, direction: condition.direction || 'BELOW' },
+        active: false,
+        fireCount: 0
+      })),
+      actionDetails: { ...spec.actionDetails },
+      status: 'ACTIVE',
+      baselineConfidence: prediction.confidence.overall,
+      createdAt: Date.now()
+    };
+    this.registry.save(protocol);
+
+    this.logger.info(`Created risk protocol ${protocol.id}`, {
+      predictionId: prediction.id,
+      triggers: protocol.triggers.length
+    });
+    return protocol;
+  }
+
+  /**
+   * Evaluate the active protocols of a prediction and run the actions of triggers that fire
+   * @returns The executed actions
+   */
+  async evaluate(prediction: Prediction): Promise<ProtocolActionExecution[]> {
+    const executions: ProtocolActionExecution[] = [];
+
+    for (const protocol of this.registry.list({ predictionId: prediction.id, status: 'ACTIVE' })) {
+      const now = Date.now();
+      for (const trigger of protocol.triggers) {
+        const holds = evaluateTrigger(trigger.condition, prediction, protocol.baselineConfidence);
+        const fires = holds && !trigger.active;
+        trigger.active = holds;
+
+        if (fires) {
+          trigger.fireCount++;
+          trigger.lastFiredAt = now;
+          this.logger.info(`Trigger ${trigger.id} of protocol ${protocol.id} fired`, {
+            type: trigger.condition.type,
+            action: trigger.condition.action
+          });
+          executions.push(await this.actionEngine.execute({
+            protocolId: protocol.id,
+            triggerId: trigger.id,
+            action: trigger.condition.action,
+            details: protocol.actionDetails[trigger.condition.action] || {},
+            prediction,
+            executedAt: now
+          }));
+        }
+      }
+      protocol.lastEvaluatedAt = now;
+      this.registry.save(protocol);
+    }
+
+    return executions;
+  }
+
+  /**
+   * Stop evaluating a protocol
+   */
+  cancelProtocol(id: string): RiskProtocol {
+    const protocol = this.getProtocol(id);
+    protocol.status = 'CANCELLED';
+    this.registry.save(protocol);
+    this.logger.info(`Cancelled risk protocol ${id}`);
+    return protocol;
+  }
+
+  /**
+   * Get a protocol
+   * @throws ValidationError if the protocol does not exist
+   */
+  getProtocol(id: string): RiskProtocol {
+    const protocol = this.registry.get(id);
+    if (!protocol) {
+      throw new ValidationError(`Unknown risk protocol ${id}`, { context: { field: 'protocolId' } });
+    }
+    return protocol;
+  }
+
+  listProtocols(predictionId?: string): RiskProtocol[] {
+    return this.registry.list({ predictionId });
+  }
+
+  /**
+   * Check whether a prediction has protocols to evaluate
+   */
+  hasActiveProtocols(predictionId: string): boolean {
+    return this.registry.list({ predictionId, status: 'ACTIVE' }).length > 0;
+  }
+
+  getActionEngine(): ActionEngine {
+    return this.actionEngine;
+  }
+}
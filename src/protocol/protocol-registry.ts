@@ -0,0 +1,52 @@
+/**
+ * In-memory store of risk protocols
+ *
+ * Protocols can be restored from records written by earlier releases; they
+ * are migrated to the current domain schema version on the way in.
+ */
+
+import { RiskProtocol, RiskProtocolStatus } from '../core/types';
+import { migrateRiskProtocol } from '../core/schema';
+import { wrapError } from '../utils/errors';
+
+export class ProtocolRegistry {
+  private protocols: Map<string, RiskProtocol> = new Map();
+
+  save(protocol: RiskProtocol): void {
+    this.protocols.set(protocol.id, protocol);
+  }
+
+  get(id: string): RiskProtocol | undefined {
+    return this.protocols.get(id);
+  }
+
+  /**
+   * List protocols, oldest first, optionally of one prediction or status
+   */
+  list(filter: { predictionId?: string; status?: RiskProtocolStatus } = {}): RiskProtocol[] {
+    return Array.from(this.protocols.values())
+      .filter(protocol => !filter.predictionId || protocol.predictionId === filter.predictionId)
+      .filter(protocol => !filter.status || protocol.status === filter.status)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  remove(id: string): boolean {
+    return this.protocols.delete(id);
+  }
+
+  /**
+   * Load stored protocols of any schema version, migrating them to the current one
+   * @throws ValidationError naming the record if one cannot be migrated; nothing is loaded then
+   */
+  restore(records: unknown[]): RiskProtocol[] {
+    const protocols = records.map((record, index) => {
+      try {
+        return migrateRiskProtocol(record);
+      } catch (error:any) {
+        throw wrapError(error, `Stored risk protocol ${index} cannot be restored`);
+      }
+    });
+    protocols.forEach(protocol => this.save(protocol));
+    return protocols;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Evaluation of risk protocol trigger conditions against predictions
+ *
+ * PRICE_THRESHOLD and PROBABILITY_THRESHOLD compare the predicted value with
+ * the threshold on the side given by `direction` (BELOW by default);
+ * CONFIDENCE_CHANGE holds once overall confidence has moved by at least the
+ * threshold from its value when the protocol was created.
+ */
+
+import { Prediction, PredictionType, TriggerCondition } from '../core/types';
+import { ValidationError } from '../utils/errors';
+
+const THRESHOLD_PREDICTION_TYPES: Record<string, PredictionType[]> = {
+  PRICE_THRESHOLD: [PredictionType.ASSET_PRICE],
+  PROBABILITY_THRESHOLD: [PredictionType.PRICE_DIRECTION, PredictionType.EVENT_PROBABILITY]
+};
+
+/**
+ * Check that a well-formed condition can be evaluated against a prediction
+ * @throws ValidationError naming the offending field otherwise
+ */
+export function validateTrigger(condition: TriggerCondition, prediction: Prediction, field: string): void {
+  if (condition.type === 'CONFIDENCE_CHANGE') {
+    if (condition.threshold <= 0 || condition.threshold > 1) {
+      throw new ValidationError('Confidence change threshold must lie in (0, 1]', { context: { field: `${field}.threshold` } });
+    }
+    return;
+  }
+
+  const types = THRESHOLD_PREDICTION_TYPES[condition.type];
+  if (!types) {
+    throw new ValidationError(`Unknown trigger type ${condition.type}`, { context: { field: `${field}.type` } });
+  }
+  if (!types.includes(prediction.type)) {
+    throw new ValidationError(`${condition.type} triggers do not apply to ${prediction.type} predictions`, {
+      context: { field: `${field}.type` }
+    });
+  }
+}
+
+/**
+ * Check whether a condition holds for the current state of a prediction
+ */
+export function evaluateTrigger(condition: TriggerCondition, prediction: Prediction, baselineConfidence: number): boolean {
+  if (condition.type === 'CONFIDENCE_CHANGE') {
+    return Math.abs(prediction.confidence.overall - baselineConfidence) >= condition.threshold;
+  }
+  return condition.direction === 'ABOVE'
+    ? prediction.value >= condition.threshold
+    : prediction.value <= condition.threshold;
+}
@@ -0,0 +1,348 @@
+/**
+ * Classified errors shared across LucentIQ
+ *
+ * Every error carries a stable code, whether retrying the failed operation may
+ * succeed, structured context and the error that caused it. wrapError() adds a
+ * layer of explanation to a failure while keeping its class, code and
+ * retryability, so a timeout deep inside an RPC call is still a TimeoutError
+ * when it reaches the API, where toRestError() and toGraphQLError() turn errors
+ * into consistent responses.
+ */
+
+export type ErrorCode =
+  'CONNECTION_ERROR' |
+  'TIMEOUT' |
+  'NOT_CONNECTED' |
+  'VERIFICATION_FAILED' |
+  'RATE_LIMITED' |
+  'VALIDATION_ERROR' |
+  'PROVIDER_ERROR' |
+  'CANCELLED' |
+  'INTERNAL_ERROR';
+
+export interface ErrorOptions {
+  cause?: unknown;
+  retryable?: boolean;
+  context?: Record<string, unknown>;
+}
+
+export interface SerializedError {
+  name: string;
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  context: Record<string, unknown>;
+  cause?: SerializedError | { name: string; message: string };
+}
+
+export interface RestErrorResponse {
+  status: number;
+  body: {
+    error: {
+      code: ErrorCode;
+      message: string;
+      retryable: boolean;
+      retryAfter?: number;
+      field?: string;
+    };
+  };
+}
+
+export interface GraphQLErrorResponse {
+  message: string;
+  extensions: {
+    code: ErrorCode;
+    httpStatus: number;
+    retryable: boolean;
+    retryAfter?: number;
+    field?: string;
+  };
+}
+
+const RETRYABLE_CODES: ErrorCode[] = ['CONNECTION_ERROR', 'TIMEOUT', 'RATE_LIMITED'];
+
+const HTTP_STATUSES: Record<ErrorCode, number> = {
+  CONNECTION_ERROR: 503,
+  TIMEOUT: 504,
+  NOT_CONNECTED: 503,
+  VERIFICATION_FAILED: 422,
+  RATE_LIMITED: 429,
+  VALIDATION_ERROR: 400,
+  PROVIDER_ERROR: 502,
+  // Client closed request
+  CANCELLED: 499,
+  INTERNAL_ERROR: 500
+};
+
+const INTERNAL_ERROR_MESSAGE = 'Internal error';
+
+export class LucentIQError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly context: Record<string, unknown>;
+  readonly cause?: unknown;
+
+  /**
+   * Create an error; retryability defaults to what is usual for the code
+   */
+  constructor(message: string, code: ErrorCode = 'INTERNAL_ERROR', options: ErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable !== undefined ? options.retryable : RETRYABLE_CODES.includes(code);
+    this.context = { ...options.context };
+    this.cause = options.cause;
+  }
+
+  /**
+   * Get the chain of causes, starting with this error
+   */
+  getCauseChain(): unknown[] {
+    const chain: unknown[] = [this];
+    let current: unknown = this.cause;
+    while (current !== undefined && !chain.includes(current)) {
+      chain.push(current);
+      current = current instanceof LucentIQError ? current.cause : undefined;
+    }
+    return chain;
+  }
+
+  /**
+   * Get a JSON-safe representation including the cause chain
+   */
+  toJSON(): SerializedError {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      context: this.context,
+      ...(this.cause !== undefined && {
+        cause: this.cause instanceof LucentIQError
+          ? this.cause.toJSON()
+          : { name: this.cause instanceof Error ? this.cause.name : 'Error', message: getErrorMessage(this.cause) }
+      })
+    };
+  }
+}
+
+/**
+ * A service or endpoint could not be reached
+ */
+export class ConnectionError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'CONNECTION_ERROR', options);
+  }
+}
+
+/**
+ * An operation did not complete in time
+ */
+export class TimeoutError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'TIMEOUT', options);
+  }
+}
+
+/**
+ * A connection was used before it was established or while it is down
+ */
+export class NotConnectedError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'NOT_CONNECTED', options);
+  }
+}
+
+/**
+ * A proof, signature or attestation did not verify
+ */
+export class VerificationError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'VERIFICATION_FAILED', options);
+  }
+}
+
+/**
+ * A service refused the request because of rate limiting; `retryAfter` (ms) is
+ * taken from the context when the service said how long to wait
+ */
+export class RateLimitError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'RATE_LIMITED', options);
+  }
+
+  get retryAfter(): number | undefined {
+    return typeof this.context.retryAfter === 'number' ? this.context.retryAfter : undefined;
+  }
+}
+
+/**
+ * Input or configuration was rejected; the offending setting or parameter is
+ * the context's `field` when known
+ */
+export class ValidationError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'VALIDATION_ERROR', options);
+  }
+
+  get field(): string | undefined {
+    return typeof this.context.field === 'string' ? this.context.field : undefined;
+  }
+}
+
+/**
+ * An upstream provider (RPC node, data provider, attester, external API)
+ * answered with an error or with unusable data
+ */
+export class ProviderError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'PROVIDER_ERROR', options);
+  }
+}
+
+/**
+ * An operation was cancelled by its caller or by a connection closing
+ */
+export class CancelledError extends LucentIQError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, 'CANCELLED', options);
+  }
+}
+
+const ERROR_CLASSES: Partial<Record<ErrorCode, new (message: string, options?: ErrorOptions) => LucentIQError>> = {
+  CONNECTION_ERROR: ConnectionError,
+  TIMEOUT: TimeoutError,
+  NOT_CONNECTED: NotConnectedError,
+  VERIFICATION_FAILED: VerificationError,
+  RATE_LIMITED: RateLimitError,
+  VALIDATION_ERROR: ValidationError,
+  PROVIDER_ERROR: ProviderError,
+  CANCELLED: CancelledError
+};
+
+/**
+ * Create an error of the class belonging to a code
+ */
+export function createError(code: ErrorCode, message: string, options: ErrorOptions = {}): LucentIQError {
+  const ErrorClass = ERROR_CLASSES[code];
+  return ErrorClass ? new ErrorClass(message, options) : new LucentIQError(message, code, options);
+}
+
+/**
+ * Get the message of anything thrown
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Classify a failed HTTP request made with axios: no response is a connection
+ * error (or a timeout), 429 is rate limiting and other statuses are provider
+ * errors, retryable for 5xx
+ */
+export function fromHttpError(error: any, context: Record<string, unknown> = {}): LucentIQError {
+  const config = error.config || {};
+  const url = config.baseURL || config.url ? `${config.baseURL || ''}${config.url || ''}` : undefined;
+  const status: number | undefined = error.response ? error.response.status : undefined;
+  const details = { ...(url && { url }), ...(status !== undefined && { status }), ...context };
+
+  if (status === 429) {
+    const retryAfter = parseInt(String((error.response.headers || {})['retry-after']), 10);
+    return new RateLimitError(error.message, {
+      cause: error,
+      context: { ...details, ...(isFinite(retryAfter) && { retryAfter: retryAfter * 1000 }) }
+    });
+  }
+  if (status !== undefined) {
+    return new ProviderError(error.message, { cause: error, retryable: status >= 500, context: details });
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new TimeoutError(error.message, { cause: error, context: details });
+  }
+  return new ConnectionError(error.message, { cause: error, context: details });
+}
+
+/**
+ * Get anything thrown as a classified error; unclassified errors become INTERNAL_ERROR
+ */
+export function toLucentIQError(error: unknown): LucentIQError {
+  if (error instanceof LucentIQError) {
+    return error;
+  }
+  if (error && (error as any).isAxiosError) {
+    return fromHttpError(error);
+  }
+  return new LucentIQError(getErrorMessage(error), 'INTERNAL_ERROR', { cause: error });
+}
+
+/**
+ * Explain a failure as `${message}: ${cause message}`, keeping the cause's
+ * class, code and retryability and adding to its context
+ */
+export function wrapError(error: unknown, message: string, context: Record<string, unknown> = {}): LucentIQError {
+  const classified = toLucentIQError(error);
+  return createError(classified.code, `${message}: ${classified.message}`, {
+    cause: error,
+    retryable: classified.retryable,
+    context: { ...classified.context, ...context }
+  });
+}
+
+/**
+ * Check whether retrying the operation that threw an error may succeed
+ */
+export function isRetryableError(error: unknown): boolean {
+  return toLucentIQError(error).retryable;
+}
+
+/**
+ * Get the HTTP status an error maps to
+ */
+export function getHttpStatus(error: unknown): number {
+  return HTTP_STATUSES[toLucentIQError(error).code];
+}
+
+/**
+ * Map an error to a REST error response; internal errors are reported without
+ * their message so implementation details do not leak
+ */
+export function toRestError(error: unknown): RestErrorResponse {
+  const classified = toLucentIQError(error);
+  return {
+    status: HTTP_STATUSES[classified.code],
+    body: {
+      error: {
+        code: classified.code,
+        message: classified.code === 'INTERNAL_ERROR' ? INTERNAL_ERROR_MESSAGE : classified.message,
+        retryable: classified.retryable,
+        ...getPublicDetails(classified)
+      }
+    }
+  };
+}
+
+/**
+ * Map an error to a GraphQL error, with the classification in `extensions`
+ */
+export function toGraphQLError(error: unknown): GraphQLErrorResponse {
+  const classified = toLucentIQError(error);
+  return {
+    message: classified.code === 'INTERNAL_ERROR' ? INTERNAL_ERROR_MESSAGE : classified.message,
+    extensions: {
+      code: classified.code,
+      httpStatus: HTTP_STATUSES[classified.code],
+      retryable: classified.retryable,
+      ...getPublicDetails(classified)
+    }
+  };
+}
+
+/**
+ * Context that is safe and useful to show API clients
+ */
+function getPublicDetails(error: LucentIQError): { retryAfter?: number; field?: string } {
+  return {
+    ...(error instanceof RateLimitError && error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+    ...(error instanceof ValidationError && error.field !== undefined && { field: error.field })
+  };
+}
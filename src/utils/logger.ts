@@ -0,0 +1,392 @@
+/**
+ * Structured JSON logging
+ *
+ * Every entry is one JSON object with a timestamp, level, service name and
+ * message, followed by the logger's bound fields and the entry's metadata.
+ * Metadata fields that look like secrets (apiKey, privateKey, passwords,
+ * tokens, ...) are replaced by a placeholder at any depth before an entry
+ * reaches a sink, as are the credentials and query parameter values of URLs
+ * in the message and in any string field. Errors are written with their code
+ * and cause chain.
+ *
+ * Entries written while handling a request carry its correlation ID: code run
+ * through withCorrelationId() - including everything it awaits, timers it sets
+ * and Flare calls it makes - logs under that ID.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { LucentIQError } from './errors';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  service: string;
+  message: string;
+  correlationId?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Destination for log entries
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+  close?(): void;
+}
+
+export interface LoggerOptions {
+  serviceName: string;
+  logLevel?: string;
+  // Sinks of this logger; defaults to the sinks set with configureLogging()
+  sinks?: LogSink[];
+  // Fields added to every entry
+  bindings?: Record<string, unknown>;
+}
+
+export interface LoggingConfig {
+  sinks?: LogSink[];
+  // Overrides the level of every logger when set
+  logLevel?: string;
+  // Extra metadata keys to redact, matched like the built-in ones
+  redactKeys?: string[];
+}
+
+export interface FileSinkOptions {
+  filePath: string;
+  // Size in bytes at which the file is rotated
+  maxSize?: number;
+  // Number of rotated files kept as filePath.1 (newest) to filePath.N
+  maxFiles?: number;
+}
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+const LEVEL_PRIORITIES: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+const REDACTED = '[REDACTED]';
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const MAX_DEPTH = 8;
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>]+/gi;
+
+/**
+ * Key suffixes that mark a field as secret, compared case-insensitively
+ * without separators so `api_key`, `x-apikey` and `callbackSecret` all match
+ */
+const SECRET_KEY_SUFFIXES = [
+  'apikey',
+  'privatekey',
+  'secret',
+  'password',
+  'passphrase',
+  'token',
+  'authorization',
+  'mnemonic',
+  'signingkey'
+];
+
+export class StdoutSink implements LogSink {
+  write(entry: LogEntry): void {
+    process.stdout.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Appends entries to a file, rotating it once it grows past maxSize
+ */
+export class FileSink implements LogSink {
+  private filePath: string;
+  private maxSize: number;
+  private maxFiles: number;
+  private fd: number | null = null;
+  private size: number = 0;
+
+  constructor(options: FileSinkOptions) {
+    this.filePath = path.resolve(options.filePath);
+    this.maxSize = options.maxSize || DEFAULT_MAX_FILE_SIZE;
+    this.maxFiles = options.maxFiles !== undefined ? options.maxFiles : DEFAULT_MAX_FILES;
+  }
+
+  write(entry: LogEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    if (this.fd === null) {
+      this.open();
+    }
+    if (this.size > 0 && this.size + bytes > this.maxSize) {
+      this.rotate();
+    }
+
+    fs.writeSync(this.fd!, line);
+    this.size += bytes;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    this.close();
+
+    if (this.maxFiles > 0) {
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        const source = `${this.filePath}.${index}`;
+        if (fs.existsSync(source)) {
+          fs.renameSync(source, `${this.filePath}.${index + 1}`);
+        }
+      }
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      fs.unlinkSync(this.filePath);
+    }
+
+    this.open();
+  }
+}
+
+const correlationStorage = new AsyncLocalStorage<string>();
+let globalConfig: LoggingConfig = {};
+let defaultSinks: LogSink[] = [new StdoutSink()];
+
+/**
+ * Set the sinks, level override and extra redacted keys used by all loggers;
+ * sinks being replaced are closed
+ */
+export function configureLogging(config: LoggingConfig): void {
+  if (config.sinks) {
+    defaultSinks
+      .filter(sink => !config.sinks!.includes(sink))
+      .forEach(sink => sink.close && sink.close());
+    defaultSinks = config.sinks;
+  }
+  globalConfig = { ...globalConfig, ...config };
+}
+
+/**
+ * Create a new random correlation ID
+ */
+export function createCorrelationId(): string {
+  return randomUUID();
+}
+
+/**
+ * Get the correlation ID of the current async context
+ */
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore();
+}
+
+/**
+ * Get the headers that pass the correlation ID of the current async context on to another service
+ */
+export function getCorrelationHeaders(): Record<string, string> {
+  const correlationId = getCorrelationId();
+  return correlationId ? { [CORRELATION_ID_HEADER]: correlationId } : {};
+}
+
+/**
+ * Run a function so that everything it does, synchronously or not, logs under a correlation ID
+ */
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationStorage.run(correlationId, fn);
+}
+
+/**
+ * Check whether a metadata key names a secret
+ */
+export function isSecretKey(key: string): boolean {
+  const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const extra = (globalConfig.redactKeys || []).map(k => k.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  return SECRET_KEY_SUFFIXES.concat(extra).some(suffix => normalized.endsWith(suffix));
+}
+
+/**
+ * Redact the credentials and query parameter values of a URL and drop its
+ * fragment; anything that does not parse as a URL is returned unchanged
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return url;
+  }
+  if (!parsed.username && !parsed.password && !parsed.search && !parsed.hash) {
+    return url;
+  }
+
+  const credentials = parsed.username || parsed.password ? `${REDACTED}@` : '';
+  const names = Array.from(new Set(Array.from(parsed.searchParams.keys())));
+  const query = names.length > 0 ? `?${names.map(name => `${name}=${REDACTED}`).join('&')}` : '';
+  return `${parsed.protocol}//${credentials}${parsed.host}${parsed.pathname}${query}`;
+}
+
+/**
+ * Redact every URL in a piece of text
+ */
+export function redactUrls(text: string): string {
+  return text.replace(URL_PATTERN, redactUrl);
+}
+
+/**
+ * Copy a value into plain JSON, redacting secret fields and URLs and serializing
+ * errors and bigints
+ */
+export function redact(value: unknown, depth: number = 0, seen: unknown[] = []): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'string') {
+    return redactUrls(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+  if (seen.includes(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  const nextSeen = seen.concat([value]);
+  if (value instanceof LucentIQError) {
+    return redact(value.toJSON(), depth, nextSeen);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactUrls(value.message) };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return `0x${Buffer.from(value).toString('hex')}`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, nextSeen));
+  }
+  if (value instanceof Map) {
+    const entries: Record<string, unknown> = {};
+    value.forEach((member, key) => {
+      entries[String(key)] = member;
+    });
+    return redact(entries, depth, seen);
+  }
+
+  const copy: Record<string, unknown> = {};
+  Object.keys(value).forEach(key => {
+    const member = (value as Record<string, unknown>)[key];
+    copy[key] = isSecretKey(key) && member !== undefined && member !== null && member !== ''
+      ? REDACTED
+      : redact(member, depth + 1, nextSeen);
+  });
+  return copy;
+}
+
+function toLogLevel(level: string | undefined): LogLevel {
+  const normalized = (level || '').toLowerCase();
+  return normalized in LEVEL_PRIORITIES ? normalized as LogLevel : 'info';
+}
+
+export class Logger {
+  private serviceName: string;
+  private logLevel: LogLevel;
+  private sinks?: LogSink[];
+  private bindings: Record<string, unknown>;
+
+  /**
+   * Create a new logger; unknown levels fall back to info
+   */
+  constructor(options: LoggerOptions) {
+    this.serviceName = options.serviceName;
+    this.logLevel = toLogLevel(options.logLevel);
+    this.sinks = options.sinks;
+    this.bindings = { ...options.bindings };
+  }
+
+  /**
+   * Create a logger for the same service that adds `bindings` to every entry
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    return new Logger({
+      serviceName: this.serviceName,
+      logLevel: this.logLevel,
+      sinks: this.sinks,
+      bindings: { ...this.bindings, ...bindings }
+    });
+  }
+
+  /**
+   * Check whether entries of a level are written
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    const threshold = globalConfig.logLevel ? toLogLevel(globalConfig.logLevel) : this.logLevel;
+    return LEVEL_PRIORITIES[level] >= LEVEL_PRIORITIES[threshold];
+  }
+
+  debug(message: string, metadata?: Record<string, unknown>): void {
+    this.log('debug', message, metadata);
+  }
+
+  info(message: string, metadata?: Record<string, unknown>): void {
+    this.log('info', message, metadata);
+  }
+
+  warn(message: string, metadata?: Record<string, unknown>): void {
+    this.log('warn', message, metadata);
+  }
+
+  error(message: string, metadata?: Record<string, unknown>): void {
+    this.log('error', message, metadata);
+  }
+
+  private log(level: LogLevel, message: string, metadata?: Record<string, unknown>): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const correlationId = getCorrelationId();
+    const fields = redact({ ...this.bindings, ...metadata }) as Record<string, unknown>;
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      service: this.serviceName,
+      message: redactUrls(message),
+      ...(correlationId !== undefined && { correlationId })
+    };
+    // Metadata cannot overwrite the standard fields
+    Object.keys(fields).forEach(key => {
+      if (!(key in entry) && fields[key] !== undefined) {
+        entry[key] = fields[key];
+      }
+    });
+
+    (this.sinks || defaultSinks).forEach(sink => {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        // A failing sink must not break the code that logs
+      }
+    });
+  }
+}
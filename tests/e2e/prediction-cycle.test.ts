@@ -0,0 +1,150 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { LucentIQ } from '../../src/core/decentra-predict';
+import { PredictionType, ProtocolActionExecution } from '../../src/core/types';
+import { EpochClock } from '../../src/flare-connect/epoch-clock';
+import { FlareSimulator } from '../../src/flare-connect/simulator';
+import { FeedValue } from '../../src/flare-connect/types';
+
+const BASELINE = path.join(__dirname, 'scenarios', 'baseline.json');
+const EDGE_CASES = path.join(__dirname, 'scenarios', 'edge-cases.json');
+
+/**
+ * Call a simulated transport until it gets past the injected request failures
+ */
+async function retry<T>(call: () => Promise<T>): Promise<T> {
+  for (;;) {
+    try {
+      return await call();
+    } catch (error:any) {
+      if (!error.retryable) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Read feed values as finalized for an epoch, from the first block of the next epoch
+ */
+async function readEpoch(simulator: FlareSimulator, epochClock: EpochClock, symbols: string[], epoch: number): Promise<FeedValue[]> {
+  const transport = simulator.createFTSOTransport();
+  const genesis = await retry(() => transport.getBlock(0));
+  const blockTime = simulator.getScenario().blockTime || 1800;
+  const block = Math.ceil((epochClock.getEpochStart(epoch + 1) - genesis.timestamp) / blockTime);
+  return retry(() => transport.getFeedValues(symbols, block));
+}
+
+describe('prediction cycle on the simulated Flare network', () => {
+  describe('baseline scenario', () => {
+    const executions: ProtocolActionExecution[] = [];
+    let platform: LucentIQ;
+
+    before(async () => {
+      platform = new LucentIQ({
+        flareNetworkEndpoint: 'simulation',
+        apiKey: '',
+        flareConfig: {
+          ftsoConfig: { feeds: ['BTC', 'ETH'] },
+          backend: { mode: 'simulation', scenario: BASELINE }
+        },
+        historyWindow: 30 * 60 * 1000,
+        protocolCheckInterval: 0,
+        logLevel: 'error'
+      });
+      platform.registerActionHandler('hedge', execution => {
+        executions.push(execution);
+      });
+      await platform.initialize();
+    });
+
+    after(async () => {
+      await platform.shutdown();
+    });
+
+    it('predicts an asset price from the simulated feeds and fires its risk protocol', async () => {
+      const now = Date.now();
+      const prediction = await platform.createPrediction(PredictionType.ASSET_PRICE, { asset: 'BTC' }, {
+        startTime: now,
+        endTime: now + 60 * 60 * 1000,
+        intervalType: 'HOUR',
+        intervalCount: 1
+      });
+
+      assert.ok(Number.isFinite(prediction.value) && prediction.value > 0);
+      assert.deepEqual(prediction.sources, ['flare-ftso']);
+      assert.ok(prediction.confidenceIntervals.interval95.lower <= prediction.value);
+      assert.ok(prediction.confidenceIntervals.interval95.upper >= prediction.value);
+
+      const protocol = await platform.createRiskProtocol(prediction.id, {
+        triggerConditions: [{ type: 'PRICE_THRESHOLD', threshold: prediction.value * 2, direction: 'BELOW', action: 'hedge' }],
+        actionDetails: { hedge: { ratio: 0.5 } }
+      });
+
+      assert.equal(protocol.triggers[0].fireCount, 1);
+      assert.equal(executions.length, 1);
+      assert.deepEqual(executions[0].details, { ratio: 0.5 });
+    });
+  });
+
+  it('replays the same history and request IDs from a scenario file', async () => {
+    const runs = await Promise.all([0, 1].map(async () => {
+      const epochClock = new EpochClock();
+      const simulator = FlareSimulator.fromFile(BASELINE, { epochClock, logLevel: 'error' });
+      const start = simulator.getStartEpoch();
+      const values: FeedValue[][] = [];
+      for (let epoch = start - 10; epoch <= start; epoch++) {
+        values.push(await readEpoch(simulator, epochClock, ['BTC', 'ETH', 'XRP', 'FLR'], epoch));
+      }
+      return { start, values, requestIds: [simulator.nextRequestId('req'), simulator.nextRequestId('req')] };
+    }));
+
+    assert.equal(runs[0].start, new EpochClock().getEpochId(1767225600000));
+    assert.deepEqual(runs[0], runs[1]);
+    assert.deepEqual(runs[0].requestIds, ['req-42-1', 'req-42-2']);
+  });
+
+  describe('edge-case scenario', () => {
+    const epochClock = new EpochClock();
+    const simulator = FlareSimulator.fromFile(EDGE_CASES, { epochClock, logLevel: 'error' });
+    const start = simulator.getStartEpoch();
+
+    it('applies the ETH price shock and leaves other feeds alone', async () => {
+      const [before] = await readEpoch(simulator, epochClock, ['ETH'], start - 21);
+      const [during] = await readEpoch(simulator, epochClock, ['ETH'], start - 15);
+      const [btcBefore, btcDuring] = [
+        (await readEpoch(simulator, epochClock, ['BTC'], start - 21))[0],
+        (await readEpoch(simulator, epochClock, ['BTC'], start - 15))[0]
+      ];
+
+      assert.ok(Math.abs(during.value / before.value - 0.75) < 0.05, `${during.value} after ${before.value}`);
+      assert.ok(Math.abs(btcDuring.value / btcBefore.value - 1) < 0.05);
+    });
+
+    it('finalizes no FLR value during the rounds without consensus', async () => {
+      for (let epoch = start; epoch <= start + 3; epoch++) {
+        const [flr, eth] = await readEpoch(simulator, epochClock, ['FLR', 'ETH'], epoch);
+        assert.equal(flr.timestamp, 0);
+        assert.equal(flr.value, 0);
+        assert.equal(eth.timestamp, epochClock.getEpochEnd(epoch));
+      }
+      const [after] = await readEpoch(simulator, epochClock, ['FLR'], start + 4);
+      assert.ok(after.value > 0);
+    });
+
+    it('injects the same request failures for the same calls', async () => {
+      const outcomes = await Promise.all([0, 1].map(async () => {
+        const replay = FlareSimulator.fromFile(EDGE_CASES, { epochClock, logLevel: 'error' }).createFTSOTransport();
+        const failed: boolean[] = [];
+        for (let i = 0; i < 200; i++) {
+          failed.push(await replay.getChainId().then(() => false, () => true));
+        }
+        return failed;
+      }));
+
+      assert.deepEqual(outcomes[0], outcomes[1]);
+      assert.ok(outcomes[0].some(failed => failed));
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEnvironmentLayer, loadConfig, mergeConfig, resolveSecrets, validateConfig } from '../../../src/core/config';
+import { ValidationIssue } from '../../../src/core/types';
+import { DigestSignature } from '../../../src/flare-connect/types';
+import { ValidationError } from '../../../src/utils/errors';
+
+const VALID = {
+  flareNetworkEndpoint: 'http://127.0.0.1:9650/ext/C/rpc',
+  apiKey: ''
+};
+
+function getIssues(config: unknown): ValidationIssue[] {
+  try {
+    validateConfig(config);
+  } catch (error:any) {
+    assert.ok(error instanceof ValidationError);
+    return error.context.issues as ValidationIssue[];
+  }
+  return [];
+}
+
+describe('configuration', () => {
+  it('merges layers, replacing arrays and ignoring undefined values', () => {
+    const merged = mergeConfig(
+      { flareConfig: { ftsoConfig: { feeds: ['BTC', 'ETH'], requestTimeout: 5000 } }, historyWindow: 1000 },
+      { flareConfig: { ftsoConfig: { feeds: ['FLR'] } }, historyWindow: undefined }
+    );
+
+    assert.deepEqual(merged, { flareConfig: { ftsoConfig: { feeds: ['FLR'], requestTimeout: 5000 } }, historyWindow: 1000 });
+  });
+
+  it('reads settings from environment variables', () => {
+    const layer = getEnvironmentLayer({
+      FLARE_RPC_ENDPOINTS: 'https://a.example, https://b.example',
+      FTSO_FEEDS: 'BTC,ETH',
+      LUCENTIQ_HISTORY_WINDOW: '60000',
+      LOG_LEVEL: ' '
+    });
+
+    assert.deepEqual(layer, {
+      flareConfig: {
+        endpoints: [{ url: 'https://a.example' }, { url: 'https://b.example' }],
+        ftsoConfig: { feeds: ['BTC', 'ETH'] }
+      },
+      historyWindow: 60000
+    });
+    assert.throws(() => getEnvironmentLayer({ LUCENTIQ_HISTORY_WINDOW: 'six hours' }),
+      (error: ValidationError) => error.field === 'LUCENTIQ_HISTORY_WINDOW');
+  });
+
+  it('resolves secret references and lists the unresolved ones', () => {
+    assert.deepEqual(resolveSecrets({ apiKey: '${env:FLARE_KEY}' }, { FLARE_KEY: 'secret' }), { apiKey: 'secret' });
+    assert.throws(() => resolveSecrets({ apiKey: '${env:MISSING_KEY}' }, {}), (error: ValidationError) => error.field === 'apiKey');
+  });
+
+  it('loads an environment with overrides taking precedence', () => {
+    const config = loadConfig({ environment: 'test', env: { LOG_LEVEL: 'error' }, overrides: { historyWindow: 1000 } });
+
+    assert.equal(config.flareConfig?.backend?.mode, 'simulation');
+    assert.equal(config.logLevel, 'error');
+    assert.equal(config.historyWindow, 1000);
+    assert.throws(() => loadConfig({ environment: 'staging', env: {} }), ValidationError);
+  });
+
+  it('reports every invalid setting with its path', () => {
+    const issues = getIssues({
+      ...VALID,
+      logLevel: 'verbose',
+      historyWindow: -1,
+      dataSourceConfigurations: [{ id: 'news', type: 'NEWSPAPER' }],
+      flareConfig: { apiKey: 'key', ftsoConfig: { signer: { type: 'keystore' } } }
+    });
+
+    assert.deepEqual(issues.map(issue => issue.path), [
+      'logLevel',
+      'historyWindow',
+      'dataSourceConfigurations[0].type',
+      'flareConfig.apiKey',
+      'flareConfig.ftsoConfig.signer.path'
+    ]);
+  });
+
+  it('rejects unknown settings in every flareConfig section', () => {
+    const issues = getIssues({
+      ...VALID,
+      flareConfig: {
+        retries: 3,
+        ftsoConfig: { feed: ['BTC'] },
+        fdcConfig: { daLayerURL: 'https://da.example' },
+        stateConnectorConfig: { minConfirmation: 6 },
+        backend: { mode: 'simulation', scenarioFile: 'baseline.json' }
+      }
+    });
+
+    assert.deepEqual(issues.map(issue => issue.path).sort(), [
+      'flareConfig.backend.scenarioFile',
+      'flareConfig.fdcConfig.daLayerURL',
+      'flareConfig.ftsoConfig.feed',
+      'flareConfig.retries',
+      'flareConfig.stateConnectorConfig.minConfirmation'
+    ]);
+  });
+
+  it('accepts a Signer object where a signer configuration is expected', () => {
+    class TestSigner {
+      async getAddress(): Promise<string> {
+        return '0x0000000000000000000000000000000000000001';
+      }
+
+      async signDigest(): Promise<DigestSignature> {
+        return { r: '0x', s: '0x', recovery: 0 };
+      }
+    }
+    const signer = new TestSigner();
+
+    assert.deepEqual(getIssues({ ...VALID, flareConfig: { fdcConfig: { signer } } }), []);
+    assert.deepEqual(getIssues({ ...VALID, flareConfig: { fdcConfig: { signer: 'keystore.json' } } }).map(issue => issue.path),
+      ['flareConfig.fdcConfig.signer']);
+  });
+
+  it('checks the type and range of numeric settings', () => {
+    const issues = getIssues({
+      ...VALID,
+      flareConfig: {
+        drainTimeout: -1,
+        quorum: { size: 'x', threshold: -1 },
+        ftsoConfig: { rewards: { primaryBandShare: 1.5 } },
+        stateConnectorConfig: { attestationThreshold: -5, minConfirmations: 'abc', callbackMaxAttempts: 2.5 },
+        epochConfig: { epochDuration: 90000, revealDeadlineOffset: 100000 },
+        healthConfig: { failureThreshold: 0 }
+      }
+    });
+
+    assert.deepEqual(issues.map(issue => issue.path), [
+      'flareConfig.drainTimeout',
+      'flareConfig.quorum.size',
+      'flareConfig.quorum.threshold',
+      'flareConfig.ftsoConfig.rewards.primaryBandShare',
+      'flareConfig.stateConnectorConfig.attestationThreshold',
+      'flareConfig.stateConnectorConfig.minConfirmations',
+      'flareConfig.stateConnectorConfig.callbackMaxAttempts',
+      'flareConfig.healthConfig.failureThreshold',
+      'flareConfig.epochConfig.revealDeadlineOffset'
+    ]);
+  });
+
+  it('requires a quorum threshold of at least 2 and a majority of the quorum size', () => {
+    const quorumIssues = (quorum: Record<string, unknown>) => getIssues({ ...VALID, flareConfig: { quorum } }).map(issue => issue.path);
+
+    assert.deepEqual(quorumIssues({ enabled: true, size: 3, threshold: 2 }), []);
+    assert.deepEqual(quorumIssues({ threshold: 1 }), ['flareConfig.quorum.threshold']);
+    assert.deepEqual(quorumIssues({ size: 4, threshold: 2 }), ['flareConfig.quorum.threshold']);
+    assert.deepEqual(quorumIssues({ size: 3, threshold: 4 }), ['flareConfig.quorum.threshold']);
+    assert.deepEqual(quorumIssues({ size: 1 }), ['flareConfig.quorum.size']);
+  });
+
+  it('accepts only http(s) URLs', () => {
+    assert.deepEqual(getIssues({ ...VALID, flareNetworkEndpoint: 'wss://flare.example/ws' }).map(issue => issue.path), ['flareNetworkEndpoint']);
+    assert.deepEqual(getIssues({ ...VALID, flareConfig: { endpoints: [{ url: 'ws://127.0.0.1:9650' }] } }).map(issue => issue.path),
+      ['flareConfig.endpoints[0].url']);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LucentIQ } from '../../../src/core/decentra-predict';
+import { DataSourceType, FlareConnector, PredictionType } from '../../../src/core/types';
+import { FTSOConnection } from '../../../src/flare-connect/ftso-connection';
+import { getCorrelationId, withCorrelationId } from '../../../src/utils/logger';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const connector: FlareConnector = {
+  initialize: async () => undefined,
+  disconnect: async () => undefined,
+  getFTSOConnection: () => ({}) as FTSOConnection
+};
+
+describe('LucentIQ', () => {
+  it('keeps a single risk protocol loop when restarted during a check', async () => {
+    const platform = new LucentIQ({
+      flareNetworkEndpoint: 'http://127.0.0.1:1',
+      apiKey: '',
+      protocolCheckInterval: 5,
+      logLevel: 'error'
+    }, { connector });
+    let checking = 0;
+    let maxChecking = 0;
+    const target = platform as unknown as { checkProtocols: () => Promise<void> };
+    target.checkProtocols = async () => {
+      checking++;
+      maxChecking = Math.max(maxChecking, checking);
+      await delay(40);
+      checking--;
+    };
+
+    await platform.initialize();
+    await delay(20);
+    await platform.shutdown();
+    await platform.initialize();
+    // The check in progress overlaps the new loop once
+    await delay(60);
+    maxChecking = checking;
+    await delay(300);
+    await platform.shutdown();
+    await delay(60);
+
+    assert.equal(maxChecking, 1);
+  });
+
+  it('runs requests under the caller\'s correlation ID or a new one', async () => {
+    const seen: Array<string | undefined> = [];
+    const platform = new LucentIQ({
+      flareNetworkEndpoint: 'http://127.0.0.1:1',
+      apiKey: '',
+      protocolCheckInterval: 0,
+      logLevel: 'error'
+    }, {
+      connector,
+      dataSources: [{
+        id: 'sentiment-feed',
+        type: DataSourceType.SOCIAL_MEDIA,
+        factors: ['sentiment'],
+        fetch: async () => {
+          seen.push(getCorrelationId());
+          return [{ sourceId: 'sentiment-feed', factor: 'sentiment', timestamp: Date.now(), value: 0.2 }];
+        }
+      }]
+    });
+    await platform.initialize();
+
+    const now = Date.now();
+    const request = () => platform.createPrediction(PredictionType.EVENT_PROBABILITY, {
+      event: 'rate-cut',
+      includeFactors: ['sentiment']
+    }, { startTime: now, endTime: now + 60 * 60 * 1000, intervalType: 'HOUR', intervalCount: 1 });
+    await withCorrelationId('request-1', request);
+    await request();
+    await platform.shutdown();
+
+    assert.equal(seen[0], 'request-1');
+    assert.ok(seen[1] && seen[1] !== 'request-1');
+    assert.equal(getCorrelationId(), undefined);
+  });
+});
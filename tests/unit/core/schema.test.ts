@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DOMAIN_SCHEMA_VERSION,
+  assertValid,
+  getJsonSchema,
+  getValidationIssues,
+  migratePrediction,
+  migrateRiskProtocol
+} from '../../../src/core/schema';
+import { ValidationError } from '../../../src/utils/errors';
+
+const NOW = 1767225600000;
+
+// A prediction as stored before records were versioned
+const PREDICTION_V1 = {
+  id: 'pred-1',
+  type: 'ASSET_PRICE',
+  params: { asset: 'BTC' },
+  timeframe: { startTime: NOW, endTime: NOW + 3600000, intervalType: 'HOUR', intervalCount: 1 },
+  value: 65000,
+  confidence: { overall: 0.8, dataQuality: 0.9, modelFit: 0.7 },
+  confidenceIntervals: {
+    interval68: { lower: 64000, upper: 66000 },
+    interval95: { lower: 63000, upper: 67000 },
+    interval99: { lower: 62000, upper: 68000 }
+  },
+  supportingFactors: [],
+  model: 'time-series',
+  status: 'ACTIVE',
+  createdAt: NOW,
+  updatedAt: NOW
+};
+
+// A risk protocol as stored before records were versioned
+const PROTOCOL_V1 = {
+  id: 'protocol-1',
+  predictionId: 'pred-1',
+  triggers: [
+    { id: 'trigger-1', condition: { type: 'PRICE_THRESHOLD', threshold: 60000, action: 'hedge' }, active: false, fireCount: 0 },
+    { id: 'trigger-2', condition: { type: 'PRICE_THRESHOLD', threshold: 70000, direction: 'ABOVE', action: 'sell' }, active: false, fireCount: 0 },
+    { id: 'trigger-3', condition: { type: 'CONFIDENCE_CHANGE', threshold: 0.2, action: 'review' }, active: false, fireCount: 0 }
+  ],
+  actionDetails: {},
+  status: 'ACTIVE',
+  baselineConfidence: 0.8,
+  createdAt: NOW
+};
+
+describe('domain schemas', () => {
+  it('migrates a version 1 prediction to the current version', () => {
+    const prediction = migratePrediction(PREDICTION_V1);
+
+    assert.equal(prediction.schemaVersion, DOMAIN_SCHEMA_VERSION);
+    assert.deepEqual(prediction.sources, []);
+    assert.equal(prediction.value, PREDICTION_V1.value);
+  });
+
+  it('resolves the direction version 1 assumed for threshold triggers', () => {
+    const protocol = migrateRiskProtocol(PROTOCOL_V1);
+
+    assert.equal(protocol.schemaVersion, DOMAIN_SCHEMA_VERSION);
+    assert.deepEqual(protocol.triggers.map(trigger => trigger.condition.direction), ['BELOW', 'ABOVE', undefined]);
+  });
+
+  it('leaves current records as they are', () => {
+    const current = { ...PREDICTION_V1, schemaVersion: DOMAIN_SCHEMA_VERSION, sources: ['flare-ftso'] };
+
+    assert.deepEqual(migratePrediction(current), current);
+  });
+
+  it('refuses records from a newer version and records invalid after migration', () => {
+    assert.throws(() => migratePrediction({ ...PREDICTION_V1, schemaVersion: DOMAIN_SCHEMA_VERSION + 1 }),
+      (error: ValidationError) => error.field === 'schemaVersion');
+    assert.throws(() => migratePrediction([]), ValidationError);
+    assert.throws(() => migratePrediction({ ...PREDICTION_V1, value: 'high' }), (error: ValidationError) => error.field === 'value');
+  });
+
+  it('reports every problem of a value with its path', () => {
+    const issues = getValidationIssues('Timeframe', { startTime: -1, intervalType: 'YEAR', intervalCount: 0, extra: true }, 'timeframe');
+
+    assert.deepEqual(issues.map(issue => issue.path).sort(), [
+      'timeframe.endTime',
+      'timeframe.extra',
+      'timeframe.intervalCount',
+      'timeframe.intervalType',
+      'timeframe.startTime'
+    ]);
+    assert.throws(() => assertValid('PredictionType', 'WEATHER', 'type'), (error: ValidationError) => error.field === 'type');
+  });
+
+  it('exports standalone JSON Schemas with the definitions they reference', () => {
+    const schema = getJsonSchema('RiskProtocol');
+
+    assert.equal(schema.$id, `urn:lucentiq:schema:RiskProtocol:${DOMAIN_SCHEMA_VERSION}`);
+    assert.ok(schema.definitions && schema.definitions.RiskProtocolTrigger && schema.definitions.TriggerCondition);
+  });
+});
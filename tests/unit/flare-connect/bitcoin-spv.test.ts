@@ -0,0 +1,205 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BITCOIN_NETWORKS,
+  BitcoinNetworkParams,
+  bitsToTarget,
+  parseBlockHeader,
+  retargetBits,
+  sha256d,
+  targetToBits,
+  targetWork,
+  verifyBitcoinSpvProof,
+  verifyHeaderChain
+} from '../../../src/flare-connect/bitcoin-spv';
+import { bytesToHex, hexToBytes } from '../../../src/flare-connect/abi';
+import { BitcoinCheckpointConfig, BitcoinSpvProof } from '../../../src/flare-connect/types';
+import { ValidationError, VerificationError } from '../../../src/utils/errors';
+
+const MAINNET = BITCOIN_NETWORKS['btc-mainnet'];
+
+// Mainnet blocks 0 to 3
+const HEADERS = [
+  '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c',
+  '010000006fe28c0ab6f1b372c1a6a246ae63f74f931e8365e15a089c68d6190000000000982051fd1e4ba744bbbe680e1fee14677ba1a3c3540bf7b1cdb606e857233e0e61bc6649ffff001d01e36299',
+  '010000004860eb18bf1b1620e37e9490fc8a427514416fd75159ab86688e9a8300000000d5fdcc541e25de1c7a5addedf24858b8bb665c9f36ef744ee42c316022c90f9bb0bc6649ffff001d08d2bd61',
+  '01000000bddd99ccfda39da1b108ce1a5d70038d0a967bacb68b6b63065f626a0000000044f672226090d85db9a9f2fbfe5f0f9609b387af7be5b7fbb7a1767c831c9e995dbe6649ffff001d05e0ed6d'
+];
+
+// Coinbase of block 1, the only transaction in it
+const COINBASE_1 = {
+  txid: '0e3e2357e806b6cdb1f70b54c3a3a17b6714ee1f0e68bebb44a74b1efd512098',
+  raw: '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff0704ffff001d0104ffffffff0100f2052a0100000043410496b538e853519c726a2c91e61ec11600ae1390813a627c66fb8be7947be63c52da7589379515d4e0a604f8141781e62294721166bf621e73a82cbf2342c858eeac00000000'
+};
+
+const GENESIS: BitcoinCheckpointConfig = { height: 0, header: HEADERS[0] };
+
+// Regtest-like network whose headers can be mined in a test
+const EASY: BitcoinNetworkParams = {
+  powLimitBits: 0x207fffff,
+  retargetInterval: 4,
+  targetTimespan: 4 * 600,
+  targetSpacing: 600,
+  allowMinDifficultyBlocks: false
+};
+
+function writeUint32LE(bytes: Uint8Array, offset: number, value: number): void {
+  for (let i = 0; i < 4; i++) {
+    bytes[offset + i] = (value >>> (8 * i)) & 0xff;
+  }
+}
+
+/**
+ * Mine a header on top of `previousHash` that meets the target of `bits`
+ */
+function mineHeader(previousHash: string, bits: number, timestamp: number, merkleRoot: string = '00'.repeat(32)): string {
+  const bytes = new Uint8Array(80);
+  writeUint32LE(bytes, 0, 1);
+  bytes.set(hexToBytes(previousHash).reverse(), 4);
+  bytes.set(hexToBytes(merkleRoot).reverse(), 36);
+  writeUint32LE(bytes, 68, timestamp);
+  writeUint32LE(bytes, 72, bits);
+  const target = bitsToTarget(bits);
+  for (let nonce = 0; ; nonce++) {
+    writeUint32LE(bytes, 76, nonce);
+    if (BigInt(`0x${bytesToHex(sha256d(bytes).reverse())}`) <= target) {
+      return bytesToHex(bytes);
+    }
+  }
+}
+
+/**
+ * Mine `count` headers on top of a header, spaced `spacing` seconds apart and
+ * retargeting as the network requires
+ */
+function mineChain(params: BitcoinNetworkParams, checkpoint: BitcoinCheckpointConfig, count: number, spacing: number): string[] {
+  const headers: string[] = [];
+  let previous = parseBlockHeader(checkpoint.header);
+  let periodStart = checkpoint.periodStartTimestamp !== undefined ? checkpoint.periodStartTimestamp : previous.timestamp;
+  for (let height = checkpoint.height + 1; headers.length < count; height++) {
+    const timestamp = previous.timestamp + spacing;
+    let bits = previous.bits;
+    if (height % params.retargetInterval === 0) {
+      bits = retargetBits(previous.bits, previous.timestamp - periodStart, params);
+      periodStart = timestamp;
+    }
+    headers.push(mineHeader(previous.hash, bits, timestamp));
+    previous = parseBlockHeader(headers[headers.length - 1]);
+  }
+  return headers;
+}
+
+function proveCoinbase(overrides: Partial<BitcoinSpvProof> = {}): BitcoinSpvProof {
+  return {
+    blockHeight: 1,
+    headers: HEADERS.slice(1),
+    merkleBranch: [],
+    position: 0,
+    rawTransaction: COINBASE_1.raw,
+    ...overrides
+  };
+}
+
+describe('Bitcoin SPV', () => {
+  it('parses a mainnet header', () => {
+    const header = parseBlockHeader(HEADERS[1]);
+
+    assert.equal(header.hash, '00000000839a8e6886ab5951d76f411475428afc90947ee320161bbf18eb6048');
+    assert.equal(header.previousBlockHash, '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f');
+    assert.equal(header.merkleRoot, COINBASE_1.txid);
+    assert.equal(header.bits, 0x1d00ffff);
+    assert.throws(() => parseBlockHeader(HEADERS[1].slice(2)), VerificationError);
+  });
+
+  it('retargets as Bitcoin Core does', () => {
+    assert.equal(retargetBits(0x1d00ffff, 1262152739 - 1261130161, MAINNET), 0x1d00d86a);
+    assert.equal(retargetBits(0x1d00ffff, 1233061996 - 1231006505, MAINNET), 0x1d00ffff);
+    assert.equal(retargetBits(0x1c05a3f4, 1279297671 - 1279008237, MAINNET), 0x1c0168fd);
+    assert.equal(retargetBits(0x1c387f6f, 1269211443 - 1263163443, MAINNET), 0x1d00e1fd);
+    assert.equal(targetToBits(bitsToTarget(0x1d00ffff)), 0x1d00ffff);
+  });
+
+  it('verifies a mainnet transaction anchored to the genesis checkpoint', () => {
+    const result = verifyBitcoinSpvProof(COINBASE_1.txid, proveCoinbase(), MAINNET, GENESIS);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.valid, true);
+    assert.equal(result.blockHash, parseBlockHeader(HEADERS[1]).hash);
+    assert.equal(result.blockHeight, 1);
+    assert.equal(result.confirmations, 3);
+    assert.equal(result.chainWork, BigInt(3) * targetWork(bitsToTarget(0x1d00ffff)));
+  });
+
+  it('verifies a transaction below the checkpoint by linking up to it', () => {
+    const checkpoint = { height: 2, header: HEADERS[2], periodStartTimestamp: parseBlockHeader(HEADERS[0]).timestamp };
+
+    const result = verifyBitcoinSpvProof(COINBASE_1.txid, proveCoinbase(), MAINNET, checkpoint);
+
+    assert.equal(result.valid, true);
+    assert.equal(result.confirmations, 3);
+  });
+
+  it('rejects a height the relay misstates', () => {
+    const result = verifyBitcoinSpvProof(COINBASE_1.txid, proveCoinbase({ blockHeight: 2, startHeight: 2 }), MAINNET, GENESIS);
+
+    assert.equal(result.valid, false);
+    assert.match(result.errors[0], /do not reach the checkpoint/);
+  });
+
+  it('rejects confirmations short of the minimum chain work', () => {
+    const minChainWork = BigInt(4) * targetWork(bitsToTarget(0x1d00ffff));
+
+    const result = verifyBitcoinSpvProof(COINBASE_1.txid, proveCoinbase(), MAINNET, GENESIS, minChainWork);
+
+    assert.equal(result.valid, false);
+    assert.equal(result.confirmations, 0);
+    assert.match(result.errors[0], /below the required/);
+  });
+
+  it('rejects a forged low-work chain on top of the checkpoint', () => {
+    const forged: string[] = [];
+    let previous = parseBlockHeader(HEADERS[0]);
+    while (forged.length < 6) {
+      forged.push(mineHeader(previous.hash, EASY.powLimitBits, previous.timestamp + 600));
+      previous = parseBlockHeader(forged[forged.length - 1]);
+    }
+
+    assert.throws(() => verifyHeaderChain(forged, 1, MAINNET, GENESIS), /expected 1d00ffff/);
+    const result = verifyBitcoinSpvProof(COINBASE_1.txid, proveCoinbase({ headers: forged }), MAINNET, GENESIS);
+    assert.equal(result.valid, false);
+  });
+
+  it('rejects headers that do not meet their target or connect to the checkpoint', () => {
+    const unmined = parseBlockHeader(HEADERS[1]);
+    const tampered = `${HEADERS[1].slice(0, -8)}00000000`;
+    assert.notEqual(parseBlockHeader(tampered).hash, unmined.hash);
+
+    assert.throws(() => verifyHeaderChain([tampered], 1, MAINNET, GENESIS), /proof-of-work target/);
+    assert.throws(() => verifyHeaderChain(HEADERS.slice(2), 2, MAINNET, { height: 1, header: HEADERS[2] }), /does not connect/);
+    assert.throws(() => verifyHeaderChain([HEADERS[1], HEADERS[3]], 1, MAINNET, GENESIS), /does not link/);
+  });
+
+  it('enforces difficulty retargets after the checkpoint', () => {
+    const anchor = mineHeader('00'.repeat(32), EASY.powLimitBits, 1700000000);
+    const checkpoint = { height: 0, header: anchor };
+    // Blocks a quarter of the target spacing apart raise the difficulty at height 4
+    const chain = mineChain(EASY, checkpoint, 6, 150);
+    const retargeted = parseBlockHeader(chain[3]).bits;
+    assert.ok(bitsToTarget(retargeted) < bitsToTarget(EASY.powLimitBits));
+
+    assert.equal(verifyHeaderChain(chain, 1, EASY, checkpoint).headers.length, 6);
+
+    const unchanged = chain.slice(0, 3);
+    unchanged.push(mineHeader(parseBlockHeader(chain[2]).hash, EASY.powLimitBits, parseBlockHeader(chain[2]).timestamp + 150));
+    assert.throws(() => verifyHeaderChain(unchanged, 1, EASY, checkpoint), /height 4 has difficulty bits/);
+
+    const early = chain.slice(0, 1);
+    early.push(mineHeader(parseBlockHeader(chain[0]).hash, retargeted, parseBlockHeader(chain[0]).timestamp + 150));
+    assert.throws(() => verifyHeaderChain(early, 1, EASY, checkpoint), /height 2 has difficulty bits/);
+  });
+
+  it('needs the retarget interval start of a checkpoint inside the interval', () => {
+    assert.throws(() => verifyHeaderChain(HEADERS.slice(2), 2, MAINNET, { height: 1, header: HEADERS[1] }),
+      (error: ValidationError) => error instanceof ValidationError && error.field === 'periodStartTimestamp');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  CallbackDispatcher,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signCallbackPayload,
+  verifyCallbackSignature
+} from '../../../src/flare-connect/callback-delivery';
+
+const SECRET = 'callback-secret';
+
+interface ReceivedCallback {
+  headers: IncomingHttpHeaders;
+  body: string;
+  receivedAt: number;
+}
+
+/**
+ * Callback receiver answering with the queued statuses, then 200
+ */
+class CallbackReceiver {
+  readonly received: ReceivedCallback[] = [];
+  private statuses: number[] = [];
+  private server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      this.received.push({ headers: request.headers, body, receivedAt: Date.now() });
+      response.statusCode = this.statuses.length > 0 ? this.statuses.shift()! : 200;
+      response.end();
+    });
+  });
+
+  start(): Promise<string> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(this.server.address() as AddressInfo).port}/callback`);
+    }));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  respondWith(...statuses: number[]): void {
+    this.received.length = 0;
+    this.statuses = statuses;
+  }
+}
+
+describe('callback signatures', () => {
+  const body = JSON.stringify({ requestId: 'query-1', status: 'FINALIZED' });
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const timestamp = 1700000000000;
+    const expected = createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+
+    assert.equal(signCallbackPayload(body, timestamp, SECRET), `sha256=${expected}`);
+  });
+
+  it('accepts a recent callback signed with the shared secret', () => {
+    const timestamp = Date.now();
+
+    assert.equal(verifyCallbackSignature(body, timestamp, signCallbackPayload(body, timestamp, SECRET), SECRET), true);
+  });
+
+  it('rejects a tampered body, a wrong secret and a forged timestamp', () => {
+    const timestamp = Date.now();
+    const signature = signCallbackPayload(body, timestamp, SECRET);
+
+    assert.equal(verifyCallbackSignature(body.replace('FINALIZED', 'FAILED'), timestamp, signature, SECRET), false);
+    assert.equal(verifyCallbackSignature(body, timestamp, signature, 'other-secret'), false);
+    assert.equal(verifyCallbackSignature(body, timestamp - 1, signature, SECRET), false);
+    assert.equal(verifyCallbackSignature(body, timestamp, signature.slice(0, -2), SECRET), false);
+  });
+
+  it('rejects stale and future timestamps even when correctly signed', () => {
+    const stale = Date.now() - 6 * 60 * 1000;
+    const future = Date.now() + 6 * 60 * 1000;
+
+    assert.equal(verifyCallbackSignature(body, stale, signCallbackPayload(body, stale, SECRET), SECRET), false);
+    assert.equal(verifyCallbackSignature(body, future, signCallbackPayload(body, future, SECRET), SECRET), false);
+    assert.equal(verifyCallbackSignature(body, stale, signCallbackPayload(body, stale, SECRET), SECRET, 10 * 60 * 1000), true);
+    assert.equal(verifyCallbackSignature(body, NaN, signCallbackPayload(body, NaN, SECRET), SECRET), false);
+  });
+});
+
+describe('CallbackDispatcher', () => {
+  const receiver = new CallbackReceiver();
+  const dispatcher = new CallbackDispatcher('error');
+  const payload = { requestId: 'query-1', status: 'FINALIZED' };
+  let url: string;
+
+  before(async () => {
+    url = await receiver.start();
+  });
+
+  after(() => receiver.stop());
+
+  it('POSTs the payload with a signature the receiver can verify', async () => {
+    receiver.respondWith();
+
+    const result = await dispatcher.deliver(url, payload, { secret: SECRET });
+
+    assert.deepEqual(result, { delivered: true, attempts: 1 });
+    const [callback] = receiver.received;
+    assert.deepEqual(JSON.parse(callback.body), payload);
+    assert.equal(callback.headers['content-type'], 'application/json');
+    assert.equal(verifyCallbackSignature(
+      callback.body,
+      Number(callback.headers[TIMESTAMP_HEADER.toLowerCase()]),
+      String(callback.headers[SIGNATURE_HEADER.toLowerCase()]),
+      SECRET
+    ), true);
+  });
+
+  it('retries server errors and rate limiting with exponential backoff', async () => {
+    receiver.respondWith(503, 429);
+    const attempts: Array<[number, string | undefined]> = [];
+
+    const result = await dispatcher.deliver(url, payload, { secret: SECRET, retryDelay: 40 }, (attempt, error) => {
+      attempts.push([attempt, error]);
+    });
+
+    assert.deepEqual(result, { delivered: true, attempts: 3 });
+    assert.deepEqual(attempts, [[1, 'HTTP 503'], [2, 'HTTP 429'], [3, undefined]]);
+    assert.deepEqual(receiver.received.map(callback => callback.headers['x-flare-delivery-attempt']), ['1', '2', '3']);
+    const [first, second, third] = receiver.received.map(callback => callback.receivedAt);
+    assert.ok(second - first >= 35, `first retry after ${second - first}ms`);
+    assert.ok(third - second >= 75, `second retry after ${third - second}ms`);
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    receiver.respondWith(500, 500, 500, 500);
+
+    const result = await dispatcher.deliver(url, payload, { secret: SECRET, maxAttempts: 3, retryDelay: 1 });
+
+    assert.deepEqual(result, { delivered: false, attempts: 3, error: 'HTTP 500' });
+    assert.equal(receiver.received.length, 3);
+  });
+
+  it('does not retry a callback the receiver rejected', async () => {
+    receiver.respondWith(400);
+
+    const result = await dispatcher.deliver(url, payload, { secret: SECRET, retryDelay: 1 });
+
+    assert.deepEqual(result, { delivered: false, attempts: 1, error: 'HTTP 400' });
+  });
+
+  it('resolves deliveries waiting to retry as cancelled', async () => {
+    receiver.respondWith(503);
+
+    const delivery = dispatcher.deliver(url, payload, { secret: SECRET, retryDelay: 60000 });
+    while (receiver.received.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+    dispatcher.cancelAll();
+
+    assert.deepEqual(await delivery, { delivered: false, attempts: 1, error: 'Delivery cancelled' });
+  });
+});
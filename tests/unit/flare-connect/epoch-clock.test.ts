@@ -0,0 +1,145 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EpochClock, FLARE_MAINNET_EPOCH_CONFIG } from '../../../src/flare-connect/epoch-clock';
+import { EpochInfo } from '../../../src/flare-connect/types';
+import { ValidationError } from '../../../src/utils/errors';
+
+const CONFIG = { firstEpochStartTimestamp: 1000000, epochDuration: 90000, revealDeadlineOffset: 45000 };
+
+describe('EpochClock conversions', () => {
+  const clock = new EpochClock(CONFIG);
+
+  it('counts epochs from the first epoch start, start inclusive and end exclusive', () => {
+    assert.equal(clock.getEpochId(1000000), 0);
+    assert.equal(clock.getEpochId(1089999), 0);
+    assert.equal(clock.getEpochId(1090000), 1);
+    assert.equal(clock.getEpochId(999999), -1);
+  });
+
+  it('converts between epoch IDs and timestamps', () => {
+    assert.equal(clock.getEpochStart(5), 1450000);
+    assert.equal(clock.getEpochEnd(5), 1540000);
+    for (let epochId = -2; epochId < 20; epochId++) {
+      assert.equal(clock.getEpochId(clock.getEpochStart(epochId)), epochId);
+      assert.equal(clock.getEpochId(clock.getEpochEnd(epochId) - 1), epochId);
+      assert.equal(clock.getEpochId(clock.getEpochEnd(epochId)), epochId + 1);
+    }
+  });
+
+  it('places the reveal deadline into the following epoch', () => {
+    assert.deepEqual(clock.getEpochInfo(5), {
+      epochId: 5,
+      startTimestamp: 1450000,
+      endTimestamp: 1540000,
+      revealDeadline: 1585000
+    });
+    assert.equal(clock.getEpochId(clock.getRevealDeadline(5)), 6);
+
+    const lateDeadline = new EpochClock({ ...CONFIG, revealDeadlineOffset: CONFIG.epochDuration });
+    assert.equal(lateDeadline.getRevealDeadline(5), lateDeadline.getEpochStart(7));
+  });
+
+  it('defaults to the Flare mainnet epochs', () => {
+    const mainnet = new EpochClock({ epochDuration: 60000 });
+
+    assert.deepEqual(new EpochClock().getConfig(), FLARE_MAINNET_EPOCH_CONFIG);
+    assert.deepEqual(mainnet.getConfig(), { ...FLARE_MAINNET_EPOCH_CONFIG, epochDuration: 60000 });
+    assert.equal(mainnet.getEpochId(FLARE_MAINNET_EPOCH_CONFIG.firstEpochStartTimestamp), 0);
+  });
+
+  it('rejects durations and reveal offsets that do not fit an epoch', () => {
+    const invalid = (field: string) => (error: any) => error instanceof ValidationError && error.context.field === field;
+
+    assert.throws(() => new EpochClock({ epochDuration: 0 }), invalid('epochDuration'));
+    assert.throws(() => new EpochClock({ ...CONFIG, revealDeadlineOffset: -1 }), invalid('revealDeadlineOffset'));
+    assert.throws(() => new EpochClock({ ...CONFIG, revealDeadlineOffset: 90001 }), invalid('revealDeadlineOffset'));
+  });
+});
+
+describe('EpochClock boundary events', () => {
+  const reference = new EpochClock(CONFIG);
+  let clock: EpochClock;
+  let now: number;
+
+  afterEach(() => {
+    clock.dispose();
+    mock.reset();
+    mock.timers.reset();
+  });
+
+  // Timers and the wall clock are advanced separately, so timers can fire early
+  function startAt(timestamp: number): void {
+    now = timestamp;
+    mock.method(Date, 'now', () => now);
+    mock.timers.enable({ apis: ['setTimeout'] });
+    clock = new EpochClock(CONFIG);
+  }
+
+  function advance(ms: number): void {
+    now += ms;
+    mock.timers.tick(ms);
+  }
+
+  function listen(): Array<[number, number]> {
+    const events: Array<[number, number]> = [];
+    clock.on('epoch', (info: EpochInfo) => events.push([info.epochId, Date.now()]));
+    return events;
+  }
+
+  it('emits every epoch exactly at its start', () => {
+    startAt(reference.getEpochStart(10) - 1);
+    const events = listen();
+
+    advance(1);
+    advance(CONFIG.epochDuration - 1);
+    assert.deepEqual(events, [[10, reference.getEpochStart(10)]]);
+
+    advance(1);
+    advance(CONFIG.epochDuration);
+    assert.deepEqual(events, [
+      [10, reference.getEpochStart(10)],
+      [11, reference.getEpochStart(11)],
+      [12, reference.getEpochStart(12)]
+    ]);
+  });
+
+  it('waits for the next boundary when listening starts exactly at one', () => {
+    startAt(reference.getEpochStart(10));
+    const events = listen();
+
+    advance(CONFIG.epochDuration - 1);
+    assert.deepEqual(events, []);
+    advance(1);
+    assert.deepEqual(events, [[11, reference.getEpochStart(11)]]);
+  });
+
+  it('emits each epoch once when the timer fires before the wall clock reaches the boundary', () => {
+    startAt(reference.getEpochStart(10) - 10);
+    const events = listen();
+
+    // The timer fires while the wall clock is still 5ms short of the boundary
+    now += 5;
+    mock.timers.tick(10);
+    assert.deepEqual(events, [[10, reference.getEpochStart(10) - 5]]);
+
+    advance(5);
+    assert.equal(events.length, 1);
+    advance(CONFIG.epochDuration);
+    assert.deepEqual(events.map(([epochId]) => epochId), [10, 11]);
+  });
+
+  it('stops when the last listener is removed and resumes with the epoch in progress', () => {
+    startAt(CONFIG.firstEpochStartTimestamp);
+    const events: number[] = [];
+    const listener = (info: EpochInfo) => events.push(info.epochId);
+
+    clock.on('epoch', listener);
+    advance(CONFIG.epochDuration);
+    clock.off('epoch', listener);
+    advance(3 * CONFIG.epochDuration);
+    clock.on('epoch', listener);
+    advance(CONFIG.epochDuration);
+
+    assert.deepEqual(events, [1, 5]);
+  });
+});
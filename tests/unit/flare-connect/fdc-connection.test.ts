@@ -0,0 +1,83 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FDCConnection } from '../../../src/flare-connect/fdc-connection';
+import { EpochClock } from '../../../src/flare-connect/epoch-clock';
+import { FlareSimulator } from '../../../src/flare-connect/simulator';
+import { strip0x } from '../../../src/flare-connect/abi';
+import { AddressValidityRequestBody, AddressValidityResponseBody, ExternalData, FDCAttestationResponse } from '../../../src/flare-connect/types';
+
+const SIGNER_VARIABLE = 'FDC_CONNECTION_TEST_PRIVATE_KEY';
+const ADDRESS = '1BoatSLRHtKNngkdXEeobR76b53LETtpyT';
+
+describe('FDCConnection', () => {
+  const epochClock = new EpochClock({ firstEpochStartTimestamp: 0, epochDuration: 1000, revealDeadlineOffset: 500 });
+  const simulator = new FlareSimulator({ attestation: { delayRounds: 1 } }, { epochClock, logLevel: 'error' });
+  let connection: FDCConnection;
+  let attested: ExternalData<FDCAttestationResponse<AddressValidityRequestBody, AddressValidityResponseBody>>;
+
+  before(async () => {
+    process.env[SIGNER_VARIABLE] = `0x${'22'.repeat(32)}`;
+    connection = new FDCConnection({
+      endpoint: 'simulation',
+      apiKey: '',
+      transport: simulator.createFDCTransport(),
+      epochClock,
+      fdcSpecificConfig: { signer: { type: 'env', variable: SIGNER_VARIABLE }, pollInterval: 100 },
+      logLevel: 'error'
+    });
+    await connection.connect();
+
+    const query = connection.getQueryBuilder().addressValidity('btc-mainnet', { addressStr: ADDRESS });
+    attested = await connection.requestAttestation(query, { timeout: 10000 });
+  });
+
+  after(async () => {
+    delete process.env[SIGNER_VARIABLE];
+    await connection.disconnect();
+  });
+
+  it('verifies an attested response against its request and the finalized root', async () => {
+    assert.equal(attested.data.requestBody.addressStr, ADDRESS);
+
+    const result = await connection.verifyExternalData(attested);
+
+    assert.equal(result.verified, true, result.error);
+    assert.equal(result.merkleRoot, attested.attestation.merkleRoot);
+  });
+
+  it('verifies raw external data whose data path holds the request body', async () => {
+    const query = connection.getQueryBuilder().payment('btc-mainnet', { transactionId: `0x${'ab'.repeat(32)}` });
+    const requestBody = `0x${strip0x(query.abiEncodedRequest).slice(192)}`;
+    const raw = await connection.requestExternalData('btc-mainnet', `/btc-mainnet/Payment/${requestBody}`, { timeout: 10000 });
+
+    const result = await connection.verifyExternalData(raw);
+
+    assert.equal(result.verified, true, result.error);
+    const forged = await connection.verifyExternalData({ ...raw, data: { ...raw.data, votingRoundId: raw.data.votingRoundId + 1 } });
+    assert.equal(forged.verified, false);
+  });
+
+  it('rejects claimed data that differs from the attested response', async () => {
+    const result = await connection.verifyExternalData({
+      ...attested,
+      data: { ...attested.data, responseBody: { ...attested.data.responseBody, isValid: !attested.data.responseBody.isValid } }
+    });
+
+    assert.equal(result.verified, false);
+    assert.match(result.error!, /Data does not match the attested response/);
+  });
+
+  it('rejects a response attributed to another blockchain or request', async () => {
+    const otherChain = await connection.verifyExternalData({ ...attested, blockchain: 'doge-mainnet' });
+    assert.equal(otherChain.verified, false);
+    assert.match(otherChain.error!, /not doge-mainnet/);
+
+    const otherQuery = connection.getQueryBuilder().addressValidity('btc-mainnet', { addressStr: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq' });
+    const otherRequest = await connection.verifyExternalData({
+      ...attested,
+      dataPath: `/btc-mainnet/AddressValidity/${otherQuery.abiEncodedRequest}`
+    });
+    assert.equal(otherRequest.verified, false);
+    assert.match(otherRequest.error!, /does not answer the request/);
+  });
+});
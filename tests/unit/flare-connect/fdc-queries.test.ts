@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FDCQueryBuilder,
+  decodeAttestationRequest,
+  decodeAttestationResponse,
+  encodeAttestationResponse
+} from '../../../src/flare-connect/fdc-queries';
+import { PaymentResponseBody, SupportedBlockchain } from '../../../src/flare-connect/types';
+import { ValidationError, VerificationError } from '../../../src/utils/errors';
+
+const CHAINS: SupportedBlockchain[] = [
+  {
+    name: 'Bitcoin',
+    chainId: 'btc-mainnet',
+    supportedOperations: ['Payment', 'BalanceDecreasingTransaction', 'AddressValidity'],
+    averageFinality: 3600
+  },
+  { name: 'Ethereum', chainId: 'eth-mainnet', supportedOperations: ['EVMTransaction', 'JsonApi'], averageFinality: 900 },
+  // Listed by the service but without an FDC source ID
+  { name: 'Solana', chainId: 'sol-mainnet', supportedOperations: ['Payment'], averageFinality: 30 }
+];
+
+const ZERO_MIC = `0x${'00'.repeat(32)}`;
+
+function hash(byte: string): string {
+  return `0x${byte.repeat(32)}`;
+}
+
+function invalid(field: string) {
+  return (error: any) => error instanceof ValidationError && error.context.field === field;
+}
+
+describe('FDCQueryBuilder', () => {
+  const builder = new FDCQueryBuilder(CHAINS);
+
+  it('builds a Payment request for a chain given by name or chain ID', () => {
+    const body = { transactionId: hash('ab'), inUtxo: 1 };
+
+    const query = builder.payment('bitcoin', body);
+
+    assert.equal(query.attestationType, 'Payment');
+    assert.equal(query.blockchain, 'btc-mainnet');
+    assert.equal(query.sourceId, 'BTC');
+    assert.deepEqual(query.requestBody, body);
+    assert.notEqual(query.requestBody, body);
+    assert.deepEqual(decodeAttestationRequest(query.abiEncodedRequest), {
+      attestationType: 'Payment',
+      sourceId: 'BTC',
+      messageIntegrityCode: ZERO_MIC,
+      requestBody: { transactionId: hash('ab'), inUtxo: 1, utxo: 0 }
+    });
+    assert.equal(builder.payment('btc-mainnet', body).abiEncodedRequest, query.abiEncodedRequest);
+  });
+
+  it('encodes the message integrity code when one is given', () => {
+    const query = builder.balanceDecreasingTransaction('Bitcoin', {
+      transactionId: hash('ab'),
+      sourceAddressIndicator: hash('cd')
+    }, hash('ef'));
+
+    assert.deepEqual(decodeAttestationRequest(query.abiEncodedRequest), {
+      attestationType: 'BalanceDecreasingTransaction',
+      sourceId: 'BTC',
+      messageIntegrityCode: hash('ef'),
+      requestBody: { transactionId: hash('ab'), sourceAddressIndicator: hash('cd') }
+    });
+  });
+
+  it('fills in the EVMTransaction defaults', () => {
+    const query = builder.evmTransaction('Ethereum', { transactionHash: hash('12') });
+    const withEvents = builder.evmTransaction('Ethereum', {
+      transactionHash: hash('12'),
+      requiredConfirmations: 12,
+      provideInput: true,
+      listEvents: true,
+      logIndices: [0, 3]
+    });
+
+    assert.equal(query.sourceId, 'ETH');
+    assert.deepEqual(decodeAttestationRequest(query.abiEncodedRequest).requestBody, {
+      transactionHash: hash('12'),
+      requiredConfirmations: 1,
+      provideInput: false,
+      listEvents: false,
+      logIndices: []
+    });
+    assert.deepEqual(decodeAttestationRequest(withEvents.abiEncodedRequest).requestBody, {
+      transactionHash: hash('12'),
+      requiredConfirmations: 12,
+      provideInput: true,
+      listEvents: true,
+      logIndices: [0, 3]
+    });
+  });
+
+  it('builds AddressValidity and JsonApi requests', () => {
+    const address = builder.addressValidity('Bitcoin', { addressStr: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq' });
+    const jsonApi = builder.jsonApi('Ethereum', {
+      url: 'https://api.example.com/price?symbol=ETH',
+      postprocessJq: '{price: .price}',
+      abiSignature: '{"components":[{"name":"price","type":"uint256"}],"type":"tuple"}'
+    });
+
+    assert.deepEqual(decodeAttestationRequest(address.abiEncodedRequest).requestBody, {
+      addressStr: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq'
+    });
+    assert.equal(decodeAttestationRequest(jsonApi.abiEncodedRequest).attestationType, 'JsonApi');
+    assert.deepEqual(decodeAttestationRequest(jsonApi.abiEncodedRequest).requestBody, jsonApi.requestBody);
+  });
+
+  it('rejects chains the FDC does not know or that do not support the attestation type', () => {
+    const payment = { transactionId: hash('ab') };
+
+    assert.throws(() => builder.payment('Litecoin', payment), invalid('blockchain'));
+    assert.throws(() => builder.payment('Solana', payment), invalid('blockchain'));
+    assert.throws(() => builder.payment('Ethereum', payment), invalid('attestationType'));
+    assert.throws(() => builder.evmTransaction('Bitcoin', { transactionHash: hash('12') }), /supported: Payment, /);
+  });
+
+  it('rejects malformed hashes, counts and message integrity codes', () => {
+    assert.throws(() => builder.payment('Bitcoin', { transactionId: 'ab'.repeat(32) }), invalid('transactionId'));
+    assert.throws(() => builder.payment('Bitcoin', { transactionId: `0x${'ab'.repeat(31)}` }), invalid('transactionId'));
+    assert.throws(() => builder.payment('Bitcoin', { transactionId: hash('ab'), inUtxo: -1 }), invalid('inUtxo'));
+    assert.throws(() => builder.payment('Bitcoin', { transactionId: hash('ab'), utxo: 1.5 }), invalid('utxo'));
+    assert.throws(() => builder.payment('Bitcoin', { transactionId: hash('ab') }, '0x1234'), invalid('messageIntegrityCode'));
+    assert.throws(() => builder.balanceDecreasingTransaction('Bitcoin', {
+      transactionId: hash('ab'),
+      sourceAddressIndicator: 'bc1q'
+    }), invalid('sourceAddressIndicator'));
+    assert.throws(() => builder.evmTransaction('Ethereum', {
+      transactionHash: hash('12'),
+      requiredConfirmations: 0x10000
+    }), invalid('requiredConfirmations'));
+    assert.throws(() => builder.evmTransaction('Ethereum', {
+      transactionHash: hash('12'),
+      logIndices: Array.from({ length: 51 }, (_, i) => i)
+    }), invalid('logIndices'));
+    assert.throws(() => builder.evmTransaction('Ethereum', { transactionHash: hash('12'), logIndices: [1, -2] }), invalid('logIndices'));
+  });
+
+  it('rejects empty addresses and malformed JsonApi requests', () => {
+    const jsonApi = { url: 'https://api.example.com/price', postprocessJq: '.price', abiSignature: '{"type":"uint256"}' };
+
+    assert.throws(() => builder.addressValidity('Bitcoin', { addressStr: '  ' }), invalid('addressStr'));
+    assert.throws(() => builder.jsonApi('Ethereum', { ...jsonApi, url: 'ftp://api.example.com/price' }), invalid('url'));
+    assert.throws(() => builder.jsonApi('Ethereum', { ...jsonApi, url: 'https://api.example.com/a b' }), invalid('url'));
+    assert.throws(() => builder.jsonApi('Ethereum', { ...jsonApi, postprocessJq: '' }), invalid('postprocessJq'));
+    assert.throws(() => builder.jsonApi('Ethereum', { ...jsonApi, abiSignature: 'uint256' }), invalid('abiSignature'));
+  });
+});
+
+describe('attestation responses', () => {
+  const builder = new FDCQueryBuilder(CHAINS);
+  const query = builder.payment('Bitcoin', { transactionId: hash('ab') });
+  const responseBody: PaymentResponseBody = {
+    blockNumber: 850000,
+    blockTimestamp: 1718000000,
+    sourceAddressHash: hash('11'),
+    sourceAddressesRoot: hash('22'),
+    receivingAddressHash: hash('33'),
+    intendedReceivingAddressHash: hash('33'),
+    spentAmount: '150000',
+    intendedSpentAmount: '150000',
+    receivedAmount: '100000',
+    intendedReceivedAmount: '100000',
+    standardPaymentReference: hash('44'),
+    oneToOne: true,
+    status: 0
+  };
+  const response = {
+    attestationType: 'Payment' as const,
+    sourceId: 'BTC',
+    votingRound: 1024,
+    lowestUsedTimestamp: 1717990000,
+    requestBody: { transactionId: hash('ab'), inUtxo: 0, utxo: 0 },
+    responseBody
+  };
+
+  it('decodes the attested response of a query', () => {
+    const responseHex = encodeAttestationResponse(response);
+
+    assert.deepEqual(query.decodeResponse(responseHex), response);
+    assert.deepEqual(decodeAttestationResponse(responseHex), response);
+  });
+
+  it('refuses responses for another source or type and malformed responses', () => {
+    const otherSource = encodeAttestationResponse({ ...response, sourceId: 'DOGE' });
+    const otherType = encodeAttestationResponse({
+      ...response,
+      attestationType: 'AddressValidity',
+      requestBody: { addressStr: 'bc1q' },
+      responseBody: { isValid: true, standardAddress: 'bc1q', standardAddressHash: hash('55') }
+    });
+
+    assert.throws(() => query.decodeResponse(otherSource), VerificationError);
+    assert.throws(() => query.decodeResponse(otherType), VerificationError);
+    assert.throws(() => query.decodeResponse('0x1234'), VerificationError);
+    assert.throws(() => decodeAttestationResponse('0x1234'), VerificationError);
+    assert.throws(() => decodeAttestationRequest('0x1234'), invalid('abiEncodedRequest'));
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FeedSubscriptionManager } from '../../../src/flare-connect/feed-subscriptions';
+import { EpochClock } from '../../../src/flare-connect/epoch-clock';
+import { PriceData } from '../../../src/flare-connect/types';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('FeedSubscriptionManager', () => {
+  it('keeps a single block loop when restarted during a poll', async () => {
+    let polling = 0;
+    let maxPolling = 0;
+    const fetchPrices = async (): Promise<PriceData[]> => {
+      polling++;
+      maxPolling = Math.max(maxPolling, polling);
+      await delay(50);
+      polling--;
+      return [];
+    };
+    const manager = new FeedSubscriptionManager(fetchPrices, new EpochClock(), { blockPollInterval: 5, logLevel: 'error' });
+    manager.subscribe(['BTC'], () => undefined, { blockLatency: true });
+
+    manager.start();
+    await delay(20);
+    manager.stop();
+    manager.start();
+    // The catch-up poll of start() overlaps the loop once
+    await delay(60);
+    maxPolling = polling;
+    await delay(300);
+    manager.stop();
+    await delay(60);
+
+    assert.equal(maxPolling, 1);
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeAbiParameters, functionSelector, keccak256Hex, hexToBytes, bytesToHex } from '../../../src/flare-connect/abi';
+import {
+  CommitRevealSubmitter,
+  computeCommitHash,
+  decodeFeedValue,
+  decodeRevealMessages,
+  encodeFeedValues,
+  encodeProtocolMessage
+} from '../../../src/flare-connect/ftso-commit-reveal';
+import { EpochClock } from '../../../src/flare-connect/epoch-clock';
+import { toFeedId } from '../../../src/flare-connect/ftso-transport';
+import { FlareSimulator } from '../../../src/flare-connect/simulator';
+import { EnvironmentSigner } from '../../../src/flare-connect/signers';
+import { TransactionSender } from '../../../src/flare-connect/transaction';
+import { rlpDecode } from '../../../src/flare-connect/rlp';
+import { FTSOTransport, RewardEpochFeed, TransactionRpc } from '../../../src/flare-connect/types';
+import { ValidationError } from '../../../src/utils/errors';
+
+const PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+const SIGNER_VARIABLE = 'COMMIT_REVEAL_TEST_PRIVATE_KEY';
+
+const FEEDS: RewardEpochFeed[] = [
+  { feedId: toFeedId('BTC'), symbol: 'BTC/USD', decimals: 2 },
+  { feedId: toFeedId('ETH'), symbol: 'ETH/USD', decimals: 3 },
+  { feedId: toFeedId('FLR'), symbol: 'FLR/USD', decimals: 6 }
+];
+
+function getTransactionData(rawTransaction: string): string {
+  const fields = rlpDecode(rawTransaction) as Uint8Array[];
+  return `0x${bytesToHex(fields[5])}`;
+}
+
+function getTransactionNonce(rawTransaction: string): number {
+  const fields = rlpDecode(rawTransaction) as Uint8Array[];
+  return fields[0].length === 0 ? 0 : parseInt(bytesToHex(fields[0]), 16);
+}
+
+describe('commit-reveal encoding', () => {
+  it('hashes the abi encoding of submitter, round, random and values', () => {
+    const submitter = '0x1234567890abcdef1234567890abcdef12345678';
+    const random = `0x${'ab'.repeat(32)}`;
+    const encodedValues = '8000000180000002';
+
+    const expected = keccak256Hex(hexToBytes(encodeAbiParameters(
+      ['address', 'uint', 'bytes32', 'bytes'],
+      [submitter, 815, random, `0x${encodedValues}`]
+    )));
+
+    assert.equal(computeCommitHash(submitter, 815, random, encodedValues), expected);
+  });
+
+  it('encodes values in feed order with empty slots for feeds without a value', () => {
+    const encoded = encodeFeedValues(FEEDS, { FLR: 0.018345, BTC: 65000.12 });
+
+    assert.equal(encoded, [
+      (BigInt(6500012) + BigInt(2) ** BigInt(31)).toString(16),
+      '00000000',
+      (BigInt(18345) + BigInt(2) ** BigInt(31)).toString(16)
+    ].join(''));
+    assert.equal(decodeFeedValue(encoded, 0, 2), 65000.12);
+    assert.equal(decodeFeedValue(encoded, 1, 3), undefined);
+    assert.equal(decodeFeedValue(encoded, 2, 6), 0.018345);
+    assert.equal(decodeFeedValue(encoded, 3, 2), undefined);
+  });
+
+  it('encodes negative values below the 2^31 offset', () => {
+    const encoded = encodeFeedValues([FEEDS[0]], { 'BTC/USD': -1.5 });
+    assert.equal(decodeFeedValue(encoded, 0, 2), -1.5);
+  });
+
+  it('decodes the FTSO messages of submit2 calldata and skips other protocols', () => {
+    const random = `${'cd'.repeat(32)}`;
+    const calldata = functionSelector('submit2()') +
+      encodeProtocolMessage(7, '00ff').replace(/^64/, '0c') +
+      encodeProtocolMessage(8, random + '80000001');
+
+    assert.deepEqual(decodeRevealMessages(calldata), [
+      { votingRoundId: 8, random: `0x${random}`, encodedValues: '80000001' }
+    ]);
+    assert.deepEqual(decodeRevealMessages(functionSelector('submit1()') + encodeProtocolMessage(8, random)), []);
+  });
+});
+
+describe('CommitRevealSubmitter', () => {
+  const epochClock = new EpochClock({ firstEpochStartTimestamp: 0, epochDuration: 2000, revealDeadlineOffset: 1500 });
+  const simulator = new FlareSimulator({ feeds: [{ symbol: 'BTC', price: 65000 }] }, { epochClock, logLevel: 'error' });
+  const sent: string[] = [];
+  let transport: FTSOTransport;
+  let submitter: CommitRevealSubmitter;
+
+  before(() => {
+    process.env[SIGNER_VARIABLE] = PRIVATE_KEY;
+    const simulated = simulator.createFTSOTransport();
+    transport = {
+      ...simulated,
+      sendRawTransaction: async (rawTransaction: string) => {
+        sent.push(rawTransaction);
+        return simulated.sendRawTransaction(rawTransaction);
+      }
+    };
+  });
+
+  after(() => {
+    delete process.env[SIGNER_VARIABLE];
+    if (submitter) {
+      submitter.stop();
+    }
+  });
+
+  function createSubmitter(supportedSymbols: string[]): CommitRevealSubmitter {
+    submitter = new CommitRevealSubmitter(transport, {
+      providerIdentity: 'test-provider',
+      signer: new EnvironmentSigner(SIGNER_VARIABLE),
+      votePower: 1,
+      supportedSymbols,
+      rewardAddress: '0x0000000000000000000000000000000000000001'
+    }, {
+      epochClock,
+      getFeeds: async () => FEEDS,
+      logLevel: 'error'
+    });
+    return submitter;
+  }
+
+  it('refuses symbols the provider does not support and feeds not offered', async () => {
+    const provider = createSubmitter(['BTC', 'DOGE']);
+    await assert.rejects(provider.commit({ XRP: 0.5 }), ValidationError);
+    await assert.rejects(provider.commit({ DOGE: 0.1 }), ValidationError);
+    provider.stop();
+  });
+
+  it('refuses a second commit in the same epoch while the first is being sent', async () => {
+    const provider = createSubmitter(['BTC', 'FLR']);
+    const results = await Promise.allSettled([
+      provider.commit({ BTC: 65000 }),
+      provider.commit({ FLR: 0.02 })
+    ]);
+
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    assert.equal(provider.getHistory().length, 1);
+    provider.stop();
+  });
+
+  it('reveals the committed values in canonical feed order', async () => {
+    const provider = createSubmitter(['BTC', 'FLR']);
+    sent.length = 0;
+    const result = await provider.commit({ FLR: 0.02, BTC: 65000 });
+
+    const deadline = epochClock.getRevealDeadline(result.epoch);
+    while (provider.getEpochState(result.epoch)!.status === 'COMMITTED' && Date.now() < deadline + 500) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    assert.equal(provider.getEpochState(result.epoch)!.status, 'REVEALED');
+    assert.equal(sent.length, 2);
+    const [message] = decodeRevealMessages(getTransactionData(sent[1]));
+    assert.equal(message.votingRoundId, result.epoch);
+    assert.equal(decodeFeedValue(message.encodedValues, 0, 2), 65000);
+    assert.equal(decodeFeedValue(message.encodedValues, 1, 3), undefined);
+    assert.equal(decodeFeedValue(message.encodedValues, 2, 6), 0.02);
+    assert.equal(
+      computeCommitHash(await provider.getAddress(), result.epoch, message.random, message.encodedValues),
+      result.commitHash
+    );
+    assert.deepEqual(sent.map(getTransactionNonce), [
+      getTransactionNonce(sent[0]),
+      getTransactionNonce(sent[0]) + 1
+    ]);
+  });
+
+  it('reveals the pending commits of a submitter it takes over mid-round', async () => {
+    const previous = createSubmitter(['BTC']);
+    const result = await previous.commit({ BTC: 65000 });
+    const replacement = createSubmitter(['BTC']);
+
+    replacement.adopt(previous);
+    previous.stop();
+
+    assert.deepEqual(previous.getHistory(), []);
+    assert.equal(replacement.getEpochState(result.epoch)!.status, 'COMMITTED');
+
+    const deadline = epochClock.getRevealDeadline(result.epoch);
+    while (replacement.getEpochState(result.epoch)!.status === 'COMMITTED' && Date.now() < deadline + 500) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    assert.equal(replacement.getEpochState(result.epoch)!.status, 'REVEALED');
+    assert.deepEqual(replacement.getMissedReveals(), []);
+  });
+});
+
+describe('TransactionSender', () => {
+  function createRpc(options: { failFirst?: boolean } = {}) {
+    const nonces: number[] = [];
+    let sends = 0;
+    const rpc: TransactionRpc = {
+      getChainId: async () => 14,
+      getTransactionCount: async () => 5,
+      getGasPrice: async () => BigInt(25000000000),
+      estimateGas: async () => BigInt(21000),
+      sendRawTransaction: async (rawTransaction: string) => {
+        sends++;
+        await new Promise(resolve => setTimeout(resolve, 30 - sends * 10));
+        if (options.failFirst && sends === 1) {
+          throw new Error('connection reset');
+        }
+        nonces.push(getTransactionNonce(rawTransaction));
+        return keccak256Hex(rawTransaction);
+      }
+    };
+    return { rpc, nonces };
+  }
+
+  before(() => {
+    process.env[SIGNER_VARIABLE] = PRIVATE_KEY;
+  });
+
+  after(() => {
+    delete process.env[SIGNER_VARIABLE];
+  });
+
+  it('gives overlapping sends consecutive nonces', async () => {
+    const { rpc, nonces } = createRpc();
+    const sender = new TransactionSender(rpc, new EnvironmentSigner(SIGNER_VARIABLE));
+    const to = '0x0000000000000000000000000000000000000002';
+
+    await Promise.all([0, 1, 2].map(i => sender.send({ to, data: `0x0${i}` })));
+
+    assert.deepEqual(nonces, [5, 6, 7]);
+  });
+
+  it('reads the nonce from the chain again after a failed send', async () => {
+    const { rpc, nonces } = createRpc({ failFirst: true });
+    const sender = new TransactionSender(rpc, new EnvironmentSigner(SIGNER_VARIABLE));
+    const to = '0x0000000000000000000000000000000000000002';
+
+    const results = await Promise.allSettled([sender.send({ to, data: '0x01' }), sender.send({ to, data: '0x02' })]);
+
+    assert.equal(results[0].status, 'rejected');
+    assert.deepEqual(nonces, [5]);
+  });
+});
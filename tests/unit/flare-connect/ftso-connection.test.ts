@@ -0,0 +1,286 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FTSOConnection } from '../../../src/flare-connect/ftso-connection';
+import { EpochClock } from '../../../src/flare-connect/epoch-clock';
+import { FlareSimulator } from '../../../src/flare-connect/simulator';
+import { EnvironmentSigner } from '../../../src/flare-connect/signers';
+import { weightedQuantile } from '../../../src/flare-connect/statistics';
+import { FTSOTransport, RewardClaimProof } from '../../../src/flare-connect/types';
+import { ValidationError } from '../../../src/utils/errors';
+import { LogEntry, StdoutSink, configureLogging } from '../../../src/utils/logger';
+
+describe('FTSOConnection', () => {
+  const epochClock = new EpochClock();
+  const simulator = new FlareSimulator({
+    feeds: [{ symbol: 'BTC', price: 65000 }, { symbol: 'ETH', price: 3200 }],
+    providers: [
+      { address: '0x00000000000000000000000000000000000000a1', revealRate: 1 },
+      { address: '0x00000000000000000000000000000000000000a2', revealRate: 1 },
+      { address: '0x00000000000000000000000000000000000000a3', revealRate: 1 }
+    ],
+    historyEpochs: 100000
+  }, { epochClock, logLevel: 'error' });
+  let blockReads = 0;
+  let connection: FTSOConnection;
+
+  before(async () => {
+    const simulated = simulator.createFTSOTransport();
+    const transport: FTSOTransport = {
+      ...simulated,
+      getBlock: async blockTag => {
+        blockReads++;
+        return simulated.getBlock(blockTag);
+      }
+    };
+    connection = new FTSOConnection({
+      endpoint: 'simulation',
+      apiKey: '',
+      transport,
+      epochClock,
+      ftsoSpecificConfig: { feeds: ['BTC', 'ETH'], providerScoring: { backfillEpochs: 3 } },
+      logLevel: 'error'
+    });
+    await connection.connect();
+  });
+
+  after(async () => {
+    await connection.disconnect();
+  });
+
+  it('scores the providers of the backfilled epochs', async () => {
+    const providers = await connection.getProviders();
+    assert.deepEqual(
+      providers.map(provider => provider.id).sort(),
+      simulator.getProviders().map(provider => provider.address).sort()
+    );
+  });
+
+  it('finds the reveal window of an epoch with a few block reads', async () => {
+    const epoch = epochClock.getEpochId(Date.now()) - 5;
+    await connection.getEpochSubmissions('BTC', epoch + 1);
+
+    blockReads = 0;
+    const submissions = await connection.getEpochSubmissions('ETH', epoch);
+
+    assert.equal(submissions.length, 3);
+    submissions.forEach(submission => {
+      assert.equal(submission.epoch, epoch);
+      assert.ok(Math.abs(submission.value / 3200 - 1) < 0.5);
+    });
+    assert.ok(blockReads < 20, `${blockReads} block reads`);
+  });
+
+  it('takes submission intervals from the weighted quantiles of the revealed values', async () => {
+    const interval = await connection.getConfidenceInterval('BTC', { levels: [0.5, 0.95] });
+    const submissions = await connection.getEpochSubmissions('BTC', interval.epoch);
+    const distribution = submissions.map(submission => ({ value: submission.value, weight: submission.weight }));
+
+    assert.equal(interval.method, 'SUBMISSIONS');
+    assert.equal(interval.sampleSize, 3);
+    assert.deepEqual(interval.intervals, [
+      { level: 0.5, lower: weightedQuantile(distribution, 0.25), upper: weightedQuantile(distribution, 0.75) },
+      { level: 0.95, lower: weightedQuantile(distribution, 0.025), upper: weightedQuantile(distribution, 0.975) }
+    ]);
+    await assert.rejects(connection.getConfidenceInterval('BTC', { levels: [0.5, 1] }), ValidationError);
+  });
+
+  it('estimates volatility intervals from half an hour of epochs without a price store', async () => {
+    const entries: LogEntry[] = [];
+    configureLogging({ sinks: [{ write: entry => entries.push(entry) }], logLevel: 'warn' });
+    let interval;
+    let longerHorizon;
+    try {
+      interval = await connection.getConfidenceInterval('ETH', { method: 'VOLATILITY', levels: [0.5, 0.95] });
+      longerHorizon = await connection.getConfidenceInterval('ETH', {
+        method: 'VOLATILITY',
+        levels: [0.95],
+        horizon: 4 * epochClock.getEpochDuration()
+      });
+    } finally {
+      configureLogging({ sinks: [new StdoutSink()], logLevel: undefined });
+    }
+
+    // 20 epochs of 90 seconds give 19 or 20 returns
+    assert.ok(interval.sampleSize >= 19 && interval.sampleSize <= 20, `${interval.sampleSize} returns`);
+    assert.equal(entries.filter(entry => /priceStoreDirectory/.test(entry.message)).length, 0);
+    const [half, wide] = interval.intervals;
+    assert.ok(half.lower < interval.currentPrice && interval.currentPrice < half.upper);
+    assert.ok(wide.lower < half.lower && half.upper < wide.upper);
+    // Bands are symmetric in log space and widen with the square root of the horizon
+    const logWidth = (band: { lower: number; upper: number }) => Math.log(band.upper / band.lower);
+    assert.ok(Math.abs(Math.log(wide.upper / interval.currentPrice) + Math.log(wide.lower / interval.currentPrice)) < 1e-9);
+    const ratio = logWidth(longerHorizon.intervals[0]) / logWidth(wide);
+    assert.ok(Math.abs(ratio - 2) < 0.2, `horizon ratio ${ratio}`);
+  });
+});
+
+describe('FTSOConnection historical prices', () => {
+  const epochClock = new EpochClock();
+  const simulator = new FlareSimulator({
+    feeds: [{ symbol: 'BTC', price: 65000 }],
+    providers: [{ address: '0x00000000000000000000000000000000000000a1', revealRate: 1 }]
+  }, { epochClock, logLevel: 'error' });
+  let connection: FTSOConnection;
+
+  before(async () => {
+    const simulated = simulator.createFTSOTransport();
+    // Blocks after `slowdown` are produced three times slower than before it
+    const slowdown = (await simulated.getBlock('latest')).number - 600;
+    const toSimulated = (block: number) => block < slowdown ? block : slowdown + 3 * (block - slowdown);
+    const fromSimulated = (block: number) => block < slowdown ? block : slowdown + Math.floor((block - slowdown) / 3);
+    const transport: FTSOTransport = {
+      ...simulated,
+      getBlock: async (blockTag = 'latest') => {
+        const block = await simulated.getBlock(blockTag === 'latest' ? blockTag : toSimulated(blockTag));
+        return { ...block, number: fromSimulated(block.number) };
+      },
+      getFeedValues: async (symbols, blockTag = 'latest') =>
+        simulated.getFeedValues(symbols, blockTag === 'latest' ? blockTag : toSimulated(blockTag)),
+      getBlockTransactions: async blockNumber => simulated.getBlockTransactions(toSimulated(blockNumber))
+    };
+    connection = new FTSOConnection({
+      endpoint: 'simulation',
+      apiKey: '',
+      transport,
+      epochClock,
+      ftsoSpecificConfig: { feeds: ['BTC'], providerScoring: { backfillEpochs: 1 } },
+      logLevel: 'error'
+    });
+    await connection.connect();
+  });
+
+  after(async () => {
+    await connection.disconnect();
+  });
+
+  it('samples every epoch at its own last block when block times change', async () => {
+    const toEpoch = epochClock.getEpochId(Date.now());
+    const fromEpoch = toEpoch - 30;
+
+    const prices = await connection.getHistoricalPrices('BTC', epochClock.getEpochStart(fromEpoch), Date.now());
+
+    const expected: number[] = [];
+    for (let epoch = fromEpoch; epoch <= epochClock.getEpochId(Date.now()); epoch++) {
+      expected.push(epochClock.getEpochEnd(epoch - 1));
+    }
+    assert.deepEqual(prices.map(price => price.timestamp).slice(0, 30), expected.slice(0, 30));
+  });
+
+  it('warns once when history without a price store reads more than an hour of epochs', async () => {
+    const entries: LogEntry[] = [];
+    configureLogging({ sinks: [{ write: entry => entries.push(entry) }], logLevel: 'warn' });
+    try {
+      const from = epochClock.getEpochStart(epochClock.getEpochId(Date.now()) - 45);
+      await connection.getHistoricalPrices('BTC', from, Date.now());
+      await connection.getHistoricalPrices('BTC', from, Date.now());
+    } finally {
+      configureLogging({ sinks: [new StdoutSink()], logLevel: undefined });
+    }
+
+    const warnings = entries.filter(entry => entry.level === 'warn' && /priceStoreDirectory/.test(entry.message));
+    assert.equal(warnings.length, 1);
+  });
+});
+
+describe('FTSOConnection rewards', () => {
+  const SIGNER_VARIABLE = 'FTSO_REWARDS_TEST_PRIVATE_KEY';
+  const REWARD_ADDRESS = '0x0000000000000000000000000000000000000001';
+  const epochClock = new EpochClock({ firstEpochStartTimestamp: 0, epochDuration: 2000, revealDeadlineOffset: 1500 });
+  // Three providers reveal the unchanging price exactly, so a reveal at that price
+  // earns a quarter of both pools
+  const simulator = new FlareSimulator({
+    blockTime: 1000,
+    feeds: [{ symbol: 'BTC', price: 65000, volatility: 0 }],
+    providers: [
+      { address: '0x00000000000000000000000000000000000000a1', revealRate: 1, deviation: 0 },
+      { address: '0x00000000000000000000000000000000000000a2', revealRate: 1, deviation: 0 },
+      { address: '0x00000000000000000000000000000000000000a3', revealRate: 1, deviation: 0 }
+    ]
+  }, { epochClock, logLevel: 'error' });
+  let connection: FTSOConnection;
+  let provider: string;
+
+  function proof(rewardEpochId: number, beneficiary: string, amount: string): RewardClaimProof {
+    return { merkleProof: [`0x${'ab'.repeat(32)}`], rewardEpochId, beneficiary, amount, claimType: 1 };
+  }
+
+  function isProofsError(error: any): boolean {
+    return error instanceof ValidationError && error.context.field === 'proofs';
+  }
+
+  before(async () => {
+    process.env[SIGNER_VARIABLE] = `0x${'22'.repeat(32)}`;
+    provider = await new EnvironmentSigner(SIGNER_VARIABLE).getAddress();
+    connection = new FTSOConnection({
+      endpoint: 'simulation',
+      apiKey: '',
+      transport: simulator.createFTSOTransport(),
+      epochClock,
+      dataProviderSettings: {
+        providerIdentity: 'test-provider',
+        signer: new EnvironmentSigner(SIGNER_VARIABLE),
+        votePower: 1,
+        supportedSymbols: ['BTC'],
+        rewardAddress: REWARD_ADDRESS
+      },
+      ftsoSpecificConfig: {
+        feeds: ['BTC'],
+        blockPollInterval: 50,
+        providerScoring: { backfillEpochs: 1 },
+        rewards: { rewardPerFeedRound: '4000', votingRoundsPerRewardEpoch: 1 }
+      },
+      logLevel: 'error'
+    });
+    await connection.connect();
+  });
+
+  after(async () => {
+    delete process.env[SIGNER_VARIABLE];
+    await connection.disconnect();
+  });
+
+  it('estimates the reward of a revealed submission once and claims it', async () => {
+    const result = await connection.submitDataPoint('BTC', 65000, Date.now());
+    const deadline = epochClock.getRevealDeadline(result.epoch);
+    while (Date.now() <= deadline + 100) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const estimates = await connection.estimateRewards();
+
+    assert.deepEqual(estimates.map(estimate => [estimate.votingRoundId, estimate.status, estimate.expected]), [
+      [result.epoch, 'REWARDED', BigInt(1000)]
+    ]);
+    assert.deepEqual(await connection.estimateRewards(), []);
+
+    // One reward epoch per voting round; proofs of other beneficiaries are not ours
+    const claim = await connection.claimRewards(result.epoch, [
+      proof(result.epoch, provider, '1000'),
+      proof(result.epoch, '0x00000000000000000000000000000000000000a1', '999')
+    ]);
+
+    assert.equal(claim.status, 'CLAIMED');
+    assert.equal(claim.claimed, BigInt(1000));
+    assert.equal(claim.recipient, REWARD_ADDRESS);
+    const report = connection.getRewardReport(result.epoch, result.epoch);
+    assert.equal(report.expected, BigInt(1000));
+    assert.equal(report.claimed, BigInt(1000));
+    assert.equal(report.unclaimed, BigInt(0));
+    await assert.rejects(connection.claimRewards(result.epoch, [proof(result.epoch, provider, '1000')]), ValidationError);
+  });
+
+  it('refuses claims with nothing to claim without sending them', async () => {
+    const current = epochClock.getEpochId();
+    const ended = current - 1;
+
+    await assert.rejects(connection.claimRewards(current, [proof(current, provider, '1000')]), ValidationError);
+    await assert.rejects(connection.claimRewards(ended, []), isProofsError);
+    await assert.rejects(connection.claimRewards(ended, [proof(ended - 1, provider, '1000')]), isProofsError);
+    await assert.rejects(connection.claimRewards(ended, [
+      proof(ended, '0x00000000000000000000000000000000000000a1', '1000'),
+      proof(ended, provider, '0')
+    ]), isProofsError);
+
+    assert.equal(connection.getRewardReport(ended, ended).rewardEpochs[0].status, 'UNCLAIMED');
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RewardLedger, getRewardEpochId } from '../../../src/flare-connect/ftso-rewards';
+import { ProviderSubmission } from '../../../src/flare-connect/types';
+import { ValidationError } from '../../../src/utils/errors';
+
+const OWN = '0x00000000000000000000000000000000000000aa';
+
+// 800 for the primary band, 200 for the secondary band within 2% of the median
+const CONFIG = {
+  rewardPerFeedRound: '1000',
+  primaryBandShare: 0.8,
+  secondaryBandWidth: 0.02,
+  votingRoundsPerRewardEpoch: 10,
+  firstRewardEpochVotingRound: 100
+};
+
+function submissions(symbol: string, entries: Array<[string, number, number]>): Map<string, ProviderSubmission[]> {
+  return new Map([[symbol, entries.map(([provider, value, weight]) => ({ provider, symbol, epoch: 0, value, weight }))]]);
+}
+
+// Other providers reveal 100 (weight 3) and an outlier at 120 (weight 1)
+const NARROW = submissions('BTC', [['0xb1', 100, 3], ['0xb2', 120, 1]]);
+
+describe('reward band placement', () => {
+  const ledger = new RewardLedger(CONFIG);
+
+  it('shares both pools by vote power when the value is in both bands', () => {
+    // Interquartile range [99, 101] and secondary band [98, 102] both hold weight 4
+    const others = submissions('BTC', [['0xa1', 90, 1], ['0xa2', 99, 1], ['0xa3', 101, 1], ['0xa4', 110, 1]]);
+    // Our own reveal as seen on chain is not counted twice
+    others.get('BTC')!.push({ provider: OWN.toUpperCase(), symbol: 'BTC', epoch: 0, value: 50, weight: 2 });
+
+    const estimate = ledger.recordRound(105, OWN, { BTC: 100 }, 2, others);
+
+    assert.equal(estimate.status, 'REWARDED');
+    assert.deepEqual(estimate.feeds, [
+      { symbol: 'BTC', value: 100, median: 100, inPrimaryBand: true, inSecondaryBand: true, expected: BigInt(500) }
+    ]);
+    assert.equal(estimate.expected, BigInt(500));
+  });
+
+  it('pays only the secondary pool just outside the interquartile range', () => {
+    const estimate = ledger.recordRound(106, OWN, { BTC: 99 }, 1, NARROW);
+
+    assert.equal(estimate.status, 'REWARDED');
+    assert.equal(estimate.feeds[0].inPrimaryBand, false);
+    assert.equal(estimate.feeds[0].inSecondaryBand, true);
+    assert.equal(estimate.expected, BigInt(50));
+  });
+
+  it('pays nothing outside both bands and records missed reveals', () => {
+    const outside = ledger.recordRound(107, OWN, { BTC: 90 }, 1, NARROW);
+    const missed = ledger.recordRound(108, OWN, null, 1, NARROW);
+
+    assert.equal(outside.status, 'OUTSIDE_BANDS');
+    assert.equal(outside.feeds[0].inPrimaryBand, false);
+    assert.equal(outside.feeds[0].inSecondaryBand, false);
+    assert.equal(outside.expected, BigInt(0));
+    assert.equal(missed.status, 'MISSED');
+    assert.deepEqual(missed.feeds, []);
+    assert.equal(missed.expected, BigInt(0));
+  });
+
+  it('takes the whole reward when the only reveal of a feed is ours', () => {
+    const estimate = ledger.recordRound(109, OWN, { ETH: 3200 }, 1, new Map());
+
+    assert.equal(estimate.expected, BigInt(1000));
+  });
+});
+
+describe('RewardLedger', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'reward-ledger-test-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  // 500 in reward epoch 0 (half of both bands at 100) and 50 in reward epoch 1
+  function createLedger(): RewardLedger {
+    const ledger = new RewardLedger(CONFIG);
+    ledger.recordRound(105, OWN, { BTC: 100 }, 3, NARROW);
+    ledger.recordRound(106, OWN, null, 3, NARROW);
+    ledger.recordRound(112, OWN, { BTC: 99 }, 1, NARROW);
+    ledger.recordRound(113, OWN, { BTC: 90 }, 1, NARROW);
+    return ledger;
+  }
+
+  it('groups voting rounds into reward epochs', () => {
+    const ledger = new RewardLedger(CONFIG);
+
+    assert.equal(ledger.getRewardEpochId(100), 0);
+    assert.equal(ledger.getRewardEpochId(109), 0);
+    assert.equal(ledger.getRewardEpochId(110), 1);
+    assert.equal(ledger.getLastVotingRound(1), 119);
+    assert.equal(getRewardEpochId(3360), 1);
+  });
+
+  it('reports expected rewards per reward epoch and symbol', () => {
+    const report = createLedger().getReport(100, 119);
+
+    assert.equal(report.roundsEstimated, 4);
+    assert.equal(report.roundsRewarded, 2);
+    assert.equal(report.roundsMissed, 1);
+    assert.equal(report.primaryBandRate, 1 / 3);
+    assert.equal(report.expected, BigInt(550));
+    assert.equal(report.claimed, BigInt(0));
+    assert.equal(report.unclaimed, BigInt(550));
+    assert.deepEqual(report.bySymbol, { BTC: { expected: BigInt(550), roundsInPrimaryBand: 1, roundsInSecondaryBand: 2 } });
+    assert.deepEqual(report.rewardEpochs, [
+      { rewardEpochId: 0, expected: BigInt(500), claimed: BigInt(0), status: 'UNCLAIMED' },
+      { rewardEpochId: 1, expected: BigInt(50), claimed: BigInt(0), status: 'UNCLAIMED' }
+    ]);
+  });
+
+  it('counts a claim once it is confirmed and forgets the amount of a failed one', () => {
+    const ledger = createLedger();
+
+    ledger.recordClaimSent(0, BigInt(480), OWN, '0x01');
+    const pending = ledger.getReport(100, 119);
+    assert.equal(pending.rewardEpochs[0].status, 'PENDING');
+    assert.equal(pending.rewardEpochs[0].transactionHash, '0x01');
+    assert.equal(pending.claimed, BigInt(0));
+
+    const claimed = ledger.recordClaimResult(0, true);
+    ledger.recordClaimSent(1, BigInt(50), OWN, '0x02');
+    const failed = ledger.recordClaimResult(1, false, 'Claim transaction reverted');
+
+    assert.equal(claimed.status, 'CLAIMED');
+    assert.equal(claimed.claimed, BigInt(480));
+    assert.deepEqual(failed, {
+      rewardEpochId: 1,
+      status: 'FAILED',
+      claimed: BigInt(0),
+      recipient: OWN,
+      transactionHash: '0x02',
+      error: 'Claim transaction reverted'
+    });
+    const report = ledger.getReport(100, 119);
+    assert.equal(report.claimed, BigInt(480));
+    assert.equal(report.unclaimed, BigInt(50));
+  });
+
+  it('counts claims of every reward epoch the range overlaps', () => {
+    const ledger = createLedger();
+    ledger.recordClaimSent(0, BigInt(500), OWN, '0x01');
+    ledger.recordClaimResult(0, true);
+
+    const report = ledger.getReport(106, 112);
+
+    assert.equal(report.expected, BigInt(50));
+    assert.equal(report.claimed, BigInt(500));
+    assert.deepEqual(report.rewardEpochs.map(epoch => epoch.rewardEpochId), [0, 1]);
+    assert.throws(() => ledger.getReport(112, 106), ValidationError);
+  });
+
+  it('saves and loads estimates and claims with their amounts', async () => {
+    const filePath = path.join(directory, 'nested', 'ledger.json');
+    const ledger = createLedger();
+    ledger.recordClaimSent(0, BigInt('123456789012345678901'), OWN, '0x01');
+    await ledger.save(filePath);
+
+    const loaded = new RewardLedger(CONFIG);
+    await loaded.load(filePath);
+
+    assert.deepEqual(loaded.getRound(105), ledger.getRound(105));
+    assert.deepEqual(loaded.getClaim(0), ledger.getClaim(0));
+    assert.deepEqual(loaded.getReport(100, 119), ledger.getReport(100, 119));
+  });
+
+  it('starts empty without a file and refuses files that are not ledgers', async () => {
+    const ledger = new RewardLedger(CONFIG);
+    await ledger.load(path.join(directory, 'missing.json'));
+    assert.equal(ledger.getReport(100, 119).roundsEstimated, 0);
+
+    const filePath = path.join(directory, 'other.json');
+    fs.writeFileSync(filePath, JSON.stringify({ format: 'something-else' }));
+    await assert.rejects(ledger.load(filePath), ValidationError);
+  });
+});
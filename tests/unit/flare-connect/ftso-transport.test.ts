@@ -0,0 +1,99 @@
+import { describe, it, after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AbiType,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  functionSelector,
+  strip0x
+} from '../../../src/flare-connect/abi';
+import {
+  JsonRpcFTSOTransport,
+  fromFeedId,
+  scaleFeedValue,
+  toFeedId,
+  toFeedName
+} from '../../../src/flare-connect/ftso-transport';
+import { LocalRpcServer } from '../../../src/flare-connect/local-rpc-server';
+import { NotConnectedError } from '../../../src/utils/errors';
+
+const FTSO_V2_ADDRESS = '0x3d893c53d9e8056135c26c8c638b76c8b60df726';
+
+describe('abi', () => {
+  it('computes function selectors', () => {
+    assert.equal(functionSelector('transfer(address,uint256)'), '0xa9059cbb');
+  });
+
+  it('encodes static and dynamic parameters like abi.encode', () => {
+    const encoded = encodeAbiParameters(['uint', 'string'], [1, 'abc']);
+    assert.equal(encoded, [
+      '1'.padStart(64, '0'),
+      '40'.padStart(64, '0'),
+      '3'.padStart(64, '0'),
+      '616263'.padEnd(64, '0')
+    ].join(''));
+  });
+
+  it('round-trips nested tuples and arrays', () => {
+    const types: AbiType[] = [{ tuple: ['uint', { array: 'int' }, 'bytes'] }, 'bool'];
+    const values = [[BigInt(7), [BigInt(-1), BigInt(2)], '0xdeadbeef'], true];
+    const decoded = decodeAbiParameters(types, encodeAbiParameters(types, values));
+    assert.deepEqual(decoded, values);
+  });
+});
+
+describe('feed ids', () => {
+  it('encodes crypto feed ids as category 01 followed by the padded feed name', () => {
+    assert.equal(toFeedName('btc'), 'BTC/USD');
+    assert.equal(toFeedId('BTC'), `0x01${Buffer.from('BTC/USD').toString('hex').padEnd(40, '0')}`);
+    assert.equal(fromFeedId(toFeedId('FLR/USD')), 'FLR/USD');
+  });
+
+  it('scales raw values by positive and negative decimals', () => {
+    assert.equal(scaleFeedValue(BigInt(6500012), 2), 65000.12);
+    assert.equal(scaleFeedValue(BigInt(12), -3), 12000);
+  });
+});
+
+describe('JsonRpcFTSOTransport', () => {
+  const server = new LocalRpcServer([], 'error');
+  let endpoint: string;
+
+  before(async () => {
+    const feedIds = ['BTC', 'FLR'].map(toFeedId);
+    const calldata = `${functionSelector('getFeedsById(bytes21[])')}${strip0x(encodeAbiParameters(
+      [{ array: 'bytes32' }],
+      [feedIds]
+    ))}`;
+    server.record({ method: 'eth_chainId', result: '0xe' });
+    server.record({
+      method: 'eth_call',
+      params: [{ to: FTSO_V2_ADDRESS, data: calldata }, 'latest'],
+      result: `0x${encodeAbiParameters(
+        [{ array: 'uint' }, { array: 'int' }, 'uint'],
+        [[6500012, 1834], [2, 5], 1700000000]
+      )}`
+    });
+    endpoint = await server.start();
+  });
+
+  after(() => server.stop());
+
+  it('refuses to read before connecting', async () => {
+    const transport = new JsonRpcFTSOTransport({ endpoint });
+    await assert.rejects(transport.getFeedValues(['BTC']), NotConnectedError);
+  });
+
+  it('reads and scales feed values from FtsoV2.getFeedsById', async () => {
+    const transport = new JsonRpcFTSOTransport({ endpoint, ftsoV2Address: FTSO_V2_ADDRESS });
+    await transport.connect();
+
+    const values = await transport.getFeedValues(['BTC', 'FLR']);
+
+    assert.deepEqual(values.map(value => [value.symbol, value.value, value.decimals, value.timestamp]), [
+      ['BTC', 65000.12, 2, 1700000000000],
+      ['FLR', 0.01834, 5, 1700000000000]
+    ]);
+    assert.deepEqual(server.getRequestLog().map(request => request.method), ['eth_chainId', 'eth_call']);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bytesToHex, hexToBytes, keccak256Hex } from '../../../src/flare-connect/abi';
+import { rlpEncode } from '../../../src/flare-connect/rlp';
+import { orderedTrieRoot, trieRoot, verifyAccountProof, verifyTrieProof } from '../../../src/flare-connect/merkle-patricia';
+import { encodeBlockHeader } from '../../../src/flare-connect/evm-state-client';
+
+const EMPTY_TRIE_ROOT = '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421';
+const EMPTY_CODE_HASH = '0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470';
+
+/**
+ * Leaf node for a 32-byte key below a branch, which consumed the key's first nibble
+ */
+function branchLeaf(key: Uint8Array, value: Uint8Array): Uint8Array {
+  const path = new Uint8Array(32);
+  path[0] = 0x30 | (key[0] & 0x0f);
+  path.set(key.slice(1), 1);
+  return rlpEncode([path, value]);
+}
+
+function hex(bytes: Uint8Array): string {
+  return `0x${bytesToHex(bytes)}`;
+}
+
+describe('merkle-patricia', () => {
+  it('has the empty trie root for no entries', () => {
+    assert.equal(orderedTrieRoot([]), EMPTY_TRIE_ROOT);
+    assert.equal(trieRoot([]), EMPTY_TRIE_ROOT);
+  });
+
+  it('builds the root of a branch and proves both keys and an absent one', () => {
+    const first = { key: hexToBytes('1a'.repeat(32)), value: hexToBytes('aa'.repeat(40)) };
+    const second = { key: hexToBytes('b2'.repeat(32)), value: hexToBytes('bb'.repeat(40)) };
+    const firstLeaf = branchLeaf(first.key, first.value);
+    const secondLeaf = branchLeaf(second.key, second.value);
+    const branch: Uint8Array[] = Array.from({ length: 17 }, () => new Uint8Array(0));
+    branch[0x1] = hexToBytes(keccak256Hex(firstLeaf).slice(2));
+    branch[0xb] = hexToBytes(keccak256Hex(secondLeaf).slice(2));
+    const encodedBranch = rlpEncode(branch);
+    const root = keccak256Hex(encodedBranch);
+
+    assert.equal(trieRoot([first, second]), root);
+    const proof = [hex(encodedBranch), hex(firstLeaf), hex(secondLeaf)];
+    assert.deepEqual(verifyTrieProof(root, first.key, proof), first.value);
+    assert.deepEqual(verifyTrieProof(root, second.key, proof), second.value);
+    assert.equal(verifyTrieProof(root, hexToBytes('c3'.repeat(32)), proof), null);
+  });
+
+  it('rejects a proof missing a node on the path', () => {
+    const key = hexToBytes('1a'.repeat(32));
+    const leaf = rlpEncode([hexToBytes(`20${'1a'.repeat(32)}`), hexToBytes('aa'.repeat(40))]);
+
+    assert.throws(() => verifyTrieProof(keccak256Hex(leaf), key, []), /missing trie node/);
+    assert.throws(() => verifyTrieProof(keccak256Hex(leaf), key, [hex(rlpEncode([leaf]))]), /missing trie node/);
+  });
+
+  it('proves an account in a single-leaf state trie', () => {
+    const address = '0x00000000000000000000000000000000000000a1';
+    const account = rlpEncode([7, BigInt('1000000000000000000'), EMPTY_TRIE_ROOT, EMPTY_CODE_HASH]);
+    const leaf = rlpEncode([hexToBytes(`20${keccak256Hex(hexToBytes(address.slice(2))).slice(2)}`), account]);
+    const stateRoot = keccak256Hex(leaf);
+
+    assert.deepEqual(verifyAccountProof(stateRoot, address, [hex(leaf)]), {
+      nonce: BigInt(7),
+      balance: BigInt('1000000000000000000'),
+      storageHash: EMPTY_TRIE_ROOT,
+      codeHash: EMPTY_CODE_HASH
+    });
+    assert.equal(verifyAccountProof(stateRoot, '0x00000000000000000000000000000000000000a2', [hex(leaf)]), null);
+  });
+
+  it('encodes block headers that hash to the block hash', () => {
+    const genesis = {
+      parentHash: `0x${'00'.repeat(32)}`,
+      sha3Uncles: '0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347',
+      miner: `0x${'00'.repeat(20)}`,
+      stateRoot: '0xd7f8974fb5ac78d9ac099b9ad5018bedc2ce0a72dad1827a1709da30580f0544',
+      transactionsRoot: EMPTY_TRIE_ROOT,
+      receiptsRoot: EMPTY_TRIE_ROOT,
+      logsBloom: `0x${'00'.repeat(256)}`,
+      difficulty: '0x400000000',
+      number: '0x0',
+      gasLimit: '0x1388',
+      gasUsed: '0x0',
+      timestamp: '0x0',
+      extraData: '0x11bbe8db4e347b4e8c937c1c8370e4b5ed33adb3db69cbdb7a38e1e50b1b82fa',
+      mixHash: `0x${'00'.repeat(32)}`,
+      nonce: '0x0000000000000042'
+    };
+
+    assert.equal(
+      keccak256Hex(encodeBlockHeader(genesis)),
+      '0xd4e56740f876aef8c010b86a40d5f56745a118d0906a34e69aec8c0db1cb8fa3'
+    );
+    assert.throws(() => encodeBlockHeader({ ...genesis, nonce: undefined }), /nonce is missing/);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hexToBytes, keccak256Hex, strip0x } from '../../../src/flare-connect/abi';
+import { buildMerkleTree, hashLeaf, hashPair, verifyMerkleProof } from '../../../src/flare-connect/merkle';
+import { ValidationError } from '../../../src/utils/errors';
+
+const LEAVES = ['alpha', 'bravo', 'charlie', 'delta', 'echo'].map(keccak256Hex);
+
+describe('Merkle trees', () => {
+  it('hashes pairs in sorted order', () => {
+    const [a, b] = [LEAVES[0], LEAVES[1]].sort();
+
+    assert.equal(hashPair(a, b), keccak256Hex(hexToBytes(strip0x(a) + strip0x(b))));
+    assert.equal(hashPair(b, a), hashPair(a, b));
+  });
+
+  it('hashes a leaf from its encoded response', () => {
+    assert.equal(hashLeaf('0x1234'), keccak256Hex(new Uint8Array([0x12, 0x34])));
+  });
+
+  it('carries an odd node up a level unhashed', () => {
+    const { root, proofs } = buildMerkleTree(LEAVES.slice(0, 3));
+
+    assert.equal(root, hashPair(hashPair(LEAVES[0], LEAVES[1]), LEAVES[2]));
+    assert.deepEqual(proofs[2], [hashPair(LEAVES[0], LEAVES[1])]);
+  });
+
+  it('proves every leaf under the root and nothing else', () => {
+    const { root, proofs } = buildMerkleTree(LEAVES);
+
+    LEAVES.forEach((leaf, index) => assert.ok(verifyMerkleProof(leaf, proofs[index], root), `leaf ${index}`));
+    assert.ok(verifyMerkleProof(LEAVES[0], proofs[0], root.toUpperCase().replace('0X', '')));
+    assert.ok(!verifyMerkleProof(LEAVES[1], proofs[0], root));
+    assert.ok(!verifyMerkleProof(LEAVES[0], proofs[0].slice(1), root));
+    assert.ok(!verifyMerkleProof(keccak256Hex('foxtrot'), proofs[0], root));
+  });
+
+  it('uses a single leaf as the root', () => {
+    assert.deepEqual(buildMerkleTree([LEAVES[0]]), { root: LEAVES[0], proofs: [[]] });
+    assert.throws(() => buildMerkleTree([]), ValidationError);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlareNetworkConnector } from '../../../src/flare-connect/network-connector';
+import { ServiceStatusEvent, StateQueryRequest } from '../../../src/flare-connect/types';
+import { NotConnectedError } from '../../../src/utils/errors';
+
+const SIGNER_VARIABLE = 'NETWORK_CONNECTOR_TEST_PRIVATE_KEY';
+
+// Stays PENDING for the whole test, so the query keeps being re-checked
+const PENDING_QUERY: StateQueryRequest = {
+  blockchain: 'ethereum',
+  address: `0x${'12'.repeat(20)}`,
+  queryType: 'TRANSACTION_VERIFICATION',
+  queryData: { transactionHash: `0x${'ab'.repeat(32)}` }
+};
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function createConnector(checkInterval: number): FlareNetworkConnector {
+  return new FlareNetworkConnector({
+    endpoint: 'simulation',
+    apiKey: '',
+    ftsoConfig: { feeds: ['BTC'] },
+    healthConfig: { checkInterval },
+    backend: { mode: 'simulation', scenario: { feeds: [{ symbol: 'BTC', price: 65000 }] } },
+    logLevel: 'error'
+  });
+}
+
+/**
+ * Connector with work in progress on every service: a feed subscription, a
+ * tracked attestation request and a state query awaiting its response
+ */
+async function startRound(connector: FlareNetworkConnector) {
+  await connector.initialize();
+  const subscriptionId = connector.getFTSOConnection().subscribe(['BTC'], () => undefined);
+  const attestationRequest = await connector.getFDCConnection().submitAttestationRequest({
+    attestationType: 'AddressValidity',
+    sourceId: 'BTC',
+    requestBody: `0x${'00'.repeat(32)}`
+  });
+  const query = connector.getStateConnector().submitStateQuery(PENDING_QUERY);
+  while (connector.getStateConnector().getQueryStatus(query.requestId)!.status !== 'WAITING') {
+    await delay(10);
+  }
+  return { subscriptionId, attestationRequestId: attestationRequest.requestId, queryId: query.requestId };
+}
+
+function createBusyConnector(checkInterval: number): FlareNetworkConnector {
+  return new FlareNetworkConnector({
+    endpoint: 'simulation',
+    apiKey: '',
+    ftsoConfig: { feeds: ['BTC'] },
+    fdcConfig: { signer: { type: 'env', variable: SIGNER_VARIABLE } },
+    stateConnectorConfig: { queryPollInterval: 20 },
+    healthConfig: { checkInterval, reconnectBaseDelay: 10 },
+    backend: {
+      mode: 'simulation',
+      scenario: { feeds: [{ symbol: 'BTC', price: 65000 }], attestation: { delayRounds: 1000 } }
+    },
+    logLevel: 'error'
+  });
+}
+
+describe('FlareNetworkConnector', () => {
+  before(() => {
+    process.env[SIGNER_VARIABLE] = `0x${'33'.repeat(32)}`;
+  });
+
+  after(() => {
+    delete process.env[SIGNER_VARIABLE];
+  });
+
+  it('closes live connections when initialized again', async () => {
+    const connector = createConnector(60000);
+    await connector.initialize();
+    const first = connector.getFTSOConnection();
+
+    await connector.initialize();
+
+    assert.notEqual(connector.getFTSOConnection(), first);
+    assert.equal((await first.getStatus()).connected, false);
+    await connector.disconnect();
+  });
+
+  it('keeps a single health check loop when rescheduled during a check', async () => {
+    const connector = createConnector(5);
+    let checking = 0;
+    let maxChecking = 0;
+    const target = connector as unknown as { checkHealth: () => Promise<void> };
+    const checkHealth = target.checkHealth.bind(connector);
+    target.checkHealth = async () => {
+      checking++;
+      maxChecking = Math.max(maxChecking, checking);
+      await delay(40);
+      await checkHealth();
+      checking--;
+    };
+
+    await connector.initialize();
+    await delay(20);
+    await connector.updateConfig({ healthConfig: { checkInterval: 6 } });
+    // The check in progress overlaps the rescheduled loop once
+    await delay(60);
+    maxChecking = checking;
+    await delay(300);
+    await connector.disconnect();
+    await delay(60);
+
+    assert.equal(maxChecking, 1);
+  });
+
+  it('hands pending work to the replacement connections of a mid-round configuration update', async () => {
+    const connector = createBusyConnector(60000);
+    try {
+      const { subscriptionId, attestationRequestId, queryId } = await startRound(connector);
+      const previous = {
+        ftso: connector.getFTSOConnection(),
+        fdc: connector.getFDCConnection(),
+        stateConnector: connector.getStateConnector()
+      };
+      const checks = previous.stateConnector.getQueryStatus(queryId)!.checks;
+
+      // A new API key reconnects every service
+      await connector.updateConfig({ apiKey: 'rotated' });
+
+      const stateConnector = connector.getStateConnector();
+      assert.notEqual(stateConnector, previous.stateConnector);
+      assert.equal(previous.stateConnector.getQueryStatus(queryId), undefined);
+      assert.notEqual(stateConnector.getQueryStatus(queryId)!.status, 'FAILED');
+      await delay(100);
+      assert.equal(stateConnector.getQueryStatus(queryId)!.status, 'WAITING');
+      assert.ok(stateConnector.getQueryStatus(queryId)!.checks > checks);
+
+      assert.equal(previous.ftso.getSubscriptionStats(subscriptionId), undefined);
+      assert.deepEqual(connector.getFTSOConnection().getSubscriptionStats(subscriptionId)!.symbols, ['BTC']);
+      assert.equal(previous.fdc.getAttestationRequest(attestationRequestId), undefined);
+      assert.notEqual(connector.getFDCConnection().getAttestationRequest(attestationRequestId), undefined);
+    } finally {
+      await connector.disconnect();
+    }
+  });
+
+  it('hands pending work to the connection that replaces one failing its health check', async () => {
+    const connector = createBusyConnector(20);
+    try {
+      const { subscriptionId, queryId } = await startRound(connector);
+      const unhealthy = connector.getStateConnector();
+      unhealthy.getStatus = async () => ({ connected: false, error: 'Endpoint unreachable' });
+
+      const reconnected = new Promise<void>(resolve => connector.on('status', (event: ServiceStatusEvent) => {
+        if (event.service === 'stateConnector' && event.current.state === 'CONNECTED') {
+          resolve();
+        }
+      }));
+      await reconnected;
+
+      const stateConnector = connector.getStateConnector();
+      assert.notEqual(stateConnector, unhealthy);
+      assert.equal(unhealthy.getQueryStatus(queryId), undefined);
+      await delay(100);
+      assert.throws(() => unhealthy.submitStateQuery(PENDING_QUERY), NotConnectedError);
+      assert.equal(stateConnector.getQueryStatus(queryId)!.status, 'WAITING');
+      assert.notEqual(connector.getFTSOConnection().getSubscriptionStats(subscriptionId), undefined);
+    } finally {
+      await connector.disconnect();
+    }
+  });
+});
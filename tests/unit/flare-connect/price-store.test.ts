@@ -0,0 +1,74 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PriceStore } from '../../../src/flare-connect/price-store';
+import { ValidationError } from '../../../src/utils/errors';
+
+describe('PriceStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'price-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function sample(epoch: number, price: number) {
+    return { symbol: 'FLR/USD', epoch, timestamp: epoch * 90000, price };
+  }
+
+  it('reads back stored samples with the last write of an epoch winning', async () => {
+    await new PriceStore({ directory, logLevel: 'error' }).put([sample(1, 0.01), sample(2, 0.02)]);
+    await new PriceStore({ directory, logLevel: 'error' }).put([sample(2, 0.03)]);
+
+    const store = new PriceStore({ directory, logLevel: 'error' });
+    assert.deepEqual(await store.getRange('FLR/USD', 0, 10), [sample(1, 0.01), sample(2, 0.03)]);
+    assert.deepEqual(await store.getMissingEpochs('FLR/USD', 1, 4), [3, 4]);
+  });
+
+  it('drops a torn last line and appends after it on a fresh line', async () => {
+    await new PriceStore({ directory, logLevel: 'error' }).put([sample(1, 0.01), sample(2, 0.02)]);
+    const seriesPath = path.join(directory, `${encodeURIComponent('FLR/USD')}.jsonl`);
+    fs.appendFileSync(seriesPath, '{"epoch":3,"timest');
+
+    const store = new PriceStore({ directory, logLevel: 'error' });
+    assert.deepEqual(await store.getRange('FLR/USD', 0, 10), [sample(1, 0.01), sample(2, 0.02)]);
+    await store.put([sample(3, 0.04)]);
+
+    const reloaded = new PriceStore({ directory, logLevel: 'error' });
+    assert.deepEqual(await reloaded.getRange('FLR/USD', 0, 10), [sample(1, 0.01), sample(2, 0.02), sample(3, 0.04)]);
+  });
+
+  it('keeps a complete last line that lost its line break', async () => {
+    const seriesPath = path.join(directory, `${encodeURIComponent('FLR/USD')}.jsonl`);
+    fs.writeFileSync(seriesPath, '{"epoch":1,"timestamp":90000,"price":0.01}');
+
+    const store = new PriceStore({ directory, logLevel: 'error' });
+    await store.put([sample(2, 0.02)]);
+
+    const reloaded = new PriceStore({ directory, logLevel: 'error' });
+    assert.deepEqual(await reloaded.getRange('FLR/USD', 0, 10), [sample(1, 0.01), sample(2, 0.02)]);
+  });
+
+  it('still rejects a malformed line within the file', async () => {
+    const seriesPath = path.join(directory, `${encodeURIComponent('FLR/USD')}.jsonl`);
+    fs.writeFileSync(seriesPath, '{"epoch":1,"timest\n{"epoch":2,"timestamp":180000,"price":0.02}\n');
+
+    await assert.rejects(new PriceStore({ directory, logLevel: 'error' }).getRange('FLR/USD', 0, 10), ValidationError);
+  });
+
+  it('round-trips an export through import', async () => {
+    const store = new PriceStore({ directory, logLevel: 'error' });
+    await store.put([sample(1, 0.01), sample(2, 0.02)]);
+    const exportPath = path.join(directory, 'export', 'prices.jsonl');
+    assert.equal(await store.export(exportPath), 2);
+
+    const target = new PriceStore({ directory: path.join(directory, 'target'), logLevel: 'error' });
+    assert.deepEqual(await target.import(exportPath), { imported: 2, skipped: 0, symbols: ['FLR/USD'] });
+    assert.deepEqual(await target.getRange('FLR/USD', 0, 10), [sample(1, 0.01), sample(2, 0.02)]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestScheduler, abortableDelay, throwIfAborted } from '../../../src/flare-connect/request-scheduler';
+import { CancelledError, TimeoutError } from '../../../src/utils/errors';
+import { getCorrelationId, withCorrelationId } from '../../../src/utils/logger';
+
+interface TestOperation {
+  run: (signal: AbortSignal) => Promise<string>;
+  release: () => void;
+  // Signal the operation was started with
+  signal?: AbortSignal;
+}
+
+/**
+ * An operation that runs until released; releasing it before it starts makes it finish right away
+ */
+function createOperation(): TestOperation {
+  let release: () => void = () => undefined;
+  const released = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const operation: TestOperation = {
+    run: async signal => {
+      operation.signal = signal;
+      await released;
+      return 'done';
+    },
+    release: () => release()
+  };
+  return operation;
+}
+
+describe('RequestScheduler', () => {
+  it('queues requests beyond the concurrency limit in order', async () => {
+    const scheduler = new RequestScheduler(() => 2);
+    const started: number[] = [];
+    const operations = [0, 1, 2, 3].map(createOperation);
+    const results = operations.map((operation, index) => scheduler.run(signal => {
+      started.push(index);
+      return operation.run(signal);
+    }));
+    await abortableDelay(0);
+
+    assert.deepEqual(started, [0, 1]);
+    assert.equal(scheduler.getActiveCount(), 2);
+    assert.equal(scheduler.getQueuedCount(), 2);
+
+    operations[1].release();
+    await results[1];
+    await abortableDelay(0);
+    assert.deepEqual(started, [0, 1, 2]);
+
+    operations.forEach(operation => operation.release());
+    assert.deepEqual(await Promise.all(results), ['done', 'done', 'done', 'done']);
+    assert.equal(scheduler.getActiveCount(), 0);
+  });
+
+  it('counts the timeout from scheduling and aborts the timed-out operation', async () => {
+    const scheduler = new RequestScheduler(() => 1);
+    const running = createOperation();
+    const queued = createOperation();
+    const first = scheduler.run(running.run, { timeout: 30 });
+    const second = scheduler.run(queued.run, { timeout: 20 });
+
+    await assert.rejects(second, TimeoutError);
+    assert.equal(queued.signal, undefined);
+    assert.equal(scheduler.getQueuedCount(), 0);
+
+    await assert.rejects(first, (error: TimeoutError) => error instanceof TimeoutError && error.context.timeout === 30);
+    assert.ok(running.signal && running.signal.aborted);
+    assert.equal(scheduler.getActiveCount(), 0);
+  });
+
+  it('releases the caller and the slot when the caller aborts', async () => {
+    const scheduler = new RequestScheduler(() => 1);
+    const controller = new AbortController();
+    const cancelled = createOperation();
+    const next = createOperation();
+    const result = scheduler.run(cancelled.run, { signal: controller.signal });
+    const following = scheduler.run(next.run);
+    await abortableDelay(0);
+
+    controller.abort();
+    await assert.rejects(result, CancelledError);
+    assert.ok(cancelled.signal && cancelled.signal.aborted);
+
+    await abortableDelay(0);
+    next.release();
+    assert.equal(await following, 'done');
+    await assert.rejects(scheduler.run(next.run, { signal: controller.signal }), CancelledError);
+  });
+
+  it('cancels every running and queued request', async () => {
+    const scheduler = new RequestScheduler(() => 1);
+    const results = [createOperation(), createOperation()].map(operation => scheduler.run(operation.run));
+
+    scheduler.cancelAll('Disconnected');
+
+    for (const result of results) {
+      await assert.rejects(result, (error: CancelledError) => error instanceof CancelledError && error.message === 'Disconnected');
+    }
+    assert.equal(scheduler.getActiveCount() + scheduler.getQueuedCount(), 0);
+  });
+
+  it('runs queued operations in their caller\'s correlation context', async () => {
+    const scheduler = new RequestScheduler(() => 1);
+    const blocking = createOperation();
+    const first = scheduler.run(blocking.run);
+    const second = withCorrelationId('request-2', () => scheduler.run(async () => getCorrelationId()));
+    await abortableDelay(0);
+
+    withCorrelationId('request-1', () => blocking.release());
+    await first;
+    assert.equal(await second, 'request-2');
+  });
+});
+
+describe('abortable delays', () => {
+  it('resolves after the delay or rejects when aborted', async () => {
+    await abortableDelay(1);
+
+    const controller = new AbortController();
+    const delay = abortableDelay(10000, controller.signal);
+    controller.abort();
+    await assert.rejects(delay, CancelledError);
+    await assert.rejects(abortableDelay(1, controller.signal), CancelledError);
+    assert.throws(() => throwIfAborted(controller.signal), CancelledError);
+    assert.doesNotThrow(() => throwIfAborted(new AbortController().signal));
+  });
+});
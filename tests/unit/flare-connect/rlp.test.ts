@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RlpDecoded, rlpDecode, rlpEncodeHex } from '../../../src/flare-connect/rlp';
+import { ValidationError, VerificationError } from '../../../src/utils/errors';
+
+const text = (value: string): string => Buffer.from(value, 'utf8').toString('hex');
+
+// Decoded byte strings as hex, lists as lists
+function toHex(item: RlpDecoded): unknown {
+  return Array.isArray(item) ? item.map(toHex) : Buffer.from(item).toString('hex');
+}
+
+const LOREM = 'Lorem ipsum dolor sit amet, consectetur adipisicing elit';
+
+describe('RLP', () => {
+  it('encodes the reference vectors', () => {
+    assert.equal(rlpEncodeHex(text('dog')), '0x83646f67');
+    assert.equal(rlpEncodeHex([text('cat'), text('dog')]), '0xc88363617483646f67');
+    assert.equal(rlpEncodeHex('0x'), '0x80');
+    assert.equal(rlpEncodeHex([]), '0xc0');
+    assert.equal(rlpEncodeHex(0), '0x80');
+    assert.equal(rlpEncodeHex(15), '0x0f');
+    assert.equal(rlpEncodeHex(1024), '0x820400');
+    assert.equal(rlpEncodeHex(BigInt('0x0100000000000000000000000000000000')), '0x910100000000000000000000000000000000');
+    assert.equal(rlpEncodeHex([[], [[]], [[], [[]]]]), '0xc7c0c1c0c3c0c1c0');
+    assert.equal(rlpEncodeHex(text(LOREM)), `0xb838${text(LOREM)}`);
+  });
+
+  it('decodes what it encodes', () => {
+    const input = [text('cat'), [text(LOREM), '0x7f', []], '0x0400'];
+
+    assert.deepEqual(toHex(rlpDecode(rlpEncodeHex(input))), ['636174', [text(LOREM), '7f', []], '0400']);
+  });
+
+  it('encodes and decodes lists longer than 55 bytes', () => {
+    const items = Array.from({ length: 20 }, () => text('dog'));
+    const encoded = rlpEncodeHex(items);
+
+    assert.equal(encoded.slice(0, 6), '0xf850');
+    assert.deepEqual(toHex(rlpDecode(encoded)), items);
+  });
+
+  it('rejects malformed data', () => {
+    assert.throws(() => rlpEncodeHex(-1), ValidationError);
+    assert.throws(() => rlpDecode('0x'), VerificationError);
+    assert.throws(() => rlpEncodeHex(-1), /negative/);
+    assert.throws(() => rlpDecode('0x'), /ended unexpectedly/);
+    assert.throws(() => rlpDecode('0x83646f'), /exceeds data/);
+    assert.throws(() => rlpDecode('0xb9'), /length prefix exceeds data/);
+    assert.throws(() => rlpDecode('0x83646f6700'), /trailing bytes/);
+    assert.throws(() => rlpDecode('0xc383646f67'), /payload length mismatch/);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { RpcEndpointPool } from '../../../src/flare-connect/rpc-endpoint-pool';
+import { LocalRpcServer } from '../../../src/flare-connect/local-rpc-server';
+import { QuorumDisagreement } from '../../../src/flare-connect/types';
+import { ConnectionError, ProviderError } from '../../../src/utils/errors';
+
+describe('RpcEndpointPool', () => {
+  const servers = [0, 1, 2].map(() => new LocalRpcServer([], 'error'));
+  let urls: string[];
+
+  before(async () => {
+    urls = await Promise.all(servers.map(server => server.start()));
+  });
+
+  after(() => Promise.all(servers.map(server => server.stop())));
+
+  function recordBalances(balances: string[]): void {
+    servers.forEach((server, index) => {
+      server.record({ method: 'eth_blockNumber', result: '0x20' });
+      server.record({ method: 'eth_getBalance', result: balances[index] });
+    });
+  }
+
+  function createPool(threshold?: number): { pool: RpcEndpointPool; reports: QuorumDisagreement[] } {
+    const pool = new RpcEndpointPool(urls.map(url => ({ url })), {
+      quorum: { enabled: true, threshold },
+      logLevel: 'error'
+    });
+    const reports: QuorumDisagreement[] = [];
+    pool.on('disagreement', (report: QuorumDisagreement) => reports.push(report));
+    return { pool, reports };
+  }
+
+  it('returns an answer all endpoints agree on, pinned below the latest block', async () => {
+    recordBalances(['0x1', '0x1', '0x1']);
+    const { pool, reports } = createPool();
+
+    assert.equal(await pool.call('eth_getBalance', ['0xa1', 'latest']), '0x1');
+
+    assert.equal(reports.length, 0);
+    const read = servers[0].getRequestLog().filter(request => request.method === 'eth_getBalance').pop();
+    assert.deepEqual(read!.params, ['0xa1', '0x1f']);
+  });
+
+  it('returns the majority answer and reports the disagreement', async () => {
+    recordBalances(['0x1', '0x2', '0x1']);
+    const { pool, reports } = createPool();
+
+    assert.equal(await pool.call('eth_getBalance', ['0xa1', 'latest']), '0x1');
+
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].method, 'eth_getBalance');
+    assert.equal(reports[0].agreeing, 2);
+    assert.equal(reports[0].reached, true);
+    assert.deepEqual(pool.getDisagreements(), reports);
+  });
+
+  it('fails when too few endpoints agree', async () => {
+    recordBalances(['0x1', '0x2', '0x3']);
+    const { pool, reports } = createPool();
+
+    await assert.rejects(pool.call('eth_getBalance', ['0xa1', 'latest']), ProviderError);
+
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].reached, false);
+    assert.equal(reports[0].agreeing, 1);
+  });
+
+  it('treats only a majority of at least two endpoints as a quorum', () => {
+    const isQuorum = (count: number, quorum: Record<string, number>) =>
+      new RpcEndpointPool(urls.slice(0, count).map(url => ({ url })), { quorum: { enabled: true, ...quorum }, logLevel: 'error' })
+        .isQuorumEnabled();
+
+    assert.equal(isQuorum(3, {}), true);
+    assert.equal(isQuorum(2, {}), true);
+    assert.equal(isQuorum(1, {}), false);
+    assert.equal(isQuorum(3, { threshold: 1 }), false);
+    assert.equal(isQuorum(3, { size: 2, threshold: 1 }), false);
+    assert.equal(isQuorum(3, { threshold: 3 }), true);
+  });
+
+  it('reads by failover when the quorum could be split', async () => {
+    recordBalances(['0x1', '0x2', '0x3']);
+    const { pool, reports } = createPool(1);
+
+    assert.equal(await pool.call('eth_getBalance', ['0xa1', 'latest']), '0x1');
+    assert.equal(reports.length, 0);
+  });
+
+  it('fails over to the next endpoint outside quorum reads', async () => {
+    const pool = new RpcEndpointPool([{ url: 'http://127.0.0.1:1', priority: 0 }, { url: urls[0], priority: 1 }], {
+      logLevel: 'error'
+    });
+    servers[0].record({ method: 'eth_chainId', result: '0xe' });
+
+    assert.equal(await pool.call('eth_chainId'), '0xe');
+    assert.equal(pool.getEndpoint(), urls[0]);
+    assert.equal(pool.getEndpointStatus()[1].consecutiveFailures, 1);
+
+    const unreachable = new RpcEndpointPool([{ url: 'http://127.0.0.1:1' }], { logLevel: 'error' });
+    await assert.rejects(unreachable.call('eth_chainId'), ConnectionError);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { keccak256Hex } from '../../../src/flare-connect/abi';
+import { KeystoreSigner, encryptKeystore, recoverDigestSigner } from '../../../src/flare-connect/signers';
+import { KeystoreFile } from '../../../src/flare-connect/types';
+import { ValidationError, VerificationError } from '../../../src/utils/errors';
+
+// Key of the EIP-155 example transaction
+const PRIVATE_KEY = `0x${'46'.repeat(32)}`;
+const ADDRESS = '0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f';
+const PASSWORD = 'correct horse battery staple';
+const PASSWORD_VARIABLE = 'SIGNERS_TEST_KEYSTORE_PASSWORD';
+// Low scrypt cost keeps the tests fast
+const SCRYPT = { scryptN: 1024, scryptR: 8, scryptP: 1 };
+
+describe('KeystoreSigner', () => {
+  let directory: string;
+  let keystore: KeystoreFile;
+
+  function writeKeystore(name: string, file: KeystoreFile): string {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, JSON.stringify(file));
+    return filePath;
+  }
+
+  before(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'signers-'));
+    keystore = await encryptKeystore(PRIVATE_KEY, PASSWORD, SCRYPT);
+  });
+
+  after(() => {
+    delete process.env[PASSWORD_VARIABLE];
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('decrypts a keystore and signs for its address', async () => {
+    const signer = await KeystoreSigner.unlock(writeKeystore('valid.json', keystore), PASSWORD);
+    const digest = keccak256Hex('message');
+
+    assert.equal(keystore.address, ADDRESS.slice(2));
+    assert.equal(await signer.getAddress(), ADDRESS);
+    assert.equal(recoverDigestSigner(digest, await signer.signDigest(digest)), ADDRESS);
+  });
+
+  it('reads the password from the environment when the key is first needed', async () => {
+    const signer = new KeystoreSigner(writeKeystore('env.json', keystore), PASSWORD_VARIABLE);
+
+    delete process.env[PASSWORD_VARIABLE];
+    await assert.rejects(signer.getAddress(), (error: ValidationError) => error.field === 'passwordEnv');
+
+    process.env[PASSWORD_VARIABLE] = PASSWORD;
+    assert.equal(await signer.getAddress(), ADDRESS);
+  });
+
+  it('rejects a wrong password and a tampered keystore', async () => {
+    const filePath = writeKeystore('tampered.json', keystore);
+    await assert.rejects(KeystoreSigner.unlock(filePath, 'wrong password'), VerificationError);
+
+    const ciphertext = keystore.crypto.ciphertext;
+    const flipped = `${ciphertext.slice(0, -1)}${ciphertext.endsWith('0') ? '1' : '0'}`;
+    await assert.rejects(
+      KeystoreSigner.unlock(writeKeystore('ciphertext.json', { ...keystore, crypto: { ...keystore.crypto, ciphertext: flipped } }), PASSWORD),
+      VerificationError
+    );
+    await assert.rejects(
+      KeystoreSigner.unlock(writeKeystore('address.json', { ...keystore, address: '00'.repeat(20) }), PASSWORD),
+      /does not hold the key/
+    );
+  });
+
+  it('refuses keystores it cannot decrypt', async () => {
+    const pbkdf2: KeystoreFile = { ...keystore, crypto: { ...keystore.crypto, kdf: 'pbkdf2' } };
+
+    await assert.rejects(KeystoreSigner.unlock(writeKeystore('pbkdf2.json', pbkdf2), PASSWORD), ValidationError);
+    await assert.rejects(KeystoreSigner.unlock(path.join(directory, 'missing.json'), PASSWORD), /Failed to read keystore/);
+    await assert.rejects(encryptKeystore('0x1234', PASSWORD, SCRYPT), (error: ValidationError) => error.field === 'privateKey');
+  });
+});
@@ -0,0 +1,602 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { StateConnectorInterface } from '../../../src/flare-connect/state-connector';
+import { LocalRpcServer } from '../../../src/flare-connect/local-rpc-server';
+import { encodeBlockHeader, encodeReceipt, encodeTransaction } from '../../../src/flare-connect/evm-state-client';
+import { orderedTrieRoot } from '../../../src/flare-connect/merkle-patricia';
+import { bytesToHex, hexToBytes, keccak256Hex } from '../../../src/flare-connect/abi';
+import { rlpEncode } from '../../../src/flare-connect/rlp';
+import { getAttestationEnvelope, signAttestation } from '../../../src/flare-connect/attestation-signing';
+import { privateKeyToAddress } from '../../../src/flare-connect/transaction';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyCallbackSignature } from '../../../src/flare-connect/callback-delivery';
+import { EpochClock } from '../../../src/flare-connect/epoch-clock';
+import { FlareSimulator } from '../../../src/flare-connect/simulator';
+import { AttestationResponse, StateConnectorSpecificConfig, StateQueryCallback, StateQueryRecord, StateQueryRequest } from '../../../src/flare-connect/types';
+import { ValidationError, VerificationError } from '../../../src/utils/errors';
+
+const EMPTY_TRIE_ROOT = '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421';
+const EMPTY_CODE_HASH = '0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470';
+const ADDRESS = '0x00000000000000000000000000000000000000a1';
+
+// EIP-155 example transaction, signed with key 0x4646...46
+const TRANSACTION = {
+  hash: '0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788',
+  type: '0x0',
+  nonce: '0x9',
+  gasPrice: '0x4a817c800',
+  gas: '0x5208',
+  to: '0x3535353535353535353535353535353535353535',
+  value: '0xde0b6b3a7640000',
+  input: '0x',
+  v: '0x25',
+  r: '0x28ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276',
+  s: '0x67cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83'
+};
+
+function createReceipt(transactionHash: string, status = '0x1') {
+  return {
+    transactionHash,
+    transactionIndex: '0x0',
+    blockHash: '',
+    blockNumber: '0x10',
+    type: '0x0',
+    status,
+    cumulativeGasUsed: '0x5208',
+    logsBloom: `0x${'00'.repeat(256)}`,
+    logs: []
+  };
+}
+
+/**
+ * A block whose state trie holds only ADDRESS, and the `eth_getProof` answer for it
+ */
+function createAccountFixture(stateRootOverride?: string, transactions: Array<Record<string, string>> = []) {
+  const account = rlpEncode([1, BigInt(5000), EMPTY_TRIE_ROOT, EMPTY_CODE_HASH]);
+  const leaf = rlpEncode([hexToBytes(`20${keccak256Hex(hexToBytes(ADDRESS.slice(2))).slice(2)}`), account]);
+  const block: Record<string, string> = {
+    parentHash: `0x${'11'.repeat(32)}`,
+    sha3Uncles: '0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347',
+    miner: `0x${'00'.repeat(20)}`,
+    stateRoot: keccak256Hex(leaf),
+    transactionsRoot: orderedTrieRoot(transactions.map(transaction => encodeTransaction(transaction))),
+    receiptsRoot: orderedTrieRoot(transactions.map(transaction => encodeReceipt(createReceipt(transaction.hash)))),
+    logsBloom: `0x${'00'.repeat(256)}`,
+    difficulty: '0x0',
+    number: '0x10',
+    gasLimit: '0x1c9c380',
+    gasUsed: '0x0',
+    timestamp: '0x64',
+    extraData: '0x',
+    mixHash: `0x${'00'.repeat(32)}`,
+    nonce: '0x0000000000000000',
+    baseFeePerGas: '0x7'
+  };
+  block.hash = keccak256Hex(encodeBlockHeader(block));
+  (block as Record<string, unknown>).transactions = transactions;
+  if (stateRootOverride) {
+    block.stateRoot = stateRootOverride;
+  }
+  const proof = {
+    address: ADDRESS,
+    nonce: '0x1',
+    balance: '0x1388',
+    storageHash: EMPTY_TRIE_ROOT,
+    codeHash: EMPTY_CODE_HASH,
+    accountProof: [`0x${bytesToHex(leaf)}`],
+    storageProof: []
+  };
+  return { block, proof };
+}
+
+describe('StateConnectorInterface', () => {
+  const server = new LocalRpcServer([], 'error');
+  let endpoint: string;
+
+  before(async () => {
+    endpoint = await server.start();
+  });
+
+  after(() => server.stop());
+
+  function createConnector(endpoints: string | string[] = endpoint, quorum = false, threshold?: number): StateConnectorInterface {
+    return new StateConnectorInterface({
+      endpoint: 'http://127.0.0.1:1',
+      apiKey: '',
+      stateConnectorConfig: { chainEndpoints: { ethereum: endpoints } },
+      quorum: { enabled: quorum, threshold },
+      logLevel: 'error'
+    });
+  }
+
+  function recordAccount(target: LocalRpcServer, stateRootOverride?: string): string {
+    const { block, proof } = createAccountFixture(stateRootOverride, [TRANSACTION]);
+    target.record({ method: 'eth_getBlockByNumber', result: block });
+    target.record({ method: 'eth_getProof', result: proof });
+    return block.hash;
+  }
+
+  it('probes the external chain endpoints for its status', async () => {
+    server.record({ method: 'eth_blockNumber', result: '0x10' });
+    const connector = createConnector();
+    await connector.connect();
+
+    const status = await connector.getStatus();
+
+    assert.equal(status.connected, true);
+    assert.equal(typeof status.latency, 'number');
+    assert.equal(status.error, undefined);
+    assert.ok(server.getRequestLog().some(request => request.method === 'eth_blockNumber'));
+    await connector.disconnect();
+  });
+
+  it('reports a failing external chain endpoint', async () => {
+    server.record({ method: 'eth_blockNumber', error: { code: -32000, message: 'node is syncing' } });
+    const connector = createConnector();
+    await connector.connect();
+
+    const status = await connector.getStatus();
+
+    assert.equal(status.connected, true);
+    assert.ok(status.error);
+    await connector.disconnect();
+  });
+
+  it('requires a trusted block hash for a single endpoint', async () => {
+    recordAccount(server);
+    const connector = createConnector();
+    await connector.connect();
+
+    await assert.rejects(connector.getExternalState('ethereum', ADDRESS), ValidationError);
+    await connector.disconnect();
+  });
+
+  it('requires a trusted block hash when the quorum threshold is a single endpoint', async () => {
+    const connector = createConnector([endpoint, endpoint], true, 1);
+    await connector.connect();
+
+    await assert.rejects(connector.getExternalState('ethereum', ADDRESS),
+      (error: ValidationError) => error instanceof ValidationError && error.field === 'trustedBlockHash');
+    await connector.disconnect();
+  });
+
+  it('verifies the account against a header with the trusted hash', async () => {
+    const blockHash = recordAccount(server);
+    const connector = createConnector();
+    await connector.connect();
+
+    const result = await connector.getExternalState('ethereum', ADDRESS, { trustedBlockHash: blockHash });
+
+    assert.equal(result.state.balance, '5000');
+    assert.equal(result.proof.blockHeight, 16);
+    assert.equal(result.metadata.verified, true);
+    assert.equal(connector.verifyStateProof(result, blockHash).valid, true);
+    await connector.disconnect();
+  });
+
+  it('rejects a block hash other than the trusted one', async () => {
+    recordAccount(server);
+    const connector = createConnector();
+    await connector.connect();
+
+    await assert.rejects(
+      connector.getExternalState('ethereum', ADDRESS, { trustedBlockHash: `0x${'22'.repeat(32)}` }),
+      VerificationError
+    );
+    await connector.disconnect();
+  });
+
+  it('rejects a state root that is not in the header', async () => {
+    const { block: honest } = createAccountFixture(undefined, [TRANSACTION]);
+    const blockHash = recordAccount(server, `0x${'33'.repeat(32)}`);
+    assert.equal(blockHash, honest.hash);
+    const connector = createConnector();
+    await connector.connect();
+
+    await assert.rejects(connector.getExternalState('ethereum', ADDRESS, { trustedBlockHash: blockHash }), VerificationError);
+    await connector.disconnect();
+  });
+
+  it('trusts the block hash agreed by a quorum of endpoints', async () => {
+    const second = new LocalRpcServer([], 'error');
+    const secondEndpoint = await second.start();
+    try {
+      [server, second].forEach(target => {
+        target.record({ method: 'eth_blockNumber', result: '0x10' });
+        recordAccount(target);
+      });
+      const connector = createConnector([endpoint, secondEndpoint], true);
+      await connector.connect();
+
+      const result = await connector.getExternalState('ethereum', ADDRESS);
+
+      assert.equal(result.metadata.verified, true);
+      await connector.disconnect();
+    } finally {
+      await second.stop();
+    }
+  });
+
+  describe('attested queries', () => {
+    function recordTransaction(receiptStatus = '0x1'): string {
+      const blockHash = recordAccount(server);
+      server.record({ method: 'eth_blockNumber', result: '0x11' });
+      server.record({ method: 'eth_getBlockReceipts', result: [{ ...createReceipt(TRANSACTION.hash), blockHash }] });
+      server.record({
+        method: 'eth_getTransactionReceipt',
+        result: { ...createReceipt(TRANSACTION.hash, receiptStatus), blockHash }
+      });
+      return blockHash;
+    }
+
+    it('proves a transaction and its receipt against the block', async () => {
+      const blockHash = recordTransaction();
+      const connector = createConnector();
+      await connector.connect();
+
+      const response = await connector.queryStateWithAttestation({
+        blockchain: 'ethereum',
+        address: TRANSACTION.to,
+        queryType: 'TRANSACTION_VERIFICATION',
+        queryData: { transactionHash: TRANSACTION.hash, trustedBlockHash: blockHash, minConfirmations: 2 }
+      });
+
+      assert.deepEqual(response.responseData, {
+        transactionHash: TRANSACTION.hash,
+        blockHeight: 16,
+        blockHash,
+        transactionIndex: 0,
+        status: 'CONFIRMED',
+        succeeded: true,
+        confirmations: 2,
+        requiredConfirmations: 2,
+        verified: true
+      });
+      assert.deepEqual(response.attestation.signatures, []);
+      assert.equal(response.metadata.attestationSchema, 'EVM_TRANSACTION_PROOF_V1');
+      await connector.disconnect();
+    });
+
+    it('marks a receipt that is not in the block as invalid', async () => {
+      const blockHash = recordTransaction('0x0');
+      const connector = createConnector();
+      await connector.connect();
+
+      const response = await connector.queryStateWithAttestation({
+        blockchain: 'ethereum',
+        address: TRANSACTION.to,
+        queryType: 'TRANSACTION_VERIFICATION',
+        queryData: { transactionHash: TRANSACTION.hash, trustedBlockHash: blockHash }
+      });
+
+      assert.equal(response.responseData.status, 'INVALID');
+      assert.equal(response.responseData.verified, false);
+      assert.deepEqual(response.responseData.errors, ['Receipt does not match the block receipts']);
+      await connector.disconnect();
+    });
+
+    it('keeps a transaction without a receipt pending', async () => {
+      const blockHash = recordTransaction();
+      server.record({ method: 'eth_getTransactionReceipt', result: null });
+      const connector = createConnector();
+      await connector.connect();
+
+      const response = await connector.queryStateWithAttestation({
+        blockchain: 'ethereum',
+        address: TRANSACTION.to,
+        queryType: 'TRANSACTION_VERIFICATION',
+        queryData: { transactionHash: TRANSACTION.hash, trustedBlockHash: blockHash }
+      });
+
+      assert.equal(response.responseData.status, 'PENDING');
+      await connector.disconnect();
+    });
+
+    it('answers account state from a verified state proof', async () => {
+      const blockHash = recordAccount(server);
+      const connector = createConnector();
+      await connector.connect();
+
+      const response = await connector.queryStateWithAttestation({
+        blockchain: 'ethereum',
+        address: ADDRESS,
+        queryType: 'ACCOUNT_STATE',
+        queryData: { trustedBlockHash: blockHash }
+      });
+
+      assert.equal(response.responseData.balance, '5000');
+      assert.equal(response.responseData.blockHash, blockHash);
+      assert.equal(response.responseData.verified, true);
+      assert.equal(response.metadata.attestationSchema, 'EVM_STATE_PROOF_V1');
+      await connector.disconnect();
+    });
+
+    it('rejects queries it cannot prove', async () => {
+      recordAccount(server);
+      const connector = createConnector();
+      await connector.connect();
+
+      await assert.rejects(connector.queryStateWithAttestation({
+        blockchain: 'ethereum',
+        address: ADDRESS,
+        queryType: 'TRANSACTION_VERIFICATION',
+        queryData: { transactionHash: TRANSACTION.hash }
+      }), ValidationError);
+      await assert.rejects(connector.queryStateWithAttestation({
+        blockchain: 'ethereum',
+        address: ADDRESS,
+        queryType: 'CONTRACT_CALL',
+        queryData: {}
+      }), ValidationError);
+      await connector.disconnect();
+    });
+
+    it('refuses to verify Bitcoin transactions without a trusted checkpoint', async () => {
+      const connector = new StateConnectorInterface({
+        endpoint: 'http://127.0.0.1:1',
+        apiKey: '',
+        stateConnectorConfig: { spvEndpoints: { 'btc-mainnet': 'http://127.0.0.1:1' } },
+        logLevel: 'error'
+      });
+      await connector.connect();
+
+      await assert.rejects(connector.queryStateWithAttestation({
+        blockchain: 'bitcoin',
+        address: '',
+        queryType: 'TRANSACTION_VERIFICATION',
+        queryData: { transactionHash: '11'.repeat(32) }
+      }), (error: ValidationError) => error instanceof ValidationError && error.field === 'stateConnectorConfig.spvCheckpoints');
+      await connector.disconnect();
+    });
+  });
+
+  describe('attestation verification', () => {
+    const KEYS = ['46', '47', '48'].map(byte => `0x${byte.repeat(32)}`);
+    const SIGNERS = KEYS.map(privateKeyToAddress);
+
+    function createAttestation(keys: string[], overrides: Partial<AttestationResponse> = {}): AttestationResponse {
+      const now = Date.now();
+      const response: AttestationResponse = {
+        requestId: 'req-1',
+        blockchain: 'ethereum',
+        address: ADDRESS,
+        queryData: { transactionHash: TRANSACTION.hash },
+        responseData: { status: 'CONFIRMED', confirmations: 12 },
+        attestation: { signatures: [], timestamp: now, validUntil: now + 60000 },
+        metadata: { responseTime: 1, source: 'test', attestationSchema: 'TEST_V1' },
+        ...overrides
+      };
+      const envelope = getAttestationEnvelope(response);
+      response.attestation.signatures = keys.map(key => ({
+        signer: privateKeyToAddress(key),
+        signature: signAttestation(envelope, key)
+      }));
+      return response;
+    }
+
+    async function verify(attestation: AttestationResponse, attestationThreshold?: number) {
+      const connector = new StateConnectorInterface({
+        endpoint: 'http://127.0.0.1:1',
+        apiKey: '',
+        stateConnectorConfig: { trustedSigners: SIGNERS.map(address => ({ address })), attestationThreshold },
+        logLevel: 'error'
+      });
+      await connector.connect();
+      try {
+        return await connector.verifyAttestation(attestation);
+      } finally {
+        await connector.disconnect();
+      }
+    }
+
+    it('accepts signatures from enough trusted signers', async () => {
+      const result = await verify(createAttestation(KEYS.slice(0, 2)), 0.6);
+
+      assert.equal(result.valid, true);
+      assert.deepEqual(result.validSigners, SIGNERS.slice(0, 2));
+      assert.equal(result.validWeight, 2);
+      assert.ok(Math.abs(result.requiredWeight - 1.8) < 1e-9);
+      assert.equal((await verify(createAttestation(KEYS.slice(0, 2)))).valid, false);
+    });
+
+    it('gives unknown and duplicate signers no weight', async () => {
+      const stranger = `0x${'49'.repeat(32)}`;
+      const attestation = createAttestation([KEYS[0], KEYS[0], stranger]);
+
+      const result = await verify(attestation);
+
+      assert.equal(result.valid, false);
+      assert.equal(result.validWeight, 1);
+      assert.deepEqual(result.duplicateSigners, [SIGNERS[0]]);
+      assert.deepEqual(result.unknownSigners, [privateKeyToAddress(stranger)]);
+      assert.match(result.error!, /Insufficient signer weight/);
+    });
+
+    it('rejects a signature whose claimed signer did not sign', async () => {
+      const attestation = createAttestation(KEYS.slice(0, 2));
+      attestation.attestation.signatures[1].signer = SIGNERS[2];
+
+      const result = await verify(attestation);
+
+      assert.equal(result.valid, false);
+      assert.equal(result.invalidSignatures.length, 1);
+      assert.equal(result.invalidSignatures[0].recoveredSigner, SIGNERS[1]);
+    });
+
+    it('reports an expired attestation', async () => {
+      const result = await verify(createAttestation(KEYS, {
+        attestation: { signatures: [], timestamp: Date.now() - 2000, validUntil: Date.now() - 1000 }
+      }));
+
+      assert.equal(result.valid, false);
+      assert.equal(result.expired, true);
+      assert.equal(result.error, 'Attestation has expired');
+    });
+
+    it('covers the validity period and the query with the signatures', async () => {
+      const extended = createAttestation(KEYS);
+      extended.attestation.validUntil += 60 * 60 * 1000;
+      const replayed = createAttestation(KEYS);
+      replayed.address = TRANSACTION.to;
+
+      for (const attestation of [extended, replayed]) {
+        const result = await verify(attestation);
+        assert.equal(result.valid, false);
+        assert.equal(result.validWeight, 0);
+      }
+    });
+
+    it('refuses a threshold that is not positive', async () => {
+      for (const threshold of [-1, 0, NaN]) {
+        await assert.rejects(verify(createAttestation([]), threshold),
+          (error: ValidationError) => error.field === 'stateConnectorConfig.attestationThreshold');
+      }
+    });
+  });
+
+  describe('asynchronous queries', () => {
+    const SECRET = 'callback-secret';
+    const QUERY: StateQueryRequest = {
+      blockchain: 'ethereum',
+      address: ADDRESS,
+      queryType: 'TRANSACTION_VERIFICATION',
+      queryData: { transactionHash: TRANSACTION.hash }
+    };
+    const callbacks: Array<{ body: string; timestamp: number; signature: string }> = [];
+    let callbackStatus = 200;
+    let callbackUrl: string;
+    const receiver = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => {
+        body += chunk;
+      });
+      request.on('end', () => {
+        callbacks.push({
+          body,
+          timestamp: Number(request.headers[TIMESTAMP_HEADER.toLowerCase()]),
+          signature: String(request.headers[SIGNATURE_HEADER.toLowerCase()])
+        });
+        response.statusCode = callbackStatus;
+        response.end();
+      });
+    });
+    const connectors: StateConnectorInterface[] = [];
+
+    before(() => new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', () => {
+      callbackUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/callback`;
+      resolve();
+    })));
+
+    after(async () => {
+      await Promise.all(connectors.map(connector => connector.disconnect()));
+      await new Promise(resolve => receiver.close(resolve));
+    });
+
+    // Simulated attesters keep a transaction PENDING for `delayRounds` epochs of 300ms
+    async function createQueryConnector(
+      delayRounds: number,
+      config: StateConnectorSpecificConfig = {}
+    ): Promise<StateConnectorInterface> {
+      const epochClock = new EpochClock({ firstEpochStartTimestamp: 0, epochDuration: 300, revealDeadlineOffset: 150 });
+      const connector = new StateConnectorInterface({
+        endpoint: 'simulation',
+        apiKey: '',
+        stateConnectorConfig: { queryPollInterval: 50, ...config },
+        simulator: new FlareSimulator({ attestation: { delayRounds } }, { epochClock, logLevel: 'error' }),
+        epochClock,
+        logLevel: 'error'
+      });
+      await connector.connect();
+      connectors.push(connector);
+      return connector;
+    }
+
+    async function waitForQuery(
+      connector: StateConnectorInterface,
+      requestId: string,
+      done: (record: StateQueryRecord) => boolean
+    ): Promise<StateQueryRecord[]> {
+      const seen: StateQueryRecord[] = [];
+      const deadline = Date.now() + 5000;
+      while (Date.now() < deadline) {
+        const record = connector.getQueryStatus(requestId)!;
+        seen.push(record);
+        if (done(record)) {
+          return seen;
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      throw new Error(`Query ${requestId} did not settle`);
+    }
+
+    it('polls a pending query until its response is final', async () => {
+      const connector = await createQueryConnector(1);
+
+      const submitted = connector.submitStateQuery(QUERY);
+      const seen = await waitForQuery(connector, submitted.requestId, record => record.status === 'FINALIZED');
+
+      assert.equal(submitted.status, 'QUEUED');
+      assert.ok(seen.some(record => record.status === 'WAITING' && record.response!.responseData.status === 'PENDING'));
+      const record = seen[seen.length - 1];
+      assert.ok(record.checks >= 2, `${record.checks} checks`);
+      assert.equal(record.response!.responseData.status, 'CONFIRMED');
+      assert.equal(record.nextCheckAt, undefined);
+      assert.equal(connector.getQueryStatus('query-unknown'), undefined);
+    });
+
+    it('fails a query that does not finalize within the query timeout', async () => {
+      const connector = await createQueryConnector(1000, { queryTimeout: 120 });
+
+      const { requestId } = connector.submitStateQuery(QUERY);
+      const seen = await waitForQuery(connector, requestId, record => record.status === 'FAILED');
+
+      const record = seen[seen.length - 1];
+      assert.match(record.error!, /did not finalize within 120ms \(status PENDING\)/);
+      assert.equal(record.response!.responseData.status, 'PENDING');
+    });
+
+    it('delivers the outcome to the callback URL, signed with the callback secret', async () => {
+      const connector = await createQueryConnector(0, { callbackSecret: SECRET });
+      callbacks.length = 0;
+      callbackStatus = 200;
+
+      const { requestId } = connector.submitStateQuery({ ...QUERY, callbackUrl });
+      const seen = await waitForQuery(connector, requestId, record => record.callback!.status !== 'PENDING');
+
+      assert.equal(seen[seen.length - 1].callback!.status, 'DELIVERED');
+      assert.equal(callbacks.length, 1);
+      const { body, timestamp, signature } = callbacks[0];
+      assert.equal(verifyCallbackSignature(body, timestamp, signature, SECRET), true);
+      const payload: StateQueryCallback = JSON.parse(body);
+      assert.equal(payload.requestId, requestId);
+      assert.equal(payload.status, 'FINALIZED');
+      assert.equal(payload.response!.responseData.status, 'CONFIRMED');
+    });
+
+    it('retries a failing callback up to callbackMaxAttempts', async () => {
+      const connector = await createQueryConnector(0, { callbackSecret: SECRET, callbackMaxAttempts: 3, callbackRetryDelay: 10 });
+      callbacks.length = 0;
+      callbackStatus = 503;
+
+      const { requestId } = connector.submitStateQuery({ ...QUERY, callbackUrl });
+      const seen = await waitForQuery(connector, requestId, record => record.callback!.status !== 'PENDING');
+
+      const { callback } = seen[seen.length - 1];
+      assert.equal(callback!.status, 'FAILED');
+      assert.equal(callback!.attempts, 3);
+      assert.equal(callback!.error, 'HTTP 503');
+      assert.equal(callbacks.length, 3);
+    });
+
+    it('refuses a callback without a secret to sign it or with a malformed URL', async () => {
+      const unsigned = await createQueryConnector(0);
+      const signed = await createQueryConnector(0, { callbackSecret: SECRET });
+
+      assert.throws(() => unsigned.submitStateQuery({ ...QUERY, callbackUrl }),
+        (error: ValidationError) => error.field === 'stateConnectorConfig.callbackSecret');
+      assert.throws(() => signed.submitStateQuery({ ...QUERY, callbackUrl: 'ftp://127.0.0.1/callback' }),
+        (error: ValidationError) => error.field === 'callbackUrl');
+    });
+  });
+});
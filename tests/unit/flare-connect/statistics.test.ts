@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  inverseNormalCdf,
+  logReturns,
+  normalCdf,
+  standardDeviation,
+  weightedMedian,
+  weightedQuantile
+} from '../../../src/flare-connect/statistics';
+import { ValidationError } from '../../../src/utils/errors';
+
+function assertClose(actual: number, expected: number, tolerance: number): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+}
+
+function invalid(field: string) {
+  return (error: any) => error instanceof ValidationError && error.context.field === field;
+}
+
+describe('weightedQuantile', () => {
+  const values = [
+    { value: 103, weight: 1 },
+    { value: 100, weight: 2 },
+    { value: 120, weight: 1 },
+    { value: 101, weight: 4 }
+  ];
+
+  it('takes the smallest value whose cumulative weight reaches the quantile', () => {
+    // Sorted cumulative weights: 100 -> 2, 101 -> 6, 103 -> 7, 120 -> 8
+    assert.equal(weightedQuantile(values, 0.25), 100);
+    assert.equal(weightedQuantile(values, 0.26), 101);
+    assert.equal(weightedQuantile(values, 0.75), 101);
+    assert.equal(weightedQuantile(values, 0.8), 103);
+    assert.equal(weightedMedian(values), 101);
+  });
+
+  it('spans the whole set at the extremes and ignores zero weights', () => {
+    const withZero = values.concat({ value: 50, weight: 0 });
+
+    assert.equal(weightedQuantile(withZero, 0), 100);
+    assert.equal(weightedQuantile(withZero, 1), 120);
+    assert.equal(weightedQuantile([{ value: 7, weight: 0.5 }], 0.5), 7);
+  });
+
+  it('does not reorder the values it is given', () => {
+    const copy = values.map(entry => ({ ...entry }));
+    weightedQuantile(values, 0.5);
+    assert.deepEqual(values, copy);
+  });
+
+  it('rejects empty sets, sets without weight and quantiles outside [0, 1]', () => {
+    assert.throws(() => weightedQuantile([], 0.5), invalid('values'));
+    assert.throws(() => weightedQuantile([{ value: 1, weight: 0 }], 0.5), invalid('values'));
+    [-0.1, 1.1, NaN].forEach(q => assert.throws(() => weightedQuantile(values, q), invalid('q')));
+  });
+});
+
+describe('inverseNormalCdf', () => {
+  it('matches tabulated quantiles of the standard normal distribution', () => {
+    assert.equal(inverseNormalCdf(0.5), 0);
+    assertClose(inverseNormalCdf(0.75), 0.6744897502, 1e-8);
+    assertClose(inverseNormalCdf(0.975), 1.9599639845, 1e-8);
+    assertClose(inverseNormalCdf(0.995), 2.5758293035, 1e-8);
+    // Below and above the central region of the approximation
+    assertClose(inverseNormalCdf(0.01), -2.3263478740, 1e-8);
+    assertClose(inverseNormalCdf(0.001), -3.0902323062, 1e-8);
+    assertClose(inverseNormalCdf(1e-9), -5.9978070151, 1e-7);
+  });
+
+  it('is symmetric around the median and inverts normalCdf', () => {
+    [0.001, 0.02, 0.1, 0.3, 0.6, 0.9, 0.99].forEach(p => {
+      assertClose(inverseNormalCdf(p), -inverseNormalCdf(1 - p), 1e-9);
+      assertClose(normalCdf(inverseNormalCdf(p)), p, 1e-7);
+    });
+  });
+
+  it('rejects probabilities outside (0, 1)', () => {
+    [0, 1, -0.5, 2, NaN].forEach(p => {
+      assert.throws(() => inverseNormalCdf(p), invalid('p'));
+    });
+  });
+});
+
+describe('volatility helpers', () => {
+  it('computes log returns between positive values only', () => {
+    const returns = logReturns([100, 110, 0, 121, 121]);
+
+    assert.equal(returns.length, 2);
+    assertClose(returns[0], Math.log(1.1), 1e-12);
+    assert.equal(returns[1], 0);
+  });
+
+  it('computes the sample standard deviation', () => {
+    assert.equal(standardDeviation([]), 0);
+    assert.equal(standardDeviation([5]), 0);
+    assertClose(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9]), Math.sqrt(32 / 7), 1e-12);
+  });
+});
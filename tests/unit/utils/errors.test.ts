@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ConnectionError,
+  LucentIQError,
+  ProviderError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+  fromHttpError,
+  toGraphQLError,
+  toRestError,
+  wrapError
+} from '../../../src/utils/errors';
+
+// The shape of a failed axios request
+function httpError(options: { status?: number; code?: string; headers?: Record<string, string> } = {}) {
+  const error: any = new Error(options.status ? `Request failed with status code ${options.status}` : 'socket hang up');
+  error.isAxiosError = true;
+  error.code = options.code;
+  error.config = { baseURL: 'https://api.example.com', url: '/v1/prices' };
+  if (options.status !== undefined) {
+    error.response = { status: options.status, headers: options.headers || {} };
+  }
+  return error;
+}
+
+describe('fromHttpError', () => {
+  it('classifies rate limiting with the wait the service asked for', () => {
+    const error = fromHttpError(httpError({ status: 429, headers: { 'retry-after': '3' } }), { source: 'prices' });
+
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(error.retryAfter, 3000);
+    assert.equal(error.retryable, true);
+    assert.deepEqual(error.context, { url: 'https://api.example.com/v1/prices', status: 429, source: 'prices', retryAfter: 3000 });
+  });
+
+  it('classifies error statuses as provider errors, retryable for 5xx', () => {
+    const unavailable = fromHttpError(httpError({ status: 503 }));
+    const notFound = fromHttpError(httpError({ status: 404 }));
+
+    assert.ok(unavailable instanceof ProviderError);
+    assert.equal(unavailable.retryable, true);
+    assert.ok(notFound instanceof ProviderError);
+    assert.equal(notFound.retryable, false);
+    assert.equal(notFound.context.status, 404);
+  });
+
+  it('classifies requests without a response as timeouts or connection errors', () => {
+    const timedOut = fromHttpError(httpError({ code: 'ECONNABORTED' }));
+    const refused = fromHttpError(httpError({ code: 'ECONNREFUSED' }));
+
+    assert.ok(timedOut instanceof TimeoutError);
+    assert.ok(refused instanceof ConnectionError);
+    assert.equal(refused.retryable, true);
+    assert.equal(refused.context.status, undefined);
+  });
+});
+
+describe('wrapError', () => {
+  it('explains a failure while keeping its class, code and retryability', () => {
+    const cause = new TimeoutError('No response after 5000ms', { context: { endpoint: 'primary' } });
+
+    const wrapped = wrapError(cause, 'Failed to get latest prices', { symbols: ['BTC'] });
+
+    assert.ok(wrapped instanceof TimeoutError);
+    assert.equal(wrapped.message, 'Failed to get latest prices: No response after 5000ms');
+    assert.equal(wrapped.retryable, true);
+    assert.deepEqual(wrapped.context, { endpoint: 'primary', symbols: ['BTC'] });
+    assert.equal(wrapped.cause, cause);
+    assert.deepEqual(wrapped.getCauseChain(), [wrapped, cause]);
+  });
+
+  it('classifies unclassified causes, including failed HTTP requests', () => {
+    const internal = wrapError(new Error('undefined is not a function'), 'Failed to score providers');
+    const http = wrapError(httpError({ status: 502 }), 'Failed to fetch prices');
+
+    assert.equal(internal.constructor, LucentIQError);
+    assert.equal(internal.code, 'INTERNAL_ERROR');
+    assert.equal(internal.retryable, false);
+    assert.ok(http instanceof ProviderError);
+    assert.equal(http.retryable, true);
+    assert.equal(http.context.status, 502);
+  });
+});
+
+describe('API error mapping', () => {
+  it('maps validation errors to 400 with the offending field', () => {
+    const error = wrapError(new ValidationError('Unknown asset DOGE', { context: { field: 'symbol' } }), 'Invalid request');
+
+    assert.deepEqual(toRestError(error), {
+      status: 400,
+      body: { error: { code: 'VALIDATION_ERROR', message: 'Invalid request: Unknown asset DOGE', retryable: false, field: 'symbol' } }
+    });
+    assert.deepEqual(toGraphQLError(error), {
+      message: 'Invalid request: Unknown asset DOGE',
+      extensions: { code: 'VALIDATION_ERROR', httpStatus: 400, retryable: false, field: 'symbol' }
+    });
+  });
+
+  it('tells clients how long to wait when rate limited', () => {
+    const error = new RateLimitError('Too many requests', { context: { retryAfter: 1500, url: 'https://api.example.com' } });
+
+    assert.deepEqual(toRestError(error).body.error, { code: 'RATE_LIMITED', message: 'Too many requests', retryable: true, retryAfter: 1500 });
+    assert.equal(toGraphQLError(error).extensions.retryAfter, 1500);
+  });
+
+  it('hides the message of internal errors', () => {
+    const error = new Error('Cannot read properties of undefined (reading \'price\')');
+
+    assert.deepEqual(toRestError(error), {
+      status: 500,
+      body: { error: { code: 'INTERNAL_ERROR', message: 'Internal error', retryable: false } }
+    });
+    assert.equal(toGraphQLError(error).message, 'Internal error');
+    assert.equal(toGraphQLError(error).extensions.httpStatus, 500);
+  });
+
+  it('maps timeouts and unavailable upstreams to gateway statuses', () => {
+    assert.equal(toRestError(new TimeoutError('No response')).status, 504);
+    assert.equal(toGraphQLError(fromHttpError(httpError({ status: 500 }))).extensions.httpStatus, 502);
+    assert.equal(toRestError(new ConnectionError('Endpoint unreachable')).body.error.retryable, true);
+  });
+});